@@ -1,15 +1,34 @@
-import React, { useCallback, useEffect, useState } from 'react';
-import { BookOpen, Key, ArrowRight, RotateCcw, RefreshCw, AlertCircle, Library as LibraryIcon, Bug, X } from 'lucide-react';
-import { AppMode, FileData, ImageModelPreference, Option, Publisher, StoryAssets, StoryManifest, StoryMetadata, StoryPack, StyleReferenceAsset } from './types';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { BookOpen, BookOpenText, Key, ArrowRight, RotateCcw, RefreshCw, AlertCircle, Library as LibraryIcon, Bug, X, UserRound, BarChart3, Languages } from 'lucide-react';
+import { AppMode, ChildProfile, FileData, ImageModelPreference, Option, PipelineTimings, Publisher, SpeechSettings, StoryAssets, StoryLanguage, StoryManifest, StoryMetadata, StoryPack, StyleReferenceAsset } from './types';
 import { USE_BACKEND_PIPELINE } from './services/apiClient';
 import RecordButton from './components/RecordButton';
+import TypedQuestionInput from './components/TypedQuestionInput';
+import QuestionBankPicker from './components/QuestionBankPicker';
+import ReadAlongReader from './components/ReadAlongReader';
 import OptionCard from './components/OptionCard';
+import CaregiverReviewPanel from './components/CaregiverReviewPanel';
 import SetupPanel, { ExistingSetupUpdatePayload } from './components/SetupPanel';
 import ProcessingSteps from './components/ProcessingSteps';
 import Library from './components/Library';
+import ChildProfilePicker from './components/ChildProfilePicker';
+import ProgressDashboard from './components/ProgressDashboard';
 import { useLibrary } from './hooks/useLibrary';
+import { useChildProfiles } from './hooks/useChildProfiles';
 import { useStorySetup } from './hooks/useStorySetup';
 import { useTurnPipeline } from './hooks/useTurnPipeline';
+import { useSwitchScanning } from './hooks/useSwitchScanning';
+import { useReadAlong } from './hooks/useReadAlong';
+import { normalizeSwitchAccess } from './features/session/switchScanning';
+import { normalizeChoiceCount } from './shared/choices.js';
+import { normalizeSpeechSettings } from './shared/speech.js';
+import {
+  DEFAULT_STORY_LANGUAGE,
+  getTextDirection,
+  normalizeStoryLanguage,
+  resolveSessionTtsLanguageCode,
+  STORY_LANGUAGE_LABELS
+} from './shared/language.js';
 
 interface SetupViewState {
   storyId?: string;
@@ -23,6 +42,16 @@ interface SetupViewState {
   storyPack?: StoryPack | null;
 }
 
+type CardStepTiming = NonNullable<PipelineTimings['cardStepMsById']>[string];
+
+const OPTION_GRID_COLUMNS: Record<number, string> = {
+  2: 'sm:grid-cols-2',
+  3: 'sm:grid-cols-3',
+  4: 'sm:grid-cols-2 lg:grid-cols-4',
+  5: 'sm:grid-cols-3 lg:grid-cols-5',
+  6: 'sm:grid-cols-3'
+};
+
 const App: React.FC = () => {
   const [hasApiKey, setHasApiKey] = useState(USE_BACKEND_PIPELINE);
   const [currentMode, setCurrentMode] = useState<AppMode>(AppMode.LIBRARY);
@@ -30,21 +59,39 @@ const App: React.FC = () => {
   const [showAiDebug, setShowAiDebug] = useState(false);
   const [expandedDebugImage, setExpandedDebugImage] = useState<{ src: string; label?: string } | null>(null);
   const [imageModelPreference, setImageModelPreference] = useState<ImageModelPreference>('nano-banana-pro');
+  const [showProfilePicker, setShowProfilePicker] = useState(false);
+  const [isReadAlongOpen, setIsReadAlongOpen] = useState(false);
+  const [sessionLanguage, setSessionLanguage] = useState<StoryLanguage>(DEFAULT_STORY_LANGUAGE);
   const buildCommit = (__APP_COMMIT_SHA__ || 'local-dev').slice(0, 7);
   const buildLabel = `${__APP_REPO_SLUG__}@${buildCommit}`;
 
   const {
     stories,
     publishers,
+    searchIndex,
     activeManifest,
     activeAssets,
     selectStory,
     saveNewStory,
     deleteStory,
     createPublisher,
-    updatePublisherImage
+    updatePublisherImage,
+    exportStory,
+    exportPublisher,
+    importBundle
   } = useLibrary();
-  const { prepareStory } = useStorySetup();
+  const { prepareStory, buildQuestionBank, recognizePageText } = useStorySetup();
+  const { profiles, activeChild, setActiveChild, createProfile, updateProfile, deleteProfile } = useChildProfiles();
+  const choiceCount = normalizeChoiceCount(activeChild?.choiceCount);
+  const optionTextDirection = getTextDirection(sessionLanguage) as 'ltr' | 'rtl';
+  const sessionSpeech = useMemo(() => ({
+    ...normalizeSpeechSettings(activeChild?.speech),
+    languageCode: resolveSessionTtsLanguageCode(activeChild?.speech?.languageCode, sessionLanguage)
+  }) as SpeechSettings, [activeChild?.speech, sessionLanguage]);
+  // The reader needs the pipeline's TTS, and the pipeline needs the reader's page, so narration goes through a ref.
+  const narrateRef = useRef<(text: string) => Promise<void>>(async () => {});
+  const narratePage = useCallback((text: string) => narrateRef.current(text), []);
+  const readAlong = useReadAlong({ activeAssets, enabled: isReadAlongOpen, onNarrate: narratePage });
   const {
     processingStage,
     currentQuestion,
@@ -52,14 +99,44 @@ const App: React.FC = () => {
     selectedOptionId,
     conversationHistory,
     lastAudioBlob,
+    lastTypedQuestion,
     lastTimings,
     error,
+    errorRetryable,
     isBusy,
+    awaitingReview,
     processRecording,
+    submitTypedQuestion,
+    askBankQuestion,
     retry,
     selectOption,
+    previewOption,
+    narrateText,
+    editOptionText,
+    markOptionCorrect,
+    regenerateOptionImage,
+    replaceOptionAnswer,
+    approveReview,
     resetConversation
-  } = useTurnPipeline(activeAssets, imageModelPreference);
+  } = useTurnPipeline(activeAssets, imageModelPreference, {
+    activeChildId: activeChild?.id || null,
+    choiceCount,
+    adaptiveDifficulty: activeChild?.adaptiveDifficulty !== false,
+    readThroughPage: readAlong.readThroughPage,
+    speechSettings: sessionSpeech,
+    language: sessionLanguage,
+    caregiverReview: activeChild?.caregiverReview === true
+  });
+
+  useEffect(() => {
+    narrateRef.current = narrateText;
+  }, [narrateText]);
+
+  // Each story opens in the language it was set up in; the header picker overrides it for this session.
+  const activeStoryLanguage = activeAssets?.metadata.language;
+  useEffect(() => {
+    setSessionLanguage(normalizeStoryLanguage(activeStoryLanguage) as StoryLanguage);
+  }, [activeAssets?.id, activeStoryLanguage]);
 
   useEffect(() => {
     if (USE_BACKEND_PIPELINE) {
@@ -96,13 +173,28 @@ const App: React.FC = () => {
       await selectStory(story);
       resetConversation();
       setSetupView(null);
-      setCurrentMode(AppMode.STORY);
+      setIsReadAlongOpen(false);
+      setShowProfilePicker(true);
     } catch (error) {
       console.error('Failed to select story', error);
       alert('Failed to load story. Please try again.');
     }
   }, [resetConversation, selectStory]);
 
+  const handlePickChild = useCallback((profile: ChildProfile | null) => {
+    setActiveChild(profile);
+    setShowProfilePicker(false);
+    resetConversation();
+    setCurrentMode(AppMode.STORY);
+  }, [resetConversation, setActiveChild]);
+
+  const handleCancelProfilePicker = useCallback(() => {
+    setShowProfilePicker(false);
+    if (currentMode !== AppMode.STORY) {
+      setCurrentMode(AppMode.LIBRARY);
+    }
+  }, [currentMode]);
+
   const handleOpenStorySetup = useCallback(async (story: StoryManifest) => {
     try {
       const assets = await selectStory(story);
@@ -121,6 +213,7 @@ const App: React.FC = () => {
           artStyle: assets.metadata.artStyle || story.artStyle,
           storyBrief: assets.storyBrief,
           storyText: assets.metadata.storyText || assets.storyBrief,
+          language: assets.metadata.language,
           qaReadyPackage: assets.metadata.qaReadyPackage,
           storyFacts: assets.metadata.storyFacts || {
             characters: [],
@@ -140,7 +233,8 @@ const App: React.FC = () => {
           },
           coverImage: story.coverImage || null,
           stylePrimer: assets.stylePrimer,
-          styleReferences: assets.styleReferences || []
+          styleReferences: assets.styleReferences || [],
+          questionBank: assets.questionBank
         }
       });
       setCurrentMode(AppMode.SETUP);
@@ -176,6 +270,7 @@ const App: React.FC = () => {
       artStyle: storyPack.artStyle,
       storyBrief: storyPack.storyBrief,
       storyText: storyPack.storyText || storyPack.storyBrief,
+      language: storyPack.language,
       qaReadyPackage: storyPack.qaReadyPackage,
       storyFacts: storyPack.storyFacts,
       characters: [],
@@ -198,18 +293,32 @@ const App: React.FC = () => {
       stylePrimer: storyPack.stylePrimer,
       styleReferences: storyPack.styleReferences || [],
       pdfData: storyFile,
-      metadata
+      metadata,
+      questionBank: storyPack.questionBank
     };
 
     await saveNewStory(manifest, assets);
     resetConversation();
     setSetupView(null);
-    setCurrentMode(AppMode.STORY);
+    setShowProfilePicker(true);
   }, [resetConversation, saveNewStory]);
 
+  const { readThroughPage, markPageAnswered } = readAlong;
   const handleOptionClick = useCallback(async (option: (typeof options)[number]) => {
+    if (readThroughPage !== null) {
+      markPageAnswered(readThroughPage);
+    }
     await selectOption(option);
-  }, [selectOption]);
+  }, [markPageAnswered, readThroughPage, selectOption]);
+
+  const switchAccess = useMemo(() => normalizeSwitchAccess(activeChild?.switchAccess), [activeChild?.switchAccess]);
+  const { highlightedOptionId } = useSwitchScanning({
+    options,
+    settings: switchAccess,
+    enabled: currentMode === AppMode.STORY && !showProfilePicker && processingStage !== 'error' && !awaitingReview,
+    onHighlight: previewOption,
+    onSelect: handleOptionClick
+  });
 
   const getStyleRefByIndex = useCallback((index: number): StyleReferenceAsset | FileData | null => {
     if (!Number.isInteger(index) || index < 0) {
@@ -252,6 +361,7 @@ const App: React.FC = () => {
       artStyle: payload.storyPack.artStyle,
       storyBrief: payload.storyPack.storyBrief,
       storyText: payload.storyPack.storyText || payload.storyPack.storyBrief,
+      language: payload.storyPack.language,
       qaReadyPackage: payload.storyPack.qaReadyPackage,
       storyFacts: payload.storyPack.storyFacts,
       characters: [],
@@ -274,7 +384,8 @@ const App: React.FC = () => {
       stylePrimer: payload.storyPack.stylePrimer,
       styleReferences: payload.storyPack.styleReferences || [],
       pdfData: payload.storyFile || existingAssetsPdf || undefined,
-      metadata
+      metadata,
+      questionBank: payload.storyPack.questionBank
     };
 
     await saveNewStory(manifest, assets);
@@ -317,8 +428,8 @@ const App: React.FC = () => {
     await updatePublisherImage(publisherId, coverImage);
   }, [updatePublisherImage]);
 
-  const handlePrepareStory = useCallback((storyFile: FileData, styleImages: FileData[]) => {
-    return prepareStory(storyFile, styleImages, imageModelPreference);
+  const handlePrepareStory = useCallback((storyFile: FileData, styleImages: FileData[], language: StoryLanguage) => {
+    return prepareStory(storyFile, styleImages, imageModelPreference, language);
   }, [prepareStory, imageModelPreference]);
 
   if (!hasApiKey) {
@@ -349,11 +460,24 @@ const App: React.FC = () => {
         </div>
         <div className="flex gap-2">
           {currentMode === AppMode.LIBRARY && (
-            <div className="px-3 py-2 bg-white rounded-full shadow-md text-[11px] text-gray-500 font-mono">
-              Build {buildLabel}
-            </div>
+            <>
+              <div className="px-3 py-2 bg-white rounded-full shadow-md text-[11px] text-gray-500 font-mono">
+                Build {buildLabel}
+              </div>
+              <button
+                onClick={() => setCurrentMode(AppMode.DASHBOARD)}
+                className="px-4 py-2 bg-white rounded-full shadow-md hover:shadow-lg transition text-gray-500 font-bold flex items-center gap-2"
+              >
+                <BarChart3 className="w-5 h-5" /> Progress
+              </button>
+            </>
           )}
-          {currentMode !== AppMode.LIBRARY && (
+          {currentMode === AppMode.DASHBOARD && (
+            <button onClick={() => setCurrentMode(AppMode.LIBRARY)} className="px-4 py-2 bg-white rounded-full shadow-md hover:shadow-lg transition text-gray-500 font-bold flex items-center gap-2">
+              <LibraryIcon className="w-5 h-5" /> Library
+            </button>
+          )}
+          {currentMode !== AppMode.LIBRARY && currentMode !== AppMode.DASHBOARD && (
             <div className="px-3 py-2 bg-white rounded-full shadow-md border border-indigo-100 flex items-center gap-2">
               <span className="text-[11px] font-semibold uppercase tracking-wider text-indigo-700">Image model</span>
               <select
@@ -368,6 +492,39 @@ const App: React.FC = () => {
           )}
           {currentMode === AppMode.STORY && (
             <>
+              <button
+                onClick={() => setShowProfilePicker(true)}
+                className="px-4 py-2 bg-white rounded-full shadow-md hover:shadow-lg transition text-gray-600 font-bold flex items-center gap-2"
+                title="Switch child"
+              >
+                <UserRound className="w-5 h-5" /> {activeChild?.name || 'Guest'}
+              </button>
+              <button
+                onClick={() => setIsReadAlongOpen((prev) => !prev)}
+                className={`px-4 py-2 rounded-full shadow-md transition font-bold flex items-center gap-2 ${
+                  isReadAlongOpen ? 'bg-kid-blue text-white' : 'bg-white text-gray-500 hover:shadow-lg'
+                }`}
+              >
+                <BookOpenText className="w-5 h-5" /> Read along
+              </button>
+              <div className="px-3 py-2 bg-white rounded-full shadow-md flex items-center gap-2" title="Question and answer language">
+                <Languages className="w-5 h-5 text-gray-500" />
+                <select
+                  value={sessionLanguage}
+                  onChange={(event) => {
+                    setSessionLanguage(event.target.value as StoryLanguage);
+                    resetConversation();
+                  }}
+                  aria-label="Session language"
+                  className="text-xs font-semibold bg-transparent text-gray-700 focus:outline-none"
+                >
+                  {Object.entries(STORY_LANGUAGE_LABELS).map(([code, label]) => (
+                    <option key={code} value={code}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
               {hasTurnDebug && (
                 <button
                   onClick={() => setShowAiDebug((prev) => !prev)}
@@ -396,6 +553,7 @@ const App: React.FC = () => {
           <Library
             stories={stories}
             publishers={publishers}
+            searchIndex={searchIndex}
             onSelectStory={handleStorySelect}
             onOpenSetup={handleOpenStorySetup}
             onDeleteStory={handleDeleteStory}
@@ -403,11 +561,40 @@ const App: React.FC = () => {
             onAddBookToPublisher={handleOpenNewPublisherBookSetup}
             onCreatePublisher={handleCreatePublisher}
             onUpdatePublisherImage={handleUpdatePublisherImage}
+            onExportStory={exportStory}
+            onExportPublisher={exportPublisher}
+            onImportBundle={importBundle}
+          />
+        )}
+
+        {currentMode === AppMode.DASHBOARD && (
+          <ProgressDashboard
+            profiles={profiles}
+            stories={stories}
+            initialChildId={activeChild?.id || null}
           />
         )}
 
         {currentMode === AppMode.STORY && (
           <div className="w-full max-w-5xl mx-auto p-4 flex flex-col items-center flex-1">
+            {isReadAlongOpen && (
+              <ReadAlongReader
+                pages={readAlong.pages}
+                pageIndex={readAlong.pageIndex}
+                isPausePage={readAlong.isPausePage}
+                isAdvanceBlocked={readAlong.isAdvanceBlocked}
+                isLoading={readAlong.isLoading}
+                loadError={readAlong.loadError}
+                isProcessing={isBusy}
+                onNextPage={readAlong.goToNextPage}
+                onPreviousPage={readAlong.goToPreviousPage}
+                onTogglePausePage={readAlong.togglePausePage}
+                onNarratePage={readAlong.narrateCurrentPage}
+                onAskQuestion={submitTypedQuestion}
+                onClose={() => setIsReadAlongOpen(false)}
+              />
+            )}
+
             <div className="w-full mb-8 text-center min-h-[4rem] flex flex-col justify-center">
               {processingStage !== 'idle' && processingStage !== 'completed' && processingStage !== 'error' ? (
                 <ProcessingSteps stage={processingStage} />
@@ -417,7 +604,7 @@ const App: React.FC = () => {
                     <AlertCircle className="w-5 h-5" />
                     {error}
                   </div>
-                  {lastAudioBlob && (
+                  {(lastAudioBlob || lastTypedQuestion) && errorRetryable && (
                     <button onClick={retry} className="flex items-center gap-2 px-6 py-2 bg-white text-kid-blue font-bold rounded-xl shadow-md hover:bg-gray-50 transition border border-kid-blue/20">
                       <RefreshCw className="w-4 h-4" /> Try Again
                     </button>
@@ -426,38 +613,53 @@ const App: React.FC = () => {
               ) : currentQuestion ? (
                 <div className="animate-fade-in-up">
                   <span className="text-sm text-gray-400 font-bold uppercase tracking-wider block mb-1">Parent Asked</span>
-                  <h2 className="text-2xl md:text-3xl font-bold text-gray-800">"{currentQuestion}"</h2>
+                  <h2 dir="auto" className="text-2xl md:text-3xl font-bold text-gray-800">"{currentQuestion}"</h2>
                 </div>
               ) : (
                 <div className="text-gray-400">
                   <h2 className="text-xl font-medium">Ready for story time!</h2>
                   <p className="text-sm">
-                    Tap the mic to ask a question about "{activeManifest?.summary.substring(0, 30) || 'your story'}..."
+                    Tap the mic or type a question about "{activeManifest?.summary.substring(0, 30) || 'your story'}..."
                   </p>
                 </div>
               )}
             </div>
 
-            <div className="w-full grid grid-cols-1 sm:grid-cols-3 gap-6 mb-12 flex-1 items-start">
-              {options.length > 0 ? (
-                options.map((opt) => (
-                  <OptionCard
-                    key={opt.id}
-                    option={opt}
-                    selected={selectedOptionId === opt.id}
-                    onClick={handleOptionClick}
-                  />
-                ))
-              ) : (
-                !isBusy && !error && Array(3).fill(0).map((_, i) => (
-                  <div key={i} className="aspect-[3/4] rounded-3xl border-4 border-dashed border-gray-200 flex flex-col items-center justify-center opacity-50">
-                    <div className="w-16 h-16 rounded-full bg-gray-100 mb-4" />
-                    <div className="h-4 w-2/3 bg-gray-100 rounded mb-2" />
-                    <div className="h-4 w-1/2 bg-gray-100 rounded" />
-                  </div>
-                ))
-              )}
-            </div>
+            {awaitingReview ? (
+              <CaregiverReviewPanel
+                options={options}
+                onEditText={editOptionText}
+                onMarkCorrect={markOptionCorrect}
+                onRegenerateImage={regenerateOptionImage}
+                onReplaceAnswer={replaceOptionAnswer}
+                onApprove={approveReview}
+                isProcessing={isBusy}
+                dir={optionTextDirection}
+              />
+            ) : (
+              <div className={`w-full grid grid-cols-1 ${OPTION_GRID_COLUMNS[options.length || choiceCount] || 'sm:grid-cols-3'} gap-6 mb-12 flex-1 items-start`}>
+                {options.length > 0 ? (
+                  options.map((opt) => (
+                    <OptionCard
+                      key={opt.id}
+                      option={opt}
+                      selected={selectedOptionId === opt.id}
+                      highlighted={highlightedOptionId === opt.id}
+                      dir={optionTextDirection}
+                      onClick={handleOptionClick}
+                    />
+                  ))
+                ) : (
+                  !isBusy && !error && Array(choiceCount).fill(0).map((_, i) => (
+                    <div key={i} className="aspect-[3/4] rounded-3xl border-4 border-dashed border-gray-200 flex flex-col items-center justify-center opacity-50">
+                      <div className="w-16 h-16 rounded-full bg-gray-100 mb-4" />
+                      <div className="h-4 w-2/3 bg-gray-100 rounded mb-2" />
+                      <div className="h-4 w-1/2 bg-gray-100 rounded" />
+                    </div>
+                  ))
+                )}
+              </div>
+            )}
 
             {lastTimings && (
               <div className="w-full mb-6 rounded-2xl border border-blue-200 bg-white/95 p-4 shadow-sm">
@@ -528,7 +730,7 @@ const App: React.FC = () => {
                       Per-Card Step Breakdown
                     </summary>
                     <div className="mt-2 space-y-2">
-                      {Object.entries(lastTimings.cardStepMsById).map(([cardId, cardTiming]) => {
+                      {(Object.entries(lastTimings.cardStepMsById) as [string, CardStepTiming][]).map(([cardId, cardTiming]) => {
                         const optionText = options.find((option) => option.id === cardId)?.text || cardId;
                         return (
                           <div key={`timing-${cardId}`} className="rounded-lg border border-gray-200 px-3 py-2 text-xs text-gray-700">
@@ -537,7 +739,9 @@ const App: React.FC = () => {
                               <span>Resolve: {formatMs(cardTiming.resolveParticipantsMs)}</span>
                               <span>Refs: {formatMs(cardTiming.selectRefsMs)}</span>
                               <span>Plan: {formatMs(cardTiming.illustrationPlanMs)}</span>
-                              <span>Image: {formatMs(cardTiming.imageGenerationMs)}</span>
+                              <span>
+                                Image: {formatMs(cardTiming.imageGenerationMs)}{cardTiming.imageCacheHit ? ' (cached)' : ''}
+                              </span>
                               <span>Total: {formatMs(cardTiming.totalMs)}</span>
                             </div>
                           </div>
@@ -592,6 +796,34 @@ const App: React.FC = () => {
                               error: {debug.imageGenerationError}
                             </span>
                           )}
+                          {debug.characterConsistency && (
+                            <span
+                              className={`px-2 py-1 rounded-full text-xs font-semibold ${
+                                debug.characterConsistency.passed ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'
+                              }`}
+                              title={debug.characterConsistency.characters
+                                .map((entry) => `${entry.characterName}: ${entry.score}`)
+                                .join(', ')}
+                            >
+                              consistency: {debug.characterConsistency.score} ({debug.characterConsistency.attempts} tries)
+                            </span>
+                          )}
+                          <button
+                            onClick={() => void regenerateOptionImage(option.id)}
+                            disabled={isBusy || option.isLoadingImage}
+                            className="ml-auto flex items-center gap-1 px-2 py-1 rounded-full bg-white border border-gray-200 text-xs font-semibold text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                          >
+                            <RefreshCw className="w-3 h-3" /> Redraw
+                          </button>
+                          {!option.isCorrect && (
+                            <button
+                              onClick={() => void replaceOptionAnswer(option.id)}
+                              disabled={isBusy || option.isLoadingImage}
+                              className="flex items-center gap-1 px-2 py-1 rounded-full bg-white border border-gray-200 text-xs font-semibold text-gray-700 hover:bg-gray-100 disabled:opacity-50"
+                            >
+                              <RotateCcw className="w-3 h-3" /> New answer
+                            </button>
+                          )}
                         </div>
 
                         <div className="text-[11px] text-gray-600 font-mono mb-2 break-words">
@@ -695,8 +927,14 @@ const App: React.FC = () => {
               </div>
             )}
 
-            <div className="sticky bottom-8 z-20">
+            <div className="sticky bottom-8 z-20 flex flex-col items-center gap-3 w-full">
               <RecordButton onRecordingComplete={processRecording} isProcessing={isBusy} />
+              <TypedQuestionInput onSubmitQuestion={submitTypedQuestion} isProcessing={isBusy} />
+              <QuestionBankPicker
+                questionBank={activeAssets?.questionBank}
+                onAskQuestion={askBankQuestion}
+                isProcessing={isBusy}
+              />
             </div>
           </div>
         )}
@@ -706,13 +944,15 @@ const App: React.FC = () => {
         <SetupPanel
           publishers={publishers}
           onPrepareStory={handlePrepareStory}
+          onBuildQuestionBank={buildQuestionBank}
+          onRecognizePageText={recognizePageText}
           onComplete={handleSetupComplete}
           onSaveExisting={handleSaveExistingSetup}
           onUpdatePublisherImage={handleUpdatePublisherImage}
           onStartFromSetup={() => {
             resetConversation();
             setSetupView(null);
-            setCurrentMode(AppMode.STORY);
+            setShowProfilePicker(true);
           }}
           initialView={setupView}
           onClose={() => {
@@ -722,6 +962,18 @@ const App: React.FC = () => {
         />
       )}
 
+      {showProfilePicker && (
+        <ChildProfilePicker
+          profiles={profiles}
+          activeChildId={activeChild?.id || null}
+          onSelect={handlePickChild}
+          onCreate={createProfile}
+          onUpdate={updateProfile}
+          onDelete={deleteProfile}
+          onCancel={handleCancelProfilePicker}
+        />
+      )}
+
       {expandedDebugImage && (
         <div
           className="fixed inset-0 z-[80] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
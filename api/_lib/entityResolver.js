@@ -0,0 +1,190 @@
+// Resolves book entities mentioned in a (possibly mis-transcribed) question.
+// Every entity name and alias is matched against same-length word n-grams of the question,
+// trying exact words, then stems, then phonetic keys, then edit distance.
+
+export const MATCH_METHODS = ['alias_exact', 'alias_stem', 'alias_phonetic', 'alias_fuzzy'];
+
+const METHOD_CONFIDENCE = {
+  alias_exact: 0.98,
+  alias_stem: 0.92,
+  alias_phonetic: 0.84,
+  alias_fuzzy: 0.8
+};
+export const MIN_MATCH_CONFIDENCE = 0.55;
+
+// Phonetic and fuzzy matches on very short words collide with ordinary words ("Max" vs "mix"),
+// so those need an exact or stemmed match.
+const MIN_APPROX_TOKEN_LENGTH = 4;
+
+const LEADING_ARTICLES = new Set(['the', 'a', 'an']);
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with', 'from', 'into', 'up',
+  'is', 'are', 'was', 'were', 'be', 'been', 'do', 'does', 'did', 'has', 'have', 'had', 'can', 'could', 'will', 'would',
+  'who', 'what', 'where', 'when', 'why', 'how', 'which', 'whose',
+  'he', 'she', 'it', 'they', 'them', 'his', 'her', 'its', 'their', 'you', 'your', 'we', 'our', 'me', 'my', 'i',
+  'this', 'that', 'these', 'those', 'there', 'here', 'not', 'no', 'yes', 'so', 'then', 'about', 'story', 'book'
+]);
+
+export const normalizeForEntityMatch = (value) =>
+  String(value || '')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[’‘`]/g, "'")
+    .replace(/'s\b/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const tokenize = (value) => normalizeForEntityMatch(value).split(' ').filter(Boolean);
+
+// A light suffix stripper: enough to line up plurals and simple verb forms with catalog names.
+export const stemToken = (token) => {
+  if (token.length <= 3) return token;
+  if (token.endsWith('ies') && token.length > 4) return `${token.slice(0, -3)}y`;
+  if (/(ches|shes|sses|xes|zes)$/.test(token)) return token.slice(0, -2);
+  if (token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) return token.slice(0, -1);
+  return token;
+};
+
+/**
+ * A compact Metaphone-style key: spelling variants that sound alike share a key
+ * ("Gruffalo", "Grufalo", "Gruffalow" -> "grfl"). Keeps the first letter, drops later vowels and collapses repeats.
+ */
+export const phoneticKey = (token) => {
+  let word = String(token || '').toLowerCase().replace(/[^a-z]/g, '');
+  if (!word) return '';
+  word = word
+    .replace(/^kn/, 'n')
+    .replace(/^wr/, 'r')
+    .replace(/^ps/, 's')
+    .replace(/^x/, 's')
+    .replace(/ph/g, 'f')
+    .replace(/ck/g, 'k')
+    .replace(/dg/g, 'j')
+    .replace(/tch/g, 'ch')
+    .replace(/sch/g, 'sk')
+    .replace(/c(?=[eiy])/g, 's')
+    .replace(/c/g, 'k')
+    .replace(/q/g, 'k')
+    .replace(/x/g, 'ks')
+    .replace(/z/g, 's')
+    .replace(/v/g, 'f')
+    .replace(/gh(?![aeiou])/g, '');
+
+  const first = /[aeiou]/.test(word[0]) ? 'a' : word[0];
+  const rest = word.slice(1).replace(/[aeiouyhw]/g, '');
+  return `${first}${rest}`.replace(/(.)\1+/g, '$1');
+};
+
+export const levenshteinDistance = (left, right) => {
+  if (!left || !right) return 99;
+  if (left === right) return 0;
+  let previous = Array.from({ length: right.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= left.length; i += 1) {
+    const current = [i];
+    for (let j = 1; j <= right.length; j += 1) {
+      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[right.length];
+};
+
+const maxFuzzyDistance = (length) => (length >= 7 ? 2 : 1);
+
+const compareTokens = (spoken, expected) => {
+  if (spoken === expected) return { method: 'alias_exact', distance: 0 };
+  if (stemToken(spoken) === stemToken(expected)) return { method: 'alias_stem', distance: 0 };
+  if (expected.length < MIN_APPROX_TOKEN_LENGTH || /\d/.test(expected)) return null;
+  const expectedKey = phoneticKey(expected);
+  // Two-consonant keys are too common ("mouse", "maze", "moose") to count as a sound-alike.
+  if (expectedKey.length >= 3 && phoneticKey(spoken) === expectedKey) return { method: 'alias_phonetic', distance: 0 };
+  if (Math.abs(spoken.length - expected.length) > maxFuzzyDistance(expected.length)) return null;
+  const distance = levenshteinDistance(stemToken(spoken), stemToken(expected));
+  return distance <= maxFuzzyDistance(expected.length) ? { method: 'alias_fuzzy', distance } : null;
+};
+
+// The weakest word decides the method. Edits cost confidence in proportion to phrase length,
+// so a near-miss on a long alias can still outrank a near-miss on a single word.
+const comparePhrase = (spokenTokens, expectedTokens) => {
+  let weakest = 0;
+  let totalDistance = 0;
+  for (let index = 0; index < expectedTokens.length; index += 1) {
+    const result = compareTokens(spokenTokens[index], expectedTokens[index]);
+    if (!result) return null;
+    weakest = Math.max(weakest, MATCH_METHODS.indexOf(result.method));
+    totalDistance += result.distance;
+  }
+
+  const method = MATCH_METHODS[weakest];
+  const lengthBonus = Math.min(0.04, (expectedTokens.length - 1) * 0.02);
+  const shortPenalty = expectedTokens.length === 1 && expectedTokens[0].length < MIN_APPROX_TOKEN_LENGTH ? 0.06 : 0;
+  const confidence = Math.min(0.99, METHOD_CONFIDENCE[method] - (totalDistance * 0.1) / expectedTokens.length + lengthBonus - shortPenalty);
+  return { method, confidence: Number(confidence.toFixed(2)) };
+};
+
+const toCandidatePhrases = (record) =>
+  [record?.name, ...(Array.isArray(record?.aliases) ? record.aliases : [])]
+    .map((value) => {
+      const tokens = tokenize(value);
+      while (tokens.length > 1 && LEADING_ARTICLES.has(tokens[0])) tokens.shift();
+      return tokens;
+    })
+    .filter((tokens) => tokens.length > 0 && !(tokens.length === 1 && STOPWORDS.has(tokens[0])));
+
+const findBestMatch = (questionTokens, record) => {
+  let best = null;
+  for (const candidate of toCandidatePhrases(record)) {
+    for (let start = 0; start + candidate.length <= questionTokens.length; start += 1) {
+      const spoken = questionTokens.slice(start, start + candidate.length);
+      const match = comparePhrase(spoken, candidate);
+      if (!match || match.confidence < MIN_MATCH_CONFIDENCE) continue;
+      if (!best || match.confidence > best.confidence || (match.confidence === best.confidence && candidate.length > best.end - best.start)) {
+        best = { ...match, start, end: start + candidate.length, matchedValue: candidate.join(' ') };
+      }
+    }
+  }
+  return best;
+};
+
+const isInside = (inner, outer) =>
+  inner !== outer && inner.start >= outer.start && inner.end <= outer.end && inner.end - inner.start < outer.end - outer.start;
+
+/**
+ * `entityRecords` need `entityId`, `name` and optional `aliases`.
+ * Returns resolved entities strongest first. An entity matched only inside a longer entity's mention
+ * ("Gruffalo" in "the Gruffalo's Child") is dropped. Content words no entity covers are `unmatchedMentions`.
+ */
+export const resolveEntityMentions = (text, entityRecords) => {
+  const questionTokens = tokenize(text);
+  const matches = (Array.isArray(entityRecords) ? entityRecords : [])
+    .map((record) => {
+      const match = findBestMatch(questionTokens, record);
+      return match ? { record, ...match } : null;
+    })
+    .filter(Boolean);
+
+  const kept = matches
+    .filter((match) => !matches.some((other) => isInside(match, other)))
+    .sort((a, b) => b.confidence - a.confidence);
+
+  const coveredIndexes = new Set(kept.flatMap((match) => Array.from({ length: match.end - match.start }, (_, i) => match.start + i)));
+  const unmatchedMentions = [...new Set(
+    questionTokens.filter((token, index) => !coveredIndexes.has(index) && token.length >= 3 && !STOPWORDS.has(token))
+  )];
+
+  const resolvedEntities = kept.map((match) => ({
+    entityId: match.record.entityId,
+    confidence: match.confidence,
+    matchMethod: match.method,
+    matchedValue: match.matchedValue
+  }));
+
+  return {
+    matchedEntityIds: resolvedEntities.map((item) => item.entityId),
+    resolvedEntities,
+    unmatchedMentions
+  };
+};
@@ -0,0 +1,224 @@
+const FAKE_PROVIDER_NAME = 'fake';
+const FAKE_PNG_BASE64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+const FAKE_AUDIO_SAMPLE_RATE = 24000;
+const FAKE_AUDIO_SECONDS = 0.25;
+const FAKE_TRANSCRIPT = 'Who found the red ball?';
+const FAKE_CHARACTERS = ['Pip', 'Grandma Owl'];
+const FAKE_PAGES = [
+  'Pip the fox went to the park on a sunny morning.',
+  'Under the big oak tree, Pip found a red ball.',
+  'Grandma Owl clapped when Pip brought the ball home.'
+];
+const FAKE_STORY_TEXT = FAKE_PAGES.join('\n\n');
+
+const FAKE_STORY_ANALYSIS = {
+  summary: 'Pip the fox finds a red ball in the park. Grandma Owl is proud of Pip.',
+  art_style: 'soft watercolor storybook',
+  story_brief: FAKE_STORY_TEXT,
+  story_facts: {
+    characters: FAKE_CHARACTERS,
+    character_catalog: FAKE_CHARACTERS.map((name) => ({ name, source: 'both' })),
+    places: ['park', 'home'],
+    scenes: ['Walk to the park', 'Finding the ball', 'Back home'],
+    objects: ['red ball', 'oak tree'],
+    events: ['Pip walks to the park', 'Pip finds a red ball', 'Grandma Owl claps'],
+    setting: 'A sunny park near Pip\'s home.',
+    world_tags: ['park', 'forest animals']
+  }
+};
+
+const FAKE_ANSWERS = {
+  answers: [
+    { text: 'Pip the fox', is_correct: true, evidence: FAKE_PAGES[1], support_level: 0.9 },
+    { text: 'Grandma Owl', is_correct: false, evidence: FAKE_PAGES[2], support_level: 0.4 },
+    { text: 'A little duck', is_correct: false, evidence: '', support_level: 0.1 },
+    { text: 'A sleepy bear', is_correct: false, evidence: '', support_level: 0.1 },
+    { text: 'The mail carrier', is_correct: false, evidence: '', support_level: 0.1 },
+    { text: 'A green frog', is_correct: false, evidence: '', support_level: 0.1 }
+  ]
+};
+
+const FAKE_QA_PLAN = {
+  choices: [
+    {
+      choice_id: 'A',
+      answer_text: 'Pip the fox',
+      is_correct: true,
+      wrongness_type: '',
+      scene_plan: 'Pip holds the red ball under the oak tree.'
+    },
+    {
+      choice_id: 'B',
+      answer_text: 'Grandma Owl',
+      is_correct: false,
+      wrongness_type: 'wrong_character',
+      scene_plan: 'Grandma Owl sits on a branch.'
+    },
+    {
+      choice_id: 'C',
+      answer_text: 'A blue kite',
+      is_correct: false,
+      wrongness_type: 'wrong_object',
+      scene_plan: 'A blue kite flies over the park.'
+    },
+    {
+      choice_id: 'D',
+      answer_text: 'At the beach',
+      is_correct: false,
+      wrongness_type: 'wrong_place',
+      scene_plan: 'Waves roll onto a sandy beach.'
+    },
+    {
+      choice_id: 'E',
+      answer_text: 'A sleepy bear',
+      is_correct: false,
+      wrongness_type: 'wrong_character',
+      scene_plan: 'A bear naps in a cave.'
+    },
+    {
+      choice_id: 'F',
+      answer_text: 'Eating lunch',
+      is_correct: false,
+      wrongness_type: 'wrong_action',
+      scene_plan: 'A picnic blanket with sandwiches.'
+    }
+  ],
+  prompt_packages: ['A', 'B', 'C', 'D', 'E', 'F'].map((choiceId) => ({
+    choice_id: choiceId,
+    prompt: `Illustrate choice ${choiceId} in the park.`,
+    negative_constraints: ['no text in image'],
+    reference_image_ids: [],
+    style_reference_image_ids: [],
+    character_reference_image_ids: [],
+    selected_entity_ids: []
+  }))
+};
+
+// Answer and plan prompts state "Exactly N options/choices"; the canned lists are trimmed to match.
+const readRequestedCount = (request) => {
+  const parts = Array.isArray(request?.contents?.parts) ? request.contents.parts : [];
+  const prompt = parts.map((part) => part?.text || '').join('\n');
+  const match = prompt.match(/Exactly (\d+) (?:options|choices)/);
+  return match ? Number(match[1]) : 3;
+};
+
+const trimToRequestedCount = (payload, count) => {
+  if (payload === FAKE_ANSWERS) {
+    return { answers: FAKE_ANSWERS.answers.slice(0, count) };
+  }
+  if (payload === FAKE_QA_PLAN) {
+    return {
+      choices: FAKE_QA_PLAN.choices.slice(0, count),
+      prompt_packages: FAKE_QA_PLAN.prompt_packages.slice(0, count)
+    };
+  }
+  return payload;
+};
+
+// Canned payloads keyed by a property that only appears in one response schema.
+const CANNED_JSON_RESPONSES = [
+  { key: 'answers', payload: FAKE_ANSWERS },
+  { key: 'prompt_packages', payload: FAKE_QA_PLAN },
+  { key: 'story_facts', payload: FAKE_STORY_ANALYSIS },
+  { key: 'story_text', payload: { story_text: FAKE_STORY_TEXT } },
+  {
+    key: 'pages',
+    payload: {
+      pages: FAKE_PAGES.map((text, index) => ({ page_num: index + 1, raw_text: text, clean_text: text }))
+    }
+  },
+  { key: 'clean_text', payload: { raw_text: FAKE_PAGES[1], clean_text: FAKE_PAGES[1] } },
+  {
+    key: 'character_scores',
+    payload: {
+      character_scores: FAKE_CHARACTERS.map((name) => ({ character_name: name, score: 90, missing_traits: [], violated_traits: [] }))
+    }
+  },
+  {
+    key: 'character_catalog',
+    payload: { character_catalog: FAKE_CHARACTERS.map((name) => ({ name, source: 'both' })) }
+  }
+];
+
+const buildEmptyValueForSchema = (schema) => {
+  switch (String(schema?.type || '').toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([key, value]) => [key, buildEmptyValueForSchema(value)])
+      );
+    case 'ARRAY':
+      return [];
+    case 'NUMBER':
+    case 'INTEGER':
+      return 0;
+    case 'BOOLEAN':
+      return false;
+    default:
+      return '';
+  }
+};
+
+const buildJsonPayload = (responseSchema, request) => {
+  const properties = responseSchema?.properties || {};
+  const canned = CANNED_JSON_RESPONSES.find((entry) => Object.prototype.hasOwnProperty.call(properties, entry.key));
+  return canned ? trimToRequestedCount(canned.payload, readRequestedCount(request)) : buildEmptyValueForSchema(responseSchema);
+};
+
+const hasAudioInput = (request) => {
+  const parts = Array.isArray(request?.contents?.parts) ? request.contents.parts : [];
+  return parts.some((part) => String(part?.inlineData?.mimeType || '').startsWith('audio/'));
+};
+
+const buildSilentPcmBase64 = () =>
+  Buffer.alloc(Math.round(FAKE_AUDIO_SAMPLE_RATE * FAKE_AUDIO_SECONDS) * 2).toString('base64');
+
+const buildTextResponse = (text) => ({
+  text,
+  candidates: [{ content: { parts: [{ text }] } }]
+});
+
+const generateFakeContent = async (request) => {
+  const config = request?.config || {};
+  const modalities = Array.isArray(config.responseModalities) ? config.responseModalities : [];
+
+  if (modalities.some((modality) => String(modality).toUpperCase() === 'AUDIO')) {
+    return {
+      text: undefined,
+      candidates: [
+        {
+          content: {
+            parts: [
+              {
+                inlineData: {
+                  mimeType: `audio/L16;rate=${FAKE_AUDIO_SAMPLE_RATE}`,
+                  data: buildSilentPcmBase64()
+                }
+              }
+            ]
+          }
+        }
+      ]
+    };
+  }
+
+  if (config.responseMimeType === 'application/json') {
+    return buildTextResponse(JSON.stringify(buildJsonPayload(config.responseSchema, request)));
+  }
+
+  return buildTextResponse(hasAudioInput(request) ? FAKE_TRANSCRIPT : FAKE_STORY_TEXT);
+};
+
+/**
+ * Offline provider with deterministic output: canned JSON for text/vision calls,
+ * a 1x1 placeholder PNG for images and a short silent PCM clip for speech.
+ */
+export const createFakeProvider = () => ({
+  name: FAKE_PROVIDER_NAME,
+  getClient: () => ({
+    models: {
+      generateContent: generateFakeContent
+    }
+  }),
+  generateImage: async () => `data:image/png;base64,${FAKE_PNG_BASE64}`
+});
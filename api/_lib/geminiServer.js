@@ -1,20 +1,61 @@
 import { GoogleGenAI, Modality, Type } from '@google/genai';
+import { getProvider, PROVIDER_GEMINI, registerProvider } from './providers.js';
+import { createRuntimeStore } from './runtimeStore.js';
+import { hashStringFast, styleRefFingerprint, toAssetId, toImageCacheKey } from '../../shared/assetIds.js';
+import { createApiError } from '../../shared/apiErrors.js';
+import { DEFAULT_CHOICE_COUNT, getChoiceIds, normalizeChoiceCount } from '../../shared/choices.js';
+import { DEFAULT_DIFFICULTY, DEFAULT_RUNTIME_DIFFICULTY, getDifficultyProfile, normalizeDifficulty } from '../../shared/difficulty.js';
+import { buildQuestionBankTemplates, DEFAULT_QUESTION_BANK_SIZE, QUESTION_BANK_BATCH_SIZE } from './questionBank.js';
+import { resolveEntityMentions } from './entityResolver.js';
+import {
+  MISSING_GOLD_REFS_WARNING,
+  summarizeEntityCatalog,
+  toEntityVisualAssets,
+  toImageIdFromStyleRefIndex
+} from '../../shared/entityRules.js';
+import {
+  buildLanguagePromptRule,
+  DEFAULT_STORY_LANGUAGE,
+  foldForMatch,
+  getLanguageProfile,
+  getStopWords,
+  normalizeStoryLanguage,
+  stripPlacePrefix
+} from '../../shared/language.js';
+import {
+  DEFAULT_TTS_MODEL,
+  MAX_TTS_WORDS_BY_PURPOSE,
+  normalizeSpeechSettings,
+  SPEAKING_RATE_INSTRUCTIONS,
+  toSpeechConfig
+} from '../../shared/speech.js';
+import { migrateQaReadyPackage, QA_PACKAGE_VERSION, validateQaReadyPackage } from '../../shared/qaPackageSchema.js';
+import {
+  evaluateTextQuality,
+  joinPagesText,
+  LOW_TEXT_QUALITY_WARNING,
+  MAX_PAGE_TEXT_CHARS,
+  MAX_PAGES_TEXT_ITEMS,
+  normalizePagesTextEntries,
+  toPageTextRecord
+} from '../../shared/pageText.js';
 
 const RENDER_MODE_BLEND = 'blend_with_story_world';
 const RENDER_MODE_STANDALONE = 'standalone_option_world';
-const STOP_WORDS = new Set([
-  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'the', 'to', 'with'
-]);
 const MAX_OPTION_WORDS = 10;
-const MAX_TTS_WORDS = 10;
 const MAX_STORY_BRIEF_PROMPT_CHARS = 700;
 const MAX_STORY_TEXT_PROMPT_CHARS = 32000;
-const MAX_PAGES_TEXT_ITEMS = 160;
 const MAX_HISTORY_TURNS_FOR_PROMPT = 4;
 const MAX_HISTORY_TEXT_CHARS = 90;
 const MAX_FACT_PROMPT_ITEMS = 8;
 const ANSWER_AGENT_MODEL = 'gemini-3-flash-preview';
 const ILLUSTRATION_AGENT_MODEL = 'gemini-3-flash-preview';
+const CONSISTENCY_CHECK_MODEL = 'gemini-3-flash-preview';
+// Character consistency scores run 0-100; below the minimum the image is redrawn with the checker's notes.
+const CONSISTENCY_MIN_SCORE = 70;
+const CONSISTENCY_MAX_RETRIES = 1;
+const CONSISTENCY_MAX_CHARACTERS = 3;
+const CONSISTENCY_REFS_PER_CHARACTER = 2;
 const IMAGE_MODEL_PREFERENCE_PRO = 'nano-banana-pro';
 const IMAGE_MODEL_PREFERENCE_STANDARD = 'nano-banana';
 const DEFAULT_IMAGE_MODEL_PREFERENCE = IMAGE_MODEL_PREFERENCE_PRO;
@@ -27,6 +68,7 @@ const REPLICATE_IMAGE_MODEL_STANDARD = (
   process.env.REPLICATE_IMAGE_MODEL_NANO_BANANA ||
   ''
 ).trim();
+const TTS_MODEL = (process.env.GEMINI_TTS_MODEL || DEFAULT_TTS_MODEL).trim();
 const REPLICATE_PREDICTIONS_URL = 'https://api.replicate.com/v1/predictions';
 const STYLE_REF_MAX_TOTAL = 14;
 const FAST_PRESET_STYLE_REF_COUNT = 1;
@@ -47,7 +89,6 @@ const LOW_CONFIDENCE_WARNING_THRESHOLD = 0.7;
 const MAX_ENTITY_CROP_COVERAGE = 0.6;
 const MAX_SCENE_ALIASES = 5;
 const MAX_SCENE_FACTS = 16;
-const QA_PACKAGE_VERSION = '1.0.0';
 const MIN_STYLE_BIBLE_REFS = 5;
 const MAX_STYLE_BIBLE_REFS = 20;
 const INTERACTION_KEYWORDS = [
@@ -82,18 +123,20 @@ const retryWithBackoff = async (fn, retries = 4, delayMs = 1000) => {
   }
 };
 
-const getClient = () => {
+const createGeminiClient = () => {
   const apiKey = process.env.GEMINI_API_KEY;
   if (!apiKey) {
-    throw new Error('Server missing GEMINI_API_KEY');
+    throw createApiError('CONFIG_ERROR', 'Server missing GEMINI_API_KEY');
   }
   return new GoogleGenAI({ apiKey });
 };
 
+const getClient = () => getProvider().getClient();
+
 const getReplicateToken = () => {
   const token = process.env.REPLICATE_API_TOKEN;
   if (!token) {
-    throw new Error('Image generation is configured for Replicate models. Missing REPLICATE_API_TOKEN.');
+    throw createApiError('CONFIG_ERROR', 'Image generation is configured for Replicate models. Missing REPLICATE_API_TOKEN.');
   }
   return token;
 };
@@ -113,7 +156,7 @@ const resolveReplicateImageModel = (preference) => {
     const envName = normalizedPreference === IMAGE_MODEL_PREFERENCE_STANDARD
       ? 'REPLICATE_IMAGE_MODEL_NANO_BANANA'
       : 'REPLICATE_IMAGE_MODEL_NANO_BANANA_PRO';
-    throw new Error(`Image model "${normalizedPreference}" is not configured. Missing ${envName}.`);
+    throw createApiError('CONFIG_ERROR', `Image model "${normalizedPreference}" is not configured. Missing ${envName}.`);
   }
 
   return {
@@ -254,9 +297,15 @@ const generateImageWithReplicate = async (parts, aspectRatio, modelVersion) => {
   return fetchRemoteImageAsDataUrl(outputUrl);
 };
 
+registerProvider(PROVIDER_GEMINI, () => ({
+  name: PROVIDER_GEMINI,
+  getClient: createGeminiClient,
+  generateImage: generateImageWithReplicate
+}));
+
 const generateImageDataUrl = async (ai, parts, aspectRatio, imageModelPreference = DEFAULT_IMAGE_MODEL_PREFERENCE) => {
   const resolvedImageModel = resolveReplicateImageModel(imageModelPreference);
-  return generateImageWithReplicate(parts, aspectRatio, resolvedImageModel.modelVersion);
+  return getProvider().generateImage(parts, aspectRatio, resolvedImageModel.modelVersion);
 };
 
 const toFileDataFromDataUrl = (dataUrl) => {
@@ -283,7 +332,8 @@ const parseJsonSafe = (rawText, fallback) => {
   }
 };
 
-const isWhereQuestion = (question) => /^\s*where\b/i.test(question || '');
+const isWhereQuestion = (question, language = DEFAULT_STORY_LANGUAGE) =>
+  getLanguageProfile(language).wherePattern.test(question || '');
 
 const titleCaseFirst = (text) => {
   if (!text) return text;
@@ -294,7 +344,7 @@ const normalizePhrase = (value) => String(value || '').trim().replace(/\s+/g, '
 const toSceneId = (value, fallback = 'scene') => {
   const slug = String(value || '')
     .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
     .trim()
     .replace(/\s+/g, '-')
     .replace(/-+/g, '-')
@@ -313,7 +363,7 @@ const truncate = (value, maxChars) => {
 const slugify = (value, fallback = 'item') => {
   const slug = String(value || '')
     .toLowerCase()
-    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/[^\p{L}\p{N}\s-]/gu, ' ')
     .trim()
     .replace(/\s+/g, '-')
     .replace(/-+/g, '-')
@@ -323,21 +373,6 @@ const slugify = (value, fallback = 'item') => {
 
 const makeEntityId = (type, name) => `ent_${slugify(type, 'entity')}_${slugify(name, 'unknown')}`;
 
-const hashStringFast = (value) => {
-  const input = String(value || '');
-  let hash = 2166136261;
-  for (let i = 0; i < input.length; i += 1) {
-    hash ^= input.charCodeAt(i);
-    hash +=
-      (hash << 1) +
-      (hash << 4) +
-      (hash << 7) +
-      (hash << 8) +
-      (hash << 24);
-  }
-  return `h${(hash >>> 0).toString(16).padStart(8, '0')}`;
-};
-
 const estimateBase64Bytes = (base64Data) => {
   const rawLength = String(base64Data || '').length;
   if (!rawLength) return 0;
@@ -345,59 +380,6 @@ const estimateBase64Bytes = (base64Data) => {
   return Math.max(0, Math.floor((rawLength * 3) / 4) - padding);
 };
 
-const toImageIdFromStyleRefIndex = (index) => `img_${String(index + 1).padStart(4, '0')}`;
-
-const normalizePagesTextEntries = (pages) => {
-  const normalized = [];
-  const seen = new Set();
-
-  for (const entry of Array.isArray(pages) ? pages : []) {
-    const pageNum = Number(entry?.page_num ?? entry?.pageNum);
-    if (!Number.isInteger(pageNum) || pageNum <= 0) continue;
-    if (seen.has(pageNum)) continue;
-
-    const rawText = String(entry?.raw_text ?? entry?.rawText ?? '').trim();
-    const cleanText = normalizePhrase(entry?.clean_text ?? entry?.cleanText ?? rawText);
-    seen.add(pageNum);
-    normalized.push({
-      pageNum,
-      rawText,
-      cleanText,
-      charCount: cleanText.length
-    });
-  }
-
-  return normalized.sort((a, b) => a.pageNum - b.pageNum).slice(0, MAX_PAGES_TEXT_ITEMS);
-};
-
-const evaluateTextQuality = (pagesText) => {
-  const pages = Array.isArray(pagesText) ? pagesText : [];
-  if (pages.length === 0) {
-    return {
-      textQuality: 'poor',
-      nearEmptyPercent: 1,
-      avgCharsPerPage: 0
-    };
-  }
-
-  const totalChars = pages.reduce((sum, page) => sum + Number(page?.charCount || 0), 0);
-  const nearEmptyPages = pages.filter((page) => Number(page?.charCount || 0) < 24).length;
-  const nearEmptyPercent = nearEmptyPages / Math.max(1, pages.length);
-  const avgCharsPerPage = totalChars / Math.max(1, pages.length);
-
-  let textQuality = 'poor';
-  if (avgCharsPerPage >= 120 && nearEmptyPercent <= 0.25) {
-    textQuality = 'good';
-  } else if (avgCharsPerPage >= 40 && nearEmptyPercent <= 0.65) {
-    textQuality = 'mixed';
-  }
-
-  return {
-    textQuality,
-    nearEmptyPercent,
-    avgCharsPerPage
-  };
-};
 const limitWords = (value, maxWords) => {
   const normalized = normalizePhrase(value);
   if (!normalized) return '';
@@ -898,18 +880,6 @@ const computeCropCoverage = (box, fallback = undefined) => {
   return Math.max(0, Math.min(1, normalized.width * normalized.height));
 };
 
-const styleRefFingerprint = (item) => {
-  if (!item?.data || !item?.mimeType) return '';
-  const middleStart = Math.max(0, Math.floor(item.data.length / 2) - 24);
-  return [
-    item.mimeType,
-    item.data.length,
-    item.data.slice(0, 40),
-    item.data.slice(middleStart, middleStart + 48),
-    item.data.slice(-40)
-  ].join(':');
-};
-
 const normalizeStyleReferenceAssets = (styleRefs, fallbackSource = 'upload', dedupe = true) => {
   const normalized = [];
   const seen = new Set();
@@ -977,13 +947,9 @@ const buildAllowedObjectMap = (storyFacts) =>
       .filter((entry) => entry[0] && entry[1])
   );
 
-const normalizeToAllowedName = (value, allowedMap) => {
-  const normalizeKey = (input) =>
-    String(input || '')
-      .toLowerCase()
-      .replace(/[^a-z0-9\s]/g, ' ')
-      .replace(/\s+/g, ' ')
-      .trim();
+const normalizeToAllowedName = (value, allowedMap, language = DEFAULT_STORY_LANGUAGE) => {
+  const normalizeKey = foldForMatch;
+  const stopWords = getStopWords(language);
 
   const normalized = normalizeKey(value);
   if (!normalized) return '';
@@ -995,7 +961,7 @@ const normalizeToAllowedName = (value, allowedMap) => {
 
   const queryTokens = normalized
     .split(' ')
-    .filter((token) => token && token.length > 1 && !STOP_WORDS.has(token));
+    .filter((token) => token && token.length > 1 && !stopWords.has(token));
 
   let bestName = '';
   let bestScore = 0;
@@ -1009,7 +975,7 @@ const normalizeToAllowedName = (value, allowedMap) => {
     } else {
       const allowedTokens = allowedKey
         .split(' ')
-        .filter((token) => token && token.length > 1 && !STOP_WORDS.has(token));
+        .filter((token) => token && token.length > 1 && !stopWords.has(token));
 
       if (queryTokens.length > 0 && allowedTokens.length > 0) {
         const overlap = queryTokens.filter((token) => allowedTokens.includes(token)).length;
@@ -1810,20 +1776,16 @@ const compactHistoryForPrompt = (history) =>
     .map((turn) => `${turn.role === 'parent' ? 'Parent' : 'Child'}: ${truncate(turn.text || '', MAX_HISTORY_TEXT_CHARS)}`)
     .join('\n');
 
-const tokenize = (value) => {
-  const text = String(value || '').toLowerCase().replace(/[^a-z0-9\s]/g, ' ');
-  return text
+// Both take the story language so only its stop words and place prefixes are dropped; compare like with like.
+const tokenize = (value, language = DEFAULT_STORY_LANGUAGE) => {
+  const stopWords = getStopWords(language);
+  return foldForMatch(value)
     .split(/\s+/)
-    .filter((token) => token && token.length > 1 && !STOP_WORDS.has(token));
+    .filter((token) => token && token.length > 1 && !stopWords.has(token));
 };
 
-const canonicalOption = (value) =>
-  String(value || '')
-    .toLowerCase()
-    .replace(/^(in|on|at)\s+/i, '')
-    .replace(/[^a-z0-9\s]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
+const canonicalOption = (value, language = DEFAULT_STORY_LANGUAGE) =>
+  foldForMatch(stripPlacePrefix(normalizePhrase(value), language));
 
 const shuffle = (array) => {
   const output = [...array];
@@ -1834,17 +1796,20 @@ const shuffle = (array) => {
   return output;
 };
 
-const simplifyOptionText = (text, question) => {
-  let value = normalizePhrase(text).replace(/[.?!]+$/g, '');
+const simplifyOptionText = (text, question, language = DEFAULT_STORY_LANGUAGE) => {
+  const profile = getLanguageProfile(language);
+  let value = normalizePhrase(text).replace(/[.?!。؟]+$/gu, '');
   if (!value) return value;
-  if (/^not in this book$/i.test(value)) {
-    return 'Not in this book';
+  if (isNotInBookText(value, language)) {
+    return profile.notInBook;
   }
 
-  if (isWhereQuestion(question)) {
-    value = value.replace(/^(a|an|the)\s+/i, '');
-    if (!/^(in|on|at)\s+/i.test(value)) {
-      value = `In ${value.toLowerCase()}`;
+  if (isWhereQuestion(question, language)) {
+    if (profile.articlePattern) {
+      value = value.replace(profile.articlePattern, '');
+    }
+    if (profile.placePrefix && !profile.placePrefixPattern.test(value)) {
+      value = `${profile.placePrefix} ${value.toLowerCase()}`;
     }
   }
 
@@ -1853,6 +1818,11 @@ const simplifyOptionText = (text, question) => {
   return titleCaseFirst(value);
 };
 
+const isNotInBookText = (value, language = DEFAULT_STORY_LANGUAGE) => {
+  const canonical = foldForMatch(value);
+  return canonical === foldForMatch(getLanguageProfile(language).notInBook) || canonical === 'not in this book';
+};
+
 const getAllFactPhrases = (storyFacts) => [
   ...(storyFacts?.characters || []),
   ...(storyFacts?.places || []),
@@ -1862,16 +1832,16 @@ const getAllFactPhrases = (storyFacts) => [
   storyFacts?.setting || ''
 ].filter(Boolean);
 
-const computeSupportLevel = (candidateText, evidenceText, storyFacts, question, storyBrief) => {
+const computeSupportLevel = (candidateText, evidenceText, storyFacts, question, storyBrief, language = DEFAULT_STORY_LANGUAGE) => {
   const text = `${candidateText || ''} ${evidenceText || ''}`.trim();
   if (!text) return 0;
 
-  const candidateCanonical = canonicalOption(candidateText);
+  const candidateCanonical = canonicalOption(candidateText, language);
   if (!candidateCanonical) return 0;
-  const candidateTokens = tokenize(text);
-  const storyTokens = tokenize(storyBrief || '');
+  const candidateTokens = tokenize(text, language);
+  const storyTokens = tokenize(storyBrief || '', language);
   const factPhrases = getAllFactPhrases(storyFacts);
-  const factTokens = tokenize(factPhrases.join(' '));
+  const factTokens = tokenize(factPhrases.join(' '), language);
 
   const candidateSet = new Set(candidateTokens);
   const factSet = new Set(factTokens);
@@ -1880,7 +1850,7 @@ const computeSupportLevel = (candidateText, evidenceText, storyFacts, question,
   let score = 0;
 
   const phraseMatches = factPhrases.filter((phrase) => {
-    const normalizedPhrase = canonicalOption(phrase);
+    const normalizedPhrase = canonicalOption(phrase, language);
     return normalizedPhrase && (normalizedPhrase.includes(candidateCanonical) || candidateCanonical.includes(normalizedPhrase));
   });
 
@@ -1900,32 +1870,51 @@ const computeSupportLevel = (candidateText, evidenceText, storyFacts, question,
   }
   score += Math.min(briefOverlap * 4, 16);
 
-  if (isWhereQuestion(question)) {
+  if (isWhereQuestion(question, language)) {
     const placeMatches = (storyFacts?.places || []).some((place) =>
-      canonicalOption(place).includes(candidateCanonical) || candidateCanonical.includes(canonicalOption(place))
+      canonicalOption(place, language).includes(candidateCanonical) || candidateCanonical.includes(canonicalOption(place, language))
     );
 
     if (placeMatches) {
       score += 20;
     }
 
-    if (/^(in|on|at)\s+/i.test(String(candidateText || ''))) {
+    if (getLanguageProfile(language).placePrefixPattern.test(normalizePhrase(candidateText))) {
       score += 6;
     }
   }
 
-  if (/not in this book/i.test(String(candidateText || ''))) {
+  if (isNotInBookText(candidateText, language)) {
     score = Math.max(score, 12);
   }
 
   return Math.max(0, Math.min(100, score));
 };
 
-const buildFallbackOptions = (question, storyBrief, storyFacts) => {
-  if (isWhereQuestion(question)) {
-    const bestPlace = storyFacts?.places?.[0]
-      ? simplifyOptionText(`In ${storyFacts.places[0]}`, question)
-      : inferLocationFromStory(storyBrief);
+// Enough distractors for the largest choice count; callers slice to the requested count.
+// Texts come from the language profile, in the same order as these support levels.
+const FALLBACK_PLACE_SUPPORT_LEVELS = [8, 10, 6, 6, 6];
+const FALLBACK_GENERIC_SUPPORT_LEVEL = 5;
+
+const toFallbackDistractor = (item) => ({ ...item, isCorrect: false, evidence: '' });
+
+const getFallbackDistractors = (isPlace, language) => {
+  const profile = getLanguageProfile(language);
+  return isPlace
+    ? profile.fallbackPlaces.map((text, index) => ({ text, supportLevel: FALLBACK_PLACE_SUPPORT_LEVELS[index] }))
+    : profile.fallbackGeneric.map((text) => ({ text, supportLevel: FALLBACK_GENERIC_SUPPORT_LEVEL }));
+};
+
+const buildFallbackOptions = (question, storyBrief, storyFacts, language = DEFAULT_STORY_LANGUAGE) => {
+  const profile = getLanguageProfile(language);
+  if (isWhereQuestion(question, language)) {
+    const firstPlace = storyFacts?.places?.[0];
+    // The keyword guess below only reads English briefs.
+    const bestPlace = firstPlace
+      ? simplifyOptionText(profile.placePrefix ? `${profile.placePrefix} ${firstPlace}` : firstPlace, question, language)
+      : normalizeStoryLanguage(language) === DEFAULT_STORY_LANGUAGE
+        ? inferLocationFromStory(storyBrief)
+        : profile.notInBook;
 
     return [
       {
@@ -1934,50 +1923,28 @@ const buildFallbackOptions = (question, storyBrief, storyFacts) => {
         supportLevel: 80,
         evidence: 'Fallback location inferred from story facts.'
       },
-      {
-        text: 'In space',
-        isCorrect: false,
-        supportLevel: 8,
-        evidence: ''
-      },
-      {
-        text: 'In the desert',
-        isCorrect: false,
-        supportLevel: 10,
-        evidence: ''
-      }
+      ...getFallbackDistractors(true, language).map(toFallbackDistractor)
     ];
   }
 
   return [
     {
-      text: 'Not in this book',
+      text: profile.notInBook,
       isCorrect: true,
       supportLevel: 15,
       evidence: 'Question appears unsupported by the book facts.'
     },
-    {
-      text: 'Maybe',
-      isCorrect: false,
-      supportLevel: 5,
-      evidence: ''
-    },
-    {
-      text: 'No idea',
-      isCorrect: false,
-      supportLevel: 5,
-      evidence: ''
-    }
+    ...getFallbackDistractors(false, language).map(toFallbackDistractor)
   ];
 };
 
-const normalizeAnswerAgentOptions = (answers, question, storyBrief, storyFacts) => {
+const normalizeAnswerAgentOptions = (answers, question, storyBrief, storyFacts, language = DEFAULT_STORY_LANGUAGE) => {
   const deduped = [];
   const seen = new Set();
 
   for (const answer of Array.isArray(answers) ? answers : []) {
-    const text = simplifyOptionText(answer?.text || '', question);
-    const canonical = canonicalOption(text);
+    const text = simplifyOptionText(answer?.text || '', question, language);
+    const canonical = canonicalOption(text, language);
     if (!text || !canonical || seen.has(canonical)) continue;
     seen.add(canonical);
 
@@ -1987,7 +1954,8 @@ const normalizeAnswerAgentOptions = (answers, question, storyBrief, storyFacts)
       normalizePhrase(answer?.evidence || ''),
       storyFacts,
       question,
-      storyBrief
+      storyBrief,
+      language
     );
     const supportLevel = Number.isFinite(supportLevelRaw)
       ? Math.max(0, Math.min(100, Math.round(supportLevelRaw)))
@@ -2019,50 +1987,77 @@ const normalizeAnswerAgentOptions = (answers, question, storyBrief, storyFacts)
   ];
 };
 
-const enforceThreeAnswerOptions = ({
+// Wrong answers whose story support is closest to the difficulty's target come first.
+const rankDistractorsForDifficulty = (distractors, { question, storyBrief, storyFacts, difficulty, language }) => {
+  const { distractorTargetSupport } = getDifficultyProfile(difficulty);
+  return distractors
+    .map((item, index) => ({
+      item,
+      index,
+      distance: Math.abs(computeSupportLevel(item.text, '', storyFacts, question, storyBrief, language) - distractorTargetSupport)
+    }))
+    .sort((a, b) => a.distance - b.distance || a.index - b.index)
+    .map(({ item }) => item);
+};
+
+const enforceAnswerOptionCount = ({
   options,
   question,
   storyBrief,
-  storyFacts
+  storyFacts,
+  choiceCount = DEFAULT_CHOICE_COUNT,
+  difficulty = DEFAULT_DIFFICULTY,
+  language = DEFAULT_STORY_LANGUAGE
 }) => {
+  const distractorCount = choiceCount - 1;
   const normalizedOptions = Array.isArray(options) ? options : [];
-  const fallback = buildFallbackOptions(question, storyBrief, storyFacts);
+  const fallback = buildFallbackOptions(question, storyBrief, storyFacts, language);
   const normalizedCorrect = normalizedOptions.find((item) => item.isCorrect);
   const correct = normalizedCorrect || fallback.find((item) => item.isCorrect);
 
   if (!correct) {
-    return fallback.slice(0, 3);
+    return fallback.slice(0, choiceCount);
   }
 
-  const distractors = normalizedOptions
-    .filter((item) => !item.isCorrect && canonicalOption(item.text) !== canonicalOption(correct.text))
-    .slice(0, 2);
+  const distractors = rankDistractorsForDifficulty(
+    normalizedOptions.filter((item) => !item.isCorrect && canonicalOption(item.text, language) !== canonicalOption(correct.text, language)),
+    { question, storyBrief, storyFacts, difficulty, language }
+  ).slice(0, distractorCount);
 
-  if (distractors.length < 2) {
-    const existing = new Set(distractors.map((item) => canonicalOption(item.text)));
+  if (distractors.length < distractorCount) {
+    const existing = new Set(distractors.map((item) => canonicalOption(item.text, language)));
     for (const item of fallback.filter((entry) => !entry.isCorrect)) {
-      const key = canonicalOption(item.text);
-      if (!key || existing.has(key) || key === canonicalOption(correct.text)) continue;
+      const key = canonicalOption(item.text, language);
+      if (!key || existing.has(key) || key === canonicalOption(correct.text, language)) continue;
       distractors.push(item);
       existing.add(key);
-      if (distractors.length >= 2) break;
+      if (distractors.length >= distractorCount) break;
     }
   }
 
-  return [{ ...correct, isCorrect: true }, ...distractors.slice(0, 2)];
+  return [{ ...correct, isCorrect: true }, ...distractors.slice(0, distractorCount)];
 };
 
-const buildAnswerAgentPrompt = ({ question, compactHistory, compactStoryFacts, storyText }) =>
+const buildAnswerAgentPrompt = ({
+  question,
+  compactHistory,
+  compactStoryFacts,
+  storyText,
+  choiceCount,
+  difficulty,
+  language = DEFAULT_STORY_LANGUAGE
+}) =>
   [
     'You are an answer generator for a non-verbal child reading-comprehension activity.',
     'Use the extracted story text as the primary source of truth.',
-    'Generate exactly 3 options for the parent question.',
+    `Generate exactly ${choiceCount} options for the parent question.`,
     'Rules:',
-    '- Exactly 3 options total.',
+    `- Exactly ${choiceCount} options total.`,
     '- Exactly 1 option must be correct.',
     '- Each option max 10 words, child-friendly wording.',
-    '- Wrong options should be plausible but still incorrect.',
+    `- ${getDifficultyProfile(difficulty).promptRule}`,
     '- Keep text concrete and easy to illustrate.',
+    buildLanguagePromptRule(language, 'every option and its evidence'),
     `Story text:\n${storyText || 'No story text provided.'}`,
     `Story facts helper: ${JSON.stringify(compactStoryFacts)}`,
     `Conversation:\n${compactHistory || 'None yet.'}`,
@@ -2070,9 +2065,22 @@ const buildAnswerAgentPrompt = ({ question, compactHistory, compactStoryFacts, s
     'Return strict JSON only.',
     'Schema:',
     '{ "answers": [ { "text": string, "is_correct": boolean, "evidence": string, "support_level": number } ] }'
-  ].join('\n');
+  ].filter(Boolean).join('\n');
 
-const generateAnswersFromStoryText = async (ai, { question, storyText, history, storyFacts, storyBrief, storyPdf }) => {
+const generateAnswersFromStoryText = async (
+  ai,
+  {
+    question,
+    storyText,
+    history,
+    storyFacts,
+    storyBrief,
+    storyPdf,
+    choiceCount = DEFAULT_CHOICE_COUNT,
+    difficulty = DEFAULT_DIFFICULTY,
+    language = DEFAULT_STORY_LANGUAGE
+  }
+) => {
   const compactHistory = compactHistoryForPrompt(history);
   const compactStoryFacts = compactFactsForPrompt(storyFacts);
   const compactStoryText = compactStoryTextForPrompt(storyText);
@@ -2080,7 +2088,10 @@ const generateAnswersFromStoryText = async (ai, { question, storyText, history,
     question,
     compactHistory,
     compactStoryFacts,
-    storyText: compactStoryText
+    storyText: compactStoryText,
+    choiceCount,
+    difficulty,
+    language
   });
 
   const runAgent = async () => {
@@ -2128,20 +2139,23 @@ const generateAnswersFromStoryText = async (ai, { question, storyText, history,
     );
 
     const payload = parseJsonSafe(response.text, { answers: [] });
-    const normalized = normalizeAnswerAgentOptions(payload.answers, question, storyBrief, storyFacts);
-    const finalOptions = enforceThreeAnswerOptions({
+    const normalized = normalizeAnswerAgentOptions(payload.answers, question, storyBrief, storyFacts, language);
+    const finalOptions = enforceAnswerOptionCount({
       options: normalized,
       question,
       storyBrief,
-      storyFacts
+      storyFacts,
+      choiceCount,
+      difficulty,
+      language
     });
-    const hasThree = finalOptions.length === 3;
+    const hasChoiceCount = finalOptions.length === choiceCount;
     const correctCount = finalOptions.filter((item) => item.isCorrect).length;
 
     return {
       raw: response.text || '',
       options: finalOptions,
-      valid: hasThree && correctCount === 1
+      valid: hasChoiceCount && correctCount === 1
     };
   };
 
@@ -2164,11 +2178,14 @@ const generateAnswersFromStoryText = async (ai, { question, storyText, history,
   }
 
   return {
-    options: enforceThreeAnswerOptions({
+    options: enforceAnswerOptionCount({
       options: [],
       question,
       storyBrief,
-      storyFacts
+      storyFacts,
+      choiceCount,
+      difficulty,
+      language
     }),
     answerAgentPrompt,
     answerAgentRaw: second.raw || first.raw || ''
@@ -2396,7 +2413,8 @@ const selectDistractors = ({
   storyBrief,
   storyFacts,
   correctCanonical,
-  correctSupport
+  correctSupport,
+  count = DEFAULT_CHOICE_COUNT - 1
 }) => {
   const selected = [];
   const seen = new Set([correctCanonical]);
@@ -2421,7 +2439,7 @@ const selectDistractors = ({
     });
     seen.add(canonical);
 
-    if (selected.length === 2) {
+    if (selected.length >= count) {
       break;
     }
   }
@@ -2429,8 +2447,9 @@ const selectDistractors = ({
   return selected;
 };
 
-const buildFinalOptions = ({ question, storyBrief, storyFacts, candidatePayload }) => {
+const buildFinalOptions = ({ question, storyBrief, storyFacts, candidatePayload, choiceCount = DEFAULT_CHOICE_COUNT }) => {
   const fallback = buildFallbackOptions(question, storyBrief, storyFacts);
+  const distractorCount = choiceCount - 1;
 
   if (candidatePayload?.not_answerable) {
     return {
@@ -2441,7 +2460,7 @@ const buildFinalOptions = ({ question, storyBrief, storyFacts, candidatePayload
           supportLevel: 20,
           evidence: 'Model marked this question as unsupported by the book.'
         },
-        ...fallback.filter((item) => !item.isCorrect).slice(0, 2)
+        ...fallback.filter((item) => !item.isCorrect).slice(0, distractorCount)
       ],
       regenerationCount: 0
     };
@@ -2458,7 +2477,7 @@ const buildFinalOptions = ({ question, storyBrief, storyFacts, candidatePayload
 
   if (!selectedCorrect) {
     return {
-      options: fallback,
+      options: fallback.slice(0, choiceCount),
       regenerationCount: 0
     };
   }
@@ -2470,12 +2489,13 @@ const buildFinalOptions = ({ question, storyBrief, storyFacts, candidatePayload
     storyBrief,
     storyFacts,
     correctCanonical,
-    correctSupport: selectedCorrect.supportLevel
+    correctSupport: selectedCorrect.supportLevel,
+    count: distractorCount
   });
 
-  const regenerationCount = distractors.length < 2 ? 1 : 0;
+  const regenerationCount = distractors.length < distractorCount ? 1 : 0;
 
-  if (distractors.length < 2) {
+  if (distractors.length < distractorCount) {
     const fallbackDistractors = fallback.filter((item) => !item.isCorrect);
     const existing = new Set(distractors.map((item) => canonicalOption(item.text)));
 
@@ -2484,7 +2504,7 @@ const buildFinalOptions = ({ question, storyBrief, storyFacts, candidatePayload
       if (key === correctCanonical || existing.has(key)) continue;
       distractors.push(extra);
       existing.add(key);
-      if (distractors.length === 2) break;
+      if (distractors.length >= distractorCount) break;
     }
   }
 
@@ -2495,10 +2515,10 @@ const buildFinalOptions = ({ question, storyBrief, storyFacts, candidatePayload
       supportLevel: selectedCorrect.supportLevel,
       evidence: selectedCorrect.evidence
     },
-    ...distractors.slice(0, 2)
+    ...distractors.slice(0, distractorCount)
   ];
 
-  while (options.length < 3) {
+  while (options.length < choiceCount) {
     const fallbackOption = fallback[options.length];
     options.push(fallbackOption);
   }
@@ -2509,11 +2529,11 @@ const buildFinalOptions = ({ question, storyBrief, storyFacts, candidatePayload
   };
 };
 
-const isOptionInStoryFacts = (optionText, storyFacts, storyBrief) => {
-  const canonical = canonicalOption(optionText);
+const isOptionInStoryFacts = (optionText, storyFacts, storyBrief, language = DEFAULT_STORY_LANGUAGE) => {
+  const canonical = canonicalOption(optionText, language);
   if (!canonical) return false;
 
-  const factPhrases = getAllFactPhrases(storyFacts).map((phrase) => canonicalOption(phrase));
+  const factPhrases = getAllFactPhrases(storyFacts).map((phrase) => canonicalOption(phrase, language));
   const phraseMatch = factPhrases.some(
     (phrase) => phrase && (phrase.includes(canonical) || canonical.includes(phrase))
   );
@@ -2522,9 +2542,9 @@ const isOptionInStoryFacts = (optionText, storyFacts, storyBrief) => {
     return true;
   }
 
-  const optionTokens = tokenize(optionText);
-  const factTokens = new Set(tokenize(factPhrases.join(' ')));
-  const briefTokens = new Set(tokenize(storyBrief || ''));
+  const optionTokens = tokenize(optionText, language);
+  const factTokens = new Set(tokenize(factPhrases.join(' '), language));
+  const briefTokens = new Set(tokenize(storyBrief || '', language));
 
   let overlap = 0;
   for (const token of optionTokens) {
@@ -2536,13 +2556,23 @@ const isOptionInStoryFacts = (optionText, storyFacts, storyBrief) => {
   return overlap >= 2;
 };
 
-const determineRenderMode = (optionText, isCorrect, supportLevel, storyFacts, storyBrief) => {
+// Harder levels pull more wrong answers into the story world so they look like the real scene.
+const determineRenderMode = (
+  optionText,
+  isCorrect,
+  supportLevel,
+  storyFacts,
+  storyBrief,
+  difficulty = DEFAULT_DIFFICULTY,
+  language = DEFAULT_STORY_LANGUAGE
+) => {
   if (isCorrect) {
     return RENDER_MODE_BLEND;
   }
 
   const text = String(optionText || '').toLowerCase();
-  const inStory = isOptionInStoryFacts(optionText, storyFacts, storyBrief) || supportLevel >= 55;
+  const inStory = isOptionInStoryFacts(optionText, storyFacts, storyBrief, language)
+    || supportLevel >= getDifficultyProfile(difficulty).blendSupportFloor;
 
   if (inStory) {
     return RENDER_MODE_BLEND;
@@ -3208,6 +3238,30 @@ const shouldIncludeSceneAnchorRef = (participants, optionText) => {
   return /\b(where|take place|happen|happened|setting|scene|location)\b/.test(normalized);
 };
 
+// selectedStyleRefIndexes point into this pool, so stored indexes stay valid while the turn's assets do.
+const toStyleRefPool = (stylePrimer, styleReferences) => {
+  const refsSource = Array.isArray(styleReferences) && styleReferences.length > 0
+    ? styleReferences
+    : (Array.isArray(stylePrimer) ? stylePrimer.map((item) => ({ ...item, kind: 'scene', source: 'upload' })) : []);
+  return normalizeStyleReferenceAssets(
+    refsSource,
+    'upload',
+    false
+  ).slice(0, STYLE_REF_POOL_LIMIT);
+};
+
+const pickStyleRefsByIndex = (stylePrimer, styleReferences, indexes) => {
+  const pool = toStyleRefPool(stylePrimer, styleReferences);
+  const selectedStyleRefIndexes = Array.isArray(indexes) ? indexes.slice(0, STYLE_REF_MAX_TOTAL) : [];
+  if (
+    selectedStyleRefIndexes.length === 0 ||
+    selectedStyleRefIndexes.some((index) => !Number.isInteger(index) || index < 0 || index >= pool.length)
+  ) {
+    return null;
+  }
+  return { refs: selectedStyleRefIndexes.map((index) => pool[index]), selectedStyleRefIndexes };
+};
+
 const selectStyleRefsForOption = async (
   ai,
   stylePrimer,
@@ -3217,14 +3271,7 @@ const selectStyleRefsForOption = async (
   questionParticipants,
   participantsOverride = null
 ) => {
-  const refsSource = Array.isArray(styleReferences) && styleReferences.length > 0
-    ? styleReferences
-    : (Array.isArray(stylePrimer) ? stylePrimer.map((item) => ({ ...item, kind: 'scene', source: 'upload' })) : []);
-  const refsWithMeta = normalizeStyleReferenceAssets(
-    refsSource,
-    'upload',
-    false
-  ).slice(0, STYLE_REF_POOL_LIMIT);
+  const refsWithMeta = toStyleRefPool(stylePrimer, styleReferences);
   const participants = participantsOverride || await resolveTurnContextParticipants(
     ai,
     optionText,
@@ -3401,7 +3448,7 @@ const extractSceneCatalogFromStory = async (ai, storyFile, storyBrief, storyFact
   }
 };
 
-const extractStoryTextFromPdf = async (ai, storyFile, storyBrief) => {
+const extractStoryTextFromPdf = async (ai, storyFile, storyBrief, language = DEFAULT_STORY_LANGUAGE) => {
   try {
     const response = await retryWithBackoff(() =>
       ai.models.generateContent({
@@ -3414,8 +3461,9 @@ const extractStoryTextFromPdf = async (ai, storyFile, storyBrief) => {
                 'Extract the readable book text from this children story PDF in reading order.',
                 'Focus on story sentences and dialog.',
                 'Skip page numbers, copyright lines, and decorative non-story text.',
-                'Return strict JSON only with one field: story_text.'
-              ].join('\n')
+                'Return strict JSON only with one field: story_text.',
+                buildLanguagePromptRule(language, 'story_text exactly as printed')
+              ].filter(Boolean).join('\n')
             }
           ]
         },
@@ -3450,7 +3498,7 @@ const extractStoryTextFromPdf = async (ai, storyFile, storyBrief) => {
   return compactStoryTextForPrompt(storyBrief || '');
 };
 
-const extractPagesTextFromPdf = async (ai, storyFile) => {
+const extractPagesTextFromPdf = async (ai, storyFile, language = DEFAULT_STORY_LANGUAGE) => {
   try {
     const response = await retryWithBackoff(() =>
       ai.models.generateContent({
@@ -3465,8 +3513,9 @@ const extractPagesTextFromPdf = async (ai, storyFile) => {
                 'Each page item must include page_num (1-based), raw_text, clean_text.',
                 'Keep raw_text and clean_text concise (max ~500 chars each per page).',
                 'If page has no story text, return empty strings for that page.',
-                `Limit output to at most ${MAX_PAGES_TEXT_ITEMS} pages.`
-              ].join('\n')
+                `Limit output to at most ${MAX_PAGES_TEXT_ITEMS} pages.`,
+                buildLanguagePromptRule(language, 'raw_text and clean_text exactly as printed')
+              ].filter(Boolean).join('\n')
             }
           ]
         },
@@ -3497,12 +3546,7 @@ const extractPagesTextFromPdf = async (ai, storyFile) => {
 
     const payload = parseJsonSafe(response.text, { pages: [] });
     const pagesText = normalizePagesTextEntries(payload.pages || []);
-    const storyText = compactStoryTextForPrompt(
-      pagesText
-        .map((entry) => entry.cleanText)
-        .filter(Boolean)
-        .join('\n\n')
-    );
+    const storyText = compactStoryTextForPrompt(joinPagesText(pagesText));
 
     return { pagesText, storyText };
   } catch (error) {
@@ -3643,13 +3687,7 @@ const buildEntityRecords = (storyFacts, imageIdsByIndex) => {
     const traitLock = characterTraitMap.get(characterKey);
     const mustHaveTraits = normalizeFactList(traitLock?.mustHaveTraits || traitLock?.must_have_traits || [], 5);
     const negativeTraits = normalizeFactList(traitLock?.negativeTraits || traitLock?.negative_traits || [], 4);
-    const visualAssets = prioritizedIndexes
-      .map((index, idx) => ({
-        imageId: imageIdsByIndex.get(index),
-        role: idx === 0 ? 'gold_face' : idx === 1 ? 'gold_body' : 'reference',
-        styleRefIndex: index
-      }))
-      .filter((asset) => Boolean(asset.imageId));
+    const visualAssets = toEntityVisualAssets(prioritizedIndexes, (index) => imageIdsByIndex.get(index), true);
 
     records.push({
       entityId: makeEntityId('character', character.name),
@@ -3672,13 +3710,7 @@ const buildEntityRecords = (storyFacts, imageIdsByIndex) => {
     const styleRefIndexes = (storyFacts?.objectImageMap || [])
       .find((entry) => entry.objectName === objectName)
       ?.styleRefIndexes || [];
-    const visualAssets = styleRefIndexes
-      .map((index) => ({
-        imageId: imageIdsByIndex.get(index),
-        role: 'reference',
-        styleRefIndex: index
-      }))
-      .filter((asset) => Boolean(asset.imageId));
+    const visualAssets = toEntityVisualAssets(styleRefIndexes, (index) => imageIdsByIndex.get(index), false);
 
     records.push({
       entityId: makeEntityId('object', objectName),
@@ -3711,13 +3743,7 @@ const buildEntityRecords = (storyFacts, imageIdsByIndex) => {
     const sceneIndexes = (storyFacts?.sceneImageMap || [])
       .find((entry) => entry.sceneId === scene.id)
       ?.styleRefIndexes || [];
-    const visualAssets = sceneIndexes
-      .map((index) => ({
-        imageId: imageIdsByIndex.get(index),
-        role: 'reference',
-        styleRefIndex: index
-      }))
-      .filter((asset) => Boolean(asset.imageId));
+    const visualAssets = toEntityVisualAssets(sceneIndexes, (index) => imageIdsByIndex.get(index), false);
     records.push({
       entityId: makeEntityId('scene', scene.title || scene.id),
       name: scene.title || scene.id,
@@ -3898,19 +3924,7 @@ const buildQaReadyBookPackage = async (
     imageIdsByIndex
   });
   const entityRecords = buildEntityRecords(storyFacts, imageIdsByIndex);
-
-  const characterRecords = entityRecords.filter((record) => record.type === 'character');
-  const mainCharacters = characterRecords
-    .filter((record) =>
-      (storyFacts?.characterCatalog || [])
-        .find((entry) => entry.name === record.name)?.source !== 'mentioned'
-    );
-  const mainCharacterSet = (mainCharacters.length > 0 ? mainCharacters : characterRecords).slice(0, 4);
-  const mainCharactersWithGold = mainCharacterSet.filter((record) => Boolean(record.goldRefs?.face || record.goldRefs?.bootstrap));
-  const allCharactersWithGold = characterRecords.filter((record) => Boolean(record.goldRefs?.face || record.goldRefs?.bootstrap));
-  const hasGoldRefsPercent = mainCharacterSet.length > 0
-    ? Math.round((mainCharactersWithGold.length / mainCharacterSet.length) * 100)
-    : 0;
+  const entitySummary = summarizeEntityCatalog(entityRecords, storyFacts);
 
   const validationWarnings = [];
   if (!String(storyFile?.mimeType || '').includes('pdf')) {
@@ -3920,13 +3934,13 @@ const buildQaReadyBookPackage = async (
     validationWarnings.push('PDF appears encrypted; parsing quality may be limited.');
   }
   if (textStats.textQuality === 'poor') {
-    validationWarnings.push('Low text quality detected. OCR may be required for strong Q&A accuracy.');
+    validationWarnings.push(LOW_TEXT_QUALITY_WARNING);
   }
   if ((styleBible.styleReferenceImageIds || []).length < MIN_STYLE_BIBLE_REFS) {
     validationWarnings.push('Style bible has fewer than 5 representative references.');
   }
-  if (mainCharacterSet.length > 0 && mainCharactersWithGold.length === 0) {
-    validationWarnings.push('Main characters are missing gold refs.');
+  if (entitySummary.missingMainGoldRefs) {
+    validationWarnings.push(MISSING_GOLD_REFS_WARNING);
   }
 
   const pageCount = Math.max(
@@ -3950,19 +3964,13 @@ const buildQaReadyBookPackage = async (
     pageImageCount: pagesImages.length,
     illustrationPageCount: illustrationPages.length,
     textQuality: textStats.textQuality,
-    hasGoldRefsPercent,
+    hasGoldRefsPercent: entitySummary.hasGoldRefsPercent,
     checklist: {
       normalizedPdf: true,
       pageImages: pagesImages.length > 0,
       styleBible: (styleBible.styleReferenceImageIds || []).length >= MIN_STYLE_BIBLE_REFS,
-      entityCatalog: entityRecords.length > 0,
-      mainCharactersGoldRefs: mainCharacterSet.length === 0 || mainCharactersWithGold.length > 0,
       cleanTextPerPage: textStats.textQuality !== 'poor',
-      allRecurringCharactersGoldRefs:
-        characterRecords.length > 0 && allCharactersWithGold.length === characterRecords.length,
-      keyObjectsGoldRefs:
-        (storyFacts?.objects || []).length === 0 ||
-        (storyFacts?.objectImageMap || []).some((entry) => (entry.styleRefIndexes || []).length > 0)
+      ...entitySummary.checklist
     },
     notes
   };
@@ -4022,10 +4030,12 @@ const enrichSceneEvidenceFromStyleRefs = (sceneCatalog, styleReferences) => {
 export const setupStoryPack = async (
   storyFile,
   styleImages,
-  imageModelPreference = DEFAULT_IMAGE_MODEL_PREFERENCE
+  imageModelPreference = DEFAULT_IMAGE_MODEL_PREFERENCE,
+  language = DEFAULT_STORY_LANGUAGE
 ) => {
   const ai = getClient();
   const resolvedImageModel = resolveReplicateImageModel(imageModelPreference);
+  const storyLanguage = normalizeStoryLanguage(language);
 
   const setupStart = performance.now();
   const analyzeStart = performance.now();
@@ -4053,8 +4063,9 @@ export const setupStoryPack = async (
               '   - events: key events in sequence fragments',
               '   - setting: one short sentence for overall world',
               '   - world_tags: short tags like ocean, school, forest',
-              'Keep facts compact and evidence-based. Return valid JSON only.'
-            ].join('\n')
+              'Keep facts compact and evidence-based. Return valid JSON only.',
+              buildLanguagePromptRule(storyLanguage, 'summary, story_brief and story_facts (art_style stays English)')
+            ].filter(Boolean).join('\n')
           }
         ]
       },
@@ -4104,8 +4115,8 @@ export const setupStoryPack = async (
   const summary = parsed.summary || 'Story analyzed.';
   const artStyle = parsed.art_style || 'Children\'s book illustration';
   const storyBrief = parsed.story_brief || summary;
-  const pagesTextPromise = extractPagesTextFromPdf(ai, storyFile);
-  const storyTextPromise = extractStoryTextFromPdf(ai, storyFile, storyBrief);
+  const pagesTextPromise = extractPagesTextFromPdf(ai, storyFile, storyLanguage);
+  const storyTextPromise = extractStoryTextFromPdf(ai, storyFile, storyBrief, storyLanguage);
 
   let extractedCharacterCatalog = [];
   try {
@@ -4120,8 +4131,9 @@ export const setupStoryPack = async (
                 'Extract all story characters from this children\'s book PDF.',
                 'Include characters that are explicitly mentioned in text and characters that are visually illustrated.',
                 'Return strict JSON with character_catalog only.',
-                'Each item must be: {name, source} and source must be one of mentioned, illustrated, both.'
-              ].join('\n')
+                'Each item must be: {name, source} and source must be one of mentioned, illustrated, both.',
+                buildLanguagePromptRule(storyLanguage, 'each name')
+              ].filter(Boolean).join('\n')
             }
           ]
         },
@@ -4299,6 +4311,7 @@ export const setupStoryPack = async (
       artStyle,
       storyBrief,
       storyText,
+      language: storyLanguage,
       qaReadyPackage,
       storyFacts: storyFactsWithImageMap,
       coverImage,
@@ -4313,6 +4326,265 @@ export const setupStoryPack = async (
   };
 };
 
+// Older stories only have a style primer; its images stand in as low-confidence scene references.
+const resolveTurnStyleReferences = (styleReferences, stylePrimer) => {
+  const effectiveStyleReferences = normalizeStyleReferenceAssets(
+    Array.isArray(styleReferences) && styleReferences.length > 0
+      ? styleReferences
+      : (Array.isArray(stylePrimer)
+          ? stylePrimer.map((ref) => ({ ...ref, kind: 'scene', source: 'upload', confidence: 0.45 }))
+          : []),
+    'upload',
+    false
+  ).slice(0, STYLE_REF_POOL_LIMIT);
+  return {
+    effectiveStyleReferences,
+    effectiveStylePrimer: effectiveStyleReferences.map((ref) => ({
+      mimeType: ref.mimeType,
+      data: ref.data
+    }))
+  };
+};
+
+// Characters on a turn card that have gold refs in the style pool, with their trait locks.
+const buildTurnConsistencyCharacters = (storyFacts, refPool, participants) => {
+  const goldLookup = buildCharacterGoldRefLookup(storyFacts);
+  const traitLocks = new Map(
+    (Array.isArray(storyFacts?.characterTraitLocks) ? storyFacts.characterTraitLocks : [])
+      .map((entry) => [canonicalOption(entry?.characterName || ''), entry])
+  );
+  return dedupeOrderedList([...(participants?.requiredCharacters || []), ...(participants?.characters || [])], 6)
+    .map((characterName) => {
+      const key = canonicalOption(characterName);
+      const refs = (goldLookup.get(key) || [])
+        .map((index) => refPool[index])
+        .filter((ref) => ref?.mimeType && ref?.data)
+        .slice(0, CONSISTENCY_REFS_PER_CHARACTER);
+      if (refs.length === 0) return null;
+      const lock = traitLocks.get(key);
+      return {
+        characterName,
+        refs,
+        mustHaveTraits: normalizeFactList(lock?.mustHaveTraits || lock?.must_have_traits || [], 5),
+        negativeTraits: normalizeFactList(lock?.negativeTraits || lock?.negative_traits || [], 4)
+      };
+    })
+    .filter(Boolean)
+    .slice(0, CONSISTENCY_MAX_CHARACTERS);
+};
+
+// A card's stored debug only describes the text it was drawn for; an edited or replaced card is planned again.
+const isStoredDebugFor = (storedDebug, text) =>
+  Boolean(storedDebug?.illustratedText) && canonicalOption(storedDebug.illustratedText) === canonicalOption(text);
+
+const toStoredParticipants = (value) =>
+  value && ['scenes', 'characters', 'objects'].every((key) => Array.isArray(value[key]))
+    ? { inferredCharacters: [], inferredObjects: [], ...value }
+    : null;
+
+const toStoredIllustrationPlan = (value) =>
+  value && typeof value.scene_description === 'string'
+    ? {
+      ...value,
+      must_include: { scenes: [], characters: [], objects: [], ...value.must_include },
+      must_avoid: { entities: [], ...value.must_avoid },
+      composition_notes: value.composition_notes || ''
+    }
+    : null;
+
+/**
+ * Participants, reference selection, illustration plan and image for one answer card.
+ * Used by the turn fan-out and by single-card re-renders during caregiver review.
+ *
+ * `storedDebug` is the card's previous `debug`. Participants, style refs and the illustration plan are
+ * reused from it in that order, each only if the step before was, so a redraw only pays for the image.
+ */
+const renderTurnCardImage = async (
+  ai,
+  card,
+  {
+    question,
+    storyBrief,
+    artStyle,
+    normalizedFacts,
+    questionParticipants,
+    effectiveStylePrimer,
+    effectiveStyleReferences,
+    resolvedImageModel,
+    skipImageCache = false,
+    storedDebug = null
+  }
+) => {
+  const cardStart = performance.now();
+  const parts = [];
+  const stored = isStoredDebugFor(storedDebug, card.text) ? storedDebug : null;
+  const storedParticipants = toStoredParticipants(stored?.selectedParticipants);
+  const combinedContext = `${question}\n${card.text}`;
+  const resolveParticipantsStart = performance.now();
+  const participants = storedParticipants || await resolveTurnContextParticipants(
+    ai,
+    combinedContext,
+    normalizedFacts,
+    effectiveStyleReferences,
+    questionParticipants,
+    resolveRequiredCharactersForTurn(combinedContext, normalizedFacts, questionParticipants)
+  );
+  const resolveParticipantsMs = Math.round(performance.now() - resolveParticipantsStart);
+  const selectRefsStart = performance.now();
+  const storedRefs = storedParticipants
+    ? pickStyleRefsByIndex(effectiveStylePrimer, effectiveStyleReferences, stored.selectedStyleRefIndexes)
+    : null;
+  const { refs: refsForOption, selectedStyleRefIndexes } = storedRefs || await selectStyleRefsForOption(
+    ai,
+    effectiveStylePrimer,
+    effectiveStyleReferences,
+    normalizedFacts,
+    card.text,
+    questionParticipants,
+    participants
+  );
+  const selectRefsMs = Math.round(performance.now() - selectRefsStart);
+  const refSummary = refsForOption
+    .map((ref, idx) => {
+      const linkedIndex = selectedStyleRefIndexes[idx];
+      const entity = ref.characterName || ref.objectName || ref.sceneId || 'none';
+      const coverage = Number.isFinite(Number(ref.cropCoverage))
+        ? `${Math.round(Number(ref.cropCoverage) * 100)}%`
+        : '-';
+      return `${Number.isInteger(linkedIndex) ? linkedIndex : '?'}:${ref.kind}:${entity}:${coverage}`;
+    })
+    .join(';');
+  console.info(
+    `[turn] ${card.id} selected_refs=${selectedStyleRefIndexes.join(',') || 'none'} ` +
+      `participants scenes=${participants.scenes.join('|') || 'none'} ` +
+      `chars=${participants.characters.join('|') || 'none'} ` +
+      `required=${(participants.requiredCharacters || []).join('|') || 'none'} ` +
+      `objects=${participants.objects.join('|') || 'none'} ` +
+      `refs_meta=${refSummary || 'none'}`
+  );
+
+  for (const ref of refsForOption) {
+    parts.push({ inlineData: { mimeType: ref.mimeType, data: ref.data } });
+  }
+
+  const selectedStyleRefs = refsForOption.map((ref, idx) => ({
+    index: Number.isInteger(selectedStyleRefIndexes[idx]) ? selectedStyleRefIndexes[idx] : -1,
+    kind: ref.kind,
+    source: ref.source,
+    sceneId: ref.sceneId || undefined,
+    characterName: ref.characterName || undefined,
+    objectName: ref.objectName || undefined,
+    cropCoverage: Number.isFinite(Number(ref.cropCoverage)) ? Number(ref.cropCoverage) : undefined,
+    confidence: Number.isFinite(Number(ref.confidence)) ? Number(ref.confidence) : undefined
+  }));
+
+  const illustrationPlanStart = performance.now();
+  const storedPlan = storedRefs ? toStoredIllustrationPlan(stored.illustrationPlanData) : null;
+  const { illustrationAgentPrompt, illustrationPlan } = storedPlan
+    ? { illustrationAgentPrompt: stored.illustrationAgentPrompt || '', illustrationPlan: storedPlan }
+    : await generateIllustrationPlanForAnswer(ai, {
+      question,
+      answerText: card.text,
+      isCorrect: Boolean(card.isCorrect),
+      participants,
+      storyFacts: normalizedFacts,
+      selectedRefs: refsForOption
+    });
+  const illustrationPlanMs = Math.round(performance.now() - illustrationPlanStart);
+  const illustrationPlanText = toIllustrationPlanText(illustrationPlan, card.text);
+  const imagePrompt = buildImagePrompt({
+    optionText: card.text,
+    renderMode: card.renderMode,
+    storyBrief,
+    artStyle,
+    storyFacts: normalizedFacts,
+    participants,
+    selectedRefs: refsForOption,
+    illustrationPlan
+  });
+
+  parts.push({
+    text: imagePrompt
+  });
+
+  let imageUrl;
+  let imageGenerationError = '';
+  let imageCacheHit = false;
+  let characterConsistency;
+  let characterConsistencyError;
+  let consistencyCheckMs = 0;
+  const imageGenerationStart = performance.now();
+  try {
+    const generated = await generateConsistentImageDataUrl(ai, parts, {
+      imageModelPreference: resolvedImageModel.preference,
+      skipCacheRead: skipImageCache,
+      characters: buildTurnConsistencyCharacters(
+        normalizedFacts,
+        toStyleRefPool(effectiveStylePrimer, effectiveStyleReferences),
+        participants
+      )
+    });
+    imageUrl = generated.imageDataUrl || undefined;
+    imageCacheHit = generated.cacheHit;
+    characterConsistency = generated.consistency || undefined;
+    characterConsistencyError = generated.consistencyError;
+    consistencyCheckMs = generated.consistencyCheckMs;
+    if (characterConsistency) {
+      console.info(
+        `[turn] ${card.id} consistency=${characterConsistency.score} passed=${characterConsistency.passed} attempts=${characterConsistency.attempts}`
+      );
+    }
+  } catch (error) {
+    console.warn('[image] generation failed', card.id, error?.message || error);
+    imageGenerationError = String(error?.message || error || 'image generation failed');
+    imageUrl = undefined;
+  }
+  const imageGenerationMs = Math.round(performance.now() - imageGenerationStart) - consistencyCheckMs;
+
+  const totalMs = Math.round(performance.now() - cardStart);
+
+  return {
+    imageUrl,
+    debug: {
+      illustratedText: card.text,
+      illustrationAgentPrompt,
+      illustrationPlan: illustrationPlanText,
+      illustrationPlanData: illustrationPlan,
+      selectedStyleRefIndexes,
+      selectedStyleRefs,
+      selectedParticipants: participants,
+      imagePrompt,
+      imageModel: `${resolvedImageModel.preference}:${resolvedImageModel.modelVersion}`,
+      imageGenerationError: imageGenerationError || undefined,
+      characterConsistency,
+      characterConsistencyError
+    },
+    stepMs: {
+      resolveParticipantsMs,
+      selectRefsMs,
+      illustrationPlanMs,
+      imageGenerationMs,
+      imageCacheHit,
+      reusedStoredPlan: Boolean(storedPlan),
+      consistencyCheckMs,
+      totalMs
+    }
+  };
+};
+
+// Parents ask in the story's language; an English transcript of a Hebrew question would not match the book.
+const buildTranscriptionPrompt = (language) => {
+  const profile = getLanguageProfile(language);
+  return [
+    'Transcribe only the parent question from this audio.',
+    'This is a reading comprehension activity for a non-verbal child.',
+    normalizeStoryLanguage(language) === DEFAULT_STORY_LANGUAGE
+      ? ''
+      : `The parent speaks ${profile.englishName}. Write the question in ${profile.englishName} script exactly as spoken. Do not translate.`,
+    'Return only plain text transcription.'
+  ].filter(Boolean).join('\n');
+};
+
 export const runTurnPipeline = async (
   audioBase64,
   mimeType,
@@ -4324,43 +4596,52 @@ export const runTurnPipeline = async (
   artStyle,
   stylePrimer,
   styleReferences,
-  history
+  history,
+  {
+    onProgress = null,
+    questionText = '',
+    choiceCount = DEFAULT_CHOICE_COUNT,
+    difficulty = DEFAULT_DIFFICULTY,
+    language = DEFAULT_STORY_LANGUAGE
+  } = {}
 ) => {
   if (!String(storyText || '').trim()) {
-    throw new Error('This story is missing extracted book text. Open setup and save again.');
+    throw createApiError('STORY_NOT_READY', 'This story is missing extracted book text. Open setup and save again.');
   }
+  const typedQuestionText = String(questionText || '').trim().replace(/\s+/g, ' ');
+  const normalizedChoiceCount = normalizeChoiceCount(choiceCount);
+  const normalizedDifficulty = normalizeDifficulty(difficulty);
+  const normalizedLanguage = normalizeStoryLanguage(language);
+  if (!typedQuestionText && !audioBase64) {
+    throw createApiError('VALIDATION_FAILED', 'Provide either audioBase64 or questionText.');
+  }
+
+  // Streaming callers get the question, the text-only cards and then each finished card.
+  const emitProgress = (event) => {
+    if (typeof onProgress !== 'function') return;
+    try {
+      onProgress(event);
+    } catch (error) {
+      console.warn('[turn] progress listener failed', error?.message || error);
+    }
+  };
 
   const ai = getClient();
   const resolvedImageModel = resolveReplicateImageModel(imageModelPreference || DEFAULT_IMAGE_MODEL_PREFERENCE);
   const totalStart = performance.now();
   const normalizedFacts = normalizeStoryFacts(storyFacts, storyBrief);
-  const effectiveStyleReferences = normalizeStyleReferenceAssets(
-    Array.isArray(styleReferences) && styleReferences.length > 0
-      ? styleReferences
-      : (Array.isArray(stylePrimer)
-          ? stylePrimer.map((ref) => ({ ...ref, kind: 'scene', source: 'upload', confidence: 0.45 }))
-          : []),
-    'upload',
-    false
-  ).slice(0, STYLE_REF_POOL_LIMIT);
-  const effectiveStylePrimer = effectiveStyleReferences.map((ref) => ({
-    mimeType: ref.mimeType,
-    data: ref.data
-  }));
+  const { effectiveStyleReferences, effectiveStylePrimer } = resolveTurnStyleReferences(styleReferences, stylePrimer);
 
+  // Typed questions skip transcription entirely and report it as 0ms.
   const transcribeStart = performance.now();
-  const transcribeResponse = await retryWithBackoff(() =>
+  const transcribeResponse = typedQuestionText ? null : await retryWithBackoff(() =>
     ai.models.generateContent({
       model: 'gemini-3-flash-preview',
       contents: {
         parts: [
           { inlineData: { mimeType, data: audioBase64 } },
           {
-            text: [
-              'Transcribe only the parent question from this audio.',
-              'This is a reading comprehension activity for a non-verbal child.',
-              'Return only plain text transcription.'
-            ].join('\n')
+            text: buildTranscriptionPrompt(normalizedLanguage)
           }
         ]
       },
@@ -4369,8 +4650,8 @@ export const runTurnPipeline = async (
       }
     })
   );
-  const question = transcribeResponse.text?.trim() || '';
-  const transcribeMs = Math.round(performance.now() - transcribeStart);
+  const question = typedQuestionText || transcribeResponse?.text?.trim() || '';
+  const transcribeMs = typedQuestionText ? 0 : Math.round(performance.now() - transcribeStart);
   const stepMs = {
     questionTranscriptionMs: transcribeMs,
     resolveQuestionParticipantsMs: 0,
@@ -4395,6 +4676,8 @@ export const runTurnPipeline = async (
     };
   }
 
+  emitProgress({ type: 'question', question });
+
   const optionsStart = performance.now();
   const resolveQuestionParticipantsStart = performance.now();
   const questionRequiredContext = resolveRequiredCharactersForTurn(question, normalizedFacts, null);
@@ -4415,7 +4698,10 @@ export const runTurnPipeline = async (
     storyPdf,
     history,
     storyFacts: normalizedFacts,
-    storyBrief
+    storyBrief,
+    choiceCount: normalizedChoiceCount,
+    difficulty: normalizedDifficulty,
+    language: normalizedLanguage
   });
   stepMs.answerAgentMs = Math.round(performance.now() - answerAgentStart);
   const resolvedOptions = answerAgentResult.options;
@@ -4430,7 +4716,9 @@ export const runTurnPipeline = async (
       choice.isCorrect,
       choice.supportLevel || 0,
       normalizedFacts,
-      storyBrief
+      storyBrief,
+      normalizedDifficulty,
+      normalizedLanguage
     );
 
     return {
@@ -4456,144 +4744,47 @@ export const runTurnPipeline = async (
   );
 
   console.info(
-    `[qa] turn options wrong_truth_rate=${(accidentalTruthCount / Math.max(wrongCards.length, 1)).toFixed(2)} ` +
+    `[qa] turn options difficulty=${normalizedDifficulty} wrong_truth_rate=${(accidentalTruthCount / Math.max(wrongCards.length, 1)).toFixed(2)} ` +
       `render_split=${renderModeSplit.blend}/${renderModeSplit.standalone} regenerations=${regenerationCount}`
   );
   stepMs.optionAssemblyMs = Math.round(performance.now() - optionAssemblyStart);
   const optionsMs = Math.round(performance.now() - optionsStart);
+  emitProgress({ type: 'options', cards: cards.map((card) => ({ ...card })), optionsMs });
 
   const imageMsById = {};
   const cardStepMsById = {};
   const imageStart = performance.now();
 
+  const renderContext = {
+    question,
+    storyBrief,
+    artStyle,
+    normalizedFacts,
+    questionParticipants,
+    effectiveStylePrimer,
+    effectiveStyleReferences,
+    resolvedImageModel
+  };
+
   await Promise.all(
     cards.map(async (card) => {
-      const cardStart = performance.now();
-      const parts = [];
-      const combinedContext = `${question}\n${card.text}`;
-      const requiredCardContext = resolveRequiredCharactersForTurn(combinedContext, normalizedFacts, questionParticipants);
-      const resolveParticipantsStart = performance.now();
-      const participants = await resolveTurnContextParticipants(
-        ai,
-        combinedContext,
-        normalizedFacts,
-        effectiveStyleReferences,
-        questionParticipants,
-        requiredCardContext
-      );
-      const resolveParticipantsMs = Math.round(performance.now() - resolveParticipantsStart);
-      const selectRefsStart = performance.now();
-      const { refs: refsForOption, selectedStyleRefIndexes } = await selectStyleRefsForOption(
-        ai,
-        effectiveStylePrimer,
-        effectiveStyleReferences,
-        normalizedFacts,
-        card.text,
-        questionParticipants,
-        participants
-      );
-      const selectRefsMs = Math.round(performance.now() - selectRefsStart);
-      const refSummary = refsForOption
-        .map((ref, idx) => {
-          const linkedIndex = selectedStyleRefIndexes[idx];
-          const entity = ref.characterName || ref.objectName || ref.sceneId || 'none';
-          const coverage = Number.isFinite(Number(ref.cropCoverage))
-            ? `${Math.round(Number(ref.cropCoverage) * 100)}%`
-            : '-';
-          return `${Number.isInteger(linkedIndex) ? linkedIndex : '?'}:${ref.kind}:${entity}:${coverage}`;
-        })
-        .join(';');
-      console.info(
-        `[turn] ${card.id} selected_refs=${selectedStyleRefIndexes.join(',') || 'none'} ` +
-          `participants scenes=${participants.scenes.join('|') || 'none'} ` +
-          `chars=${participants.characters.join('|') || 'none'} ` +
-          `required=${(participants.requiredCharacters || []).join('|') || 'none'} ` +
-          `objects=${participants.objects.join('|') || 'none'} ` +
-          `refs_meta=${refSummary || 'none'}`
-      );
+      const rendered = await renderTurnCardImage(ai, card, renderContext);
+      card.imageUrl = rendered.imageUrl;
+      card.isLoadingImage = false;
+      card.debug = {
+        answerAgentPrompt: answerAgentResult.answerAgentPrompt,
+        answerAgentRaw: answerAgentResult.answerAgentRaw,
+        ...rendered.debug
+      };
+      imageMsById[card.id] = rendered.stepMs.totalMs;
+      cardStepMsById[card.id] = rendered.stepMs;
+      emitProgress({ type: 'card', card: { ...card }, cardStepMs: cardStepMsById[card.id] });
+    })
+  );
 
-      for (const ref of refsForOption) {
-        parts.push({ inlineData: { mimeType: ref.mimeType, data: ref.data } });
-      }
-
-      const selectedStyleRefs = refsForOption.map((ref, idx) => ({
-        index: Number.isInteger(selectedStyleRefIndexes[idx]) ? selectedStyleRefIndexes[idx] : -1,
-        kind: ref.kind,
-        source: ref.source,
-        sceneId: ref.sceneId || undefined,
-        characterName: ref.characterName || undefined,
-        objectName: ref.objectName || undefined,
-        cropCoverage: Number.isFinite(Number(ref.cropCoverage)) ? Number(ref.cropCoverage) : undefined,
-        confidence: Number.isFinite(Number(ref.confidence)) ? Number(ref.confidence) : undefined
-      }));
-
-      const illustrationPlanStart = performance.now();
-      const { illustrationAgentPrompt, illustrationPlan } = await generateIllustrationPlanForAnswer(ai, {
-        question,
-        answerText: card.text,
-        isCorrect: Boolean(card.isCorrect),
-        participants,
-        storyFacts: normalizedFacts,
-        selectedRefs: refsForOption
-      });
-      const illustrationPlanMs = Math.round(performance.now() - illustrationPlanStart);
-      const illustrationPlanText = toIllustrationPlanText(illustrationPlan, card.text);
-      const imagePrompt = buildImagePrompt({
-        optionText: card.text,
-        renderMode: card.renderMode,
-        storyBrief,
-        artStyle,
-        storyFacts: normalizedFacts,
-        participants,
-        selectedRefs: refsForOption,
-        illustrationPlan
-      });
-
-      parts.push({
-        text: imagePrompt
-      });
-
-      let imageGenerationError = '';
-      const imageGenerationStart = performance.now();
-      try {
-        card.imageUrl = (
-          await retryWithBackoff(() => generateImageDataUrl(ai, parts, '1:1', resolvedImageModel.preference), 1, 350)
-        ) || undefined;
-      } catch (error) {
-        console.warn('[image] generation failed', card.id, error?.message || error);
-        imageGenerationError = String(error?.message || error || 'image generation failed');
-        card.imageUrl = undefined;
-      }
-      const imageGenerationMs = Math.round(performance.now() - imageGenerationStart);
-
-      card.isLoadingImage = false;
-      card.debug = {
-        answerAgentPrompt: answerAgentResult.answerAgentPrompt,
-        answerAgentRaw: answerAgentResult.answerAgentRaw,
-        illustrationAgentPrompt,
-        illustrationPlan: illustrationPlanText,
-        selectedStyleRefIndexes,
-        selectedStyleRefs,
-        selectedParticipants: participants,
-        imagePrompt,
-        imageModel: `${resolvedImageModel.preference}:${resolvedImageModel.modelVersion}`,
-        imageGenerationError: imageGenerationError || undefined
-      };
-      const cardTotalMs = Math.round(performance.now() - cardStart);
-      imageMsById[card.id] = cardTotalMs;
-      cardStepMsById[card.id] = {
-        resolveParticipantsMs,
-        selectRefsMs,
-        illustrationPlanMs,
-        imageGenerationMs,
-        totalMs: cardTotalMs
-      };
-    })
-  );
-
-  const fullCardsMs = Math.round(performance.now() - imageStart);
-  stepMs.imageFanoutMs = fullCardsMs;
-  const totalMs = Math.round(performance.now() - totalStart);
+  const fullCardsMs = Math.round(performance.now() - imageStart);
+  stepMs.imageFanoutMs = fullCardsMs;
+  const totalMs = Math.round(performance.now() - totalStart);
 
   return {
     question,
@@ -4610,20 +4801,218 @@ export const runTurnPipeline = async (
   };
 };
 
-export const synthesizeSpeech = async (text) => {
+/**
+ * Asks the answer agent for one more option than the turn shows and keeps the best-ranked wrong answer
+ * that is not already on screen. Falls back to the language's canned distractors if every suggestion repeats.
+ */
+const generateReplacementDistractor = async (
+  ai,
+  { question, storyText, storyBrief, storyFacts, shownTexts, difficulty, language }
+) => {
+  const shown = new Set(shownTexts.map((text) => canonicalOption(text, language)).filter(Boolean));
+  const result = await generateAnswersFromStoryText(ai, {
+    question,
+    storyText,
+    history: [],
+    storyFacts,
+    storyBrief,
+    storyPdf: null,
+    choiceCount: normalizeChoiceCount(shownTexts.length + 1),
+    difficulty,
+    language
+  });
+  const fresh =
+    result.options.find((option) => !option.isCorrect && !shown.has(canonicalOption(option.text, language))) ||
+    getFallbackDistractors(isWhereQuestion(question, language), language)
+      .find((option) => !shown.has(canonicalOption(option.text, language)));
+  if (!fresh) {
+    throw createApiError('INTERNAL', 'No new answer could be found for this card.');
+  }
+  return {
+    text: fresh.text,
+    supportLevel: fresh.supportLevel || 0,
+    answerAgentPrompt: result.answerAgentPrompt,
+    answerAgentRaw: result.answerAgentRaw
+  };
+};
+
+/**
+ * Redraws one answer card; the rest of the turn is untouched and the card keeps its id.
+ * `mode: 'image'` keeps the text and correctness. When `storedDebug` was drawn for the same text, its
+ * participants, style refs and plan are reused. The image cache is skipped so the picture is new.
+ * `mode: 'replace_distractor'` swaps a wrong card for a new wrong answer not in `otherAnswers` and draws it fresh.
+ */
+export const renderTurnCard = async ({
+  question,
+  card,
+  mode = 'image',
+  storedDebug = null,
+  storyText = '',
+  otherAnswers = [],
+  difficulty = DEFAULT_DIFFICULTY,
+  language = DEFAULT_STORY_LANGUAGE,
+  storyBrief,
+  storyFacts,
+  artStyle,
+  stylePrimer,
+  styleReferences,
+  imageModelPreference
+}) => {
+  const text = normalizePhrase(card?.text || '');
+  if (!text) {
+    throw createApiError('VALIDATION_FAILED', 'card.text is required.');
+  }
+  const isReplacement = mode === 'replace_distractor';
+  if (isReplacement && card.isCorrect) {
+    throw createApiError('VALIDATION_FAILED', 'Only a wrong answer card can be replaced.');
+  }
+  if (isReplacement && !String(storyText || '').trim()) {
+    throw createApiError('VALIDATION_FAILED', 'storyText is required to replace an answer.');
+  }
+
   const ai = getClient();
-  const normalizedText = limitWords(text, MAX_TTS_WORDS) || 'Okay';
+  const normalizedFacts = normalizeStoryFacts(storyFacts, storyBrief);
+  const normalizedDifficulty = normalizeDifficulty(difficulty);
+  const normalizedLanguage = normalizeStoryLanguage(language);
+  const { effectiveStyleReferences, effectiveStylePrimer } = resolveTurnStyleReferences(styleReferences, stylePrimer);
+
+  const replacement = isReplacement
+    ? await generateReplacementDistractor(ai, {
+      question,
+      storyText,
+      storyBrief,
+      storyFacts: normalizedFacts,
+      shownTexts: [text, ...otherAnswers],
+      difficulty: normalizedDifficulty,
+      language: normalizedLanguage
+    })
+    : null;
+  const nextCard = replacement
+    ? {
+      ...card,
+      text: replacement.text,
+      isCorrect: false,
+      type: 'wrong',
+      supportLevel: replacement.supportLevel,
+      renderMode: determineRenderMode(
+        replacement.text,
+        false,
+        replacement.supportLevel,
+        normalizedFacts,
+        storyBrief,
+        normalizedDifficulty,
+        normalizedLanguage
+      )
+    }
+    : { ...card, text };
+
+  // Question participants only feed the steps a stored debug would otherwise skip.
+  const questionParticipants = !replacement && isStoredDebugFor(storedDebug, nextCard.text)
+    ? null
+    : await resolveTurnContextParticipants(
+      ai,
+      question,
+      normalizedFacts,
+      effectiveStyleReferences,
+      null,
+      resolveRequiredCharactersForTurn(question, normalizedFacts, null)
+    );
+
+  const rendered = await renderTurnCardImage(ai, nextCard, {
+    question,
+    storyBrief,
+    artStyle,
+    normalizedFacts,
+    questionParticipants,
+    effectiveStylePrimer,
+    effectiveStyleReferences,
+    resolvedImageModel: resolveReplicateImageModel(imageModelPreference || DEFAULT_IMAGE_MODEL_PREFERENCE),
+    skipImageCache: true,
+    storedDebug: replacement ? null : storedDebug
+  });
+
+  return {
+    card: {
+      ...nextCard,
+      imageUrl: rendered.imageUrl,
+      isLoadingImage: false,
+      debug: replacement
+        ? { answerAgentPrompt: replacement.answerAgentPrompt, answerAgentRaw: replacement.answerAgentRaw, ...rendered.debug }
+        : rendered.debug
+    },
+    cardStepMs: rendered.stepMs
+  };
+};
+
+/**
+ * Re-reads one page from its rendered image, for pages the PDF text pass garbled or missed.
+ * Returns the new page record; the caller decides whether to keep it.
+ */
+export const recognizePageText = async ({ pageNum, pageImage, language = DEFAULT_STORY_LANGUAGE }) => {
+  const ai = getClient();
+  const startedAt = performance.now();
+  const response = await retryWithBackoff(() =>
+    ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: {
+        parts: [
+          { inlineData: { mimeType: pageImage.mimeType, data: pageImage.data } },
+          {
+            text: [
+              `Read the story text printed on page ${pageNum} of this children's book.`,
+              'Return strict JSON with raw_text and clean_text.',
+              'raw_text: the text exactly as printed, in reading order.',
+              'clean_text: the same text with broken words rejoined, stray symbols and page numbers removed.',
+              'Ignore text that is part of the illustration (signs, labels) unless the story reads it aloud.',
+              'If the page has no story text, return empty strings.',
+              buildLanguagePromptRule(language, 'raw_text and clean_text exactly as printed')
+            ].filter(Boolean).join('\n')
+          }
+        ]
+      },
+      config: {
+        responseMimeType: 'application/json',
+        thinkingConfig: { thinkingBudget: 0 },
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            raw_text: { type: Type.STRING },
+            clean_text: { type: Type.STRING }
+          },
+          required: ['raw_text', 'clean_text']
+        }
+      }
+    })
+  );
+
+  const payload = parseJsonSafe(response.text, { raw_text: '', clean_text: '' });
+  const rawText = String(payload.raw_text || '').slice(0, MAX_PAGE_TEXT_CHARS);
+  return {
+    page: toPageTextRecord(pageNum, rawText, String(payload.clean_text || rawText).slice(0, MAX_PAGE_TEXT_CHARS)),
+    timings: { ocrMs: Math.round(performance.now() - startedAt) }
+  };
+};
+
+/**
+ * `purpose` sets the length cap: `option` for card labels, `narration` for whole read-along pages.
+ * Voice, speaking rate and language fall back to the defaults in speech.js.
+ */
+export const synthesizeSpeech = async (text, { voice, speakingRate, languageCode, purpose = 'option' } = {}) => {
+  const ai = getClient();
+  const settings = normalizeSpeechSettings({ voice, speakingRate, languageCode });
+  const maxWords = MAX_TTS_WORDS_BY_PURPOSE[purpose] || MAX_TTS_WORDS_BY_PURPOSE.option;
+  const normalizedText = limitWords(text, maxWords) || 'Okay';
+  const rateInstruction = SPEAKING_RATE_INSTRUCTIONS[settings.speakingRate];
+  const spokenText = rateInstruction ? `${rateInstruction}: ${normalizedText}` : normalizedText;
 
   const response = await retryWithBackoff(
     () =>
       ai.models.generateContent({
-        model: 'gemini-2.5-flash-preview-tts',
-        contents: { parts: [{ text: normalizedText }] },
+        model: TTS_MODEL,
+        contents: { parts: [{ text: spokenText }] },
         config: {
           responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-          }
+          speechConfig: toSpeechConfig(settings)
         }
       }),
     1,
@@ -4644,27 +5033,242 @@ export const synthesizeSpeech = async (text) => {
 const RUNTIME_CACHE_LIMIT = 64;
 const RUNTIME_EVENT_LOG_LIMIT = 2000;
 const RUNTIME_PLAN_STORE_LIMIT = 1000;
+// Uploaded assets and cached images are base64 payloads, so both are capped by size rather than entry count.
+const RUNTIME_ASSET_STORE_BYTE_LIMIT = 64 * 1024 * 1024;
+const RUNTIME_IMAGE_CACHE_BYTE_LIMIT = 32 * 1024 * 1024;
 const RUNTIME_CONTEXT_ENTITY_LIMIT = 36;
 const RUNTIME_IMAGE_CONCURRENCY_LIMIT = 6;
 
-const runtimeBookCache = new Map();
-const runtimePlanStore = new Map();
-const runtimeEventLog = [];
+let runtimeStore = null;
 let runtimeActiveImageJobs = 0;
 const runtimeImageQueue = [];
 
 const toRuntimeId = (prefix) => `${prefix}_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
 
-const pushRuntimeEvent = (eventType, payload = {}) => {
+const getRuntimeStore = () => {
+  if (!runtimeStore) {
+    runtimeStore = createRuntimeStore({
+      bookLimit: RUNTIME_CACHE_LIMIT,
+      planLimit: RUNTIME_PLAN_STORE_LIMIT,
+      assetByteLimit: RUNTIME_ASSET_STORE_BYTE_LIMIT,
+      imageByteLimit: RUNTIME_IMAGE_CACHE_BYTE_LIMIT,
+      eventLimit: RUNTIME_EVENT_LOG_LIMIT
+    });
+  }
+  return runtimeStore;
+};
+
+const toImageCacheKeyForParts = (parts, aspectRatio, imageModelPreference) =>
+  toImageCacheKey({
+    model: `${getProvider().name}:${resolveReplicateImageModel(imageModelPreference).modelVersion}`,
+    aspectRatio,
+    prompt: parts.filter((part) => part?.text).map((part) => part.text).join('\n'),
+    refs: parts.filter((part) => part?.inlineData).map((part) => part.inlineData)
+  });
+
+// Same provider, model, prompt and reference images give the same picture, so repeat questions skip the image model.
+// Cache read/write failures only cost a regeneration; they never fail the card.
+// `skipCacheRead` forces a fresh image (a caregiver asked for another one); the result still replaces the cached entry.
+const generateImageDataUrlCached = async (
+  ai,
+  parts,
+  aspectRatio,
+  imageModelPreference = DEFAULT_IMAGE_MODEL_PREFERENCE,
+  { skipCacheRead = false } = {}
+) => {
+  const cacheKey = toImageCacheKeyForParts(parts, aspectRatio, imageModelPreference);
+  const store = getRuntimeStore();
+
+  const cached = skipCacheRead ? null : await store.getImage(cacheKey).catch((error) => {
+    console.warn('[image] cache read failed', error?.message || error);
+    return null;
+  });
+  if (cached?.imageDataUrl) {
+    return { imageDataUrl: cached.imageDataUrl, cacheHit: true };
+  }
+
+  const imageDataUrl = await generateImageDataUrl(ai, parts, aspectRatio, imageModelPreference);
+  if (imageDataUrl) {
+    await store.setImage(cacheKey, { imageDataUrl, createdAt: Date.now() }).catch((error) => {
+      console.warn('[image] cache write failed', error?.message || error);
+    });
+  }
+  return { imageDataUrl, cacheHit: false };
+};
+
+const buildConsistencyCheckPrompt = (characters) =>
+  [
+    'You check children story answer-card illustrations for character consistency.',
+    'The images before "Generated card image" are gold references for the named characters; the last image is the generated card.',
+    'For each character below, score 0-100 how closely the generated card matches the gold references:',
+    'same species, silhouette, colors, markings, face and eye style, and the same illustration style.',
+    'Score 0 if the character does not appear. List must-have traits that are missing and negative traits that appear.',
+    ...characters.map((character) =>
+      `- ${character.characterName}: must have=${character.mustHaveTraits.join('; ') || 'n/a'} | must avoid=${character.negativeTraits.join('; ') || 'n/a'}`
+    ),
+    'Return strict JSON only: { "character_scores": [{ "character_name": string, "score": number, "missing_traits": string[], "violated_traits": string[] }] }'
+  ].join('\n');
+
+/**
+ * Asks a vision model how well a generated image matches each character's gold refs and trait locks.
+ * `characters` are `{ characterName, refs, mustHaveTraits, negativeTraits }`. The image scores as its weakest
+ * character, since one off-model character spoils the card; a character the model does not score counts as missing.
+ */
+const scoreCharacterConsistency = async (ai, imageDataUrl, characters) => {
+  const image = toFileDataFromDataUrl(imageDataUrl);
+  if (!image) return null;
+
+  const parts = [];
+  for (const character of characters) {
+    parts.push({ text: `Gold reference for ${character.characterName}:` });
+    for (const ref of character.refs) {
+      parts.push({ inlineData: { mimeType: ref.mimeType, data: ref.data } });
+    }
+  }
+  parts.push({ text: 'Generated card image:' }, { inlineData: image }, { text: buildConsistencyCheckPrompt(characters) });
+
+  const response = await retryWithBackoff(() =>
+    ai.models.generateContent({
+      model: CONSISTENCY_CHECK_MODEL,
+      contents: { parts },
+      config: {
+        responseMimeType: 'application/json',
+        thinkingConfig: { thinkingBudget: 0 },
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            character_scores: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  character_name: { type: Type.STRING },
+                  score: { type: Type.NUMBER },
+                  missing_traits: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  violated_traits: { type: Type.ARRAY, items: { type: Type.STRING } }
+                },
+                required: ['character_name', 'score', 'missing_traits', 'violated_traits']
+              }
+            }
+          },
+          required: ['character_scores']
+        }
+      }
+    })
+  );
+
+  const payload = parseJsonSafe(response.text, { character_scores: [] });
+  const byName = new Map(
+    (Array.isArray(payload?.character_scores) ? payload.character_scores : [])
+      .map((entry) => [canonicalOption(entry?.character_name || ''), entry])
+  );
+  const scored = characters.map((character) => {
+    const entry = byName.get(canonicalOption(character.characterName));
+    const score = Number(entry?.score);
+    return {
+      characterName: character.characterName,
+      score: Number.isFinite(score) ? Math.round(Math.min(100, Math.max(0, score))) : 0,
+      missingTraits: normalizeFactList(entry?.missing_traits || [], 6),
+      violatedTraits: normalizeFactList(entry?.violated_traits || [], 6)
+    };
+  });
+  const score = Math.min(...scored.map((item) => item.score));
+  return { score, passed: score >= CONSISTENCY_MIN_SCORE, minScore: CONSISTENCY_MIN_SCORE, characters: scored };
+};
+
+const buildConsistencyRetryNote = (check) =>
+  [
+    'Character consistency fix: the previous attempt drifted from the book. Match the reference images exactly.',
+    ...check.characters
+      .filter((item) => item.score < check.minScore)
+      .map((item) => [
+        `- ${item.characterName}`,
+        item.missingTraits.length > 0 ? `must show: ${item.missingTraits.join('; ')}` : '',
+        item.violatedTraits.length > 0 ? `remove: ${item.violatedTraits.join('; ')}` : ''
+      ].filter(Boolean).join(' | '))
+  ].join('\n');
+
+/**
+ * Generates an image and, when it shows characters with gold refs, scores it and redraws it with the checker's
+ * notes while it stays below CONSISTENCY_MIN_SCORE. The best-scoring attempt wins and is cached under the
+ * original prompt. Cache hits are not re-scored. A failed check never fails the image; it is reported in `consistencyError`.
+ */
+const generateConsistentImageDataUrl = async (
+  ai,
+  parts,
+  { aspectRatio = '1:1', imageModelPreference = DEFAULT_IMAGE_MODEL_PREFERENCE, skipCacheRead = false, characters = [] } = {}
+) => {
+  const generate = (attemptParts, skipRead) =>
+    retryWithBackoff(
+      () => generateImageDataUrlCached(ai, attemptParts, aspectRatio, imageModelPreference, { skipCacheRead: skipRead }),
+      1,
+      350
+    );
+  let checkMs = 0;
+  const score = async (imageDataUrl) => {
+    const checkStart = performance.now();
+    try {
+      return await scoreCharacterConsistency(ai, imageDataUrl, characters);
+    } finally {
+      checkMs += performance.now() - checkStart;
+    }
+  };
+
+  const first = await generate(parts, skipCacheRead);
+  if (first.cacheHit || !first.imageDataUrl || characters.length === 0) {
+    return { ...first, consistency: null, consistencyError: undefined, consistencyCheckMs: 0 };
+  }
+
+  let best = { imageDataUrl: first.imageDataUrl, check: null };
+  let attempts = 1;
+  try {
+    best.check = await score(first.imageDataUrl);
+    while (best.check && !best.check.passed && attempts <= CONSISTENCY_MAX_RETRIES) {
+      attempts += 1;
+      const retry = await generate([...parts, { text: buildConsistencyRetryNote(best.check) }], true);
+      const check = retry.imageDataUrl ? await score(retry.imageDataUrl) : null;
+      if (check && check.score > best.check.score) {
+        best = { imageDataUrl: retry.imageDataUrl, check };
+      }
+    }
+  } catch (error) {
+    console.warn('[image] consistency check failed', error?.message || error);
+    return {
+      imageDataUrl: best.imageDataUrl,
+      cacheHit: false,
+      consistency: best.check ? { ...best.check, attempts } : null,
+      consistencyError: String(error?.message || error || 'consistency check failed'),
+      consistencyCheckMs: Math.round(checkMs)
+    };
+  }
+
+  if (best.imageDataUrl !== first.imageDataUrl) {
+    await getRuntimeStore()
+      .setImage(toImageCacheKeyForParts(parts, aspectRatio, imageModelPreference), { imageDataUrl: best.imageDataUrl, createdAt: Date.now() })
+      .catch((error) => {
+        console.warn('[image] cache write failed', error?.message || error);
+      });
+  }
+  return {
+    imageDataUrl: best.imageDataUrl,
+    cacheHit: false,
+    consistency: best.check ? { ...best.check, attempts } : null,
+    consistencyError: undefined,
+    consistencyCheckMs: Math.round(checkMs)
+  };
+};
+
+const pushRuntimeEvent = async (eventType, payload = {}) => {
   const event = {
     eventId: toRuntimeId('evt'),
     timestamp: Date.now(),
     eventType,
     ...payload
   };
-  runtimeEventLog.push(event);
-  while (runtimeEventLog.length > RUNTIME_EVENT_LOG_LIMIT) {
-    runtimeEventLog.shift();
+  try {
+    await getRuntimeStore().appendEvent(event);
+  } catch (error) {
+    console.warn('[runtime] event persist failed', error?.message || error);
   }
   const bookId = payload.bookId ? ` book=${payload.bookId}` : '';
   const planId = payload.qaPlanId ? ` plan=${payload.qaPlanId}` : '';
@@ -4672,39 +5276,6 @@ const pushRuntimeEvent = (eventType, payload = {}) => {
   return event;
 };
 
-const normalizeForEntityMatch = (value) =>
-  String(value || '')
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, ' ')
-    .replace(/\s+/g, ' ')
-    .trim();
-
-const levenshteinDistance = (a, b) => {
-  const left = normalizeForEntityMatch(a);
-  const right = normalizeForEntityMatch(b);
-  if (!left || !right) return 99;
-  if (left === right) return 0;
-  const dp = Array.from({ length: left.length + 1 }, () => Array(right.length + 1).fill(0));
-  for (let i = 0; i <= left.length; i += 1) dp[i][0] = i;
-  for (let j = 0; j <= right.length; j += 1) dp[0][j] = j;
-  for (let i = 1; i <= left.length; i += 1) {
-    for (let j = 1; j <= right.length; j += 1) {
-      const cost = left[i - 1] === right[j - 1] ? 0 : 1;
-      dp[i][j] = Math.min(
-        dp[i - 1][j] + 1,
-        dp[i][j - 1] + 1,
-        dp[i - 1][j - 1] + cost
-      );
-    }
-  }
-  return dp[left.length][right.length];
-};
-
-const splitMentions = (text) =>
-  normalizeForEntityMatch(text)
-    .split(/\s+/)
-    .filter((token) => token.length >= 3);
-
 const normalizeEntityRecordsForRuntime = (entityRecords) =>
   (Array.isArray(entityRecords) ? entityRecords : [])
     .map((record) => {
@@ -4734,83 +5305,8 @@ const normalizeEntityRecordsForRuntime = (entityRecords) =>
     })
     .filter(Boolean);
 
-export const resolveEntitiesForText = (text, entityRecords) => {
-  const normalizedText = normalizeForEntityMatch(text);
-  const tokens = splitMentions(text);
-  const resolved = [];
-  const unmatchedMentions = [];
-  const seen = new Set();
-
-  for (const record of normalizeEntityRecordsForRuntime(entityRecords)) {
-    const candidates = [record.name, ...(record.aliases || [])]
-      .map((value) => normalizeForEntityMatch(value))
-      .filter(Boolean);
-    const directMatch = candidates.find((candidate) => {
-      if (candidate.length < 3) return false;
-      return normalizedText.includes(candidate);
-    });
-
-    if (directMatch) {
-      resolved.push({
-        entityId: record.entityId,
-        confidence: 0.98,
-        matchMethod: 'alias_exact',
-        matchedValue: directMatch
-      });
-      seen.add(record.entityId);
-      continue;
-    }
-
-    let fuzzyMatch = null;
-    for (const token of tokens) {
-      for (const candidate of candidates) {
-        if (Math.abs(candidate.length - token.length) > 2) continue;
-        const distance = levenshteinDistance(token, candidate);
-        if (distance <= 1 || distance / Math.max(candidate.length, 1) <= 0.2) {
-          fuzzyMatch = { token, candidate, distance };
-          break;
-        }
-      }
-      if (fuzzyMatch) break;
-    }
-
-    if (fuzzyMatch) {
-      resolved.push({
-        entityId: record.entityId,
-        confidence: Math.max(0.55, 0.9 - fuzzyMatch.distance * 0.25),
-        matchMethod: 'alias_fuzzy',
-        matchedValue: fuzzyMatch.candidate
-      });
-      seen.add(record.entityId);
-    }
-  }
-
-  for (const mention of tokens) {
-    const matched = resolved.some((item) => normalizeForEntityMatch(item.matchedValue || '') === mention);
-    if (!matched) {
-      unmatchedMentions.push(mention);
-    }
-  }
-
-  return {
-    matchedEntityIds: resolved.map((item) => item.entityId),
-    resolvedEntities: resolved,
-    unmatchedMentions
-  };
-};
-
-const trimRuntimeCache = () => {
-  while (runtimeBookCache.size > RUNTIME_CACHE_LIMIT) {
-    const firstKey = runtimeBookCache.keys().next().value;
-    if (!firstKey) break;
-    runtimeBookCache.delete(firstKey);
-  }
-  while (runtimePlanStore.size > RUNTIME_PLAN_STORE_LIMIT) {
-    const firstKey = runtimePlanStore.keys().next().value;
-    if (!firstKey) break;
-    runtimePlanStore.delete(firstKey);
-  }
-};
+export const resolveEntitiesForText = (text, entityRecords) =>
+  resolveEntityMentions(text, normalizeEntityRecordsForRuntime(entityRecords));
 
 const buildImageRefMapForRuntime = (qaReadyPackage, styleReferences) => {
   const imageRefById = new Map();
@@ -4836,51 +5332,23 @@ const buildImageRefMapForRuntime = (qaReadyPackage, styleReferences) => {
   return imageRefById;
 };
 
+// Accepts a bare package or a storyPack wrapping one, and upgrades older versions to the current schema.
 const normalizeQaReadyPackagePayload = (payload) => {
-  if (payload?.qaReadyPackage) {
-    return payload.qaReadyPackage;
-  }
-
-  if (payload?.manifest && payload?.entityRecords && payload?.styleBible) {
-    return payload;
-  }
-
-  if (payload?.entity_records || payload?.style_bible || payload?.qa_ready_manifest) {
-    return {
-      version: payload?.version || QA_PACKAGE_VERSION,
-      createdAt: payload?.created_at || Date.now(),
-      manifest: payload?.manifest || {
-        bookId: payload?.book_id || '',
-        title: payload?.title || '',
-        fileHash: payload?.book_package_hash || '',
-        pageCount: Array.isArray(payload?.pages_text) ? payload.pages_text.length : 0,
-        originalFileSize: 0,
-        mimeType: 'application/pdf',
-        textQuality: payload?.qa_ready_manifest?.text_quality || 'mixed',
-        validationWarnings: [],
-        normalizedAt: Date.now()
-      },
-      pagesText: payload?.pages_text || [],
-      pagesImages: payload?.pages_images || [],
-      illustrationPages: payload?.illustration_pages || [],
-      styleBible: payload?.style_bible || {},
-      entityRecords: payload?.entity_records || [],
-      interactionPairs: payload?.interaction_pairs || payload?.interactionPairs || [],
-      qaReadyManifest: payload?.qa_ready_manifest || {}
-    };
+  const candidate = payload?.qaReadyPackage || payload;
+  if (!candidate || typeof candidate !== 'object') {
+    return null;
   }
-
-  return null;
+  return migrateQaReadyPackage(candidate);
 };
 
 const buildSessionContextFromPackage = (bookId, qaReadyPackage, styleReferences = []) => {
   if (!qaReadyPackage) {
-    throw new Error('qaReadyPackage is required to create runtime session.');
+    throw createApiError('VALIDATION_FAILED', 'qaReadyPackage is required to create runtime session.');
   }
 
   const safeBookId = normalizePhrase(bookId || qaReadyPackage?.manifest?.bookId || '');
   if (!safeBookId) {
-    throw new Error('book_id is required.');
+    throw createApiError('VALIDATION_FAILED', 'book_id is required.');
   }
 
   const packageHash = normalizePhrase(
@@ -4916,9 +5384,7 @@ const buildSessionContextFromPackage = (bookId, qaReadyPackage, styleReferences
   };
   const pagesText = normalizePagesTextEntries(qaReadyPackage?.pagesText || qaReadyPackage?.pages_text || []);
   const qaReadyManifest = qaReadyPackage?.qaReadyManifest || qaReadyPackage?.qa_ready_manifest || {};
-  const bookContextText = compactStoryTextForPrompt(
-    pagesText.map((item) => item.cleanText).filter(Boolean).join('\n\n')
-  );
+  const bookContextText = compactStoryTextForPrompt(joinPagesText(pagesText));
   const styleRefs = normalizeStyleReferenceAssets(styleReferences || [], 'upload', false).slice(0, STYLE_REF_POOL_LIMIT);
   const imageRefById = buildImageRefMapForRuntime(qaReadyPackage, styleRefs);
 
@@ -4938,20 +5404,54 @@ const buildSessionContextFromPackage = (bookId, qaReadyPackage, styleReferences
   };
 };
 
-export const loadBookPackageRuntime = ({ bookId, qaReadyPackage, styleReferences = [], forceReload = false }) => {
-  const normalizedPackage = normalizeQaReadyPackagePayload(qaReadyPackage) || qaReadyPackage;
+// imageRefById is a Map, so it is rebuilt from the stored package instead of being persisted.
+const toStoredRuntimeContext = (context) => {
+  const { imageRefById, ...record } = context;
+  return record;
+};
+
+const getStoredRuntimeContext = async (bookId) => {
+  const record = await getRuntimeStore().getBook(bookId);
+  if (!record) {
+    return null;
+  }
+
+  let qaReadyPackage = record.qaReadyPackage;
+  try {
+    qaReadyPackage = migrateQaReadyPackage(qaReadyPackage);
+  } catch (error) {
+    console.warn('[runtime] stored book package could not be migrated', error?.message || error);
+    return null;
+  }
+  return {
+    ...record,
+    qaReadyPackage,
+    imageRefById: buildImageRefMapForRuntime(qaReadyPackage, record.styleReferences)
+  };
+};
+
+export const loadBookPackageRuntime = async ({ bookId, qaReadyPackage, styleReferences = [], forceReload = false }) => {
+  const normalizedPackage = normalizeQaReadyPackagePayload(qaReadyPackage);
   if (!normalizedPackage) {
-    throw new Error('qaReadyPackage is required.');
+    throw createApiError('VALIDATION_FAILED', 'qaReadyPackage is required.');
+  }
+  const validation = validateQaReadyPackage(normalizedPackage);
+  if (!validation.valid) {
+    throw createApiError(
+      'VALIDATION_FAILED',
+      `qaReadyPackage failed schema validation (${validation.errors.length} field errors).`,
+      { fieldErrors: validation.errors }
+    );
   }
   const normalizedBookId = normalizePhrase(bookId || normalizedPackage?.manifest?.bookId || '');
   if (!normalizedBookId) {
-    throw new Error('book_id is required.');
+    throw createApiError('VALIDATION_FAILED', 'book_id is required.');
   }
 
   const packageHash = normalizePhrase(
     normalizedPackage?.manifest?.fileHash || hashStringFast(JSON.stringify(normalizedPackage).slice(0, 12000))
   );
-  const cacheHit = runtimeBookCache.get(normalizedBookId);
+  const cacheHit = await getStoredRuntimeContext(normalizedBookId);
   if (
     !forceReload &&
     cacheHit &&
@@ -4959,7 +5459,7 @@ export const loadBookPackageRuntime = ({ bookId, qaReadyPackage, styleReferences
     Array.isArray(cacheHit?.styleReferences) &&
     cacheHit.styleReferences.length > 0
   ) {
-    pushRuntimeEvent('book_cache_hit', {
+    await pushRuntimeEvent('book_cache_hit', {
       bookId: normalizedBookId,
       sessionId: cacheHit.sessionId,
       bookPackageHash: packageHash
@@ -4968,9 +5468,8 @@ export const loadBookPackageRuntime = ({ bookId, qaReadyPackage, styleReferences
   }
 
   const context = buildSessionContextFromPackage(normalizedBookId, normalizedPackage, styleReferences);
-  runtimeBookCache.set(normalizedBookId, context);
-  trimRuntimeCache();
-  pushRuntimeEvent('book_loaded', {
+  await getRuntimeStore().setBook(normalizedBookId, toStoredRuntimeContext(context));
+  await pushRuntimeEvent('book_loaded', {
     bookId: normalizedBookId,
     sessionId: context.sessionId,
     bookPackageHash: context.bookPackageHash
@@ -4978,19 +5477,19 @@ export const loadBookPackageRuntime = ({ bookId, qaReadyPackage, styleReferences
   return context;
 };
 
-const getRuntimeContext = ({ bookId, qaReadyPackage, styleReferences = [] }) => {
+const getRuntimeContext = async ({ bookId, qaReadyPackage, styleReferences = [] }) => {
   const normalizedBookId = normalizePhrase(bookId || qaReadyPackage?.manifest?.bookId || '');
   if (!normalizedBookId) {
-    throw new Error('book_id is required.');
+    throw createApiError('VALIDATION_FAILED', 'book_id is required.');
   }
 
-  const cached = runtimeBookCache.get(normalizedBookId);
+  const cached = await getStoredRuntimeContext(normalizedBookId);
   if (cached) {
     return cached;
   }
 
   if (!qaReadyPackage) {
-    throw new Error('Book package is not loaded. Call /api/runtime-load-book first or provide qaReadyPackage.');
+    throw createApiError('NOT_FOUND', 'Book package is not loaded. Call /api/runtime-load-book first or provide qaReadyPackage.');
   }
 
   return loadBookPackageRuntime({ bookId: normalizedBookId, qaReadyPackage, styleReferences });
@@ -5015,6 +5514,8 @@ const makeEntityMiniIndex = (entityRecords) =>
 const buildOrchestratorPrompt = ({
   questionText,
   difficulty,
+  language = DEFAULT_STORY_LANGUAGE,
+  choiceCount = DEFAULT_CHOICE_COUNT,
   bookContextText,
   styleBible,
   styleRefIds,
@@ -5026,14 +5527,15 @@ const buildOrchestratorPrompt = ({
     'Return strict JSON only.',
     'Task: produce an MCQ plan and image prompt packages.',
     'Rules:',
-    '- Exactly 3 choices with ids A, B, C.',
+    `- Exactly ${choiceCount} choices with ids ${getChoiceIds(choiceCount).join(', ')}.`,
     '- Exactly 1 correct choice.',
     '- Answer text max 10 words.',
-    '- Use different wrongness types for the two incorrect choices.',
-    '- Keep A/B/C scenes comparable (same framing level, similar complexity).',
+    '- Use different wrongness types for the incorrect choices.',
+    `- Keep ${getChoiceIds(choiceCount).join('/')} scenes comparable (same framing level, similar complexity).`,
     '- Keep style and characters consistent with the provided book entities and style refs.',
     '- Do not invent characters/objects outside the provided entity index.',
-    `Difficulty: ${difficulty || 'easy'}`,
+    buildLanguagePromptRule(language, 'every answer_text (scene_plan and prompts stay English)'),
+    `Difficulty: ${difficulty || DEFAULT_RUNTIME_DIFFICULTY}`,
     `Question: ${questionText}`,
     `Book context:\n${bookContextText || 'No context available.'}`,
     `Style block: ${JSON.stringify(styleBible)}`,
@@ -5043,11 +5545,11 @@ const buildOrchestratorPrompt = ({
     'Return schema:',
     '{',
     '  "choices": [',
-    '    { "choice_id": "A|B|C", "answer_text": "...", "is_correct": true|false, "wrongness_type": "..." , "scene_plan": "..." }',
+    `    { "choice_id": "${getChoiceIds(choiceCount).join('|')}", "answer_text": "...", "is_correct": true|false, "wrongness_type": "..." , "scene_plan": "..." }`,
     '  ],',
     '  "prompt_packages": [',
     '    {',
-    '      "choice_id": "A|B|C",',
+    `      "choice_id": "${getChoiceIds(choiceCount).join('|')}",`,
     '      "prompt": "...",',
     '      "negative_constraints": ["..."],',
     '      "reference_image_ids": ["..."],',
@@ -5057,35 +5559,37 @@ const buildOrchestratorPrompt = ({
     '    }',
     '  ]',
     '}'
-  ].join('\n');
+  ].filter(Boolean).join('\n');
 
-const validateQaPlan = (plan) => {
+const validateQaPlan = (plan, choiceCount = DEFAULT_CHOICE_COUNT) => {
   const choices = Array.isArray(plan?.choices) ? plan.choices : [];
   const promptPackages = Array.isArray(plan?.prompt_packages) ? plan.prompt_packages : [];
-  if (choices.length !== 3) {
-    throw new Error('Invalid orchestrator plan: exactly 3 choices are required.');
+  const expectedIds = getChoiceIds(choiceCount);
+  if (choices.length !== expectedIds.length) {
+    throw new Error(`Invalid orchestrator plan: exactly ${expectedIds.length} choices are required.`);
   }
   const ids = new Set(choices.map((item) => normalizePhrase(item?.choice_id || '').toUpperCase()));
-  if (!(ids.has('A') && ids.has('B') && ids.has('C'))) {
-    throw new Error('Invalid orchestrator plan: choice ids must be A/B/C.');
+  if (!expectedIds.every((id) => ids.has(id))) {
+    throw new Error(`Invalid orchestrator plan: choice ids must be ${expectedIds.join('/')}.`);
   }
   const correctChoices = choices.filter((item) => Boolean(item?.is_correct));
   if (correctChoices.length !== 1) {
     throw new Error('Invalid orchestrator plan: exactly one choice must be correct.');
   }
+  // With more than two wrong choices some types may repeat, but they must not all be the same.
   const wrongnessTypes = choices
     .filter((item) => !item?.is_correct)
     .map((item) => normalizePhrase(item?.wrongness_type || ''));
-  if (wrongnessTypes.length >= 2 && wrongnessTypes[0] && wrongnessTypes[1] && wrongnessTypes[0] === wrongnessTypes[1]) {
+  if (wrongnessTypes.length >= 2 && wrongnessTypes.every((type) => type && type === wrongnessTypes[0])) {
     throw new Error('Invalid orchestrator plan: wrong choices must use different wrongness types.');
   }
-  if (promptPackages.length !== 3) {
-    throw new Error('Invalid orchestrator plan: exactly 3 prompt packages are required.');
+  if (promptPackages.length !== expectedIds.length) {
+    throw new Error(`Invalid orchestrator plan: exactly ${expectedIds.length} prompt packages are required.`);
   }
 };
 
-const finalizeQaPlan = (rawPlan, context, questionText, resolvedQuestion) => {
-  validateQaPlan(rawPlan);
+const finalizeQaPlan = (rawPlan, context, questionText, resolvedQuestion, choiceCount) => {
+  validateQaPlan(rawPlan, choiceCount);
 
   const styleRefIds = context.styleBible.styleReferenceImageIds.slice(0, 3);
   const entitiesById = new Map(context.entityRecords.map((entry) => [entry.entityId, entry]));
@@ -5166,7 +5670,9 @@ const generateQaPlanWithOrchestrator = async ({
   ai,
   context,
   questionText,
-  difficulty
+  difficulty,
+  language = DEFAULT_STORY_LANGUAGE,
+  choiceCount = DEFAULT_CHOICE_COUNT
 }) => {
   const resolvedQuestion = resolveEntitiesForText(questionText, context.entityRecords);
   const styleRefIds = context.styleBible.styleReferenceImageIds.slice(0, 3);
@@ -5174,6 +5680,8 @@ const generateQaPlanWithOrchestrator = async ({
   const orchestratorPrompt = buildOrchestratorPrompt({
     questionText,
     difficulty,
+    language,
+    choiceCount,
     bookContextText: context.bookContextText,
     styleBible: {
       global_style_description: context.styleBible.globalStyleDescription,
@@ -5246,7 +5754,7 @@ const generateQaPlanWithOrchestrator = async ({
   const firstResponse = await orchestratorCall(orchestratorPrompt);
   let firstPlan = parseJsonSafe(firstResponse.text, null);
   try {
-    const finalized = finalizeQaPlan(firstPlan, context, questionText, resolvedQuestion);
+    const finalized = finalizeQaPlan(firstPlan, context, questionText, resolvedQuestion, choiceCount);
     return {
       ...finalized,
       orchestratorPrompt,
@@ -5260,7 +5768,7 @@ const generateQaPlanWithOrchestrator = async ({
     ].join('\n');
     const repairResponse = await orchestratorCall(repairPrompt);
     firstPlan = parseJsonSafe(repairResponse.text, null);
-    const finalized = finalizeQaPlan(firstPlan, context, questionText, resolvedQuestion);
+    const finalized = finalizeQaPlan(firstPlan, context, questionText, resolvedQuestion, choiceCount);
     return {
       ...finalized,
       orchestratorPrompt,
@@ -5315,23 +5823,26 @@ const buildImagePromptFromPackage = (promptPackage, choice, context) => {
 export const createRuntimeQaPlan = async ({
   bookId,
   questionText,
-  difficulty = 'easy',
+  difficulty = DEFAULT_RUNTIME_DIFFICULTY,
+  language = DEFAULT_STORY_LANGUAGE,
+  choiceCount = DEFAULT_CHOICE_COUNT,
   qaReadyPackage = null,
   styleReferences = []
 }) => {
+  const normalizedChoiceCount = normalizeChoiceCount(choiceCount);
   const normalizedQuestion = normalizeQuestionText(questionText);
   if (!normalizedQuestion) {
-    throw new Error('question_text is required.');
+    throw createApiError('VALIDATION_FAILED', 'question_text is required.');
   }
   if (normalizedQuestion.length > 280) {
-    throw new Error('question_text is too long (max 280 characters).');
+    throw createApiError('VALIDATION_FAILED', 'question_text is too long (max 280 characters).');
   }
 
-  const context = getRuntimeContext({ bookId, qaReadyPackage, styleReferences });
+  const context = await getRuntimeContext({ bookId, qaReadyPackage, styleReferences });
   const ai = getClient();
   const startedAt = Date.now();
 
-  pushRuntimeEvent('question_received', {
+  await pushRuntimeEvent('question_received', {
     bookId: context.bookId,
     sessionId: context.sessionId,
     questionHash: hashStringFast(normalizedQuestion)
@@ -5341,7 +5852,9 @@ export const createRuntimeQaPlan = async ({
     ai,
     context,
     questionText: normalizedQuestion,
-    difficulty
+    difficulty,
+    language: normalizeStoryLanguage(language),
+    choiceCount: normalizedChoiceCount
   });
 
   const qaPlanId = toRuntimeId('plan');
@@ -5351,6 +5864,7 @@ export const createRuntimeQaPlan = async ({
       bookId: context.bookId,
       questionText: normalizedQuestion,
       difficulty,
+      choiceCount: normalizedChoiceCount,
       bookPackageHash: context.bookPackageHash
     })
   );
@@ -5361,6 +5875,7 @@ export const createRuntimeQaPlan = async ({
     questionId,
     questionText: normalizedQuestion,
     difficulty,
+    choiceCount: normalizedChoiceCount,
     requestPayloadHash,
     correctChoiceId: orchestrated.correctChoiceId,
     choices: orchestrated.choices,
@@ -5372,10 +5887,9 @@ export const createRuntimeQaPlan = async ({
     createdAt: Date.now(),
     processingMs: Date.now() - startedAt
   };
-  runtimePlanStore.set(qaPlanId, planRecord);
-  trimRuntimeCache();
+  await getRuntimeStore().setPlan(qaPlanId, planRecord);
 
-  pushRuntimeEvent('qa_plan_created', {
+  await pushRuntimeEvent('qa_plan_created', {
     bookId: context.bookId,
     sessionId: context.sessionId,
     qaPlanId,
@@ -5402,14 +5916,34 @@ export const createRuntimeQaPlan = async ({
   };
 };
 
+// Character entities picked for a choice, with their gold ref images and trait locks from the package.
+const buildRuntimeConsistencyCharacters = (context, selectedEntityIds) => {
+  const entitiesById = new Map((context.entityRecords || []).map((entity) => [entity.entityId, entity]));
+  return (Array.isArray(selectedEntityIds) ? selectedEntityIds : [])
+    .map((entityId) => entitiesById.get(entityId))
+    .filter((entity) => entity?.type === 'character')
+    .map((entity) => ({
+      characterName: entity.name,
+      refs: [entity.goldRefs?.face, entity.goldRefs?.body, entity.goldRefs?.bootstrap]
+        .filter(Boolean)
+        .map((imageId) => context.imageRefById.get(imageId))
+        .filter((ref) => ref?.mimeType && ref?.data)
+        .slice(0, CONSISTENCY_REFS_PER_CHARACTER),
+      mustHaveTraits: (entity.mustHaveTraits || []).slice(0, 5),
+      negativeTraits: (entity.negativeTraits || []).slice(0, 4)
+    }))
+    .filter((character) => character.refs.length > 0)
+    .slice(0, CONSISTENCY_MAX_CHARACTERS);
+};
+
 export const renderRuntimeQaImages = async ({ qaPlanId }) => {
-  const plan = runtimePlanStore.get(normalizePhrase(qaPlanId));
+  const plan = await getRuntimeStore().getPlan(normalizePhrase(qaPlanId));
   if (!plan) {
-    throw new Error('qa_plan_id not found.');
+    throw createApiError('NOT_FOUND', 'qa_plan_id not found.');
   }
-  const context = runtimeBookCache.get(plan.bookId);
+  const context = await getStoredRuntimeContext(plan.bookId);
   if (!context) {
-    throw new Error('Runtime context not found for this plan.');
+    throw createApiError('NOT_FOUND', 'Runtime context not found for this plan.');
   }
   const ai = getClient();
 
@@ -5445,25 +5979,33 @@ export const renderRuntimeQaImages = async ({ qaPlanId }) => {
       const imageId = `gen_${hashStringFast(storageUri).slice(1)}`;
 
       try {
-        const imageDataUrl = await runWithRuntimeImageSlot(
-          () => retryWithBackoff(() => generateImageDataUrl(ai, parts, '1:1'), 1, 350)
+        const { imageDataUrl, cacheHit, consistency, consistencyError } = await runWithRuntimeImageSlot(
+          () => generateConsistentImageDataUrl(ai, parts, {
+            characters: buildRuntimeConsistencyCharacters(context, pkg.selectedEntityIds)
+          })
         );
-        pushRuntimeEvent('qa_image_generated', {
+        await pushRuntimeEvent('qa_image_generated', {
           bookId: plan.bookId,
           sessionId: plan.sessionId,
           qaPlanId: plan.qaPlanId,
           choiceId: choice.choiceId,
-          imageId
+          imageId,
+          cacheHit,
+          consistencyScore: consistency?.score ?? null,
+          consistencyPassed: consistency ? consistency.passed : null,
+          consistencyAttempts: consistency?.attempts ?? 0,
+          consistencyError: consistencyError || undefined
         });
         return {
           choiceId: choice.choiceId,
           imageId,
           storageUri,
-          imageDataUrl: imageDataUrl || null
+          imageDataUrl: imageDataUrl || null,
+          consistency
         };
       } catch (error) {
         const message = String(error?.message || error || 'image generation failed');
-        pushRuntimeEvent('qa_image_failed', {
+        await pushRuntimeEvent('qa_image_failed', {
           bookId: plan.bookId,
           sessionId: plan.sessionId,
           qaPlanId: plan.qaPlanId,
@@ -5481,7 +6023,7 @@ export const renderRuntimeQaImages = async ({ qaPlanId }) => {
     })
   );
 
-  pushRuntimeEvent('qa_images_completed', {
+  await pushRuntimeEvent('qa_images_completed', {
     bookId: plan.bookId,
     sessionId: plan.sessionId,
     qaPlanId: plan.qaPlanId
@@ -5499,7 +6041,9 @@ export const renderRuntimeQaImages = async ({ qaPlanId }) => {
 export const runRuntimeQuiz = async ({
   bookId,
   questionText,
-  difficulty = 'easy',
+  difficulty = DEFAULT_RUNTIME_DIFFICULTY,
+  language = DEFAULT_STORY_LANGUAGE,
+  choiceCount = DEFAULT_CHOICE_COUNT,
   qaReadyPackage = null,
   styleReferences = []
 }) => {
@@ -5507,6 +6051,8 @@ export const runRuntimeQuiz = async ({
     bookId,
     questionText,
     difficulty,
+    language,
+    choiceCount,
     qaReadyPackage,
     styleReferences
   });
@@ -5517,7 +6063,7 @@ export const runRuntimeQuiz = async ({
     image: imageByChoice.get(choice.choiceId) || null
   }));
 
-  pushRuntimeEvent('quiz_completed', {
+  await pushRuntimeEvent('quiz_completed', {
     bookId: planResult.bookId,
     sessionId: planResult.sessionId,
     qaPlanId: planResult.qaPlanId
@@ -5535,11 +6081,98 @@ export const runRuntimeQuiz = async ({
   };
 };
 
-export const getRuntimeEvents = ({ bookId, qaPlanId, limit = 200 } = {}) => {
+// Bank pictures go to the asset store so responses carry ids; the client downloads each one with /api/assets-get.
+const storeGeneratedImageAsset = async (imageDataUrl) => {
+  const file = toFileDataFromDataUrl(imageDataUrl);
+  if (!file) return null;
+  const assetId = toAssetId(file);
+  await getRuntimeStore().setAsset(assetId, { ...file, storedAt: Date.now() });
+  return assetId;
+};
+
+// Plans and renders one batch of bank questions, one question at a time, so a session can run from stored cards.
+// The client walks `nextOffset` until it is null. A question that fails is reported in `skipped` instead of failing the batch.
+export const buildRuntimeQuestionBank = async ({
+  bookId,
+  qaReadyPackage = null,
+  styleReferences = [],
+  difficulty = DEFAULT_RUNTIME_DIFFICULTY,
+  language = DEFAULT_STORY_LANGUAGE,
+  choiceCount = DEFAULT_CHOICE_COUNT,
+  maxQuestions = DEFAULT_QUESTION_BANK_SIZE,
+  offset = 0,
+  batchSize = QUESTION_BANK_BATCH_SIZE
+}) => {
+  const context = qaReadyPackage
+    ? await loadBookPackageRuntime({ bookId, qaReadyPackage, styleReferences })
+    : await getRuntimeContext({ bookId });
+  const templates = buildQuestionBankTemplates(context, maxQuestions);
+  const normalizedChoiceCount = normalizeChoiceCount(choiceCount);
+  const batch = templates.slice(offset, offset + Math.max(1, Math.min(QUESTION_BANK_BATCH_SIZE, batchSize)));
+
+  const questions = [];
+  const skipped = [];
+  for (const template of batch) {
+    try {
+      const quiz = await runRuntimeQuiz({
+        bookId: context.bookId,
+        questionText: template.questionText,
+        difficulty,
+        language,
+        choiceCount: normalizedChoiceCount
+      });
+      const choices = [];
+      for (const choice of quiz.choices) {
+        choices.push({
+          choiceId: choice.choiceId,
+          answerText: choice.answerText,
+          imageAssetId: await storeGeneratedImageAsset(choice.image?.imageDataUrl)
+        });
+      }
+      questions.push({
+        questionId: template.questionId,
+        kind: template.kind,
+        questionText: quiz.questionText,
+        qaPlanId: quiz.qaPlanId,
+        correctChoiceId: quiz.internal.correctChoiceId,
+        choices
+      });
+    } catch (error) {
+      console.warn('[bank] question failed', template.questionId, error?.message || error);
+      skipped.push({
+        questionId: template.questionId,
+        questionText: template.questionText,
+        error: String(error?.message || error || 'question failed')
+      });
+    }
+  }
+
+  const nextOffset = offset + batch.length;
+  await pushRuntimeEvent('question_bank_built', {
+    bookId: context.bookId,
+    sessionId: context.sessionId,
+    offset,
+    questionCount: questions.length,
+    skippedCount: skipped.length
+  });
+
+  return {
+    bookId: context.bookId,
+    difficulty,
+    choiceCount: normalizedChoiceCount,
+    createdAt: Date.now(),
+    totalQuestions: templates.length,
+    nextOffset: nextOffset < templates.length ? nextOffset : null,
+    questions,
+    skipped
+  };
+};
+
+export const getRuntimeEvents = async ({ bookId, qaPlanId, limit = 200 } = {}) => {
   const normalizedBookId = normalizePhrase(bookId || '');
   const normalizedQaPlanId = normalizePhrase(qaPlanId || '');
   const maxItems = Math.max(1, Math.min(1000, Number(limit) || 200));
-  const events = [...runtimeEventLog]
+  const events = (await getRuntimeStore().listEvents())
     .filter((event) => {
       if (normalizedBookId && normalizePhrase(event.bookId || '') !== normalizedBookId) return false;
       if (normalizedQaPlanId && normalizePhrase(event.qaPlanId || '') !== normalizedQaPlanId) return false;
@@ -5548,3 +6181,83 @@ export const getRuntimeEvents = ({ bookId, qaPlanId, limit = 200 } = {}) => {
     .slice(-maxItems);
   return events;
 };
+
+export const findMissingAssets = async (assetIds = []) => {
+  const store = getRuntimeStore();
+  const uniqueIds = Array.from(new Set(assetIds));
+  const present = await Promise.all(uniqueIds.map((assetId) => store.hasAsset(assetId)));
+  return uniqueIds.filter((_, index) => !present[index]);
+};
+
+export const storeUploadedAssets = async (assets = []) => {
+  for (const asset of assets) {
+    const expectedAssetId = toAssetId(asset);
+    if (asset.assetId !== expectedAssetId) {
+      throw createApiError('VALIDATION_FAILED', `assetId ${asset.assetId} does not match the uploaded content.`, {
+        assetId: asset.assetId,
+        expectedAssetId
+      });
+    }
+  }
+
+  const store = getRuntimeStore();
+  await Promise.all(
+    assets.map((asset) =>
+      store.setAsset(asset.assetId, { mimeType: asset.mimeType, data: asset.data, storedAt: Date.now() })
+    )
+  );
+  return assets.map((asset) => asset.assetId);
+};
+
+export const getStoredAsset = async (assetId) => {
+  const stored = await getRuntimeStore().getAsset(assetId);
+  if (!stored?.data) {
+    throw createApiError('NOT_FOUND', `Asset ${assetId} is not stored.`, { assetId });
+  }
+  return { assetId, mimeType: stored.mimeType, data: stored.data };
+};
+
+// Swaps { assetId } refs in a turn request for stored bytes; every missing id is reported at once so the client uploads in one pass.
+export const resolveTurnAssets = async ({ storyPdf, stylePrimer = [], styleReferences = [] }) => {
+  const store = getRuntimeStore();
+  const missingAssetIds = new Set();
+  const fieldErrors = [];
+
+  const resolveFile = async (file, path) => {
+    if (!file || file.data) return file;
+    if (!file.assetId) {
+      fieldErrors.push({ path, message: 'must carry data or an assetId' });
+      return null;
+    }
+    const stored = await store.getAsset(file.assetId);
+    if (!stored?.data) {
+      missingAssetIds.add(file.assetId);
+      return null;
+    }
+    const { assetId: _assetId, ...rest } = file;
+    return { ...rest, mimeType: stored.mimeType || file.mimeType, data: stored.data };
+  };
+
+  const [resolvedPdf, resolvedPrimer, resolvedReferences] = await Promise.all([
+    resolveFile(storyPdf, 'storyPdf'),
+    Promise.all(stylePrimer.map((file, index) => resolveFile(file, `stylePrimer[${index}]`))),
+    Promise.all(styleReferences.map((file, index) => resolveFile(file, `styleReferences[${index}]`)))
+  ]);
+
+  if (fieldErrors.length > 0) {
+    const summary = fieldErrors.slice(0, 3).map((error) => `${error.path} ${error.message}`).join('; ');
+    throw createApiError('VALIDATION_FAILED', `Invalid request: ${summary}`, { fieldErrors });
+  }
+
+  if (missingAssetIds.size > 0) {
+    throw createApiError('ASSET_MISSING', `${missingAssetIds.size} referenced asset(s) are not uploaded.`, {
+      missingAssetIds: Array.from(missingAssetIds)
+    });
+  }
+
+  return {
+    storyPdf: resolvedPdf || undefined,
+    stylePrimer: resolvedPrimer.filter((file) => file?.data),
+    styleReferences: resolvedReferences.filter((file) => file?.data)
+  };
+};
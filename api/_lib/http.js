@@ -0,0 +1,57 @@
+import { createApiError, toApiErrorResponse } from '../../shared/apiErrors.js';
+import { validateSchema } from '../../shared/schema.js';
+
+export const sendJson = (res, status, data) => {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(data));
+};
+
+export const sendError = (res, error, fallbackMessage) => {
+  const { status, body } = toApiErrorResponse(error, fallbackMessage);
+  if (status >= 500) {
+    console.warn('[api] request failed', body.code, body.message);
+  }
+  return sendJson(res, status, { error: body });
+};
+
+export const ensureMethod = (req, res, methods) => {
+  if (methods.includes(req.method)) {
+    return true;
+  }
+  sendError(res, createApiError('METHOD_NOT_ALLOWED', 'Method not allowed', { allowed: methods }));
+  return false;
+};
+
+export const readJsonBody = (req) => {
+  if (typeof req.body !== 'string') {
+    return req.body || {};
+  }
+  try {
+    return req.body ? JSON.parse(req.body) : {};
+  } catch (error) {
+    throw createApiError('INVALID_JSON', `Request body is not valid JSON: ${error?.message || error}`);
+  }
+};
+
+// Top-level fields may declare `aliases` (camelCase spellings) and a `default`.
+export const parseRequest = (body, schema) => {
+  const source = body && typeof body === 'object' ? body : {};
+  const value = { ...source };
+  for (const [key, spec] of Object.entries(schema.fields || {})) {
+    const alias = (spec.aliases || []).find((name) => source[name] !== undefined && source[name] !== null);
+    if ((value[key] === undefined || value[key] === null) && alias) {
+      value[key] = source[alias];
+    }
+    if ((value[key] === undefined || value[key] === null) && spec.default !== undefined) {
+      value[key] = spec.default;
+    }
+  }
+
+  const { valid, errors } = validateSchema(schema, value);
+  if (!valid) {
+    const summary = errors.slice(0, 3).map((error) => `${error.path} ${error.message}`).join('; ');
+    throw createApiError('VALIDATION_FAILED', `Invalid request: ${summary}`, { fieldErrors: errors });
+  }
+  return value;
+};
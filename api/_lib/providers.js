@@ -0,0 +1,29 @@
+import { createFakeProvider } from './fakeProvider.js';
+
+export const PROVIDER_GEMINI = 'gemini';
+export const PROVIDER_FAKE = 'fake';
+
+const providerFactories = new Map([[PROVIDER_FAKE, createFakeProvider]]);
+
+const normalizeProviderName = (value) => String(value || '').trim().toLowerCase();
+
+/**
+ * A provider supplies `getClient()` (a GenAI-compatible client used for text, vision
+ * and speech) and `generateImage(parts, aspectRatio, modelVersion)` returning a data URL.
+ */
+export const registerProvider = (name, factory) => {
+  providerFactories.set(normalizeProviderName(name), factory);
+};
+
+export const getProviderName = () =>
+  normalizeProviderName(process.env.STORYBUDDY_PROVIDER) || PROVIDER_GEMINI;
+
+export const getProvider = () => {
+  const name = getProviderName();
+  const factory = providerFactories.get(name);
+  if (!factory) {
+    const known = Array.from(providerFactories.keys()).join(', ');
+    throw new Error(`Unknown STORYBUDDY_PROVIDER "${name}". Expected one of: ${known}.`);
+  }
+  return factory();
+};
@@ -0,0 +1,60 @@
+import { hashStringFast } from '../../shared/assetIds.js';
+
+// Standard comprehension questions built from the book package alone, so no model call is needed to pick them.
+export const DEFAULT_QUESTION_BANK_SIZE = 8;
+export const MAX_QUESTION_BANK_SIZE = 12;
+// Every question renders all of its choice images, so one request only builds a couple of them.
+export const QUESTION_BANK_BATCH_SIZE = 2;
+
+const namesOfType = (entityRecords, types) =>
+  (Array.isArray(entityRecords) ? entityRecords : [])
+    .filter((entity) => types.includes(entity?.type))
+    .map((entity) => String(entity?.name || '').trim().replace(/\s+/g, ' '))
+    .filter(Boolean);
+
+const toQuestionId = (questionText) => `bankq_${hashStringFast(questionText.toLowerCase()).slice(1)}`;
+
+const KIND_ORDER = ['who', 'where', 'what', 'sequence', 'feeling'];
+
+/**
+ * Picks round-robin across kinds so a small bank still covers each kind, then returns them in session order:
+ * who, where, what, sequence, then feelings. Entity questions need a matching entity; sequence questions need page text.
+ */
+export const buildQuestionBankTemplates = ({ entityRecords = [], pagesText = [] } = {}, maxQuestions = DEFAULT_QUESTION_BANK_SIZE) => {
+  const characters = namesOfType(entityRecords, ['character']);
+  const places = namesOfType(entityRecords, ['location', 'scene']);
+  const objects = namesOfType(entityRecords, ['object']);
+  const hasPageText = (Array.isArray(pagesText) ? pagesText : []).some((page) => String(page?.cleanText || '').trim());
+  const [mainCharacter, secondCharacter] = characters;
+
+  const candidates = [
+    { kind: 'who', questionText: 'Who is the story about?' },
+    mainCharacter && secondCharacter && { kind: 'who', questionText: `Who does ${mainCharacter} meet in the story?` },
+    { kind: 'where', questionText: 'Where does the story happen?' },
+    mainCharacter && places.length > 1 && { kind: 'where', questionText: `Where does ${mainCharacter} go?` },
+    mainCharacter && { kind: 'what', questionText: `What does ${mainCharacter} want?` },
+    objects[0] && { kind: 'what', questionText: `What happens to the ${objects[0]}?` },
+    hasPageText && { kind: 'sequence', questionText: 'What happened first in the story?' },
+    hasPageText && { kind: 'sequence', questionText: 'What happened at the end of the story?' },
+    mainCharacter && { kind: 'feeling', questionText: `How did ${mainCharacter} feel at the start?` },
+    mainCharacter && { kind: 'feeling', questionText: `How did ${mainCharacter} feel at the end?` },
+    secondCharacter && { kind: 'feeling', questionText: `How did ${secondCharacter} feel?` }
+  ].filter(Boolean);
+
+  const limit = Math.max(1, Math.min(MAX_QUESTION_BANK_SIZE, Math.round(Number(maxQuestions)) || DEFAULT_QUESTION_BANK_SIZE));
+  const seen = new Set();
+  const unique = candidates
+    .map((candidate) => ({ ...candidate, questionId: toQuestionId(candidate.questionText) }))
+    .filter((candidate) => !seen.has(candidate.questionId) && seen.add(candidate.questionId));
+
+  const queues = KIND_ORDER.map((kind) => unique.filter((candidate) => candidate.kind === kind));
+  const picked = [];
+  while (picked.length < limit && queues.some((queue) => queue.length > 0)) {
+    for (const queue of queues) {
+      if (queue.length > 0 && picked.length < limit) {
+        picked.push(queue.shift());
+      }
+    }
+  }
+  return picked.sort((a, b) => KIND_ORDER.indexOf(a.kind) - KIND_ORDER.indexOf(b.kind));
+};
@@ -0,0 +1,208 @@
+import { DEFAULT_CHOICE_COUNT, MAX_CHOICE_COUNT, MIN_CHOICE_COUNT } from '../../shared/choices.js';
+import { DEFAULT_DIFFICULTY, DEFAULT_RUNTIME_DIFFICULTY, DIFFICULTIES } from '../../shared/difficulty.js';
+import { DEFAULT_STORY_LANGUAGE, STORY_LANGUAGES } from '../../shared/language.js';
+import { DEFAULT_QUESTION_BANK_SIZE, MAX_QUESTION_BANK_SIZE, QUESTION_BANK_BATCH_SIZE } from './questionBank.js';
+import { TTS_LANGUAGE_CODES, TTS_PURPOSES, TTS_SPEAKING_RATES, TTS_VOICES } from '../../shared/speech.js';
+import { field, listOf, optional } from '../../shared/schema.js';
+
+const IMAGE_MODEL_PREFERENCES = ['nano-banana-pro', 'nano-banana'];
+const RENDER_MODES = ['blend_with_story_world', 'standalone_option_world'];
+const TURN_CARD_MODES = ['image', 'replace_distractor'];
+const MAX_QUESTION_CHARS = 280;
+const MAX_CARD_TEXT_CHARS = 120;
+const MAX_TTS_TEXT_CHARS = 4000;
+const MAX_ASSET_CHECK_IDS = 200;
+const ASSET_ID = field('string', { minLength: 1, maxLength: 64 });
+
+const DIFFICULTY = field('string', { enum: DIFFICULTIES, default: DEFAULT_DIFFICULTY });
+const RUNTIME_DIFFICULTY = { ...DIFFICULTY, default: DEFAULT_RUNTIME_DIFFICULTY };
+const CHOICE_COUNT = field('integer', { min: MIN_CHOICE_COUNT, max: MAX_CHOICE_COUNT, default: DEFAULT_CHOICE_COUNT });
+const LANGUAGE = field('string', { enum: STORY_LANGUAGES, default: DEFAULT_STORY_LANGUAGE });
+
+const FILE_DATA = field('object', {
+  fields: {
+    data: field('string', { minLength: 1 }),
+    mimeType: field('string', { minLength: 1 })
+  }
+});
+
+// Inline bytes or an uploaded asset id; resolveTurnAssets rejects entries carrying neither.
+const FILE_REF = field('object', {
+  fields: {
+    data: optional(field('string', { minLength: 1 })),
+    mimeType: field('string', { minLength: 1 }),
+    assetId: optional(ASSET_ID)
+  }
+});
+
+export const SETUP_STORY_REQUEST = field('object', {
+  fields: {
+    storyFile: FILE_DATA,
+    styleImages: optional(listOf(FILE_DATA, { default: [] })),
+    imageModelPreference: optional(field('string', { enum: IMAGE_MODEL_PREFERENCES, default: 'nano-banana-pro' })),
+    language: optional(LANGUAGE)
+  }
+});
+
+// Either audioBase64 + mimeType or a typed questionText; runTurnPipeline rejects requests with neither.
+export const TURN_REQUEST = field('object', {
+  fields: {
+    audioBase64: optional(field('string', { minLength: 1 })),
+    mimeType: optional(field('string', { minLength: 1 })),
+    questionText: optional(field('string', { minLength: 1, maxLength: MAX_QUESTION_CHARS })),
+    choiceCount: optional(CHOICE_COUNT),
+    difficulty: optional(DIFFICULTY),
+    language: optional(LANGUAGE),
+    storyBrief: field('string', { minLength: 1 }),
+    storyText: field('string', { minLength: 1 }),
+    storyPdf: optional(FILE_REF),
+    imageModelPreference: optional(field('string', { enum: IMAGE_MODEL_PREFERENCES, default: 'nano-banana-pro' })),
+    storyFacts: optional(field('object')),
+    artStyle: optional(field('string')),
+    stylePrimer: optional(listOf(FILE_REF, { default: [] })),
+    styleReferences: optional(listOf(field('object'), { default: [] })),
+    history: optional(listOf(field('object'), { default: [] }))
+  },
+  dependencies: { audioBase64: ['mimeType'] }
+});
+
+// One card redrawn or replaced; the rest of the turn stays on the client. Replacing needs storyText.
+export const TURN_CARD_REQUEST = field('object', {
+  fields: {
+    mode: optional(field('string', { enum: TURN_CARD_MODES, default: 'image' })),
+    question: field('string', { minLength: 1, maxLength: MAX_QUESTION_CHARS }),
+    card: field('object', {
+      fields: {
+        id: field('string', { minLength: 1 }),
+        text: field('string', { minLength: 1, maxLength: MAX_CARD_TEXT_CHARS }),
+        isCorrect: optional(field('boolean')),
+        renderMode: optional(field('string', { enum: RENDER_MODES })),
+        // The card's previous debug; only the parts needed to skip planning are read.
+        debug: optional(field('object', {
+          fields: {
+            illustratedText: optional(field('string')),
+            illustrationAgentPrompt: optional(field('string')),
+            illustrationPlanData: optional(field('object', {
+              fields: {
+                scene_description: field('string'),
+                must_include: optional(field('object')),
+                must_avoid: optional(field('object')),
+                composition_notes: optional(field('string'))
+              }
+            })),
+            selectedStyleRefIndexes: optional(listOf(field('integer'))),
+            selectedParticipants: optional(field('object'))
+          }
+        }))
+      }
+    }),
+    otherAnswers: optional(listOf(field('string'), { maxItems: MAX_CHOICE_COUNT, default: [] })),
+    storyText: optional(field('string', { minLength: 1 })),
+    difficulty: optional(DIFFICULTY),
+    language: optional(LANGUAGE),
+    storyBrief: field('string', { minLength: 1 }),
+    imageModelPreference: optional(field('string', { enum: IMAGE_MODEL_PREFERENCES, default: 'nano-banana-pro' })),
+    storyFacts: optional(field('object')),
+    artStyle: optional(field('string')),
+    stylePrimer: optional(listOf(FILE_REF, { default: [] })),
+    styleReferences: optional(listOf(field('object'), { default: [] }))
+  }
+});
+
+// One page re-read from its rendered image during setup's page-text review.
+export const PAGE_TEXT_REQUEST = field('object', {
+  fields: {
+    pageNum: field('integer', { min: 1 }),
+    pageImage: FILE_DATA,
+    language: optional(LANGUAGE)
+  }
+});
+
+export const ASSET_CHECK_REQUEST = field('object', {
+  fields: {
+    assetIds: listOf(ASSET_ID, { maxItems: MAX_ASSET_CHECK_IDS })
+  }
+});
+
+export const ASSET_GET_REQUEST = field('object', {
+  fields: {
+    assetId: ASSET_ID
+  }
+});
+
+export const ASSET_UPLOAD_REQUEST = field('object', {
+  fields: {
+    assets: listOf(field('object', {
+      fields: {
+        assetId: ASSET_ID,
+        data: field('string', { minLength: 1 }),
+        mimeType: field('string', { minLength: 1 })
+      }
+    }))
+  }
+});
+
+export const TTS_REQUEST = field('object', {
+  fields: {
+    text: field('string', { minLength: 1, maxLength: MAX_TTS_TEXT_CHARS }),
+    voice: optional(field('string', { enum: TTS_VOICES })),
+    speakingRate: optional(field('string', { enum: TTS_SPEAKING_RATES })),
+    languageCode: optional(field('string', { enum: TTS_LANGUAGE_CODES })),
+    purpose: optional(field('string', { enum: TTS_PURPOSES, default: 'option' }))
+  }
+});
+
+const RUNTIME_BOOK_FIELDS = {
+  book_id: field('string', { minLength: 1, aliases: ['bookId'] }),
+  style_references: optional(listOf(field('object'), { aliases: ['styleReferences'], default: [] })),
+  force_reload: optional(field('boolean', { aliases: ['forceReload'], default: false }))
+};
+
+export const RUNTIME_LOAD_BOOK_REQUEST = field('object', {
+  fields: {
+    ...RUNTIME_BOOK_FIELDS,
+    qa_ready_package: field('object', { aliases: ['qaReadyPackage'] })
+  }
+});
+
+export const RUNTIME_QUESTION_REQUEST = field('object', {
+  fields: {
+    ...RUNTIME_BOOK_FIELDS,
+    question_text: field('string', { minLength: 1, maxLength: MAX_QUESTION_CHARS, aliases: ['questionText'] }),
+    difficulty: optional(RUNTIME_DIFFICULTY),
+    language: optional(LANGUAGE),
+    choice_count: optional({ ...CHOICE_COUNT, aliases: ['choiceCount'] }),
+    qa_ready_package: optional(field('object', { aliases: ['qaReadyPackage'] }))
+  }
+});
+
+export const RUNTIME_QUESTION_BANK_REQUEST = field('object', {
+  fields: {
+    ...RUNTIME_BOOK_FIELDS,
+    difficulty: optional(RUNTIME_DIFFICULTY),
+    language: optional(LANGUAGE),
+    choice_count: optional({ ...CHOICE_COUNT, aliases: ['choiceCount'] }),
+    max_questions: optional(
+      field('integer', { min: 1, max: MAX_QUESTION_BANK_SIZE, default: DEFAULT_QUESTION_BANK_SIZE, aliases: ['maxQuestions'] })
+    ),
+    offset: optional(field('integer', { min: 0, max: MAX_QUESTION_BANK_SIZE, default: 0 })),
+    batch_size: optional(
+      field('integer', { min: 1, max: QUESTION_BANK_BATCH_SIZE, default: QUESTION_BANK_BATCH_SIZE, aliases: ['batchSize'] })
+    ),
+    qa_ready_package: optional(field('object', { aliases: ['qaReadyPackage'] }))
+  }
+});
+
+export const RUNTIME_RENDER_REQUEST = field('object', {
+  fields: {
+    qa_plan_id: field('string', { minLength: 1, aliases: ['qaPlanId'] })
+  }
+});
+
+export const RUNTIME_EVENTS_REQUEST = field('object', {
+  fields: {
+    book_id: optional(field('string', { aliases: ['bookId'] })),
+    qa_plan_id: optional(field('string', { aliases: ['qaPlanId'] })),
+    limit: optional(field('integer', { min: 1 }))
+  }
+});
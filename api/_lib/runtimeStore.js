@@ -0,0 +1,359 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+export const RUNTIME_STORE_MEMORY = 'memory';
+export const RUNTIME_STORE_FILE = 'file';
+
+const DEFAULT_FILE_STORE_DIR = path.join(os.tmpdir(), 'storybuddy-runtime');
+const SEGMENT_FILE_SUFFIX = '.ndjson';
+// A writer's newest segment is still open; once untouched this long, its writer is assumed gone.
+const ABANDONED_SEGMENT_MS = 10 * 60 * 1000;
+
+const trimMapToLimit = (map, limit) => {
+  while (map.size > limit) {
+    const firstKey = map.keys().next().value;
+    if (!firstKey) break;
+    map.delete(firstKey);
+  }
+};
+
+const toRecordBytes = (record) => Buffer.byteLength(JSON.stringify(record));
+
+// Insertion-ordered map capped by the serialized size of its records; the newest record is always kept.
+const createByteBoundedMap = (byteLimit) => {
+  const entries = new Map();
+  let totalBytes = 0;
+
+  const remove = (key) => {
+    const entry = entries.get(key);
+    if (!entry) return;
+    entries.delete(key);
+    totalBytes -= entry.bytes;
+  };
+
+  return {
+    has: (key) => entries.has(key),
+    get: (key, { touch = false } = {}) => {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (touch) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry.record;
+    },
+    set: (key, record) => {
+      remove(key);
+      const bytes = toRecordBytes(record);
+      entries.set(key, { record, bytes });
+      totalBytes += bytes;
+      while (totalBytes > byteLimit && entries.size > 1) {
+        remove(entries.keys().next().value);
+      }
+    }
+  };
+};
+
+/**
+ * Runtime store adapters share one async interface:
+ * getBook/setBook, getPlan/setPlan, getAsset/setAsset/hasAsset, getImage/setImage, appendEvent and listEvents (oldest first).
+ * Records must be JSON-serializable so every adapter can persist them.
+ * Uploaded assets and generated images are capped by serialized bytes (`assetByteLimit`, `imageByteLimit`);
+ * images are evicted least-recently-used first, everything else oldest-written first.
+ */
+export const createMemoryRuntimeStore = ({ bookLimit, planLimit, assetByteLimit, imageByteLimit, eventLimit }) => {
+  const books = new Map();
+  const plans = new Map();
+  const assets = createByteBoundedMap(assetByteLimit);
+  const images = createByteBoundedMap(imageByteLimit);
+  const events = [];
+
+  return {
+    kind: RUNTIME_STORE_MEMORY,
+    getBook: async (bookId) => books.get(bookId) || null,
+    setBook: async (bookId, record) => {
+      books.set(bookId, record);
+      trimMapToLimit(books, bookLimit);
+    },
+    getPlan: async (qaPlanId) => plans.get(qaPlanId) || null,
+    setPlan: async (qaPlanId, record) => {
+      plans.set(qaPlanId, record);
+      trimMapToLimit(plans, planLimit);
+    },
+    getAsset: async (assetId) => assets.get(assetId),
+    setAsset: async (assetId, record) => {
+      assets.set(assetId, record);
+    },
+    hasAsset: async (assetId) => assets.has(assetId),
+    getImage: async (cacheKey) => images.get(cacheKey, { touch: true }),
+    setImage: async (cacheKey, record) => {
+      images.set(cacheKey, record);
+    },
+    appendEvent: async (event) => {
+      events.push(event);
+      while (events.length > eventLimit) {
+        events.shift();
+      }
+    },
+    listEvents: async () => [...events]
+  };
+};
+
+const toRecordFileName = (id) => `${encodeURIComponent(id).replace(/\./g, '%2E')}.json`;
+
+const readJsonFile = async (filePath) => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'));
+  } catch (error) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+};
+
+const writeJsonFileAtomic = async (filePath, value) => {
+  const tempPath = `${filePath}.${process.pid}.${Date.now().toString(36)}.tmp`;
+  await fs.writeFile(tempPath, JSON.stringify(value));
+  await fs.rename(tempPath, filePath);
+};
+
+const listRecordFiles = async (dirPath) => {
+  const names = (await fs.readdir(dirPath)).filter((name) => name.endsWith('.json'));
+  const entries = await Promise.all(
+    names.map(async (name) => {
+      const stat = await fs.stat(path.join(dirPath, name)).catch(() => null);
+      return { name, mtimeMs: stat?.mtimeMs || 0, size: stat?.size || 0 };
+    })
+  );
+  return entries.sort((a, b) => a.mtimeMs - b.mtimeMs);
+};
+
+const removeRecordFiles = (dirPath, entries) =>
+  Promise.all(entries.map((entry) => fs.rm(path.join(dirPath, entry.name), { force: true })));
+
+const trimDirectoryToLimit = async (dirPath, limit) => {
+  const entries = await listRecordFiles(dirPath);
+  if (entries.length <= limit) return;
+  await removeRecordFiles(dirPath, entries.slice(0, entries.length - limit));
+};
+
+// Trimming stats every file in the directory, so a count-capped directory is trimmed once every quarter
+// of its limit in writes. Between trims it can run over the limit by fewer files than that.
+const createCountTrimmer = (dirPath, limit) => {
+  const interval = Math.max(1, Math.ceil(limit / 4));
+  let writes = 0;
+  return async () => {
+    writes += 1;
+    if (writes % interval === 0) {
+      await trimDirectoryToLimit(dirPath, limit);
+    }
+  };
+};
+
+const trimDirectoryToBytes = async (dirPath, byteLimit) => {
+  const entries = await listRecordFiles(dirPath);
+  let totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+  let evictCount = 0;
+  while (totalBytes > byteLimit && evictCount < entries.length - 1) {
+    totalBytes -= entries[evictCount].size;
+    evictCount += 1;
+  }
+  if (evictCount > 0) {
+    await removeRecordFiles(dirPath, entries.slice(0, evictCount));
+  }
+};
+
+const parseEventLines = (raw) =>
+  String(raw || '')
+    .split('\n')
+    .filter(Boolean)
+    .map((line) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        return null;
+      }
+    })
+    .filter(Boolean);
+
+// `<ms>-<seq>-<writerId>.ndjson`: names sort by creation time, and the last part says which writer owns the segment.
+const toSegmentFileName = (writerId, seq) =>
+  `${String(Date.now()).padStart(15, '0')}-${String(seq).padStart(6, '0')}-${writerId}${SEGMENT_FILE_SUFFIX}`;
+
+const toSegmentWriterId = (name) => name.slice(0, -SEGMENT_FILE_SUFFIX.length).split('-').pop();
+
+/**
+ * File-system adapter: one JSON file per book/plan/asset/image, and events in NDJSON segment files.
+ * Each store instance appends only to its own segment and rotates it every few events. Compaction deletes
+ * whole closed segments and never rewrites a file, so appends from other writers cannot be lost.
+ * Point several workers at the same directory (e.g. a shared volume) to share state.
+ */
+export const createFileRuntimeStore = ({
+  dir = DEFAULT_FILE_STORE_DIR,
+  bookLimit,
+  planLimit,
+  assetByteLimit,
+  imageByteLimit,
+  eventLimit
+}) => {
+  const booksDir = path.join(dir, 'books');
+  const plansDir = path.join(dir, 'plans');
+  const assetsDir = path.join(dir, 'assets');
+  const imagesDir = path.join(dir, 'images');
+  const eventsDir = path.join(dir, 'events');
+  const writerId = `${process.pid}_${Math.random().toString(36).slice(2, 8)}`;
+  const segmentEventLimit = Math.max(1, Math.ceil(eventLimit / 4));
+  const trimBooks = createCountTrimmer(booksDir, bookLimit);
+  const trimPlans = createCountTrimmer(plansDir, planLimit);
+  let readyPromise = null;
+  let activeSegment = null;
+  let segmentSeq = 0;
+  let appendQueue = Promise.resolve();
+
+  const ensureReady = () => {
+    if (!readyPromise) {
+      readyPromise = Promise.all([
+        fs.mkdir(booksDir, { recursive: true }),
+        fs.mkdir(plansDir, { recursive: true }),
+        fs.mkdir(assetsDir, { recursive: true }),
+        fs.mkdir(imagesDir, { recursive: true }),
+        fs.mkdir(eventsDir, { recursive: true })
+      ]).catch((error) => {
+        readyPromise = null;
+        throw error;
+      });
+    }
+    return readyPromise;
+  };
+
+  const readSegments = async () => {
+    const names = (await fs.readdir(eventsDir)).filter((name) => name.endsWith(SEGMENT_FILE_SUFFIX)).sort();
+    const newestByWriter = new Map(names.map((name) => [toSegmentWriterId(name), name]));
+    return Promise.all(
+      names.map(async (name) => {
+        const filePath = path.join(eventsDir, name);
+        const [raw, stat] = await Promise.all([
+          fs.readFile(filePath, 'utf8').catch(() => ''),
+          fs.stat(filePath).catch(() => null)
+        ]);
+        const open =
+          newestByWriter.get(toSegmentWriterId(name)) === name &&
+          Date.now() - (stat?.mtimeMs || 0) < ABANDONED_SEGMENT_MS;
+        return { name, open, events: parseEventLines(raw) };
+      })
+    );
+  };
+
+  // Writers interleave across segments, so merge on the event timestamp; the sort is stable for events without one.
+  const mergeSegmentEvents = (segments) =>
+    segments
+      .flatMap((segment) => segment.events.map((event) => ({ event, segment })))
+      .sort((a, b) => (Number(a.event.timestamp) || 0) - (Number(b.event.timestamp) || 0));
+
+  const readEvents = async () => mergeSegmentEvents(await readSegments()).map((entry) => entry.event);
+
+  const compactEvents = async () => {
+    const segments = await readSegments();
+    const liveSegments = new Set(
+      mergeSegmentEvents(segments)
+        .slice(-eventLimit)
+        .map((entry) => entry.segment)
+    );
+    await removeRecordFiles(
+      eventsDir,
+      segments.filter((segment) => !segment.open && !liveSegments.has(segment))
+    );
+  };
+
+  const appendEventNow = async (event) => {
+    await ensureReady();
+    const rotated = Boolean(activeSegment) && activeSegment.count >= segmentEventLimit;
+    if (!activeSegment || rotated) {
+      segmentSeq += 1;
+      activeSegment = { name: toSegmentFileName(writerId, segmentSeq), count: 0 };
+    }
+    await fs.appendFile(path.join(eventsDir, activeSegment.name), `${JSON.stringify(event)}\n`);
+    activeSegment.count += 1;
+    if (rotated) {
+      await compactEvents();
+    }
+  };
+
+  return {
+    kind: RUNTIME_STORE_FILE,
+    getBook: async (bookId) => {
+      await ensureReady();
+      return readJsonFile(path.join(booksDir, toRecordFileName(bookId)));
+    },
+    setBook: async (bookId, record) => {
+      await ensureReady();
+      await writeJsonFileAtomic(path.join(booksDir, toRecordFileName(bookId)), record);
+      await trimBooks();
+    },
+    getPlan: async (qaPlanId) => {
+      await ensureReady();
+      return readJsonFile(path.join(plansDir, toRecordFileName(qaPlanId)));
+    },
+    setPlan: async (qaPlanId, record) => {
+      await ensureReady();
+      await writeJsonFileAtomic(path.join(plansDir, toRecordFileName(qaPlanId)), record);
+      await trimPlans();
+    },
+    getAsset: async (assetId) => {
+      await ensureReady();
+      return readJsonFile(path.join(assetsDir, toRecordFileName(assetId)));
+    },
+    setAsset: async (assetId, record) => {
+      await ensureReady();
+      await writeJsonFileAtomic(path.join(assetsDir, toRecordFileName(assetId)), record);
+      await trimDirectoryToBytes(assetsDir, assetByteLimit);
+    },
+    hasAsset: async (assetId) => {
+      await ensureReady();
+      return fs
+        .access(path.join(assetsDir, toRecordFileName(assetId)))
+        .then(() => true)
+        .catch(() => false);
+    },
+    getImage: async (cacheKey) => {
+      await ensureReady();
+      const filePath = path.join(imagesDir, toRecordFileName(cacheKey));
+      const record = await readJsonFile(filePath);
+      if (record) {
+        // Trimming evicts by mtime, so touching a hit keeps it around.
+        const now = new Date();
+        await fs.utimes(filePath, now, now).catch(() => {});
+      }
+      return record;
+    },
+    setImage: async (cacheKey, record) => {
+      await ensureReady();
+      await writeJsonFileAtomic(path.join(imagesDir, toRecordFileName(cacheKey)), record);
+      await trimDirectoryToBytes(imagesDir, imageByteLimit);
+    },
+    appendEvent: (event) => {
+      // Appends from one instance run in order so segment rotation never races itself.
+      const appended = appendQueue.then(() => appendEventNow(event));
+      appendQueue = appended.catch(() => {});
+      return appended;
+    },
+    listEvents: async () => {
+      await ensureReady();
+      return (await readEvents()).slice(-eventLimit);
+    }
+  };
+};
+
+export const createRuntimeStore = (limits) => {
+  const kind = String(process.env.STORYBUDDY_RUNTIME_STORE || RUNTIME_STORE_MEMORY).trim().toLowerCase();
+  if (kind === RUNTIME_STORE_FILE) {
+    return createFileRuntimeStore({
+      ...limits,
+      dir: process.env.STORYBUDDY_RUNTIME_STORE_DIR || DEFAULT_FILE_STORE_DIR
+    });
+  }
+  if (kind !== RUNTIME_STORE_MEMORY) {
+    throw new Error(`Unknown STORYBUDDY_RUNTIME_STORE "${kind}". Expected one of: memory, file.`);
+  }
+  return createMemoryRuntimeStore(limits);
+};
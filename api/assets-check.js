@@ -0,0 +1,17 @@
+import { findMissingAssets } from './_lib/geminiServer.js';
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { ASSET_CHECK_REQUEST } from './_lib/requestSchemas.js';
+
+export default async function handler(req, res) {
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
+  }
+
+  try {
+    const body = parseRequest(readJsonBody(req), ASSET_CHECK_REQUEST);
+    const missingAssetIds = await findMissingAssets(body.assetIds);
+    return sendJson(res, 200, { missingAssetIds });
+  } catch (error) {
+    return sendError(res, error, 'asset check failed');
+  }
+}
@@ -0,0 +1,17 @@
+import { getStoredAsset } from './_lib/geminiServer.js';
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { ASSET_GET_REQUEST } from './_lib/requestSchemas.js';
+
+export default async function handler(req, res) {
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
+  }
+
+  try {
+    const body = parseRequest(readJsonBody(req), ASSET_GET_REQUEST);
+    const asset = await getStoredAsset(body.assetId);
+    return sendJson(res, 200, asset);
+  } catch (error) {
+    return sendError(res, error, 'asset fetch failed');
+  }
+}
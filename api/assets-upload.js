@@ -0,0 +1,17 @@
+import { storeUploadedAssets } from './_lib/geminiServer.js';
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { ASSET_UPLOAD_REQUEST } from './_lib/requestSchemas.js';
+
+export default async function handler(req, res) {
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
+  }
+
+  try {
+    const body = parseRequest(readJsonBody(req), ASSET_UPLOAD_REQUEST);
+    const storedAssetIds = await storeUploadedAssets(body.assets);
+    return sendJson(res, 200, { storedAssetIds });
+  } catch (error) {
+    return sendError(res, error, 'asset upload failed');
+  }
+}
@@ -0,0 +1,21 @@
+import { recognizePageText } from './_lib/geminiServer.js';
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { PAGE_TEXT_REQUEST } from './_lib/requestSchemas.js';
+
+export default async function handler(req, res) {
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
+  }
+
+  try {
+    const body = parseRequest(readJsonBody(req), PAGE_TEXT_REQUEST);
+    const result = await recognizePageText({
+      pageNum: body.pageNum,
+      pageImage: body.pageImage,
+      language: body.language
+    });
+    return sendJson(res, 200, result);
+  } catch (error) {
+    return sendError(res, error, 'page text failed');
+  }
+}
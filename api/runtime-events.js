@@ -1,33 +1,29 @@
 import { getRuntimeEvents } from './_lib/geminiServer.js';
-
-const send = (res, status, data) => {
-  res.statusCode = status;
-  res.setHeader('Content-Type', 'application/json');
-  res.end(JSON.stringify(data));
-};
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { RUNTIME_EVENTS_REQUEST } from './_lib/requestSchemas.js';
 
 export default async function handler(req, res) {
-  if (req.method !== 'GET' && req.method !== 'POST') {
-    return send(res, 405, { error: 'Method not allowed' });
+  if (!ensureMethod(req, res, ['GET', 'POST'])) {
+    return;
   }
 
   try {
-    const body = req.method === 'POST'
-      ? (typeof req.body === 'string' ? JSON.parse(req.body) : req.body)
-      : req.query;
-    const events = getRuntimeEvents({
-      bookId: body?.book_id || body?.bookId,
-      qaPlanId: body?.qa_plan_id || body?.qaPlanId,
-      limit: body?.limit
+    const query = req.query || {};
+    const source = req.method === 'POST'
+      ? readJsonBody(req)
+      : { ...query, limit: query.limit === undefined ? undefined : Number(query.limit) };
+    const body = parseRequest(source, RUNTIME_EVENTS_REQUEST);
+    const events = await getRuntimeEvents({
+      bookId: body.book_id,
+      qaPlanId: body.qa_plan_id,
+      limit: body.limit
     });
 
-    return send(res, 200, {
+    return sendJson(res, 200, {
       count: events.length,
       events
     });
   } catch (error) {
-    return send(res, 500, {
-      error: error?.message || 'runtime events failed'
-    });
+    return sendError(res, error, 'runtime events failed');
   }
 }
@@ -1,34 +1,22 @@
 import { loadBookPackageRuntime } from './_lib/geminiServer.js';
-
-const send = (res, status, data) => {
-  res.statusCode = status;
-  res.setHeader('Content-Type', 'application/json');
-  res.end(JSON.stringify(data));
-};
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { RUNTIME_LOAD_BOOK_REQUEST } from './_lib/requestSchemas.js';
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') {
-    return send(res, 405, { error: 'Method not allowed' });
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
   }
 
   try {
-    const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
-    const bookId = body?.book_id || body?.bookId;
-    const qaReadyPackage = body?.qa_ready_package || body?.qaReadyPackage || null;
-    const styleReferences = body?.style_references || body?.styleReferences || [];
-
-    if (!bookId || !qaReadyPackage) {
-      return send(res, 400, { error: 'book_id and qa_ready_package are required' });
-    }
-
-    const context = loadBookPackageRuntime({
-      bookId,
-      qaReadyPackage,
-      styleReferences,
-      forceReload: Boolean(body?.force_reload || body?.forceReload)
+    const body = parseRequest(readJsonBody(req), RUNTIME_LOAD_BOOK_REQUEST);
+    const context = await loadBookPackageRuntime({
+      bookId: body.book_id,
+      qaReadyPackage: body.qa_ready_package,
+      styleReferences: body.style_references,
+      forceReload: body.force_reload
     });
 
-    return send(res, 200, {
+    return sendJson(res, 200, {
       book_id: context.bookId,
       session_id: context.sessionId,
       book_package_hash: context.bookPackageHash,
@@ -38,8 +26,6 @@ export default async function handler(req, res) {
       style_ref_image_id_count: context.styleBible?.styleReferenceImageIds?.length || 0
     });
   } catch (error) {
-    return send(res, 500, {
-      error: error?.message || 'runtime load failed'
-    });
+    return sendError(res, error, 'runtime load failed');
   }
 }
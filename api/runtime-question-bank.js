@@ -0,0 +1,52 @@
+import { buildRuntimeQuestionBank } from './_lib/geminiServer.js';
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { RUNTIME_QUESTION_BANK_REQUEST } from './_lib/requestSchemas.js';
+
+export default async function handler(req, res) {
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
+  }
+
+  try {
+    const body = parseRequest(readJsonBody(req), RUNTIME_QUESTION_BANK_REQUEST);
+    const bank = await buildRuntimeQuestionBank({
+      bookId: body.book_id,
+      qaReadyPackage: body.qa_ready_package || null,
+      styleReferences: body.style_references,
+      difficulty: body.difficulty,
+      language: body.language,
+      choiceCount: body.choice_count,
+      maxQuestions: body.max_questions,
+      offset: body.offset,
+      batchSize: body.batch_size
+    });
+
+    return sendJson(res, 200, {
+      book_id: bank.bookId,
+      difficulty: bank.difficulty,
+      choice_count: bank.choiceCount,
+      created_at: bank.createdAt,
+      total_questions: bank.totalQuestions,
+      next_offset: bank.nextOffset,
+      questions: bank.questions.map((question) => ({
+        question_id: question.questionId,
+        kind: question.kind,
+        question_text: question.questionText,
+        qa_plan_id: question.qaPlanId,
+        correct_choice_id: question.correctChoiceId,
+        choices: question.choices.map((choice) => ({
+          choice_id: choice.choiceId,
+          answer_text: choice.answerText,
+          image_asset_id: choice.imageAssetId
+        }))
+      })),
+      skipped: bank.skipped.map((item) => ({
+        question_id: item.questionId,
+        question_text: item.questionText,
+        error: item.error
+      }))
+    });
+  } catch (error) {
+    return sendError(res, error, 'question bank build failed');
+  }
+}
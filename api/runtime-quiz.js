@@ -1,45 +1,35 @@
 import { loadBookPackageRuntime, runRuntimeQuiz } from './_lib/geminiServer.js';
-
-const send = (res, status, data) => {
-  res.statusCode = status;
-  res.setHeader('Content-Type', 'application/json');
-  res.end(JSON.stringify(data));
-};
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { RUNTIME_QUESTION_REQUEST } from './_lib/requestSchemas.js';
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') {
-    return send(res, 405, { error: 'Method not allowed' });
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
   }
 
   try {
-    const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
-    const bookId = body?.book_id || body?.bookId;
-    const questionText = body?.question_text || body?.questionText;
-    const qaReadyPackage = body?.qa_ready_package || body?.qaReadyPackage || null;
-    const styleReferences = body?.style_references || body?.styleReferences || [];
-
-    if (!bookId || !questionText) {
-      return send(res, 400, { error: 'book_id and question_text are required' });
-    }
+    const body = parseRequest(readJsonBody(req), RUNTIME_QUESTION_REQUEST);
 
-    if (qaReadyPackage) {
-      loadBookPackageRuntime({
-        bookId,
-        qaReadyPackage,
-        styleReferences,
-        forceReload: Boolean(body?.force_reload || body?.forceReload)
+    if (body.qa_ready_package) {
+      await loadBookPackageRuntime({
+        bookId: body.book_id,
+        qaReadyPackage: body.qa_ready_package,
+        styleReferences: body.style_references,
+        forceReload: body.force_reload
       });
     }
 
     const result = await runRuntimeQuiz({
-      bookId,
-      questionText,
-      difficulty: body?.difficulty || 'easy',
+      bookId: body.book_id,
+      questionText: body.question_text,
+      difficulty: body.difficulty,
+      language: body.language,
+      choiceCount: body.choice_count,
       qaReadyPackage: null,
       styleReferences: []
     });
 
-    return send(res, 200, {
+    return sendJson(res, 200, {
       book_id: result.bookId,
       session_id: result.sessionId,
       qa_plan_id: result.qaPlanId,
@@ -52,6 +42,7 @@ export default async function handler(req, res) {
               image_id: choice.image.imageId,
               storage_uri: choice.image.storageUri,
               image_data_url: choice.image.imageDataUrl,
+              consistency_score: choice.image.consistency?.score ?? null,
               error: choice.image.error || null
             }
           : null
@@ -61,8 +52,6 @@ export default async function handler(req, res) {
       }
     });
   } catch (error) {
-    return send(res, 500, {
-      error: error?.message || 'runtime quiz failed'
-    });
+    return sendError(res, error, 'runtime quiz failed');
   }
 }
@@ -1,26 +1,16 @@
 import { renderRuntimeQaImages } from './_lib/geminiServer.js';
-
-const send = (res, status, data) => {
-  res.statusCode = status;
-  res.setHeader('Content-Type', 'application/json');
-  res.end(JSON.stringify(data));
-};
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { RUNTIME_RENDER_REQUEST } from './_lib/requestSchemas.js';
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') {
-    return send(res, 405, { error: 'Method not allowed' });
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
   }
 
   try {
-    const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
-    const qaPlanId = body?.qa_plan_id || body?.qaPlanId;
-
-    if (!qaPlanId) {
-      return send(res, 400, { error: 'qa_plan_id is required' });
-    }
-
-    const result = await renderRuntimeQaImages({ qaPlanId });
-    return send(res, 200, {
+    const body = parseRequest(readJsonBody(req), RUNTIME_RENDER_REQUEST);
+    const result = await renderRuntimeQaImages({ qaPlanId: body.qa_plan_id });
+    return sendJson(res, 200, {
       qa_plan_id: result.qaPlanId,
       session_id: result.sessionId,
       book_id: result.bookId,
@@ -30,12 +20,11 @@ export default async function handler(req, res) {
         image_id: item.imageId,
         storage_uri: item.storageUri,
         image_data_url: item.imageDataUrl,
+        consistency_score: item.consistency?.score ?? null,
         error: item.error || null
       }))
     });
   } catch (error) {
-    return send(res, 500, {
-      error: error?.message || 'runtime render failed'
-    });
+    return sendError(res, error, 'runtime render failed');
   }
 }
@@ -1,36 +1,28 @@
 import { setupStoryPack } from './_lib/geminiServer.js';
-
-const send = (res, status, data) => {
-  res.statusCode = status;
-  res.setHeader('Content-Type', 'application/json');
-  res.end(JSON.stringify(data));
-};
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { SETUP_STORY_REQUEST } from './_lib/requestSchemas.js';
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') {
-    return send(res, 405, { error: 'Method not allowed' });
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
   }
 
   try {
-    const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
-    const payloadBytes = Buffer.byteLength(JSON.stringify(body || {}), 'utf8');
-
-    if (!body?.storyFile?.data || !body.storyFile.mimeType) {
-      return send(res, 400, { error: 'storyFile is required' });
-    }
+    const rawBody = readJsonBody(req);
+    const payloadBytes = Buffer.byteLength(JSON.stringify(rawBody), 'utf8');
+    const body = parseRequest(rawBody, SETUP_STORY_REQUEST);
 
     const result = await setupStoryPack(
       body.storyFile,
-      body.styleImages || [],
-      body.imageModelPreference || 'nano-banana-pro'
+      body.styleImages,
+      body.imageModelPreference,
+      body.language
     );
-    return send(res, 200, {
+    return sendJson(res, 200, {
       ...result,
       payloadBytes
     });
   } catch (error) {
-    return send(res, 500, {
-      error: error?.message || 'setup-story failed'
-    });
+    return sendError(res, error, 'setup-story failed');
   }
 }
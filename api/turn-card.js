@@ -0,0 +1,35 @@
+import { renderTurnCard, resolveTurnAssets } from './_lib/geminiServer.js';
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { TURN_CARD_REQUEST } from './_lib/requestSchemas.js';
+
+export default async function handler(req, res) {
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
+  }
+
+  try {
+    const body = parseRequest(readJsonBody(req), TURN_CARD_REQUEST);
+    const assets = await resolveTurnAssets(body);
+
+    const result = await renderTurnCard({
+      question: body.question,
+      card: body.card,
+      mode: body.mode,
+      storedDebug: body.card.debug || null,
+      storyText: body.storyText,
+      otherAnswers: body.otherAnswers,
+      difficulty: body.difficulty,
+      language: body.language,
+      storyBrief: body.storyBrief,
+      storyFacts: body.storyFacts || null,
+      artStyle: body.artStyle,
+      stylePrimer: assets.stylePrimer,
+      styleReferences: assets.styleReferences,
+      imageModelPreference: body.imageModelPreference
+    });
+
+    return sendJson(res, 200, result);
+  } catch (error) {
+    return sendError(res, error, 'turn card failed');
+  }
+}
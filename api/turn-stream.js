@@ -0,0 +1,68 @@
+import { resolveTurnAssets, runTurnPipeline } from './_lib/geminiServer.js';
+import { toApiErrorResponse } from '../shared/apiErrors.js';
+import { ensureMethod, parseRequest, readJsonBody, sendError } from './_lib/http.js';
+import { TURN_REQUEST } from './_lib/requestSchemas.js';
+
+const writeEvent = (res, event) => {
+  res.write(`${JSON.stringify(event)}\n`);
+};
+
+export default async function handler(req, res) {
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
+  }
+
+  let body;
+  let assets;
+  let payloadBytes = 0;
+  try {
+    const rawBody = readJsonBody(req);
+    payloadBytes = Buffer.byteLength(JSON.stringify(rawBody), 'utf8');
+    body = parseRequest(rawBody, TURN_REQUEST);
+    // Resolved before streaming starts so a missing asset still gets a JSON error status.
+    assets = await resolveTurnAssets(body);
+  } catch (error) {
+    return sendError(res, error, 'turn failed');
+  }
+
+  // NDJSON: one event per line (question, options, card..., then done or error).
+  res.statusCode = 200;
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Cache-Control', 'no-cache');
+
+  try {
+    const result = await runTurnPipeline(
+      body.audioBase64,
+      body.mimeType,
+      body.storyText,
+      assets.storyPdf,
+      body.imageModelPreference,
+      body.storyBrief,
+      body.storyFacts || null,
+      body.artStyle,
+      assets.stylePrimer,
+      assets.styleReferences,
+      body.history,
+      {
+        onProgress: (event) => writeEvent(res, event),
+        questionText: body.questionText,
+        choiceCount: body.choiceCount,
+        difficulty: body.difficulty,
+        language: body.language
+      }
+    );
+
+    writeEvent(res, {
+      type: 'done',
+      ...result,
+      payloadBytes
+    });
+  } catch (error) {
+    writeEvent(res, {
+      type: 'error',
+      error: toApiErrorResponse(error, 'turn failed').body
+    });
+  }
+
+  res.end();
+}
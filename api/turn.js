@@ -1,45 +1,43 @@
-import { runTurnPipeline } from './_lib/geminiServer.js';
-
-const send = (res, status, data) => {
-  res.statusCode = status;
-  res.setHeader('Content-Type', 'application/json');
-  res.end(JSON.stringify(data));
-};
+import { resolveTurnAssets, runTurnPipeline } from './_lib/geminiServer.js';
+import { ensureMethod, parseRequest, readJsonBody, sendError, sendJson } from './_lib/http.js';
+import { TURN_REQUEST } from './_lib/requestSchemas.js';
 
 export default async function handler(req, res) {
-  if (req.method !== 'POST') {
-    return send(res, 405, { error: 'Method not allowed' });
+  if (!ensureMethod(req, res, ['POST'])) {
+    return;
   }
 
   try {
-    const body = typeof req.body === 'string' ? JSON.parse(req.body) : req.body;
-    const payloadBytes = Buffer.byteLength(JSON.stringify(body || {}), 'utf8');
-
-    if (!body?.audioBase64 || !body.mimeType || !body.storyBrief || !String(body?.storyText || '').trim()) {
-      return send(res, 400, { error: 'audioBase64, mimeType, storyBrief, and storyText are required' });
-    }
+    const rawBody = readJsonBody(req);
+    const payloadBytes = Buffer.byteLength(JSON.stringify(rawBody), 'utf8');
+    const body = parseRequest(rawBody, TURN_REQUEST);
+    const assets = await resolveTurnAssets(body);
 
     const result = await runTurnPipeline(
       body.audioBase64,
       body.mimeType,
       body.storyText,
-      body.storyPdf,
-      body.imageModelPreference || 'nano-banana-pro',
+      assets.storyPdf,
+      body.imageModelPreference,
       body.storyBrief,
       body.storyFacts || null,
       body.artStyle,
-      body.stylePrimer || [],
-      body.styleReferences || [],
-      body.history || []
+      assets.stylePrimer,
+      assets.styleReferences,
+      body.history,
+      {
+        questionText: body.questionText,
+        choiceCount: body.choiceCount,
+        difficulty: body.difficulty,
+        language: body.language
+      }
     );
 
-    return send(res, 200, {
+    return sendJson(res, 200, {
       ...result,
       payloadBytes
     });
   } catch (error) {
-    return send(res, 500, {
-      error: error?.message || 'turn failed'
-    });
+    return sendError(res, error, 'turn failed');
   }
 }
@@ -0,0 +1,119 @@
+import React from 'react';
+import { CheckCircle2, Eye, Image as ImageIcon, Loader2, RefreshCw, Shuffle } from 'lucide-react';
+import { Option } from '../types';
+
+interface CaregiverReviewPanelProps {
+  options: Option[];
+  onEditText: (optionId: string, text: string) => void;
+  onMarkCorrect: (optionId: string) => void;
+  onRegenerateImage: (optionId: string) => void;
+  onReplaceAnswer: (optionId: string) => void;
+  onApprove: () => void;
+  isProcessing: boolean; // cards are still streaming in, so edits would be overwritten
+  dir?: 'ltr' | 'rtl';
+}
+
+const CaregiverReviewPanelComponent: React.FC<CaregiverReviewPanelProps> = ({
+  options,
+  onEditText,
+  onMarkCorrect,
+  onRegenerateImage,
+  onReplaceAnswer,
+  onApprove,
+  isProcessing,
+  dir = 'ltr'
+}) => {
+  const isAnyImageLoading = options.some((option) => option.isLoadingImage);
+
+  return (
+    <div className="w-full mb-12 rounded-3xl border-2 border-dashed border-kid-blue/40 bg-white/90 p-4 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-sm font-bold uppercase tracking-wider text-kid-blue">Check the cards</h3>
+          <p className="text-xs text-gray-500">Only you can see this. Fix any card, then show them to your child.</p>
+        </div>
+        <button
+          type="button"
+          onClick={onApprove}
+          disabled={isProcessing || isAnyImageLoading || options.length === 0}
+          className="flex items-center gap-2 px-5 py-2 rounded-xl bg-kid-blue text-white font-bold shadow-md hover:bg-blue-600 transition disabled:opacity-50"
+        >
+          <Eye className="w-4 h-4" /> Show to child
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+        {options.map((option) => (
+          <div
+            key={option.id}
+            className={`rounded-2xl border-2 p-3 ${option.isCorrect ? 'border-kid-teal bg-kid-teal/5' : 'border-gray-200 bg-white'}`}
+          >
+            <div className="w-full aspect-square rounded-xl overflow-hidden bg-gray-100 mb-3 flex items-center justify-center">
+              {option.isLoadingImage ? (
+                <Loader2 className="w-10 h-10 text-gray-400 animate-spin" />
+              ) : option.imageUrl ? (
+                <img src={option.imageUrl} alt={option.text} className="w-full h-full object-cover" />
+              ) : (
+                <ImageIcon className="w-12 h-12 text-gray-300" />
+              )}
+            </div>
+
+            {/* Keyed on the text so the field resets when the card text changes elsewhere. */}
+            <input
+              key={option.text}
+              defaultValue={option.text}
+              dir={dir}
+              disabled={isProcessing}
+              aria-label="Card text"
+              onBlur={(event) => onEditText(option.id, event.target.value)}
+              onKeyDown={(event) => {
+                if (event.key === 'Enter') {
+                  event.currentTarget.blur();
+                }
+              }}
+              className="w-full rounded-lg border border-gray-200 px-3 py-2 text-sm font-semibold text-gray-800 disabled:opacity-50"
+            />
+
+            <div className="mt-2 flex items-center gap-2">
+              {option.isCorrect ? (
+                <span className="flex items-center gap-1 text-xs font-bold text-kid-teal">
+                  <CheckCircle2 className="w-4 h-4" /> Correct answer
+                </span>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    onClick={() => onMarkCorrect(option.id)}
+                    disabled={isProcessing}
+                    className="text-xs font-semibold text-gray-600 hover:text-kid-teal transition disabled:opacity-50"
+                  >
+                    Mark correct
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onReplaceAnswer(option.id)}
+                    disabled={isProcessing || option.isLoadingImage}
+                    className="flex items-center gap-1 text-xs font-semibold text-gray-600 hover:text-kid-blue transition disabled:opacity-50"
+                  >
+                    <Shuffle className="w-3 h-3" /> New answer
+                  </button>
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() => onRegenerateImage(option.id)}
+                disabled={isProcessing || option.isLoadingImage}
+                className="ml-auto flex items-center gap-1 text-xs font-semibold text-gray-600 hover:text-kid-blue transition disabled:opacity-50"
+              >
+                <RefreshCw className="w-3 h-3" /> New picture
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CaregiverReviewPanel = React.memo(CaregiverReviewPanelComponent);
+export default CaregiverReviewPanel;
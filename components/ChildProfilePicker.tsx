@@ -0,0 +1,276 @@
+import React, { useState } from 'react';
+import { Plus, SlidersHorizontal, Trash2, UserRound, X } from 'lucide-react';
+import { ChildProfile, SpeechSettings, SwitchAccessSettings } from '../types';
+import SwitchAccessSettingsForm from './SwitchAccessSettingsForm';
+import { MAX_CHOICE_COUNT, MIN_CHOICE_COUNT, normalizeChoiceCount } from '../shared/choices.js';
+import { normalizeSpeechSettings, TTS_LANGUAGES, TTS_VOICES } from '../shared/speech.js';
+
+const CHOICE_COUNT_OPTIONS = Array.from(
+  { length: MAX_CHOICE_COUNT - MIN_CHOICE_COUNT + 1 },
+  (_, index) => MIN_CHOICE_COUNT + index
+);
+
+const SPEAKING_RATE_LABELS: Record<SpeechSettings['speakingRate'], string> = {
+  slow: 'Slow',
+  normal: 'Normal',
+  fast: 'Fast'
+};
+
+const SETTING_ROW_CLASS = 'mt-2 flex items-center justify-between gap-3 rounded-xl bg-gray-50 border border-gray-200 px-3 py-2 text-sm text-gray-600';
+const SETTING_SELECT_CLASS = 'px-2 py-1.5 rounded-lg border border-gray-200 bg-white text-gray-700';
+
+interface ChildProfilePickerProps {
+  profiles: ChildProfile[];
+  activeChildId: string | null;
+  onSelect: (profile: ChildProfile | null) => void;
+  onCreate: (name: string) => Promise<ChildProfile | null>;
+  onUpdate: (profile: ChildProfile) => Promise<void>;
+  onDelete: (id: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const ChildProfilePicker: React.FC<ChildProfilePickerProps> = ({
+  profiles,
+  activeChildId,
+  onSelect,
+  onCreate,
+  onUpdate,
+  onDelete,
+  onCancel
+}) => {
+  const [newName, setNewName] = useState('');
+  const [settingsProfileId, setSettingsProfileId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = async () => {
+    const trimmed = newName.trim();
+    if (!trimmed) {
+      return;
+    }
+
+    if (profiles.some((profile) => profile.name.toLowerCase() === trimmed.toLowerCase())) {
+      setError('A child with this name already exists.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const profile = await onCreate(trimmed);
+      setNewName('');
+      if (profile) {
+        onSelect(profile);
+      }
+    } catch (createError: any) {
+      setError(createError?.message || 'Failed to create profile');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSaveSwitchAccess = async (profile: ChildProfile, switchAccess: SwitchAccessSettings) => {
+    await onUpdate({ ...profile, switchAccess });
+    setSettingsProfileId(null);
+  };
+
+  const handleProfileSettingChange = async (profile: ChildProfile, changes: Partial<ChildProfile>) => {
+    setError(null);
+    try {
+      await onUpdate({ ...profile, ...changes });
+    } catch (updateError: any) {
+      setError(updateError?.message || 'Failed to save child settings');
+    }
+  };
+
+  const handleSpeechChange = (profile: ChildProfile, changes: Partial<SpeechSettings>) =>
+    handleProfileSettingChange(profile, {
+      speech: normalizeSpeechSettings({ ...profile.speech, ...changes }) as SpeechSettings
+    });
+
+  const handleDelete = async (profile: ChildProfile) => {
+    if (!confirm(`Delete ${profile.name} and all of their session history?`)) {
+      return;
+    }
+
+    try {
+      await onDelete(profile.id);
+    } catch (deleteError: any) {
+      setError(deleteError?.message || 'Failed to delete profile');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/50 backdrop-blur-sm flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="relative bg-white rounded-3xl p-6 max-w-md w-full shadow-2xl animate-fade-in-up"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <button
+          onClick={onCancel}
+          className="absolute top-4 right-4 p-2 rounded-full bg-gray-100 text-gray-500 hover:bg-gray-200"
+        >
+          <X className="w-4 h-4" />
+        </button>
+        <h2 className="text-2xl font-bold text-gray-800 mb-1">Who is reading?</h2>
+        <p className="text-sm text-gray-500 mb-5">Answers are saved to the selected child's session history.</p>
+
+        <div className="space-y-2 mb-5 max-h-72 overflow-y-auto">
+          {profiles.length === 0 && (
+            <div className="rounded-xl border border-dashed border-gray-200 p-4 text-center text-sm text-gray-400">
+              No child profiles yet.
+            </div>
+          )}
+          {profiles.map((profile) => (
+            <div key={profile.id}>
+              <div
+                className={`group flex items-center gap-3 rounded-xl border px-3 py-2 transition ${
+                  profile.id === activeChildId ? 'border-kid-blue bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <button onClick={() => onSelect(profile)} className="flex-1 flex items-center gap-3 text-left">
+                  <span className="w-10 h-10 rounded-full bg-kid-teal/20 text-kid-teal flex items-center justify-center">
+                    <UserRound className="w-5 h-5" />
+                  </span>
+                  <span className="font-bold text-gray-800">{profile.name}</span>
+                  {profile.switchAccess && profile.switchAccess.mode !== 'off' && (
+                    <span className="text-[10px] font-bold uppercase tracking-wide text-kid-blue bg-blue-100 rounded-full px-2 py-0.5">
+                      Switch
+                    </span>
+                  )}
+                </button>
+                <button
+                  onClick={() => setSettingsProfileId((prev) => (prev === profile.id ? null : profile.id))}
+                  className="p-2 rounded-full text-gray-500 hover:bg-gray-100 transition"
+                  title="Child settings"
+                >
+                  <SlidersHorizontal className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => void handleDelete(profile)}
+                  className="p-2 rounded-full text-red-500 opacity-0 group-hover:opacity-100 hover:bg-red-50 transition"
+                  title="Delete profile"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+              {settingsProfileId === profile.id && (
+                <>
+                  <label className={SETTING_ROW_CLASS}>
+                    Answer choices
+                    <select
+                      value={normalizeChoiceCount(profile.choiceCount)}
+                      onChange={(event) => void handleProfileSettingChange(profile, {
+                        choiceCount: normalizeChoiceCount(Number(event.target.value))
+                      })}
+                      className={SETTING_SELECT_CLASS}
+                    >
+                      {CHOICE_COUNT_OPTIONS.map((count) => (
+                        <option key={count} value={count}>{count} cards</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="mt-2 flex items-center gap-2 rounded-xl bg-gray-50 border border-gray-200 px-3 py-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={profile.adaptiveDifficulty !== false}
+                      onChange={(event) => void handleProfileSettingChange(profile, {
+                        adaptiveDifficulty: event.target.checked
+                      })}
+                    />
+                    Adjust difficulty to recent answers
+                  </label>
+                  <label className="mt-2 flex items-center gap-2 rounded-xl bg-gray-50 border border-gray-200 px-3 py-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={profile.caregiverReview === true}
+                      onChange={(event) => void handleProfileSettingChange(profile, {
+                        caregiverReview: event.target.checked
+                      })}
+                    />
+                    Let me check answer cards before they are shown
+                  </label>
+                  <label className={SETTING_ROW_CLASS}>
+                    Voice
+                    <select
+                      value={normalizeSpeechSettings(profile.speech).voice}
+                      onChange={(event) => void handleSpeechChange(profile, {
+                        voice: event.target.value as SpeechSettings['voice']
+                      })}
+                      className={SETTING_SELECT_CLASS}
+                    >
+                      {TTS_VOICES.map((voice) => (
+                        <option key={voice} value={voice}>{voice}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className={SETTING_ROW_CLASS}>
+                    Speaking speed
+                    <select
+                      value={normalizeSpeechSettings(profile.speech).speakingRate}
+                      onChange={(event) => void handleSpeechChange(profile, {
+                        speakingRate: event.target.value as SpeechSettings['speakingRate']
+                      })}
+                      className={SETTING_SELECT_CLASS}
+                    >
+                      {Object.entries(SPEAKING_RATE_LABELS).map(([rate, label]) => (
+                        <option key={rate} value={rate}>{label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className={SETTING_ROW_CLASS}>
+                    Speech language
+                    <select
+                      value={normalizeSpeechSettings(profile.speech).languageCode}
+                      onChange={(event) => void handleSpeechChange(profile, { languageCode: event.target.value })}
+                      className={SETTING_SELECT_CLASS}
+                    >
+                      {Object.entries(TTS_LANGUAGES).map(([code, label]) => (
+                        <option key={code} value={code}>{label}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <SwitchAccessSettingsForm
+                    settings={profile.switchAccess}
+                    onSave={(switchAccess) => handleSaveSwitchAccess(profile, switchAccess)}
+                  />
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="flex gap-2 mb-2">
+          <input
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') {
+                void handleCreate();
+              }
+            }}
+            placeholder="New child name"
+            className="flex-1 px-4 py-3 rounded-xl border border-gray-200 focus:outline-none focus:ring-2 focus:ring-kid-blue/30"
+          />
+          <button
+            onClick={() => void handleCreate()}
+            disabled={isSaving || !newName.trim()}
+            className="px-4 py-3 rounded-xl bg-kid-blue text-white font-semibold disabled:opacity-50 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" /> {isSaving ? 'Saving...' : 'Add'}
+          </button>
+        </div>
+        {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+        <button
+          onClick={() => onSelect(null)}
+          className="w-full mt-3 py-3 rounded-xl bg-gray-100 text-gray-600 font-semibold hover:bg-gray-200 transition"
+        >
+          Continue without a profile
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ChildProfilePicker;
@@ -0,0 +1,220 @@
+import React, { useState } from 'react';
+import { GitMerge, Trash2 } from 'lucide-react';
+import { EntityRecord, StoryCharacterGoldRefMap, StyleReferenceAsset } from '../types';
+import { EntityCatalogEdit } from '../features/setup/entityCatalog';
+
+interface EntityCatalogEditorProps {
+  entityRecords: EntityRecord[];
+  goldRefMap: StoryCharacterGoldRefMap[];
+  styleReferences: StyleReferenceAsset[];
+  onEdit: (edit: EntityCatalogEdit) => void;
+  onPreviewImage: (src: string, label: string) => void;
+  disabled: boolean;
+}
+
+const TYPE_BADGES: Record<EntityRecord['type'], string> = {
+  character: 'bg-kid-teal/10 text-kid-teal',
+  object: 'bg-amber-50 text-amber-700',
+  location: 'bg-violet-50 text-violet-700',
+  scene: 'bg-sky-50 text-sky-700'
+};
+
+const toLines = (value: string) => value.split(/[\n,]/);
+
+const toRefLabel = (ref: StyleReferenceAsset, index: number) =>
+  `#${index + 1} ${ref.kind}${ref.characterName ? ` · ${ref.characterName}` : ''}${ref.objectName ? ` · ${ref.objectName}` : ''}`;
+
+const toRefDataUrl = (ref: StyleReferenceAsset) => `data:${ref.mimeType};base64,${ref.data}`;
+
+const EntityCatalogEditorComponent: React.FC<EntityCatalogEditorProps> = ({
+  entityRecords,
+  goldRefMap,
+  styleReferences,
+  onEdit,
+  onPreviewImage,
+  disabled
+}) => {
+  const [mergeTargets, setMergeTargets] = useState<Record<string, string>>({});
+
+  if (entityRecords.length === 0) {
+    return <p className="text-sm text-gray-500 mt-1">No entities in the catalog.</p>;
+  }
+
+  // Character refs are listed first since they are the likely gold picks.
+  const refOptions = styleReferences
+    .map((ref, index) => ({ ref, index }))
+    .sort((a, b) => Number(b.ref.kind === 'character') - Number(a.ref.kind === 'character') || a.index - b.index);
+
+  return (
+    <div className="mt-2 space-y-2">
+      {entityRecords.map((record) => {
+        const gold = goldRefMap.find((entry) => entry.characterName.toLowerCase() === record.name.toLowerCase());
+        const mergeCandidates = entityRecords.filter((entry) => entry.type === record.type && entry.entityId !== record.entityId);
+        const mergeTarget = mergeTargets[record.entityId] || '';
+        const renderGoldSelect = (slot: 'face' | 'body') => {
+          const value = slot === 'face' ? gold?.faceRefIndex : gold?.bodyRefIndex;
+          const selectedRef = typeof value === 'number' ? styleReferences[value] : undefined;
+          return (
+            <div className="flex items-center gap-2">
+              <div className="w-10 h-10 rounded-md overflow-hidden border border-gray-200 bg-gray-50 flex-shrink-0">
+                {selectedRef && (
+                  <img
+                    src={toRefDataUrl(selectedRef)}
+                    className="w-full h-full object-cover cursor-zoom-in"
+                    onClick={() => onPreviewImage(toRefDataUrl(selectedRef), `${record.name} gold ${slot} reference`)}
+                  />
+                )}
+              </div>
+              <select
+                value={typeof value === 'number' ? String(value) : ''}
+                disabled={disabled}
+                aria-label={`Gold ${slot} reference`}
+                onChange={(event) => {
+                  const picked = event.target.value === '' ? undefined : Number(event.target.value);
+                  onEdit({
+                    kind: 'gold_refs',
+                    entityId: record.entityId,
+                    faceRefIndex: slot === 'face' ? picked : gold?.faceRefIndex,
+                    bodyRefIndex: slot === 'body' ? picked : gold?.bodyRefIndex
+                  });
+                }}
+                className="flex-1 min-w-0 px-2 py-1 rounded-lg border border-gray-200 text-xs text-gray-700 bg-white disabled:opacity-50"
+              >
+                <option value="">{slot === 'face' ? 'No gold face ref' : 'No gold body ref'}</option>
+                {refOptions.map(({ ref, index }) => (
+                  <option key={`${record.entityId}-${slot}-${index}`} value={index}>
+                    {toRefLabel(ref, index)}
+                  </option>
+                ))}
+              </select>
+            </div>
+          );
+        };
+
+        return (
+          <details key={record.entityId} className="rounded-lg border border-gray-100 p-2 bg-white">
+            <summary className="flex items-center gap-2 flex-wrap cursor-pointer">
+              <span className={`px-3 py-1 rounded-full text-xs font-bold ${TYPE_BADGES[record.type]}`}>{record.name}</span>
+              <span className="text-[11px] text-gray-500 font-semibold">{record.type}</span>
+              {record.aliases.length > 0 && (
+                <span className="text-[11px] text-gray-400 truncate">aka {record.aliases.join(', ')}</span>
+              )}
+              {record.type === 'character' && !record.goldRefs?.face && !record.goldRefs?.bootstrap && (
+                <span className="text-[11px] text-amber-600 font-semibold">no gold refs</span>
+              )}
+            </summary>
+
+            {/* Inputs are keyed on their saved value so they reset after a merge or an edit elsewhere. */}
+            <div className="mt-3 space-y-3">
+              <label className="block text-[11px] font-bold text-gray-400 uppercase tracking-wider">
+                Aliases (comma separated)
+                <input
+                  key={record.aliases.join('|')}
+                  defaultValue={record.aliases.join(', ')}
+                  disabled={disabled}
+                  onBlur={(event) => {
+                    if (event.target.value !== record.aliases.join(', ')) {
+                      onEdit({ kind: 'aliases', entityId: record.entityId, aliases: toLines(event.target.value) });
+                    }
+                  }}
+                  className="mt-1 w-full px-2 py-1 rounded-lg border border-gray-200 text-sm font-normal normal-case tracking-normal text-gray-700 disabled:opacity-50"
+                />
+              </label>
+
+              <label className="block text-[11px] font-bold text-gray-400 uppercase tracking-wider">
+                Description
+                <textarea
+                  key={record.canonicalDescription}
+                  defaultValue={record.canonicalDescription}
+                  disabled={disabled}
+                  rows={2}
+                  onBlur={(event) => {
+                    if (event.target.value.trim() !== record.canonicalDescription) {
+                      onEdit({ kind: 'description', entityId: record.entityId, canonicalDescription: event.target.value });
+                    }
+                  }}
+                  className="mt-1 w-full px-2 py-1 rounded-lg border border-gray-200 text-sm font-normal normal-case tracking-normal text-gray-700 disabled:opacity-50"
+                />
+              </label>
+
+              {record.type === 'character' && (
+                <>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {(['mustHaveTraits', 'negativeTraits'] as const).map((traitKey) => (
+                      <label key={traitKey} className="block text-[11px] font-bold text-gray-400 uppercase tracking-wider">
+                        {traitKey === 'mustHaveTraits' ? 'Must-have traits' : 'Never draw'}
+                        <textarea
+                          key={record[traitKey].join('|')}
+                          defaultValue={record[traitKey].join('\n')}
+                          disabled={disabled}
+                          rows={3}
+                          placeholder="One per line"
+                          onBlur={(event) => {
+                            if (event.target.value === record[traitKey].join('\n')) return;
+                            onEdit({
+                              kind: 'traits',
+                              entityId: record.entityId,
+                              mustHaveTraits: traitKey === 'mustHaveTraits' ? toLines(event.target.value) : record.mustHaveTraits,
+                              negativeTraits: traitKey === 'negativeTraits' ? toLines(event.target.value) : record.negativeTraits
+                            });
+                          }}
+                          className="mt-1 w-full px-2 py-1 rounded-lg border border-gray-200 text-xs font-normal normal-case tracking-normal text-gray-700 disabled:opacity-50"
+                        />
+                      </label>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <p className="text-[11px] font-bold text-gray-400 uppercase tracking-wider">Gold refs</p>
+                    {renderGoldSelect('face')}
+                    {renderGoldSelect('body')}
+                  </div>
+                </>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2 pt-1">
+                {mergeCandidates.length > 0 && (
+                  <>
+                    <select
+                      value={mergeTarget}
+                      disabled={disabled}
+                      aria-label="Merge into"
+                      onChange={(event) => setMergeTargets((prev) => ({ ...prev, [record.entityId]: event.target.value }))}
+                      className="px-2 py-1 rounded-lg border border-gray-200 text-xs text-gray-700 bg-white disabled:opacity-50"
+                    >
+                      <option value="">Merge into...</option>
+                      {mergeCandidates.map((entry) => (
+                        <option key={entry.entityId} value={entry.entityId}>
+                          {entry.name}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      disabled={disabled || !mergeTarget}
+                      onClick={() => onEdit({ kind: 'merge', entityId: record.entityId, intoEntityId: mergeTarget })}
+                      className="flex items-center gap-1 px-3 py-1 rounded-lg bg-gray-100 text-gray-700 text-xs font-bold hover:bg-gray-200 transition disabled:opacity-50"
+                    >
+                      <GitMerge className="w-3 h-3" /> Merge
+                    </button>
+                  </>
+                )}
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => onEdit({ kind: 'delete', entityId: record.entityId })}
+                  className="ml-auto flex items-center gap-1 px-3 py-1 rounded-lg bg-red-50 text-red-600 text-xs font-bold hover:bg-red-100 transition disabled:opacity-50"
+                >
+                  <Trash2 className="w-3 h-3" /> Delete
+                </button>
+              </div>
+            </div>
+          </details>
+        );
+      })}
+    </div>
+  );
+};
+
+const EntityCatalogEditor = React.memo(EntityCatalogEditorComponent);
+export default EntityCatalogEditor;
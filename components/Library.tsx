@@ -1,10 +1,31 @@
 import React, { useMemo, useState } from 'react';
-import { BookOpen, Calendar, ChevronLeft, FolderOpen, Plus, Trash2 } from 'lucide-react';
-import { Publisher, StoryManifest } from '../types';
+import { BookOpen, Calendar, ChevronLeft, Download, FolderOpen, Plus, Search, SlidersHorizontal, Trash2, Upload, X } from 'lucide-react';
+import { Publisher, StoryManifest, StorySearchIndexEntry } from '../types';
+import {
+  buildLibraryFacets,
+  EMPTY_LIBRARY_QUERY,
+  isLibraryQueryActive,
+  LIBRARY_FACET_KINDS,
+  LibraryFacetKind,
+  LibraryQuery,
+  LibrarySort,
+  searchLibrary,
+  sortLibraryStories,
+  toggleFacetValue
+} from '../features/library/librarySearch';
+
+const FACET_LABELS: Record<LibraryFacetKind, string> = {
+  characters: 'Characters',
+  objects: 'Objects',
+  places: 'Places',
+  worldTags: 'World'
+};
+const MAX_FACET_CHIPS = 8;
 
 interface LibraryProps {
   stories: StoryManifest[];
   publishers: Publisher[];
+  searchIndex: StorySearchIndexEntry[];
   onSelectStory: (story: StoryManifest) => void;
   onOpenSetup: (story: StoryManifest) => void;
   onDeleteStory: (id: string) => void;
@@ -12,18 +33,25 @@ interface LibraryProps {
   onAddBookToPublisher: (publisher: Publisher) => void;
   onCreatePublisher: (name: string) => Promise<void>;
   onUpdatePublisherImage: (publisherId: string, coverImage: string) => Promise<void>;
+  onExportStory: (story: StoryManifest) => Promise<void>;
+  onExportPublisher: (publisher: Publisher) => Promise<void>;
+  onImportBundle: (file: File) => Promise<number>;
 }
 
 const Library: React.FC<LibraryProps> = ({
   stories,
   publishers,
+  searchIndex,
   onSelectStory,
   onOpenSetup,
   onDeleteStory,
   onAddNew,
   onAddBookToPublisher,
   onCreatePublisher,
-  onUpdatePublisherImage
+  onUpdatePublisherImage,
+  onExportStory,
+  onExportPublisher,
+  onImportBundle
 }) => {
   const [showCreatePublisher, setShowCreatePublisher] = useState(false);
   const [newPublisherName, setNewPublisherName] = useState('');
@@ -32,6 +60,10 @@ const Library: React.FC<LibraryProps> = ({
   const [activePublisherId, setActivePublisherId] = useState<string | null>(null);
   const [updatingPublisherId, setUpdatingPublisherId] = useState<string | null>(null);
   const [publisherImageError, setPublisherImageError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [query, setQuery] = useState<LibraryQuery>(EMPTY_LIBRARY_QUERY);
+  const [showFilters, setShowFilters] = useState(false);
+  const [bundleMessage, setBundleMessage] = useState<{ tone: 'error' | 'success'; text: string } | null>(null);
 
   const regularBooks = useMemo(
     () => stories.filter((story) => !story.publisherId),
@@ -54,12 +86,35 @@ const Library: React.FC<LibraryProps> = ({
     [activePublisherId, publishers]
   );
 
-  const visibleStories = useMemo(() => {
-    if (!activePublisherId) {
-      return regularBooks;
-    }
-    return storiesByPublisher.get(activePublisherId) || [];
-  }, [activePublisherId, regularBooks, storiesByPublisher]);
+  const visibleStories = useMemo(
+    () =>
+      sortLibraryStories(
+        activePublisherId ? storiesByPublisher.get(activePublisherId) || [] : regularBooks,
+        query.sort
+      ),
+    [activePublisherId, query.sort, regularBooks, storiesByPublisher]
+  );
+
+  const isSearching = isLibraryQueryActive(query);
+
+  // Inside a publisher folder search stays scoped to its books; otherwise it covers every book.
+  const searchScope = useMemo(
+    () => (activePublisherId ? storiesByPublisher.get(activePublisherId) || [] : stories),
+    [activePublisherId, stories, storiesByPublisher]
+  );
+
+  const searchResults = useMemo(
+    () => (isSearching ? searchLibrary(searchScope, searchIndex, query) : []),
+    [isSearching, query, searchIndex, searchScope]
+  );
+
+  const facets = useMemo(
+    () => buildLibraryFacets(searchLibrary(searchScope, searchIndex, { ...query, facets: {} }), searchIndex),
+    [query, searchIndex, searchScope]
+  );
+
+  const isFacetSelected = (kind: LibraryFacetKind, value: string) =>
+    (query.facets[kind] || []).some((item) => item.toLowerCase() === value.toLowerCase());
 
   const fileToDataUrl = async (file: File): Promise<string> => {
     const reader = new FileReader();
@@ -106,6 +161,32 @@ const Library: React.FC<LibraryProps> = ({
     }
   };
 
+  const handleImportBundle = async (file: File | null) => {
+    if (!file) {
+      return;
+    }
+
+    setIsImporting(true);
+    setBundleMessage(null);
+    try {
+      const count = await onImportBundle(file);
+      setBundleMessage({ tone: 'success', text: `Imported ${count} book${count === 1 ? '' : 's'}.` });
+    } catch (error: any) {
+      setBundleMessage({ tone: 'error', text: error?.message || 'Failed to import bundle' });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleExport = async (exportBundle: () => Promise<void>) => {
+    setBundleMessage(null);
+    try {
+      await exportBundle();
+    } catch (error: any) {
+      setBundleMessage({ tone: 'error', text: error?.message || 'Failed to export' });
+    }
+  };
+
   const renderPublisherCard = (publisher: Publisher) => {
     const books = storiesByPublisher.get(publisher.id) || [];
     const coverImage = publisher.coverImage || books.find((book) => Boolean(book.coverImage))?.coverImage;
@@ -209,6 +290,13 @@ const Library: React.FC<LibraryProps> = ({
       >
         <Trash2 className="w-4 h-4" />
       </button>
+      <button
+        onClick={(e) => { e.stopPropagation(); void handleExport(() => onExportStory(story)); }}
+        className="absolute top-6 left-6 p-2 bg-white/90 text-gray-600 rounded-full opacity-0 group-hover:opacity-100 transition shadow-sm hover:bg-gray-50"
+        title="Export Story"
+      >
+        <Download className="w-4 h-4" />
+      </button>
     </div>
   );
 
@@ -222,6 +310,24 @@ const Library: React.FC<LibraryProps> = ({
           My Library
         </h2>
         <div className="flex items-center gap-2">
+          <label
+            className={`px-4 py-3 bg-white text-gray-700 font-bold rounded-xl shadow hover:bg-gray-50 transition border border-gray-200 flex items-center gap-2 cursor-pointer ${
+              isImporting ? 'opacity-50 pointer-events-none' : ''
+            }`}
+            title="Import a story bundle"
+          >
+            <Upload className="w-4 h-4" /> {isImporting ? 'Importing...' : 'Import'}
+            <input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0] || null;
+                event.target.value = '';
+                void handleImportBundle(file);
+              }}
+            />
+          </label>
           <button
             onClick={() => setShowCreatePublisher((prev) => !prev)}
             className="px-4 py-3 bg-white text-gray-700 font-bold rounded-xl shadow hover:bg-gray-50 transition border border-gray-200"
@@ -278,6 +384,102 @@ const Library: React.FC<LibraryProps> = ({
         </div>
       )}
 
+      {stories.length > 0 && (
+        <div className="mb-6 bg-white rounded-2xl p-3 border border-gray-200 shadow-sm">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <label className="flex-1 flex items-center gap-2 px-3 rounded-xl border border-gray-200 focus-within:ring-2 focus-within:ring-kid-blue/30">
+              <Search className="w-4 h-4 text-gray-400" />
+              <input
+                value={query.text}
+                onChange={(event) => setQuery((prev) => ({ ...prev, text: event.target.value }))}
+                placeholder="Search titles, characters, places..."
+                className="flex-1 py-3 bg-transparent focus:outline-none"
+              />
+              {query.text && (
+                <button onClick={() => setQuery((prev) => ({ ...prev, text: '' }))} className="text-gray-400 hover:text-gray-600" title="Clear search">
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </label>
+            <select
+              value={query.sort}
+              onChange={(event) => setQuery((prev) => ({ ...prev, sort: event.target.value as LibrarySort }))}
+              className="px-3 py-3 rounded-xl border border-gray-200 bg-white text-sm font-semibold text-gray-700 focus:outline-none"
+            >
+              <option value="relevance">Best match</option>
+              <option value="newest">Newest</option>
+              <option value="oldest">Oldest</option>
+              <option value="title">Title A-Z</option>
+            </select>
+            <button
+              onClick={() => setShowFilters((prev) => !prev)}
+              className={`px-4 py-3 rounded-xl text-sm font-semibold flex items-center gap-2 transition ${
+                showFilters ? 'bg-kid-blue text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              <SlidersHorizontal className="w-4 h-4" /> Filters
+            </button>
+          </div>
+
+          {showFilters && (
+            <div className="mt-3 space-y-2">
+              {LIBRARY_FACET_KINDS.map((kind) => {
+                const values = facets[kind].slice(0, MAX_FACET_CHIPS);
+                const selectedOutsideTop = (query.facets[kind] || []).filter(
+                  (value) => !values.some((facet) => facet.value.toLowerCase() === value.toLowerCase())
+                );
+                if (values.length === 0 && selectedOutsideTop.length === 0) {
+                  return null;
+                }
+
+                return (
+                  <div key={kind} className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs font-bold uppercase tracking-wider text-gray-400 w-20">{FACET_LABELS[kind]}</span>
+                    {[...values, ...selectedOutsideTop.map((value) => ({ value, count: 0 }))].map((facet) => (
+                      <button
+                        key={`${kind}-${facet.value}`}
+                        onClick={() => setQuery((prev) => toggleFacetValue(prev, kind, facet.value))}
+                        className={`px-3 py-1 rounded-full text-xs font-semibold border transition ${
+                          isFacetSelected(kind, facet.value)
+                            ? 'bg-kid-teal text-white border-kid-teal'
+                            : 'bg-white text-gray-600 border-gray-200 hover:bg-gray-50'
+                        }`}
+                      >
+                        {facet.value}{facet.count > 0 ? ` (${facet.count})` : ''}
+                      </button>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {isSearching && (
+            <div className="mt-3 flex items-center justify-between text-sm text-gray-500">
+              <span>
+                {searchResults.length} book{searchResults.length === 1 ? '' : 's'} found
+                {activePublisher ? ` in ${activePublisher.name}` : ''}
+              </span>
+              <button onClick={() => setQuery(EMPTY_LIBRARY_QUERY)} className="font-semibold text-kid-blue hover:underline">
+                Clear all
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {bundleMessage && (
+        <div
+          className={`mb-6 rounded-xl border px-4 py-3 text-sm font-medium ${
+            bundleMessage.tone === 'error'
+              ? 'border-red-100 bg-red-50 text-red-600'
+              : 'border-green-100 bg-green-50 text-green-700'
+          }`}
+        >
+          {bundleMessage.text}
+        </div>
+      )}
+
       {activePublisher && (
         <div className="mb-6 flex items-center justify-between bg-white border border-gray-200 rounded-xl p-3">
           <button
@@ -289,12 +491,20 @@ const Library: React.FC<LibraryProps> = ({
           <div className="text-sm font-semibold text-gray-700">
             {activePublisher.name}
           </div>
-          <button
-            onClick={() => onAddBookToPublisher(activePublisher)}
-            className="px-3 py-2 rounded-lg bg-kid-orange text-white text-sm font-semibold hover:bg-orange-500 transition"
-          >
-            Add Book
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => void handleExport(() => onExportPublisher(activePublisher))}
+              className="px-3 py-2 rounded-lg bg-gray-100 text-gray-700 text-sm font-semibold hover:bg-gray-200 transition flex items-center gap-1"
+            >
+              <Download className="w-4 h-4" /> Export
+            </button>
+            <button
+              onClick={() => onAddBookToPublisher(activePublisher)}
+              className="px-3 py-2 rounded-lg bg-kid-orange text-white text-sm font-semibold hover:bg-orange-500 transition"
+            >
+              Add Book
+            </button>
+          </div>
         </div>
       )}
 
@@ -314,6 +524,15 @@ const Library: React.FC<LibraryProps> = ({
             </button>
           </div>
         </div>
+      ) : isSearching ? (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
+          {searchResults.map((story) => renderStoryCard(story))}
+          {searchResults.length === 0 && (
+            <div className="sm:col-span-2 md:col-span-3 rounded-xl border border-dashed border-gray-200 p-8 bg-white text-center text-sm text-gray-500">
+              No books match this search.
+            </div>
+          )}
+        </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-6">
           {!activePublisherId && publishers.map((publisher) => renderPublisherCard(publisher))}
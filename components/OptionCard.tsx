@@ -6,15 +6,18 @@ interface OptionCardProps {
   option: Option;
   onClick: (option: Option) => void;
   selected: boolean;
+  highlighted?: boolean; // switch-scanning focus
+  dir?: 'ltr' | 'rtl'; // follows the session language so Hebrew and Arabic labels read right to left
 }
 
-const OptionCardComponent: React.FC<OptionCardProps> = ({ option, onClick, selected }) => {
+const OptionCardComponent: React.FC<OptionCardProps> = ({ option, onClick, selected, highlighted = false, dir = 'ltr' }) => {
   return (
     <button
       onClick={() => onClick(option)}
+      aria-current={highlighted ? 'true' : undefined}
       className={`
         relative group flex flex-col items-center w-full h-full p-4 rounded-3xl transition-all duration-300
-        ${selected ? 'ring-8 ring-kid-yellow scale-105' : 'hover:scale-105 hover:shadow-2xl shadow-xl bg-white'}
+        ${selected ? 'ring-8 ring-kid-yellow scale-105' : highlighted ? 'ring-8 ring-kid-blue scale-105 shadow-2xl bg-white' : 'hover:scale-105 hover:shadow-2xl shadow-xl bg-white'}
       `}
     >
       <div className="w-full aspect-square rounded-2xl overflow-hidden bg-gray-100 mb-4 relative flex items-center justify-center border-2 border-gray-100">
@@ -35,7 +38,7 @@ const OptionCardComponent: React.FC<OptionCardProps> = ({ option, onClick, selec
       </div>
       
       <div className="w-full bg-kid-teal/10 rounded-xl p-3 text-center">
-        <p className="text-xl md:text-2xl font-bold text-gray-800 break-words leading-tight">
+        <p dir={dir} className="text-xl md:text-2xl font-bold text-gray-800 break-words leading-tight">
           {option.text}
         </p>
       </div>
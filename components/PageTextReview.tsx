@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight, FileText, Loader2, ScanText, X } from 'lucide-react';
+import { PageTextRecord, TextQuality } from '../types';
+import { NEAR_EMPTY_PAGE_CHARS } from '../shared/pageText.js';
+
+interface PageTextReviewProps {
+  pagesText: PageTextRecord[];
+  pageCount: number;
+  pageImageUrls: Record<number, string>;
+  isLoadingImages: boolean;
+  textQuality: TextQuality;
+  onSave: (pageNum: number, cleanText: string) => void;
+  onRerunOcr?: (pageNum: number) => Promise<void>; // absent when no OCR backend is available
+  disabled: boolean;
+  dir?: 'ltr' | 'rtl';
+  onClose: () => void;
+}
+
+const QUALITY_BADGES: Record<TextQuality, string> = {
+  good: 'bg-emerald-50 text-emerald-700',
+  mixed: 'bg-amber-50 text-amber-700',
+  poor: 'bg-red-50 text-red-600'
+};
+
+const PageTextReviewComponent: React.FC<PageTextReviewProps> = ({
+  pagesText,
+  pageCount,
+  pageImageUrls,
+  isLoadingImages,
+  textQuality,
+  onSave,
+  onRerunOcr,
+  disabled,
+  dir = 'ltr',
+  onClose
+}) => {
+  // Pages the text pass skipped entirely still get a slot so their text can be typed in.
+  const pageNums = useMemo(() => {
+    const nums = new Set<number>(pagesText.map((page) => page.pageNum));
+    for (let pageNum = 1; pageNum <= pageCount; pageNum += 1) nums.add(pageNum);
+    return [...nums].sort((a, b) => a - b);
+  }, [pagesText, pageCount]);
+  const firstWeakPage = pageNums.find(
+    (pageNum) => (pagesText.find((page) => page.pageNum === pageNum)?.charCount || 0) < NEAR_EMPTY_PAGE_CHARS
+  );
+  const [currentPageNum, setCurrentPageNum] = useState<number>(firstWeakPage ?? pageNums[0] ?? 1);
+  const [isRerunning, setIsRerunning] = useState(false);
+
+  const currentPage = pagesText.find((page) => page.pageNum === currentPageNum);
+  const savedText = currentPage?.cleanText || '';
+  const [draft, setDraft] = useState(savedText);
+  useEffect(() => {
+    setDraft(savedText);
+  }, [currentPageNum, savedText]);
+
+  const position = pageNums.indexOf(currentPageNum);
+  const imageUrl = pageImageUrls[currentPageNum];
+  const isDirty = draft.trim() !== savedText;
+
+  const goTo = (offset: number) => {
+    const next = pageNums[position + offset];
+    if (next === undefined) return;
+    if (isDirty) onSave(currentPageNum, draft);
+    setCurrentPageNum(next);
+  };
+
+  const rerunOcr = async () => {
+    if (!onRerunOcr) return;
+    setIsRerunning(true);
+    try {
+      await onRerunOcr(currentPageNum);
+    } finally {
+      setIsRerunning(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="relative bg-white rounded-2xl p-5 max-w-5xl w-full max-h-[90vh] shadow-2xl flex flex-col">
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <div className="flex items-center gap-3">
+            <FileText className="w-5 h-5 text-kid-blue" />
+            <h3 className="text-lg font-bold text-gray-800">Page Text Review</h3>
+            <span className={`px-2 py-1 rounded-full text-xs font-bold ${QUALITY_BADGES[textQuality]}`}>
+              Text quality: {textQuality}
+            </span>
+          </div>
+          <button
+            onClick={() => {
+              if (isDirty) onSave(currentPageNum, draft);
+              onClose();
+            }}
+            className="p-2 rounded-full hover:bg-gray-100 text-gray-400 transition"
+            aria-label="Close page text review"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap gap-1 mb-4 max-h-20 overflow-y-auto">
+          {pageNums.map((pageNum) => {
+            const charCount = pagesText.find((page) => page.pageNum === pageNum)?.charCount || 0;
+            const isWeak = charCount < NEAR_EMPTY_PAGE_CHARS;
+            return (
+              <button
+                key={pageNum}
+                onClick={() => goTo(pageNums.indexOf(pageNum) - position)}
+                title={`${charCount} characters`}
+                className={`w-8 h-8 rounded-lg text-xs font-bold transition ${
+                  pageNum === currentPageNum
+                    ? 'bg-kid-blue text-white'
+                    : isWeak
+                      ? 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                }`}
+              >
+                {pageNum}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1 min-h-0">
+          <div className="rounded-xl border border-gray-200 bg-gray-50 flex items-center justify-center overflow-hidden min-h-[16rem]">
+            {imageUrl ? (
+              <img src={imageUrl} alt={`Page ${currentPageNum}`} className="max-w-full max-h-[60vh] object-contain" />
+            ) : isLoadingImages ? (
+              <Loader2 className="w-8 h-8 text-gray-400 animate-spin" />
+            ) : (
+              <p className="text-sm text-gray-400 p-4 text-center">No image of this page is stored.</p>
+            )}
+          </div>
+
+          <div className="flex flex-col min-h-0">
+            <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+              Page {currentPageNum} text
+            </label>
+            <textarea
+              value={draft}
+              dir={dir}
+              disabled={disabled || isRerunning}
+              onChange={(event) => setDraft(event.target.value)}
+              placeholder="No text was read from this page."
+              className="mt-2 flex-1 min-h-[12rem] w-full px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 disabled:opacity-50"
+            />
+            <p className="mt-1 text-[11px] text-gray-400">{draft.trim().length} characters</p>
+            <div className="mt-3 flex flex-wrap items-center gap-2">
+              <button
+                onClick={() => onSave(currentPageNum, draft)}
+                disabled={disabled || isRerunning || !isDirty}
+                className="px-4 py-2 rounded-lg bg-kid-blue text-white text-sm font-bold hover:bg-blue-600 transition disabled:opacity-50"
+              >
+                Save Page
+              </button>
+              {onRerunOcr && (
+                <button
+                  onClick={() => void rerunOcr()}
+                  disabled={disabled || isRerunning || !imageUrl}
+                  className="flex items-center gap-1 px-4 py-2 rounded-lg bg-kid-teal/10 text-kid-teal text-sm font-bold hover:bg-kid-teal/20 transition disabled:opacity-50"
+                >
+                  {isRerunning ? <Loader2 className="w-4 h-4 animate-spin" /> : <ScanText className="w-4 h-4" />}
+                  Re-read Page
+                </button>
+              )}
+              <div className="ml-auto flex items-center gap-1">
+                <button
+                  onClick={() => goTo(-1)}
+                  disabled={position <= 0 || isRerunning}
+                  className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition disabled:opacity-40"
+                  aria-label="Previous page"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => goTo(1)}
+                  disabled={position >= pageNums.length - 1 || isRerunning}
+                  className="p-2 rounded-lg bg-gray-100 text-gray-600 hover:bg-gray-200 transition disabled:opacity-40"
+                  aria-label="Next page"
+                >
+                  <ChevronRight className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const PageTextReview = React.memo(PageTextReviewComponent);
+export default PageTextReview;
@@ -0,0 +1,167 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { BarChart3, UserRound } from 'lucide-react';
+import { ChildProfile, SessionLogEntry, StoryManifest } from '../types';
+import { getSessionLog } from '../services/storageService';
+import { AccuracyBucket, buildProgressReport } from '../features/progress/progressStats';
+
+interface ProgressDashboardProps {
+  profiles: ChildProfile[];
+  stories: StoryManifest[];
+  initialChildId: string | null;
+}
+
+const formatAccuracy = (value: number | null): string =>
+  value === null ? '—' : `${Math.round(value * 100)}%`;
+
+const AccuracyRows: React.FC<{ title: string; buckets: AccuracyBucket[] }> = ({ title, buckets }) => (
+  <div className="bg-white rounded-2xl p-4 border border-gray-100 shadow-sm">
+    <h3 className="text-sm font-bold uppercase tracking-wider text-gray-500 mb-3">{title}</h3>
+    {buckets.length === 0 ? (
+      <p className="text-sm text-gray-400">No answers yet.</p>
+    ) : (
+      <div className="space-y-2">
+        {buckets.map((bucket) => (
+          <div key={bucket.key} className="text-sm">
+            <div className="flex justify-between gap-2 mb-1">
+              <span className="font-semibold text-gray-700 truncate capitalize">{bucket.label}</span>
+              <span className="text-gray-500 whitespace-nowrap">
+                {formatAccuracy(bucket.accuracy)} ({bucket.correct}/{bucket.answered})
+              </span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-100 overflow-hidden">
+              <div
+                className="h-full bg-kid-teal rounded-full"
+                style={{ width: `${Math.round((bucket.accuracy || 0) * 100)}%` }}
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ profiles, stories, initialChildId }) => {
+  const [childId, setChildId] = useState<string | null>(initialChildId || profiles[0]?.id || null);
+  const [entries, setEntries] = useState<SessionLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!childId && profiles.length > 0) {
+      setChildId(profiles[0].id);
+    }
+  }, [childId, profiles]);
+
+  useEffect(() => {
+    if (!childId) {
+      setEntries([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    getSessionLog(childId)
+      .then((log) => {
+        if (!cancelled) setEntries(log);
+      })
+      .catch((error) => {
+        console.error('Failed to load session log', error);
+        if (!cancelled) setEntries([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [childId]);
+
+  const storyTitleById = useMemo(
+    () => Object.fromEntries(stories.map((story) => [story.id, story.title])),
+    [stories]
+  );
+  const report = useMemo(() => buildProgressReport(entries, storyTitleById), [entries, storyTitleById]);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto p-4 animate-fade-in-up">
+      <div className="flex flex-col sm:flex-row justify-between sm:items-center mb-8 gap-4">
+        <h2 className="text-3xl font-bold text-gray-800 flex items-center gap-3">
+          <span className="bg-kid-teal text-white p-3 rounded-2xl">
+            <BarChart3 className="w-8 h-8" />
+          </span>
+          Progress
+        </h2>
+        {profiles.length > 0 && (
+          <label className="px-4 py-2 bg-white rounded-xl shadow border border-gray-200 flex items-center gap-2">
+            <UserRound className="w-4 h-4 text-gray-500" />
+            <select
+              value={childId || ''}
+              onChange={(event) => setChildId(event.target.value || null)}
+              className="bg-transparent font-semibold text-gray-700 focus:outline-none"
+            >
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {profiles.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 bg-white rounded-3xl border-2 border-dashed border-gray-200 text-gray-400">
+          <h3 className="text-xl font-bold mb-2">No child profiles yet</h3>
+          <p>Start a story and add a child to begin tracking progress.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="bg-white rounded-2xl p-4 border border-gray-100 shadow-sm">
+              <div className="text-xs font-bold uppercase tracking-wider text-gray-400">Accuracy</div>
+              <div className="text-3xl font-bold text-gray-800">{formatAccuracy(report.overall.accuracy)}</div>
+            </div>
+            <div className="bg-white rounded-2xl p-4 border border-gray-100 shadow-sm">
+              <div className="text-xs font-bold uppercase tracking-wider text-gray-400">Questions answered</div>
+              <div className="text-3xl font-bold text-gray-800">{report.overall.answered}</div>
+            </div>
+            <div className="bg-white rounded-2xl p-4 border border-gray-100 shadow-sm">
+              <div className="text-xs font-bold uppercase tracking-wider text-gray-400">Correct first picks</div>
+              <div className="text-3xl font-bold text-gray-800">{report.overall.correct}</div>
+            </div>
+          </div>
+
+          {isLoading && <p className="text-sm text-gray-400">Loading session history...</p>}
+
+          <div className="bg-white rounded-2xl p-4 border border-gray-100 shadow-sm">
+            <h3 className="text-sm font-bold uppercase tracking-wider text-gray-500 mb-3">Accuracy over time</h3>
+            {report.overTime.length === 0 ? (
+              <p className="text-sm text-gray-400">No answers yet.</p>
+            ) : (
+              <div className="flex items-end gap-2 h-40 overflow-x-auto">
+                {report.overTime.map((bucket) => (
+                  <div key={bucket.key} className="flex flex-col items-center justify-end h-full min-w-[3rem]">
+                    <span className="text-[11px] font-semibold text-gray-600 mb-1">{formatAccuracy(bucket.accuracy)}</span>
+                    <div
+                      className="w-8 bg-kid-blue rounded-t-lg"
+                      style={{ height: `${Math.max(4, Math.round((bucket.accuracy || 0) * 100))}%` }}
+                      title={`${bucket.correct}/${bucket.answered} correct`}
+                    />
+                    <span className="text-[10px] text-gray-400 mt-1">{bucket.key.slice(5)}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <AccuracyRows title="By question type" buckets={report.byQuestionType} />
+            <AccuracyRows title="By story" buckets={report.byStory} />
+            <AccuracyRows title="By story support" buckets={report.bySupportLevel} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { Check, ListChecks, X } from 'lucide-react';
+import { QuestionBank, QuestionBankEntry, QuestionBankKind } from '../types';
+
+interface QuestionBankPickerProps {
+  questionBank?: QuestionBank;
+  onAskQuestion: (entry: QuestionBankEntry) => void;
+  isProcessing: boolean;
+}
+
+const KIND_LABELS: Record<QuestionBankKind, string> = {
+  who: 'Who',
+  where: 'Where',
+  what: 'What',
+  sequence: 'Order',
+  feeling: 'Feelings'
+};
+
+const QuestionBankPickerComponent: React.FC<QuestionBankPickerProps> = ({ questionBank, onAskQuestion, isProcessing }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [askedIds, setAskedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setAskedIds(new Set());
+    setIsOpen(false);
+  }, [questionBank]);
+
+  const questions = questionBank?.questions || [];
+  if (questions.length === 0) {
+    return null;
+  }
+
+  const handleAsk = (entry: QuestionBankEntry) => {
+    if (isProcessing) return;
+    setAskedIds((prev) => new Set(prev).add(entry.id));
+    setIsOpen(false);
+    onAskQuestion(entry);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/90 border border-gray-200 text-gray-600 text-sm font-semibold shadow-sm hover:bg-white transition"
+      >
+        <ListChecks className="w-4 h-4" /> Ready questions ({questions.length - askedIds.size} left)
+      </button>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-md bg-white rounded-2xl border border-gray-200 shadow-md p-3">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Ready questions</span>
+        <button
+          type="button"
+          onClick={() => setIsOpen(false)}
+          aria-label="Close ready questions"
+          className="w-8 h-8 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 transition"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="space-y-1 max-h-64 overflow-y-auto">
+        {questions.map((entry) => {
+          const asked = askedIds.has(entry.id);
+          return (
+            <button
+              key={entry.id}
+              type="button"
+              onClick={() => handleAsk(entry)}
+              disabled={isProcessing}
+              className={`w-full flex items-center gap-3 rounded-xl px-3 py-2 text-left text-sm transition disabled:opacity-50 ${
+                asked ? 'text-gray-400' : 'text-gray-700 hover:bg-blue-50'
+              }`}
+            >
+              <span className="w-16 shrink-0 text-[10px] font-bold uppercase tracking-wide text-kid-blue">
+                {KIND_LABELS[entry.kind] || entry.kind}
+              </span>
+              <span className="flex-1">{entry.question}</span>
+              {asked && <Check className="w-4 h-4 text-kid-teal" />}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const QuestionBankPicker = React.memo(QuestionBankPickerComponent);
+export default QuestionBankPicker;
@@ -0,0 +1,147 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, Flag, Loader2, MessageCircleQuestion, Volume2, X } from 'lucide-react';
+import { ReaderPage } from '../types';
+
+const PAUSE_QUESTION = 'What just happened in the story?';
+
+interface ReadAlongReaderProps {
+  pages: ReaderPage[];
+  pageIndex: number;
+  isPausePage: boolean;
+  isAdvanceBlocked: boolean;
+  isLoading: boolean;
+  loadError: string | null;
+  isProcessing: boolean;
+  onNextPage: () => void;
+  onPreviousPage: () => void;
+  onTogglePausePage: (pageNum: number) => void;
+  onNarratePage: () => void;
+  onAskQuestion: (question: string) => void;
+  onClose: () => void;
+}
+
+const ReadAlongReaderComponent: React.FC<ReadAlongReaderProps> = ({
+  pages,
+  pageIndex,
+  isPausePage,
+  isAdvanceBlocked,
+  isLoading,
+  loadError,
+  isProcessing,
+  onNextPage,
+  onPreviousPage,
+  onTogglePausePage,
+  onNarratePage,
+  onAskQuestion,
+  onClose
+}) => {
+  const page = pages[pageIndex];
+  const isLastPage = pageIndex >= pages.length - 1;
+
+  return (
+    <div className="w-full mb-8 rounded-3xl border border-gray-200 bg-white shadow-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">
+          Read along {page ? `· Page ${page.pageNum} of ${pages.length}` : ''}
+        </span>
+        <div className="flex items-center gap-1">
+          {page && (
+            <button
+              type="button"
+              onClick={() => onTogglePausePage(page.pageNum)}
+              title={isPausePage ? 'Remove question pause from this page' : 'Pause for a question on this page'}
+              className={`w-8 h-8 rounded-full flex items-center justify-center transition ${
+                isPausePage ? 'bg-kid-orange/15 text-kid-orange' : 'text-gray-400 hover:text-gray-600'
+              }`}
+            >
+              <Flag className="w-4 h-4" />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Close reader"
+            className="w-8 h-8 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 transition"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center gap-2 py-16 text-gray-400">
+          <Loader2 className="w-5 h-5 animate-spin" /> Getting the pages ready...
+        </div>
+      ) : loadError || !page ? (
+        <p className="py-10 text-center text-sm text-gray-500">{loadError || 'No pages to show.'}</p>
+      ) : (
+        <>
+          <div className="flex flex-col md:flex-row gap-4 items-center">
+            {page.imageUrl && (
+              <img
+                src={page.imageUrl}
+                alt={`Page ${page.pageNum}`}
+                className="w-full md:w-1/2 max-h-[28rem] object-contain rounded-2xl border border-gray-100 bg-gray-50"
+              />
+            )}
+            <div className="flex-1 w-full">
+              <p dir="auto" className="text-lg leading-relaxed text-gray-800 whitespace-pre-wrap">
+                {page.text || 'This page has no words. Look at the picture together!'}
+              </p>
+              {page.text && (
+                <button
+                  type="button"
+                  onClick={onNarratePage}
+                  className="mt-3 flex items-center gap-2 px-3 py-1.5 rounded-full bg-kid-blue/10 text-kid-blue text-sm font-semibold hover:bg-kid-blue/20 transition"
+                >
+                  <Volume2 className="w-4 h-4" /> Read it again
+                </button>
+              )}
+            </div>
+          </div>
+
+          {isPausePage && (
+            <div className="mt-4 rounded-2xl bg-kid-orange/10 border border-kid-orange/20 p-3 flex flex-col sm:flex-row sm:items-center gap-3">
+              <p className="flex-1 text-sm font-semibold text-gray-700">
+                {isAdvanceBlocked
+                  ? 'Question time! Ask about what you have read so far and pick an answer to keep reading. Answers only use the story up to this page.'
+                  : 'Nice answering! Ask another question or keep reading.'}
+              </p>
+              <button
+                type="button"
+                onClick={() => onAskQuestion(PAUSE_QUESTION)}
+                disabled={isProcessing}
+                className="flex items-center gap-2 px-4 py-2 rounded-full bg-kid-orange text-white text-sm font-bold disabled:opacity-50 transition"
+              >
+                <MessageCircleQuestion className="w-4 h-4" /> "{PAUSE_QUESTION}"
+              </button>
+            </div>
+          )}
+
+          <div className="mt-4 flex items-center justify-between">
+            <button
+              type="button"
+              onClick={onPreviousPage}
+              disabled={pageIndex === 0}
+              className="flex items-center gap-1 px-4 py-2 rounded-full bg-gray-100 text-gray-600 font-semibold disabled:opacity-40 transition"
+            >
+              <ChevronLeft className="w-4 h-4" /> Back
+            </button>
+            <button
+              type="button"
+              onClick={onNextPage}
+              disabled={isLastPage || isAdvanceBlocked}
+              title={isAdvanceBlocked ? 'Answer a question on this page first' : undefined}
+              className="flex items-center gap-1 px-4 py-2 rounded-full bg-kid-blue text-white font-semibold disabled:opacity-40 transition"
+            >
+              {isPausePage ? 'Keep reading' : 'Next'} <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const ReadAlongReader = React.memo(ReadAlongReaderComponent);
+export default ReadAlongReader;
@@ -1,8 +1,23 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Upload, BookOpen, X, AlertCircle, CheckCircle, ArrowRight, Loader2, Sparkles, FolderOpen } from 'lucide-react';
-import { FileData, Publisher, SetupStoryResponse, StoryFacts, StoryPack, StyleReferenceAsset } from '../types';
+import {
+  FileData,
+  PageTextRecord,
+  Publisher,
+  QuestionBank,
+  SetupStoryResponse,
+  StoryFacts,
+  StoryLanguage,
+  StoryPack,
+  StyleReferenceAsset
+} from '../types';
 import { USE_BACKEND_PIPELINE } from '../services/apiClient';
-import { extractStyleReferenceAssetsFromPdf } from '../services/pdfService';
+import { DEFAULT_STORY_LANGUAGE, getTextDirection, normalizeStoryLanguage, STORY_LANGUAGE_LABELS } from '../shared/language.js';
+import { convertPdfToImages, extractStyleReferenceAssetsFromPdf } from '../services/pdfService';
+import { applyEntityCatalogEdit, EntityCatalogEdit, rebuildEntityCatalog } from '../features/setup/entityCatalog';
+import { applyPageTextCorrection } from '../features/setup/pageTextReview';
+import EntityCatalogEditor from './EntityCatalogEditor';
+import PageTextReview from './PageTextReview';
 
 interface SetupInitialView {
   storyId?: string;
@@ -27,7 +42,9 @@ export interface ExistingSetupUpdatePayload {
 
 interface SetupPanelProps {
   publishers: Publisher[];
-  onPrepareStory: (storyFile: FileData, styleImages: FileData[]) => Promise<SetupStoryResponse>;
+  onPrepareStory: (storyFile: FileData, styleImages: FileData[], language: StoryLanguage) => Promise<SetupStoryResponse>;
+  onBuildQuestionBank?: (storyPack: StoryPack) => Promise<QuestionBank>;
+  onRecognizePageText?: (pageNum: number, pageImage: FileData, language: StoryLanguage) => Promise<PageTextRecord>;
   onComplete: (storyFile: FileData, styleImages: FileData[], storyPack: StoryPack, publisherId: string | null) => void;
   onSaveExisting?: (payload: ExistingSetupUpdatePayload) => Promise<void> | void;
   onUpdatePublisherImage?: (publisherId: string, coverImage: string) => Promise<void> | void;
@@ -107,6 +124,17 @@ const mergeStyleReferenceAssets = (
   return merged.slice(0, 120);
 };
 
+// Catalog edits relabel the pack's references; copy those labels onto the matching stored references,
+// which win when both lists are merged on save.
+const syncEntityLabels = (refs: StyleReferenceAsset[], labelled: StyleReferenceAsset[]): StyleReferenceAsset[] => {
+  const labelsByFingerprint = new Map(labelled.map((ref) => [toFingerprint(ref), ref]));
+  return refs.map((ref) => {
+    const source = labelsByFingerprint.get(toFingerprint(ref));
+    if (!source) return ref;
+    return { ...ref, characterName: source.characterName, objectName: source.objectName, sceneId: source.sceneId };
+  });
+};
+
 const buildBalancedSetupPayload = (styleRefs: StyleReferenceAsset[]): StyleReferenceAsset[] => {
   const refs = mergeStyleReferenceAssets(styleRefs, []);
   const ranked = [...refs].sort((a, b) => (b.confidence || 0) - (a.confidence || 0));
@@ -407,6 +435,8 @@ const buildTightEntityCrops = async (refs: StyleReferenceAsset[]): Promise<Style
 const SetupPanel: React.FC<SetupPanelProps> = ({
   publishers,
   onPrepareStory,
+  onBuildQuestionBank,
+  onRecognizePageText,
   onComplete,
   onSaveExisting,
   onUpdatePublisherImage,
@@ -431,6 +461,11 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
   const [expandedImage, setExpandedImage] = useState<{ src: string; label?: string } | null>(null);
   const [showQaPackageJson, setShowQaPackageJson] = useState(false);
   const [qaPackageCopied, setQaPackageCopied] = useState(false);
+  const [isBuildingBank, setIsBuildingBank] = useState(false);
+  const [storyLanguage, setStoryLanguage] = useState<StoryLanguage>(DEFAULT_STORY_LANGUAGE);
+  const [showPageTextReview, setShowPageTextReview] = useState(false);
+  const [renderedPageImages, setRenderedPageImages] = useState<string[]>([]);
+  const [isRenderingPages, setIsRenderingPages] = useState(false);
 
   const isExistingStory = Boolean(initialView?.storyId);
   const canEdit = !isReadOnlyView;
@@ -447,6 +482,9 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
       setExpandedImage(null);
       setShowQaPackageJson(false);
       setQaPackageCopied(false);
+      setStoryLanguage(DEFAULT_STORY_LANGUAGE);
+      setShowPageTextReview(false);
+      setRenderedPageImages([]);
       setErrorMsg(null);
       setIsProcessing(false);
       return;
@@ -458,12 +496,15 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
       : (initialView.styleImages || []).map((item) => toStyleReferenceAsset(item, { kind: 'scene', source: 'upload' }));
     setStyleReferences(initialRefs);
     setPreparedPack(initialView.storyPack || null);
+    setStoryLanguage(normalizeStoryLanguage(initialView.storyPack?.language) as StoryLanguage);
     setIsReadOnlyView(Boolean(initialView.readOnly));
     setSelectedPublisherId(initialView.publisherId || null);
     setWarningsAcknowledged(false);
     setExpandedImage(null);
     setShowQaPackageJson(false);
     setQaPackageCopied(false);
+    setShowPageTextReview(false);
+    setRenderedPageImages([]);
     setErrorMsg(null);
     setIsProcessing(false);
   }, [initialView]);
@@ -492,7 +533,7 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
       const setupPayload = mergeStyleReferenceAssets(effectiveStyles, [])
         .slice(0, STYLE_REF_SETUP_UPLOAD_LIMIT)
         .map(stripStyleReferenceAsset);
-      const setupResponse = await onPrepareStory(storySource, setupPayload);
+      const setupResponse = await onPrepareStory(storySource, setupPayload, storyLanguage);
       const setupRefs = setupResponse.storyPack.styleReferences?.length
         ? setupResponse.storyPack.styleReferences
         : setupPayload.map((item) => toStyleReferenceAsset(item, { kind: 'scene', source: 'upload' }));
@@ -501,6 +542,7 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
 
       setPreparedPack((prev) => ({
         ...setupResponse.storyPack,
+        language: setupResponse.storyPack.language || storyLanguage,
         storyFacts: remappedFacts,
         styleReferences: enrichedRefs,
         coverImage: prev?.coverImage || setupResponse.storyPack.coverImage
@@ -687,12 +729,12 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
         preparedPack.stylePrimer
       ).slice(0, STYLE_REF_TOTAL);
       const remappedFacts = rebuildStoryFactImageMaps(preparedPack.storyFacts, finalStyleRefs);
-      const finalPack: StoryPack = {
+      const finalPack: StoryPack = rebuildEntityCatalog({
         ...preparedPack,
         storyFacts: remappedFacts,
         stylePrimer: finalPrimer,
         styleReferences: finalStyleRefs
-      };
+      });
 
       if (isExistingStory && initialView?.storyId) {
         await onSaveExisting?.({
@@ -879,6 +921,99 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
     }
   };
 
+  // Optional: plans and renders standard questions now so sessions can use them with no wait.
+  const buildQuestionBankForPack = async () => {
+    if (!preparedPack || !onBuildQuestionBank) {
+      return;
+    }
+
+    setErrorMsg(null);
+    setIsBuildingBank(true);
+    try {
+      const questionBank = await onBuildQuestionBank(preparedPack);
+      setPreparedPack((prev) => (prev ? { ...prev, questionBank } : prev));
+    } catch (error: any) {
+      setErrorMsg(error?.message || 'Failed to build the question bank.');
+    } finally {
+      setIsBuildingBank(false);
+    }
+  };
+
+  const handleCatalogEdit = (edit: EntityCatalogEdit) => {
+    if (!canEdit || !preparedPack) {
+      return;
+    }
+
+    try {
+      const nextPack = applyEntityCatalogEdit({ ...preparedPack, styleReferences: preparedStyleRefs }, edit);
+      setPreparedPack(nextPack);
+      setStyleReferences((prev) => syncEntityLabels(prev, nextPack.styleReferences || []));
+      setErrorMsg(null);
+    } catch (error: any) {
+      setErrorMsg(error?.message || 'Failed to update the entity catalog.');
+    }
+  };
+
+  // Stored page screenshots show up at once; the full page renders replace them when the PDF is at hand.
+  const pageImageUrls: Record<number, string> = {};
+  for (const ref of preparedStyleRefs) {
+    if (ref.source === 'pdf_page' && typeof ref.pageIndex === 'number') {
+      pageImageUrls[ref.pageIndex + 1] = toStyleDataUrl(ref);
+    }
+  }
+  renderedPageImages.forEach((url, index) => {
+    pageImageUrls[index + 1] = url;
+  });
+
+  const openPageTextReview = async () => {
+    setShowPageTextReview(true);
+    if (!currentStory || renderedPageImages.length > 0 || !qaReadyPackage) {
+      return;
+    }
+
+    setIsRenderingPages(true);
+    try {
+      const pages = await convertPdfToImages(currentStory.data, { maxPages: qaReadyPackage.manifest.pageCount });
+      setRenderedPageImages(pages);
+    } catch (error: any) {
+      setErrorMsg(error?.message || 'Failed to render the book pages.');
+    } finally {
+      setIsRenderingPages(false);
+    }
+  };
+
+  const handlePageTextSave = (pageNum: number, cleanText: string) => {
+    if (!canEdit || !preparedPack) {
+      return;
+    }
+
+    try {
+      setPreparedPack(applyPageTextCorrection(preparedPack, { pageNum, cleanText }));
+      setErrorMsg(null);
+    } catch (error: any) {
+      setErrorMsg(error?.message || 'Failed to save the page text.');
+    }
+  };
+
+  const handleRerunPageOcr = async (pageNum: number) => {
+    const pageImageUrl = pageImageUrls[pageNum];
+    if (!canEdit || !onRecognizePageText || !pageImageUrl) {
+      return;
+    }
+
+    setErrorMsg(null);
+    try {
+      const page = await onRecognizePageText(pageNum, parseDataUrl(pageImageUrl), storyLanguage);
+      setPreparedPack((prev) =>
+        prev?.qaReadyPackage
+          ? applyPageTextCorrection(prev, { pageNum, cleanText: page.cleanText, rawText: page.rawText })
+          : prev
+      );
+    } catch (error: any) {
+      setErrorMsg(error?.message || 'Failed to re-read the page.');
+    }
+  };
+
   const downloadQaPackageJson = () => {
     if (!qaReadyPackageJson || !qaReadyPackage?.manifest?.bookId) {
       return;
@@ -973,6 +1108,29 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
                     No original PDF stored for this story.
                   </div>
                 )}
+
+                <div className="mt-4">
+                  <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Book Language</label>
+                  {canEdit ? (
+                    <select
+                      value={storyLanguage}
+                      onChange={(event) => setStoryLanguage(event.target.value as StoryLanguage)}
+                      disabled={isProcessing}
+                      className="mt-2 w-full px-3 py-2 rounded-lg border border-gray-200 text-sm text-gray-700 bg-white"
+                    >
+                      {Object.entries(STORY_LANGUAGE_LABELS).map(([code, label]) => (
+                        <option key={code} value={code}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <p className="text-sm text-gray-600 mt-1">{STORY_LANGUAGE_LABELS[storyLanguage]}</p>
+                  )}
+                  {canEdit && preparedPack && (preparedPack.language || DEFAULT_STORY_LANGUAGE) !== storyLanguage && (
+                    <p className="text-xs text-kid-orange mt-1">Re-run analysis so the book is read in this language.</p>
+                  )}
+                </div>
               </section>
 
               {(isProcessing || hasAnalysis) && (
@@ -1044,6 +1202,16 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
                             </div>
                           )}
                           <div className="flex flex-wrap gap-2 pt-1">
+                            <button
+                              onClick={() => void openPageTextReview()}
+                              className={`px-3 py-2 rounded-lg text-xs font-bold transition ${
+                                qaReadyPackage.qaReadyManifest.textQuality === 'good'
+                                  ? 'bg-white border border-gray-200 text-gray-700 hover:bg-gray-100'
+                                  : 'bg-amber-50 border border-amber-200 text-amber-700 hover:bg-amber-100'
+                              }`}
+                            >
+                              Review Page Text
+                            </button>
                             <button
                               onClick={() => setShowQaPackageJson((prev) => !prev)}
                               className="px-3 py-2 rounded-lg bg-white border border-gray-200 text-xs font-bold text-gray-700 hover:bg-gray-100 transition"
@@ -1071,6 +1239,46 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
                         </div>
                       )}
 
+                      {qaReadyPackage && USE_BACKEND_PIPELINE && onBuildQuestionBank && (
+                        <div className="rounded-xl border border-gray-200 bg-gray-50 p-4 space-y-2">
+                          <label className="text-xs font-bold text-gray-400 uppercase tracking-wider block">Question Bank</label>
+                          <p className="text-sm text-gray-600">
+                            {preparedPack?.questionBank
+                              ? `${preparedPack.questionBank.questions.length} questions ready with pictures.`
+                              : 'Optional: prepare standard questions and pictures now so a session has no waiting.'}
+                          </p>
+                          {preparedPack?.questionBank && (
+                            <ul className="text-xs text-gray-600 space-y-1">
+                              {preparedPack.questionBank.questions.map((entry) => (
+                                <li key={entry.id}>• {entry.question}</li>
+                              ))}
+                            </ul>
+                          )}
+                          {preparedPack?.questionBank?.skipped && preparedPack.questionBank.skipped.length > 0 && (
+                            <div className="text-xs text-amber-700 space-y-1">
+                              <p className="font-bold">
+                                {preparedPack.questionBank.skipped.length} question(s) could not be prepared. Rebuild to try again.
+                              </p>
+                              <ul className="space-y-1">
+                                {preparedPack.questionBank.skipped.map((item) => (
+                                  <li key={item.id} title={item.error}>• {item.question}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          <button
+                            onClick={() => void buildQuestionBankForPack()}
+                            disabled={!canEdit || isBuildingBank || isProcessing}
+                            className="px-3 py-2 rounded-lg bg-kid-blue/10 text-kid-blue text-xs font-bold hover:bg-kid-blue/20 transition disabled:opacity-50 flex items-center gap-2"
+                          >
+                            {isBuildingBank && <Loader2 className="w-3 h-3 animate-spin" />}
+                            {isBuildingBank
+                              ? 'Preparing questions...'
+                              : preparedPack?.questionBank ? 'Rebuild Question Bank' : 'Build Question Bank'}
+                          </button>
+                        </div>
+                      )}
+
                       {preparedPack?.storyText && (
                         <details className="rounded-xl border border-gray-200 bg-white p-3">
                           <summary className="text-xs font-bold text-gray-500 uppercase tracking-wider cursor-pointer">
@@ -1352,6 +1560,23 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
                         )}
                       </div>
 
+                      {qaReadyPackage && (
+                        <div>
+                          <label className="text-xs font-bold text-gray-400 uppercase tracking-wider">Entity Catalog</label>
+                          <p className="text-xs text-gray-500 mt-1">
+                            Merge duplicates, fix names and looks, pick gold refs, or delete entities that are not in the book.
+                          </p>
+                          <EntityCatalogEditor
+                            entityRecords={qaReadyPackage.entityRecords}
+                            goldRefMap={preparedPack?.storyFacts?.characterGoldRefMap || []}
+                            styleReferences={preparedStyleRefs}
+                            onEdit={handleCatalogEdit}
+                            onPreviewImage={(src, label) => setExpandedImage({ src, label })}
+                            disabled={!canEdit || isProcessing}
+                          />
+                        </div>
+                      )}
+
                       {hasMappingWarnings && (
                         <div className="rounded-xl border border-amber-200 bg-amber-50 p-4 space-y-3">
                           <div className="flex items-center gap-2 text-amber-900">
@@ -1607,6 +1832,21 @@ const SetupPanel: React.FC<SetupPanelProps> = ({
         </div>
       </div>
 
+      {showPageTextReview && qaReadyPackage && (
+        <PageTextReview
+          pagesText={qaReadyPackage.pagesText}
+          pageCount={qaReadyPackage.manifest.pageCount}
+          pageImageUrls={pageImageUrls}
+          isLoadingImages={isRenderingPages}
+          textQuality={qaReadyPackage.qaReadyManifest.textQuality}
+          onSave={handlePageTextSave}
+          onRerunOcr={USE_BACKEND_PIPELINE && onRecognizePageText && canEdit ? handleRerunPageOcr : undefined}
+          disabled={!canEdit || isProcessing}
+          dir={getTextDirection(storyLanguage)}
+          onClose={() => setShowPageTextReview(false)}
+        />
+      )}
+
       {expandedImage && (
         <div
           className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-6"
@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { SwitchAccessSettings, SwitchScanMode } from '../types';
+import {
+  describeSwitchKey,
+  MAX_SCAN_INTERVAL_MS,
+  MIN_SCAN_INTERVAL_MS,
+  normalizeSwitchAccess
+} from '../features/session/switchScanning';
+
+interface SwitchAccessSettingsFormProps {
+  settings?: SwitchAccessSettings;
+  onSave: (settings: SwitchAccessSettings) => Promise<void>;
+}
+
+type CapturingKey = 'selectKey' | 'advanceKey' | null;
+
+const MODE_LABELS: Record<SwitchScanMode, string> = {
+  off: 'Off (touch)',
+  auto_scan: 'Auto scan (1 switch)',
+  step_scan: 'Step scan (2 switches)'
+};
+
+const SwitchAccessSettingsForm: React.FC<SwitchAccessSettingsFormProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<SwitchAccessSettings>(() => normalizeSwitchAccess(settings));
+  const [capturing, setCapturing] = useState<CapturingKey>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!capturing) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.code !== 'Escape') {
+        setDraft((prev) => ({ ...prev, [capturing]: event.code }));
+      }
+      setCapturing(null);
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing]);
+
+  const handleSave = async () => {
+    if (draft.mode === 'step_scan' && draft.selectKey === draft.advanceKey) {
+      setError('Use two different switches for select and next.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSave(normalizeSwitchAccess(draft));
+    } catch (saveError: any) {
+      setError(saveError?.message || 'Failed to save switch settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderKeyButton = (key: Exclude<CapturingKey, null>, label: string) => (
+    <label className="flex items-center justify-between gap-3 text-sm text-gray-600">
+      {label}
+      <button
+        type="button"
+        onClick={() => setCapturing(key)}
+        className={`min-w-[7rem] px-3 py-1.5 rounded-lg border font-semibold ${
+          capturing === key ? 'border-kid-blue bg-blue-50 text-kid-blue' : 'border-gray-200 text-gray-700'
+        }`}
+      >
+        {capturing === key ? 'Press switch...' : describeSwitchKey(draft[key])}
+      </button>
+    </label>
+  );
+
+  return (
+    <div className="mt-2 space-y-3 rounded-xl bg-gray-50 border border-gray-200 p-3">
+      <label className="flex items-center justify-between gap-3 text-sm text-gray-600">
+        Scanning
+        <select
+          value={draft.mode}
+          onChange={(event) => setDraft((prev) => ({ ...prev, mode: event.target.value as SwitchScanMode }))}
+          className="px-2 py-1.5 rounded-lg border border-gray-200 bg-white text-gray-700"
+        >
+          {(Object.keys(MODE_LABELS) as SwitchScanMode[]).map((mode) => (
+            <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </label>
+
+      {draft.mode !== 'off' && (
+        <>
+          {draft.mode === 'auto_scan' && (
+            <label className="block text-sm text-gray-600">
+              <span className="flex justify-between">
+                Highlight each card for <span className="font-semibold text-gray-700">{(draft.intervalMs / 1000).toFixed(1)}s</span>
+              </span>
+              <input
+                type="range"
+                min={MIN_SCAN_INTERVAL_MS}
+                max={MAX_SCAN_INTERVAL_MS}
+                step={250}
+                value={draft.intervalMs}
+                onChange={(event) => setDraft((prev) => ({ ...prev, intervalMs: Number(event.target.value) }))}
+                className="w-full accent-kid-blue"
+              />
+            </label>
+          )}
+          {renderKeyButton('selectKey', 'Select switch')}
+          {draft.mode === 'step_scan' && renderKeyButton('advanceKey', 'Next switch')}
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={draft.speakOnHighlight}
+              onChange={(event) => setDraft((prev) => ({ ...prev, speakOnHighlight: event.target.checked }))}
+            />
+            Read each card aloud when highlighted
+          </label>
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <button
+        type="button"
+        onClick={() => void handleSave()}
+        disabled={isSaving}
+        className="w-full py-2 rounded-lg bg-kid-blue text-white text-sm font-semibold disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : 'Save switch settings'}
+      </button>
+    </div>
+  );
+};
+
+export default SwitchAccessSettingsForm;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Keyboard, Send, X } from 'lucide-react';
+
+// Matches the server-side question_text limit.
+const MAX_TYPED_QUESTION_CHARS = 280;
+
+interface TypedQuestionInputProps {
+  onSubmitQuestion: (question: string) => void;
+  isProcessing: boolean;
+}
+
+const TypedQuestionInputComponent: React.FC<TypedQuestionInputProps> = ({ onSubmitQuestion, isProcessing }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [question, setQuestion] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || isProcessing) return;
+    onSubmitQuestion(trimmed);
+    setQuestion('');
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2 px-4 py-2 rounded-full bg-white/90 border border-gray-200 text-gray-600 text-sm font-semibold shadow-sm hover:bg-white transition"
+      >
+        <Keyboard className="w-4 h-4" /> Type a question
+      </button>
+    );
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="flex items-center gap-2 w-full max-w-md bg-white rounded-full border border-gray-200 shadow-md pl-4 pr-1 py-1"
+    >
+      <input
+        type="text"
+        dir="auto"
+        autoFocus
+        value={question}
+        onChange={(event) => setQuestion(event.target.value)}
+        maxLength={MAX_TYPED_QUESTION_CHARS}
+        placeholder="Type the question to ask..."
+        aria-label="Typed question"
+        className="flex-1 min-w-0 bg-transparent text-gray-800 placeholder-gray-400 focus:outline-none"
+      />
+      <button
+        type="submit"
+        disabled={isProcessing || !question.trim()}
+        aria-label="Ask typed question"
+        className="w-9 h-9 rounded-full flex items-center justify-center bg-kid-blue text-white disabled:bg-gray-300 disabled:cursor-not-allowed transition"
+      >
+        <Send className="w-4 h-4" />
+      </button>
+      <button
+        type="button"
+        onClick={() => setIsOpen(false)}
+        aria-label="Close typed question"
+        className="w-9 h-9 rounded-full flex items-center justify-center text-gray-400 hover:text-gray-600 transition"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </form>
+  );
+};
+
+const TypedQuestionInput = React.memo(TypedQuestionInputComponent);
+export default TypedQuestionInput;
@@ -0,0 +1,138 @@
+import { StoryManifest, StorySearchIndexEntry } from '../../types';
+
+export type LibraryFacetKind = 'characters' | 'objects' | 'places' | 'worldTags';
+export type LibrarySort = 'relevance' | 'newest' | 'oldest' | 'title';
+
+export interface LibraryQuery {
+  text: string;
+  facets: Partial<Record<LibraryFacetKind, string[]>>;
+  sort: LibrarySort;
+}
+
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+export type LibraryFacets = Record<LibraryFacetKind, FacetCount[]>;
+
+export const LIBRARY_FACET_KINDS: LibraryFacetKind[] = ['characters', 'objects', 'places', 'worldTags'];
+
+export const EMPTY_LIBRARY_QUERY: LibraryQuery = { text: '', facets: {}, sort: 'relevance' };
+
+// Title hits outrank facet hits, which outrank style and summary hits.
+const FIELD_WEIGHTS = {
+  title: 5,
+  facets: 3,
+  artStyle: 2,
+  summary: 1
+};
+
+const toKey = (value: string) => value.trim().toLowerCase();
+
+const tokenize = (text: string): string[] =>
+  toKey(text).split(/[^\p{L}\p{N}']+/u).filter(Boolean);
+
+export const isLibraryQueryActive = (query: LibraryQuery): boolean =>
+  Boolean(query.text.trim()) || LIBRARY_FACET_KINDS.some((kind) => (query.facets[kind] || []).length > 0);
+
+const matchesFacets = (entry: StorySearchIndexEntry | undefined, facets: LibraryQuery['facets']): boolean =>
+  LIBRARY_FACET_KINDS.every((kind) => {
+    const selected = facets[kind] || [];
+    if (selected.length === 0) return true;
+    const available = new Set((entry?.[kind] || []).map(toKey));
+    return selected.every((value) => available.has(toKey(value)));
+  });
+
+const scoreStory = (story: StoryManifest, entry: StorySearchIndexEntry | undefined, tokens: string[]): number | null => {
+  const fields = [
+    { text: toKey(story.title || ''), weight: FIELD_WEIGHTS.title },
+    {
+      text: toKey(LIBRARY_FACET_KINDS.flatMap((kind) => entry?.[kind] || []).join(' ')),
+      weight: FIELD_WEIGHTS.facets
+    },
+    { text: toKey(story.artStyle || ''), weight: FIELD_WEIGHTS.artStyle },
+    { text: toKey(story.summary || ''), weight: FIELD_WEIGHTS.summary }
+  ];
+
+  let score = 0;
+  for (const token of tokens) {
+    const best = Math.max(0, ...fields.filter((field) => field.text.includes(token)).map((field) => field.weight));
+    if (best === 0) return null;
+    score += best;
+  }
+  return score;
+};
+
+const compareBySort = (sort: LibrarySort) => (
+  a: { story: StoryManifest; score: number },
+  b: { story: StoryManifest; score: number }
+): number => {
+  if (sort === 'title') return a.story.title.localeCompare(b.story.title);
+  if (sort === 'oldest') return a.story.createdAt - b.story.createdAt;
+  if (sort === 'relevance' && a.score !== b.score) return b.score - a.score;
+  return b.story.createdAt - a.story.createdAt;
+};
+
+// Every text token must hit some field; every selected facet value must be present.
+export const searchLibrary = (
+  stories: StoryManifest[],
+  index: StorySearchIndexEntry[],
+  query: LibraryQuery
+): StoryManifest[] => {
+  const entryById = new Map(index.map((entry) => [entry.id, entry]));
+  const tokens = tokenize(query.text);
+  const matches: { story: StoryManifest; score: number }[] = [];
+
+  for (const story of stories) {
+    const entry = entryById.get(story.id);
+    if (!matchesFacets(entry, query.facets)) continue;
+    const score = scoreStory(story, entry, tokens);
+    if (score === null) continue;
+    matches.push({ story, score });
+  }
+
+  return matches.sort(compareBySort(query.sort)).map((match) => match.story);
+};
+
+// Without a query there is nothing to rank, so `relevance` keeps the stored order.
+export const sortLibraryStories = (stories: StoryManifest[], sort: LibrarySort): StoryManifest[] =>
+  sort === 'relevance'
+    ? stories
+    : stories
+        .map((story) => ({ story, score: 0 }))
+        .sort(compareBySort(sort))
+        .map((match) => match.story);
+
+export const buildLibraryFacets = (stories: StoryManifest[], index: StorySearchIndexEntry[]): LibraryFacets => {
+  const storyIds = new Set(stories.map((story) => story.id));
+  const facets = {} as LibraryFacets;
+
+  for (const kind of LIBRARY_FACET_KINDS) {
+    const counts = new Map<string, FacetCount>();
+    for (const entry of index) {
+      if (!storyIds.has(entry.id)) continue;
+      for (const value of entry[kind] || []) {
+        const key = toKey(value);
+        if (!key) continue;
+        const existing = counts.get(key);
+        counts.set(key, existing ? { ...existing, count: existing.count + 1 } : { value: value.trim(), count: 1 });
+      }
+    }
+    facets[kind] = Array.from(counts.values()).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+  }
+
+  return facets;
+};
+
+export const toggleFacetValue = (query: LibraryQuery, kind: LibraryFacetKind, value: string): LibraryQuery => {
+  const selected = query.facets[kind] || [];
+  const isSelected = selected.some((item) => toKey(item) === toKey(value));
+  return {
+    ...query,
+    facets: {
+      ...query.facets,
+      [kind]: isSelected ? selected.filter((item) => toKey(item) !== toKey(value)) : [...selected, value]
+    }
+  };
+};
@@ -0,0 +1,110 @@
+import { SessionLogEntry } from '../../types';
+
+export type QuestionType = 'who' | 'what' | 'where' | 'why' | 'other';
+export type SupportBand = 'low' | 'medium' | 'high' | 'unknown';
+
+export interface AccuracySummary {
+  answered: number;
+  correct: number;
+  accuracy: number | null;
+}
+
+export interface AccuracyBucket<TKey extends string = string> extends AccuracySummary {
+  key: TKey;
+  label: string;
+}
+
+export interface ProgressReport {
+  overall: AccuracySummary;
+  overTime: AccuracyBucket[];
+  byQuestionType: AccuracyBucket<QuestionType>[];
+  byStory: AccuracyBucket[];
+  bySupportLevel: AccuracyBucket<SupportBand>[];
+}
+
+const QUESTION_TYPES: QuestionType[] = ['who', 'what', 'where', 'why', 'other'];
+const SUPPORT_BANDS: { key: SupportBand; label: string }[] = [
+  { key: 'high', label: 'Strong story support (70+)' },
+  { key: 'medium', label: 'Some story support (40-69)' },
+  { key: 'low', label: 'Weak story support (<40)' },
+  { key: 'unknown', label: 'Unknown' }
+];
+
+// Same leading-word match the backend uses for isWhereQuestion.
+export const classifyQuestionType = (question: string): QuestionType => {
+  const match = /^\s*(who|what|where|why)\b/i.exec(question || '');
+  return match ? (match[1].toLowerCase() as QuestionType) : 'other';
+};
+
+export const getSupportBand = (entry: SessionLogEntry): SupportBand => {
+  const correctOption = entry.options.find((option) => option.isCorrect);
+  const level = Number(correctOption?.supportLevel);
+  if (!correctOption || !Number.isFinite(level)) return 'unknown';
+  if (level >= 70) return 'high';
+  if (level >= 40) return 'medium';
+  return 'low';
+};
+
+const isScored = (entry: SessionLogEntry): boolean =>
+  entry.pickedOptionId !== null && typeof entry.isCorrect === 'boolean';
+
+export const summarizeAccuracy = (entries: SessionLogEntry[]): AccuracySummary => {
+  const scored = entries.filter(isScored);
+  const correct = scored.filter((entry) => entry.isCorrect).length;
+  return {
+    answered: scored.length,
+    correct,
+    accuracy: scored.length > 0 ? correct / scored.length : null
+  };
+};
+
+const toDayKey = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const groupBuckets = <TKey extends string>(
+  entries: SessionLogEntry[],
+  keyOf: (entry: SessionLogEntry) => TKey,
+  labelOf: (key: TKey) => string
+): AccuracyBucket<TKey>[] => {
+  const grouped = new Map<TKey, SessionLogEntry[]>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    grouped.set(key, [...(grouped.get(key) || []), entry]);
+  }
+  return Array.from(grouped.entries()).map(([key, items]) => ({
+    key,
+    label: labelOf(key),
+    ...summarizeAccuracy(items)
+  }));
+};
+
+export const buildProgressReport = (
+  entries: SessionLogEntry[],
+  storyTitleById: Record<string, string> = {}
+): ProgressReport => {
+  const scored = entries.filter(isScored);
+  const byQuestionType = groupBuckets(scored, (entry) => classifyQuestionType(entry.question), (key) => key)
+    .sort((a, b) => QUESTION_TYPES.indexOf(a.key) - QUESTION_TYPES.indexOf(b.key));
+  const bySupportLevel = groupBuckets(
+    scored,
+    getSupportBand,
+    (key) => SUPPORT_BANDS.find((band) => band.key === key)?.label || key
+  ).sort(
+    (a, b) =>
+      SUPPORT_BANDS.findIndex((band) => band.key === a.key) - SUPPORT_BANDS.findIndex((band) => band.key === b.key)
+  );
+
+  return {
+    overall: summarizeAccuracy(scored),
+    overTime: groupBuckets(scored, (entry) => toDayKey(entry.answeredAt || entry.createdAt), (key) => key)
+      .sort((a, b) => a.key.localeCompare(b.key)),
+    byQuestionType,
+    byStory: groupBuckets(scored, (entry) => entry.storyId, (key) => storyTitleById[key] || 'Deleted story')
+      .sort((a, b) => b.answered - a.answered),
+    bySupportLevel
+  };
+};
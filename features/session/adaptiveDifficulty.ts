@@ -0,0 +1,51 @@
+import { Difficulty, SessionLogEntry } from '../../types';
+import { MAX_CHOICE_COUNT, MIN_CHOICE_COUNT, normalizeChoiceCount } from '../../shared/choices.js';
+import { DEFAULT_DIFFICULTY } from '../../shared/difficulty.js';
+
+// Only the child's most recent answers count, so a hard week does not follow them forever.
+export const ADAPTIVE_WINDOW = 8;
+export const MIN_ADAPTIVE_SAMPLES = 4;
+const STEP_UP_ACCURACY = 0.8;
+const STEP_DOWN_ACCURACY = 0.5;
+
+export interface AdaptiveTurnSettings {
+  difficulty: Difficulty;
+  choiceCount: number;
+  recentAccuracy: number | null;
+  sampleSize: number;
+}
+
+const answeredAtOf = (entry: SessionLogEntry): number => entry.answeredAt || entry.createdAt;
+
+export const getRecentAnswers = (entries: SessionLogEntry[], window = ADAPTIVE_WINDOW): SessionLogEntry[] =>
+  entries
+    .filter((entry) => entry.pickedOptionId !== null && typeof entry.isCorrect === 'boolean')
+    .sort((a, b) => answeredAtOf(b) - answeredAtOf(a))
+    .slice(0, window);
+
+// The caregiver's choice count is the medium baseline; easy drops a card and hard adds one.
+export const computeAdaptiveTurnSettings = (
+  entries: SessionLogEntry[],
+  baseChoiceCount?: number
+): AdaptiveTurnSettings => {
+  const base = normalizeChoiceCount(baseChoiceCount);
+  const recent = getRecentAnswers(entries);
+
+  if (recent.length < MIN_ADAPTIVE_SAMPLES) {
+    return {
+      difficulty: DEFAULT_DIFFICULTY as Difficulty,
+      choiceCount: base,
+      recentAccuracy: null,
+      sampleSize: recent.length
+    };
+  }
+
+  const recentAccuracy = recent.filter((entry) => entry.isCorrect).length / recent.length;
+  if (recentAccuracy >= STEP_UP_ACCURACY) {
+    return { difficulty: 'hard', choiceCount: Math.min(MAX_CHOICE_COUNT, base + 1), recentAccuracy, sampleSize: recent.length };
+  }
+  if (recentAccuracy < STEP_DOWN_ACCURACY) {
+    return { difficulty: 'easy', choiceCount: Math.max(MIN_CHOICE_COUNT, base - 1), recentAccuracy, sampleSize: recent.length };
+  }
+  return { difficulty: 'medium', choiceCount: base, recentAccuracy, sampleSize: recent.length };
+};
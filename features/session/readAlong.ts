@@ -0,0 +1,85 @@
+import { PageTextRecord, ReaderPage, StoryFacts } from '../../types';
+
+// Without a caregiver's choice, the reader stops for a question every few pages and at the end.
+export const DEFAULT_PAUSE_INTERVAL = 4;
+
+const sortedPages = (pagesText: PageTextRecord[]): PageTextRecord[] =>
+  (Array.isArray(pagesText) ? pagesText : [])
+    .filter((page) => Number.isInteger(page?.pageNum) && page.pageNum > 0)
+    .sort((a, b) => a.pageNum - b.pageNum);
+
+// Page images come from rendering the PDF in order, so image N is page N + 1.
+export const buildReaderPages = (pagesText: PageTextRecord[], pageImages: string[]): ReaderPage[] => {
+  const textByPage = new Map(sortedPages(pagesText).map((page) => [page.pageNum, String(page.cleanText || '').trim()]));
+  const pageCount = Math.max(pageImages.length, ...textByPage.keys(), 0);
+
+  return Array.from({ length: pageCount }, (_, index) => ({
+    pageNum: index + 1,
+    text: textByPage.get(index + 1) || '',
+    imageUrl: pageImages[index]
+  }));
+};
+
+export const getDefaultPausePages = (pageCount: number, interval = DEFAULT_PAUSE_INTERVAL): number[] => {
+  if (pageCount <= 0) {
+    return [];
+  }
+  const pages = new Set<number>();
+  for (let pageNum = interval; pageNum < pageCount; pageNum += interval) {
+    pages.add(pageNum);
+  }
+  pages.add(pageCount);
+  return [...pages];
+};
+
+/**
+ * Joins the clean text of every page up to and including `pageNum`, the same way the server builds `storyText`,
+ * so the answer agent only knows what the child has read. Returns '' when no page text is available.
+ */
+export const truncateStoryTextAtPage = (pagesText: PageTextRecord[], pageNum: number): string =>
+  sortedPages(pagesText)
+    .filter((page) => page.pageNum <= pageNum)
+    .map((page) => String(page.cleanText || '').trim())
+    .filter(Boolean)
+    .join('\n\n');
+
+/**
+ * Story facts cover the whole book, so in read-along mode only entities named in the text read so far are kept.
+ * Events summarize the full plot and are dropped; the setting and world tags give nothing away and stay.
+ */
+export const scopeStoryFactsToText = (facts: StoryFacts, storyText: string): StoryFacts => {
+  const text = String(storyText || '').toLowerCase();
+  const isMentioned = (name: string) => Boolean(name) && text.includes(String(name).trim().toLowerCase());
+  const sceneCatalog = (facts.sceneCatalog || []).filter(
+    (scene) => isMentioned(scene.title) || (scene.aliases || []).some(isMentioned)
+  );
+  const sceneIds = new Set(sceneCatalog.map((scene) => scene.id));
+
+  return {
+    ...facts,
+    characters: facts.characters.filter(isMentioned),
+    characterCatalog: facts.characterCatalog.filter((entry) => isMentioned(entry.name)),
+    characterImageMap: facts.characterImageMap?.filter((entry) => isMentioned(entry.characterName)),
+    characterGoldRefMap: facts.characterGoldRefMap?.filter((entry) => isMentioned(entry.characterName)),
+    characterTraitLocks: facts.characterTraitLocks?.filter((entry) => isMentioned(entry.characterName)),
+    characterEvidenceMap: facts.characterEvidenceMap?.filter((entry) => isMentioned(entry.characterName)),
+    objects: facts.objects.filter(isMentioned),
+    objectImageMap: facts.objectImageMap?.filter((entry) => isMentioned(entry.objectName)),
+    objectEvidenceMap: facts.objectEvidenceMap?.filter((entry) => isMentioned(entry.objectName)),
+    places: facts.places.filter(isMentioned),
+    scenes: facts.scenes?.filter(isMentioned),
+    sceneCatalog: facts.sceneCatalog && sceneCatalog,
+    sceneImageMap: facts.sceneImageMap?.filter((entry) => sceneIds.has(entry.sceneId)),
+    interactionPairs: facts.interactionPairs?.filter((pair) => isMentioned(pair.primary) && isMentioned(pair.counterpart)),
+    events: []
+  };
+};
+
+// Stands in for the whole-book brief, which would give away the ending.
+export const buildReadThroughBrief = (pageNum: number, pageCount: number): string =>
+  `Read-along session: the child has read through page ${pageNum}${pageCount > 0 ? ` of ${pageCount}` : ''}. ` +
+  'Only the story text so far is known; do not mention anything that happens later.';
+
+// A pause page holds the reader until a question asked on it has been answered.
+export const isPageAdvanceBlocked = (pageNum: number, pausePages: Set<number>, answeredPages: Set<number>): boolean =>
+  pausePages.has(pageNum) && !answeredPages.has(pageNum);
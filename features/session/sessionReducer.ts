@@ -7,8 +7,12 @@ export interface TurnSessionState {
   selectedOptionId: string | null;
   conversationHistory: ChatTurn[];
   lastAudioBlob: Blob | null;
+  lastTypedQuestion: string | null;
   error: string | null;
+  errorRetryable: boolean;
   lastTimings: PipelineTimings | null;
+  // Caregiver review: cards stay hidden from the child until an adult approves them.
+  awaitingReview: boolean;
 }
 
 export const initialTurnSessionState: TurnSessionState = {
@@ -18,17 +22,24 @@ export const initialTurnSessionState: TurnSessionState = {
   selectedOptionId: null,
   conversationHistory: [],
   lastAudioBlob: null,
+  lastTypedQuestion: null,
   error: null,
-  lastTimings: null
+  errorRetryable: false,
+  lastTimings: null,
+  awaitingReview: false
 };
 
 type TurnSessionAction =
-  | { type: 'START'; audioBlob: Blob }
+  | { type: 'START'; audioBlob: Blob; requireReview?: boolean }
+  | { type: 'START_TYPED'; question: string; requireReview?: boolean }
   | { type: 'SET_STAGE'; stage: ProcessingStage }
   | { type: 'SET_QUESTION'; question: string }
   | { type: 'SET_OPTIONS'; options: Option[] }
+  | { type: 'UPDATE_OPTION'; option: Option }
   | { type: 'SELECT_OPTION'; optionId: string; optionText: string }
-  | { type: 'SET_ERROR'; error: string }
+  | { type: 'SET_CORRECT_OPTION'; optionId: string }
+  | { type: 'APPROVE_REVIEW' }
+  | { type: 'SET_ERROR'; error: string; retryable?: boolean }
   | { type: 'SET_TIMINGS'; timings: PipelineTimings }
   | { type: 'RESET' }
   | { type: 'CLEAR_ERROR' };
@@ -40,9 +51,24 @@ export const turnSessionReducer = (state: TurnSessionState, action: TurnSessionA
         ...state,
         processingStage: 'transcribing',
         lastAudioBlob: action.audioBlob,
+        lastTypedQuestion: null,
         selectedOptionId: null,
         options: [],
-        error: null
+        error: null,
+        errorRetryable: false,
+        awaitingReview: Boolean(action.requireReview)
+      };
+    case 'START_TYPED':
+      return {
+        ...state,
+        processingStage: 'generating_options',
+        lastAudioBlob: null,
+        lastTypedQuestion: action.question,
+        selectedOptionId: null,
+        options: [],
+        error: null,
+        errorRetryable: false,
+        awaitingReview: Boolean(action.requireReview)
       };
     case 'SET_STAGE':
       return {
@@ -60,6 +86,13 @@ export const turnSessionReducer = (state: TurnSessionState, action: TurnSessionA
         ...state,
         options: action.options
       };
+    case 'UPDATE_OPTION':
+      return {
+        ...state,
+        options: state.options.map((option) =>
+          option.id === action.option.id ? { ...option, ...action.option } : option
+        )
+      };
     case 'SELECT_OPTION':
       if (state.selectedOptionId === action.optionId) {
         return state;
@@ -69,11 +102,29 @@ export const turnSessionReducer = (state: TurnSessionState, action: TurnSessionA
         selectedOptionId: action.optionId,
         conversationHistory: [...state.conversationHistory, { role: 'child', text: action.optionText }]
       };
+    case 'SET_CORRECT_OPTION':
+      if (!state.options.some((option) => option.id === action.optionId)) {
+        return state;
+      }
+      return {
+        ...state,
+        options: state.options.map((option) => {
+          const isCorrect = option.id === action.optionId;
+          return { ...option, isCorrect, type: isCorrect ? 'correct' : 'wrong' };
+        })
+      };
+    case 'APPROVE_REVIEW':
+      return {
+        ...state,
+        awaitingReview: false
+      };
     case 'SET_ERROR':
       return {
         ...state,
         processingStage: 'error',
-        error: action.error
+        error: action.error,
+        errorRetryable: action.retryable ?? true,
+        awaitingReview: false
       };
     case 'SET_TIMINGS':
       return {
@@ -83,7 +134,8 @@ export const turnSessionReducer = (state: TurnSessionState, action: TurnSessionA
     case 'CLEAR_ERROR':
       return {
         ...state,
-        error: null
+        error: null,
+        errorRetryable: false
       };
     case 'RESET':
       return {
@@ -0,0 +1,59 @@
+import { SwitchAccessSettings } from '../../types';
+
+export const MIN_SCAN_INTERVAL_MS = 1000;
+export const MAX_SCAN_INTERVAL_MS = 10000;
+// Auto-scan stops after this many unanswered passes; the next switch press starts it again.
+export const MAX_IDLE_SCAN_CYCLES = 3;
+
+export const DEFAULT_SWITCH_ACCESS: SwitchAccessSettings = {
+  mode: 'off',
+  intervalMs: 2500,
+  selectKey: 'Space',
+  advanceKey: 'Enter',
+  speakOnHighlight: true
+};
+
+const SWITCH_KEY_LABELS: Record<string, string> = {
+  Space: 'Space',
+  Enter: 'Enter',
+  NumpadEnter: 'Enter (keypad)',
+  ArrowRight: 'Right arrow',
+  ArrowLeft: 'Left arrow',
+  ArrowUp: 'Up arrow',
+  ArrowDown: 'Down arrow',
+  Tab: 'Tab'
+};
+
+export const normalizeSwitchAccess = (settings?: Partial<SwitchAccessSettings> | null): SwitchAccessSettings => {
+  const merged = { ...DEFAULT_SWITCH_ACCESS, ...(settings || {}) };
+  const intervalMs = Number.isFinite(merged.intervalMs) ? merged.intervalMs : DEFAULT_SWITCH_ACCESS.intervalMs;
+  return {
+    mode: ['off', 'auto_scan', 'step_scan'].includes(merged.mode) ? merged.mode : 'off',
+    intervalMs: Math.min(MAX_SCAN_INTERVAL_MS, Math.max(MIN_SCAN_INTERVAL_MS, Math.round(intervalMs))),
+    selectKey: merged.selectKey || DEFAULT_SWITCH_ACCESS.selectKey,
+    advanceKey: merged.advanceKey || DEFAULT_SWITCH_ACCESS.advanceKey,
+    speakOnHighlight: merged.speakOnHighlight !== false
+  };
+};
+
+export const nextScanIndex = (current: number, count: number): number => {
+  if (count <= 0) return -1;
+  return current < 0 ? 0 : (current + 1) % count;
+};
+
+export type SwitchAction = 'select' | 'advance' | null;
+
+// In auto-scan the timer advances, so only the select switch matters.
+export const getSwitchAction = (settings: SwitchAccessSettings, code: string): SwitchAction => {
+  if (settings.mode === 'off') return null;
+  if (code === settings.selectKey) return 'select';
+  if (settings.mode === 'step_scan' && code === settings.advanceKey) return 'advance';
+  return null;
+};
+
+export const describeSwitchKey = (code: string): string => {
+  if (SWITCH_KEY_LABELS[code]) return SWITCH_KEY_LABELS[code];
+  if (/^Key[A-Z]$/.test(code)) return code.slice(3);
+  if (/^Digit\d$/.test(code)) return code.slice(5);
+  return code;
+};
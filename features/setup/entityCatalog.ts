@@ -0,0 +1,400 @@
+import {
+  EntityRecord,
+  EntityType,
+  EntityVisualAssetRecord,
+  QaReadyBookPackage,
+  StoryFacts,
+  StoryInteractionPair,
+  StoryPack,
+  StyleReferenceAsset
+} from '../../types';
+import {
+  MISSING_GOLD_REFS_WARNING,
+  summarizeEntityCatalog,
+  toEntityVisualAssets,
+  toImageIdFromStyleRefIndex
+} from '../../shared/entityRules.js';
+import { setManifestWarning } from './manifestWarnings';
+
+export type EntityCatalogEdit =
+  | { kind: 'merge'; entityId: string; intoEntityId: string }
+  | { kind: 'aliases'; entityId: string; aliases: string[] }
+  | { kind: 'description'; entityId: string; canonicalDescription: string }
+  | { kind: 'traits'; entityId: string; mustHaveTraits: string[]; negativeTraits: string[] }
+  | { kind: 'gold_refs'; entityId: string; faceRefIndex?: number; bodyRefIndex?: number }
+  | { kind: 'delete'; entityId: string };
+
+const toKey = (value: string | undefined) => String(value || '').trim().toLowerCase();
+
+const sameName = (left: string | undefined, right: string | undefined) => toKey(left) === toKey(right);
+
+export const cleanCatalogList = (values: string[]): string[] => {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const value of values) {
+    const cleaned = String(value || '').trim().replace(/\s+/g, ' ');
+    if (!cleaned || seen.has(cleaned.toLowerCase())) continue;
+    seen.add(cleaned.toLowerCase());
+    result.push(cleaned);
+  }
+  return result;
+};
+
+const uniqueIndexes = (indexes: Array<number | undefined>): number[] =>
+  [...new Set(indexes.filter((index): index is number => Number.isInteger(index) && (index as number) >= 0))];
+
+const findSceneForRecord = (facts: StoryFacts, record: EntityRecord) =>
+  (facts.sceneCatalog || []).find((scene) => sameName(scene.title || scene.id, record.name) || sameName(scene.id, record.name));
+
+const renameInteractionPairs = (pairs: StoryInteractionPair[] | undefined, from: string, to: string | null) =>
+  (pairs || [])
+    .map((pair) => ({
+      ...pair,
+      primary: sameName(pair.primary, from) ? to : pair.primary,
+      counterpart: sameName(pair.counterpart, from) ? to : pair.counterpart
+    }))
+    .filter((pair): pair is StoryInteractionPair =>
+      Boolean(pair.primary && pair.counterpart) && !sameName(pair.primary as string, pair.counterpart as string)
+    );
+
+/**
+ * Moves (or, with `to === null`, drops) one entity's facts: catalog entries, image maps, gold refs,
+ * trait locks, evidence and interaction pairs. Style references are relabelled so the image maps
+ * rebuilt from their labels on save agree with the edit.
+ */
+const moveEntityFacts = (
+  facts: StoryFacts,
+  refs: StyleReferenceAsset[],
+  type: EntityType,
+  from: string,
+  to: string | null
+): { facts: StoryFacts; refs: StyleReferenceAsset[] } => {
+  if (type === 'character') {
+    const fromEntry = facts.characterCatalog.find((entry) => sameName(entry.name, from));
+    const fromIndexes = (facts.characterImageMap || []).find((entry) => sameName(entry.characterName, from))?.styleRefIndexes || [];
+    const fromGold = (facts.characterGoldRefMap || []).find((entry) => sameName(entry.characterName, from));
+    const fromLock = (facts.characterTraitLocks || []).find((entry) => sameName(entry.characterName, from));
+    const fromEvidence = (facts.characterEvidenceMap || []).find((entry) => sameName(entry.characterName, from))?.evidence || [];
+    const isFrom = (name: string) => sameName(name, from);
+    const isTo = (name: string) => to !== null && sameName(name, to);
+
+    const characterImageMap = (facts.characterImageMap || []).filter((entry) => !isFrom(entry.characterName)).map((entry) => ({ ...entry }));
+    const characterGoldRefMap = (facts.characterGoldRefMap || []).filter((entry) => !isFrom(entry.characterName));
+    const characterTraitLocks = (facts.characterTraitLocks || []).filter((entry) => !isFrom(entry.characterName));
+    const characterEvidenceMap = (facts.characterEvidenceMap || []).filter((entry) => !isFrom(entry.characterName)).map((entry) => ({ ...entry }));
+
+    if (to !== null) {
+      const mapEntry = characterImageMap.find((entry) => isTo(entry.characterName));
+      if (mapEntry) {
+        mapEntry.styleRefIndexes = uniqueIndexes([...mapEntry.styleRefIndexes, ...fromIndexes]);
+      } else if (fromIndexes.length > 0) {
+        characterImageMap.push({ characterName: to, styleRefIndexes: [...fromIndexes] });
+      }
+
+      // The kept character's own gold refs win; the duplicate only fills gaps.
+      const goldIndex = characterGoldRefMap.findIndex((entry) => isTo(entry.characterName));
+      if (fromGold) {
+        const current = goldIndex >= 0 ? characterGoldRefMap[goldIndex] : { characterName: to };
+        const [faceRefIndex, bodyRefIndex] = uniqueIndexes([
+          current.faceRefIndex,
+          current.bodyRefIndex,
+          fromGold.faceRefIndex,
+          fromGold.bodyRefIndex
+        ]);
+        const merged = { characterName: current.characterName, faceRefIndex, bodyRefIndex };
+        if (goldIndex >= 0) characterGoldRefMap[goldIndex] = merged;
+        else characterGoldRefMap.push(merged);
+      }
+
+      const lockIndex = characterTraitLocks.findIndex((entry) => isTo(entry.characterName));
+      if (fromLock) {
+        const current = lockIndex >= 0 ? characterTraitLocks[lockIndex] : { characterName: to, mustHaveTraits: [], negativeTraits: [] };
+        const merged = {
+          characterName: current.characterName,
+          mustHaveTraits: cleanCatalogList([...current.mustHaveTraits, ...fromLock.mustHaveTraits]),
+          negativeTraits: cleanCatalogList([...current.negativeTraits, ...fromLock.negativeTraits])
+        };
+        if (lockIndex >= 0) characterTraitLocks[lockIndex] = merged;
+        else characterTraitLocks.push(merged);
+      }
+
+      const evidenceEntry = characterEvidenceMap.find((entry) => isTo(entry.characterName));
+      if (evidenceEntry) evidenceEntry.evidence = [...evidenceEntry.evidence, ...fromEvidence];
+      else if (fromEvidence.length > 0) characterEvidenceMap.push({ characterName: to, evidence: [...fromEvidence] });
+    }
+
+    return {
+      facts: {
+        ...facts,
+        characters: facts.characters.filter((name) => !isFrom(name)),
+        characterCatalog: facts.characterCatalog
+          .filter((entry) => !isFrom(entry.name))
+          .map((entry) =>
+            isTo(entry.name) && fromEntry && fromEntry.source !== entry.source ? { ...entry, source: 'both' as const } : entry
+          ),
+        characterImageMap,
+        characterGoldRefMap,
+        characterTraitLocks,
+        characterEvidenceMap,
+        interactionPairs: renameInteractionPairs(facts.interactionPairs, from, to)
+      },
+      refs: refs.map((ref) => (isFrom(ref.characterName || '') ? { ...ref, characterName: to ?? undefined } : ref))
+    };
+  }
+
+  if (type === 'object') {
+    const isFrom = (name: string) => sameName(name, from);
+    const fromIndexes = (facts.objectImageMap || []).find((entry) => isFrom(entry.objectName))?.styleRefIndexes || [];
+    const fromEvidence = (facts.objectEvidenceMap || []).find((entry) => isFrom(entry.objectName))?.evidence || [];
+    const objectImageMap = (facts.objectImageMap || []).filter((entry) => !isFrom(entry.objectName)).map((entry) => ({ ...entry }));
+    const objectEvidenceMap = (facts.objectEvidenceMap || []).filter((entry) => !isFrom(entry.objectName)).map((entry) => ({ ...entry }));
+
+    if (to !== null) {
+      const mapEntry = objectImageMap.find((entry) => sameName(entry.objectName, to));
+      if (mapEntry) mapEntry.styleRefIndexes = uniqueIndexes([...mapEntry.styleRefIndexes, ...fromIndexes]);
+      else if (fromIndexes.length > 0) objectImageMap.push({ objectName: to, styleRefIndexes: [...fromIndexes] });
+
+      const evidenceEntry = objectEvidenceMap.find((entry) => sameName(entry.objectName, to));
+      if (evidenceEntry) evidenceEntry.evidence = [...evidenceEntry.evidence, ...fromEvidence];
+      else if (fromEvidence.length > 0) objectEvidenceMap.push({ objectName: to, evidence: [...fromEvidence] });
+    }
+
+    return {
+      facts: { ...facts, objects: facts.objects.filter((name) => !isFrom(name)), objectImageMap, objectEvidenceMap },
+      refs: refs.map((ref) => (isFrom(ref.objectName || '') ? { ...ref, objectName: to ?? undefined } : ref))
+    };
+  }
+
+  if (type === 'location') {
+    return { facts: { ...facts, places: facts.places.filter((name) => !sameName(name, from)) }, refs };
+  }
+
+  // Scenes are keyed by id in the facts and by title in the catalog.
+  const fromScene = (facts.sceneCatalog || []).find((scene) => sameName(scene.title || scene.id, from) || sameName(scene.id, from));
+  if (!fromScene) return { facts, refs };
+  const toScene = to === null
+    ? null
+    : (facts.sceneCatalog || []).find((scene) => sameName(scene.title || scene.id, to) || sameName(scene.id, to)) || null;
+  const fromIndexes = (facts.sceneImageMap || []).find((entry) => sameName(entry.sceneId, fromScene.id))?.styleRefIndexes || [];
+  const sceneImageMap = (facts.sceneImageMap || [])
+    .filter((entry) => !sameName(entry.sceneId, fromScene.id))
+    .map((entry) =>
+      toScene && sameName(entry.sceneId, toScene.id)
+        ? { ...entry, styleRefIndexes: uniqueIndexes([...entry.styleRefIndexes, ...fromIndexes]) }
+        : entry
+    );
+  if (toScene && fromIndexes.length > 0 && !sceneImageMap.some((entry) => sameName(entry.sceneId, toScene.id))) {
+    sceneImageMap.push({ sceneId: toScene.id, styleRefIndexes: [...fromIndexes], confidence: 0.75 });
+  }
+
+  return {
+    facts: {
+      ...facts,
+      sceneCatalog: (facts.sceneCatalog || [])
+        .filter((scene) => scene.id !== fromScene.id)
+        .map((scene) =>
+          toScene && scene.id === toScene.id
+            ? {
+                ...scene,
+                describedEvidence: [...scene.describedEvidence, ...fromScene.describedEvidence],
+                illustratedEvidence: [...scene.illustratedEvidence, ...fromScene.illustratedEvidence]
+              }
+            : scene
+        ),
+      sceneImageMap,
+      scenes: (facts.scenes || []).filter((name) => !sameName(name, fromScene.title) && !sameName(name, fromScene.id))
+    },
+    refs: refs.map((ref) =>
+      sameName(ref.sceneId, fromScene.id) ? { ...ref, sceneId: toScene ? toScene.id : undefined } : ref
+    )
+  };
+};
+
+const toVisualAssets = (indexes: number[], refCount: number, goldRoles: boolean): EntityVisualAssetRecord[] =>
+  toEntityVisualAssets(
+    indexes.filter((index) => index < refCount),
+    toImageIdFromStyleRefIndex,
+    goldRoles
+  ) as EntityVisualAssetRecord[];
+
+/**
+ * Re-derives every record's visual assets and gold refs from the story facts' image maps (gold face,
+ * gold body, then mapped refs, by the shared entity rules), takes character traits from
+ * the trait locks, and refreshes the manifest's gold-ref readiness, so the package never disagrees
+ * with the facts after an edit.
+ */
+export const rebuildEntityCatalog = (storyPack: StoryPack): StoryPack => {
+  const qaReadyPackage = storyPack.qaReadyPackage;
+  if (!qaReadyPackage) return storyPack;
+
+  const facts = storyPack.storyFacts;
+  const refCount = (storyPack.styleReferences || []).length;
+  const entityRecords = qaReadyPackage.entityRecords.map((record): EntityRecord => {
+    const bootstrapAssets = record.visualAssets.filter((asset) => asset.role === 'gold_bootstrap');
+
+    if (record.type === 'character') {
+      const gold = (facts.characterGoldRefMap || []).find((entry) => sameName(entry.characterName, record.name));
+      const mapped = (facts.characterImageMap || []).find((entry) => sameName(entry.characterName, record.name))?.styleRefIndexes || [];
+      const lock = (facts.characterTraitLocks || []).find((entry) => sameName(entry.characterName, record.name));
+      const visualAssets = toVisualAssets(uniqueIndexes([gold?.faceRefIndex, gold?.bodyRefIndex, ...mapped]), refCount, true);
+      return {
+        ...record,
+        mustHaveTraits: lock ? lock.mustHaveTraits : record.mustHaveTraits,
+        negativeTraits: lock ? lock.negativeTraits : record.negativeTraits,
+        visualAssets: [...visualAssets, ...bootstrapAssets],
+        goldRefs: {
+          face: visualAssets[0]?.imageId,
+          body: visualAssets[1]?.imageId,
+          ...(record.goldRefs?.bootstrap ? { bootstrap: record.goldRefs.bootstrap } : {})
+        }
+      };
+    }
+
+    if (record.type === 'object') {
+      const mapped = (facts.objectImageMap || []).find((entry) => sameName(entry.objectName, record.name))?.styleRefIndexes || [];
+      return { ...record, visualAssets: [...toVisualAssets(uniqueIndexes(mapped), refCount, false), ...bootstrapAssets] };
+    }
+
+    if (record.type === 'scene') {
+      const scene = findSceneForRecord(facts, record);
+      const mapped = scene
+        ? (facts.sceneImageMap || []).find((entry) => sameName(entry.sceneId, scene.id))?.styleRefIndexes || []
+        : [];
+      return { ...record, visualAssets: [...toVisualAssets(uniqueIndexes(mapped), refCount, false), ...bootstrapAssets] };
+    }
+
+    return record;
+  });
+
+  const entitySummary = summarizeEntityCatalog(entityRecords, facts);
+
+  const nextPackage: QaReadyBookPackage = {
+    ...qaReadyPackage,
+    entityRecords,
+    interactionPairs: (facts.interactionPairs ?? qaReadyPackage.interactionPairs).filter(
+      (pair) =>
+        facts.characterCatalog.some((entry) => sameName(entry.name, pair.primary)) &&
+        facts.characterCatalog.some((entry) => sameName(entry.name, pair.counterpart))
+    ),
+    qaReadyManifest: {
+      ...qaReadyPackage.qaReadyManifest,
+      hasGoldRefsPercent: entitySummary.hasGoldRefsPercent,
+      checklist: {
+        ...qaReadyPackage.qaReadyManifest.checklist,
+        ...entitySummary.checklist
+      }
+    }
+  };
+
+  return { ...storyPack, qaReadyPackage: setManifestWarning(nextPackage, MISSING_GOLD_REFS_WARNING, entitySummary.missingMainGoldRefs) };
+};
+
+/**
+ * Applies one caregiver edit to the entity catalog and the matching story facts, then rebuilds the
+ * package from them. Throws when the edit names an unknown entity or cannot apply to its type.
+ */
+export const applyEntityCatalogEdit = (storyPack: StoryPack, edit: EntityCatalogEdit): StoryPack => {
+  const qaReadyPackage = storyPack.qaReadyPackage;
+  if (!qaReadyPackage) {
+    throw new Error('This story has no entity catalog yet. Re-run analysis first.');
+  }
+
+  const records = qaReadyPackage.entityRecords;
+  const record = records.find((entry) => entry.entityId === edit.entityId);
+  if (!record) {
+    throw new Error('That entity is no longer in the catalog.');
+  }
+
+  const withRecords = (entityRecords: EntityRecord[], storyFacts = storyPack.storyFacts, styleReferences = storyPack.styleReferences) =>
+    rebuildEntityCatalog({
+      ...storyPack,
+      storyFacts,
+      styleReferences,
+      qaReadyPackage: { ...qaReadyPackage, entityRecords }
+    });
+  // Merges and deletes rename or drop interaction pairs, which older facts may only carry in the package.
+  const pairedFacts = {
+    ...storyPack.storyFacts,
+    interactionPairs: storyPack.storyFacts.interactionPairs ?? qaReadyPackage.interactionPairs
+  };
+  const updateRecord = (changes: Partial<EntityRecord>) =>
+    records.map((entry) => (entry.entityId === record.entityId ? { ...entry, ...changes } : entry));
+
+  switch (edit.kind) {
+    case 'aliases': {
+      const aliases = cleanCatalogList(edit.aliases).filter((alias) => !sameName(alias, record.name));
+      if (record.type !== 'scene') return withRecords(updateRecord({ aliases }));
+      const scene = findSceneForRecord(storyPack.storyFacts, record);
+      return withRecords(updateRecord({ aliases }), {
+        ...storyPack.storyFacts,
+        sceneCatalog: (storyPack.storyFacts.sceneCatalog || []).map((entry) => (entry === scene ? { ...entry, aliases } : entry))
+      });
+    }
+
+    case 'description': {
+      const canonicalDescription = edit.canonicalDescription.trim();
+      if (!canonicalDescription) throw new Error('A description cannot be empty.');
+      return withRecords(updateRecord({ canonicalDescription }));
+    }
+
+    case 'traits': {
+      const mustHaveTraits = cleanCatalogList(edit.mustHaveTraits);
+      const negativeTraits = cleanCatalogList(edit.negativeTraits);
+      if (record.type !== 'character') return withRecords(updateRecord({ mustHaveTraits, negativeTraits }));
+      const locks = (storyPack.storyFacts.characterTraitLocks || []).filter((entry) => !sameName(entry.characterName, record.name));
+      if (mustHaveTraits.length > 0 || negativeTraits.length > 0) {
+        locks.push({ characterName: record.name, mustHaveTraits, negativeTraits });
+      }
+      return withRecords(updateRecord({ mustHaveTraits, negativeTraits }), { ...storyPack.storyFacts, characterTraitLocks: locks });
+    }
+
+    case 'gold_refs': {
+      if (record.type !== 'character') throw new Error('Only characters have gold face and body refs.');
+      const refCount = (storyPack.styleReferences || []).length;
+      const [faceRefIndex, bodyRefIndex] = [edit.faceRefIndex, edit.bodyRefIndex].map((index) =>
+        Number.isInteger(index) && (index as number) >= 0 && (index as number) < refCount ? index : undefined
+      );
+      if ((edit.faceRefIndex !== undefined && faceRefIndex === undefined) || (edit.bodyRefIndex !== undefined && bodyRefIndex === undefined)) {
+        throw new Error('That reference image is not in this story.');
+      }
+      const goldMap = (storyPack.storyFacts.characterGoldRefMap || []).filter((entry) => !sameName(entry.characterName, record.name));
+      if (faceRefIndex !== undefined || bodyRefIndex !== undefined) {
+        goldMap.push({
+          characterName: record.name,
+          faceRefIndex,
+          bodyRefIndex: bodyRefIndex !== faceRefIndex ? bodyRefIndex : undefined
+        });
+      }
+      return withRecords(records, { ...storyPack.storyFacts, characterGoldRefMap: goldMap });
+    }
+
+    case 'merge': {
+      const target = records.find((entry) => entry.entityId === edit.intoEntityId);
+      if (!target || target.entityId === record.entityId) throw new Error('Pick a different entity to merge into.');
+      if (target.type !== record.type) throw new Error('Only entities of the same type can be merged.');
+      const moved = moveEntityFacts(pairedFacts, storyPack.styleReferences || [], record.type, record.name, target.name);
+      const mergedRecords = records
+        .filter((entry) => entry.entityId !== record.entityId)
+        .map((entry) =>
+          entry.entityId === target.entityId
+            ? {
+                ...entry,
+                aliases: cleanCatalogList([...entry.aliases, record.name, ...record.aliases]).filter((alias) => !sameName(alias, entry.name)),
+                mustHaveTraits: cleanCatalogList([...entry.mustHaveTraits, ...record.mustHaveTraits]),
+                negativeTraits: cleanCatalogList([...entry.negativeTraits, ...record.negativeTraits])
+              }
+            : entry
+        );
+      return withRecords(mergedRecords, moved.facts, storyPack.styleReferences ? moved.refs : undefined);
+    }
+
+    case 'delete': {
+      const moved = moveEntityFacts(pairedFacts, storyPack.styleReferences || [], record.type, record.name, null);
+      return withRecords(
+        records.filter((entry) => entry.entityId !== record.entityId),
+        moved.facts,
+        storyPack.styleReferences ? moved.refs : undefined
+      );
+    }
+  }
+};
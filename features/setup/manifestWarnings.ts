@@ -0,0 +1,17 @@
+import { QaReadyBookPackage } from '../../types';
+
+// The setup builder repeats each validation warning as a "Warning: ..." manifest note; both are kept in step.
+export const setManifestWarning = (
+  qaReadyPackage: QaReadyBookPackage,
+  warning: string,
+  active: boolean
+): QaReadyBookPackage => {
+  const note = `Warning: ${warning}`;
+  const validationWarnings = qaReadyPackage.manifest.validationWarnings.filter((entry) => entry !== warning);
+  const notes = qaReadyPackage.qaReadyManifest.notes.filter((entry) => entry !== note);
+  return {
+    ...qaReadyPackage,
+    manifest: { ...qaReadyPackage.manifest, validationWarnings: active ? [...validationWarnings, warning] : validationWarnings },
+    qaReadyManifest: { ...qaReadyPackage.qaReadyManifest, notes: active ? [...notes, note] : notes }
+  };
+};
@@ -0,0 +1,56 @@
+import { PageTextRecord, StoryPack, TextQuality } from '../../types';
+import { evaluateTextQuality, joinPagesText, LOW_TEXT_QUALITY_WARNING, toPageTextRecord } from '../../shared/pageText.js';
+import { setManifestWarning } from './manifestWarnings';
+
+export interface PageTextCorrection {
+  pageNum: number;
+  cleanText: string;
+  rawText?: string; // only a fresh OCR pass replaces the printed text; hand edits keep it
+}
+
+/**
+ * Puts one corrected page into the package, re-scores text quality the way setup does, and rebuilds
+ * `storyText` from the pages so answers are grounded in the corrected text.
+ */
+export const applyPageTextCorrection = (storyPack: StoryPack, correction: PageTextCorrection): StoryPack => {
+  const qaReadyPackage = storyPack.qaReadyPackage;
+  if (!qaReadyPackage) {
+    throw new Error('This story has no page text yet. Re-run analysis first.');
+  }
+  if (!Number.isInteger(correction.pageNum) || correction.pageNum <= 0) {
+    throw new Error('That page is not in this story.');
+  }
+
+  const existing = qaReadyPackage.pagesText.find((page) => page.pageNum === correction.pageNum);
+  const record: PageTextRecord = toPageTextRecord(
+    correction.pageNum,
+    correction.rawText ?? existing?.rawText ?? correction.cleanText,
+    correction.cleanText
+  );
+  const pagesText = [...qaReadyPackage.pagesText.filter((page) => page.pageNum !== correction.pageNum), record]
+    .sort((a, b) => a.pageNum - b.pageNum);
+  const textQuality = evaluateTextQuality(pagesText).textQuality as TextQuality;
+  const storyText = joinPagesText(pagesText);
+
+  const nextPackage = setManifestWarning(
+    {
+      ...qaReadyPackage,
+      manifest: { ...qaReadyPackage.manifest, textQuality },
+      pagesText,
+      qaReadyManifest: {
+        ...qaReadyPackage.qaReadyManifest,
+        pageTextCount: pagesText.length,
+        textQuality,
+        checklist: { ...qaReadyPackage.qaReadyManifest.checklist, cleanTextPerPage: textQuality !== 'poor' }
+      }
+    },
+    LOW_TEXT_QUALITY_WARNING,
+    textQuality === 'poor'
+  );
+
+  return {
+    ...storyPack,
+    storyText: storyText || storyPack.storyText,
+    qaReadyPackage: nextPackage
+  };
+};
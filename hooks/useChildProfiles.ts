@@ -0,0 +1,54 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ChildProfile } from '../types';
+import * as StorageService from '../services/storageService';
+
+export const useChildProfiles = () => {
+  const [profiles, setProfiles] = useState<ChildProfile[]>([]);
+  const [activeChild, setActiveChild] = useState<ChildProfile | null>(null);
+
+  useEffect(() => {
+    StorageService.getChildProfiles()
+      .then(setProfiles)
+      .catch((error) => {
+        console.error('Failed to load child profiles', error);
+      });
+  }, []);
+
+  const createProfile = useCallback(async (name: string): Promise<ChildProfile | null> => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return null;
+    }
+
+    const profile: ChildProfile = {
+      id: crypto.randomUUID(),
+      name: trimmed,
+      createdAt: Date.now()
+    };
+
+    await StorageService.saveChildProfile(profile);
+    setProfiles((prev) => [...prev, profile].sort((a, b) => a.name.localeCompare(b.name)));
+    return profile;
+  }, []);
+
+  const updateProfile = useCallback(async (profile: ChildProfile) => {
+    await StorageService.saveChildProfile(profile);
+    setProfiles((prev) => prev.map((item) => (item.id === profile.id ? profile : item)));
+    setActiveChild((prev) => (prev?.id === profile.id ? profile : prev));
+  }, []);
+
+  const deleteProfile = useCallback(async (id: string) => {
+    await StorageService.deleteChildProfile(id);
+    setProfiles((prev) => prev.filter((profile) => profile.id !== id));
+    setActiveChild((prev) => (prev?.id === id ? null : prev));
+  }, []);
+
+  return {
+    profiles,
+    activeChild,
+    setActiveChild,
+    createProfile,
+    updateProfile,
+    deleteProfile
+  };
+};
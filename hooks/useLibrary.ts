@@ -1,20 +1,24 @@
 import { useCallback, useEffect, useState } from 'react';
-import { Publisher, StoryAssets, StoryManifest } from '../types';
+import { Publisher, StoryAssets, StoryManifest, StorySearchIndexEntry } from '../types';
 import * as StorageService from '../services/storageService';
+import * as BundleService from '../services/bundleService';
 
 export const useLibrary = () => {
   const [stories, setStories] = useState<StoryManifest[]>([]);
   const [publishers, setPublishers] = useState<Publisher[]>([]);
+  const [searchIndex, setSearchIndex] = useState<StorySearchIndexEntry[]>([]);
   const [activeManifest, setActiveManifest] = useState<StoryManifest | null>(null);
   const [activeAssets, setActiveAssets] = useState<StoryAssets | null>(null);
 
   const refreshStories = useCallback(async () => {
-    const [manifests, nextPublishers] = await Promise.all([
+    const [manifests, nextPublishers, nextSearchIndex] = await Promise.all([
       StorageService.getStoryManifests(),
-      StorageService.getPublishers()
+      StorageService.getPublishers(),
+      StorageService.getStorySearchIndex()
     ]);
     setStories(manifests);
     setPublishers(nextPublishers);
+    setSearchIndex(nextSearchIndex);
   }, []);
 
   useEffect(() => {
@@ -39,11 +43,13 @@ export const useLibrary = () => {
     setStories((prev) => [manifest, ...prev.filter((item) => item.id !== manifest.id)]);
     setActiveManifest(manifest);
     setActiveAssets(assets);
+    setSearchIndex(await StorageService.getStorySearchIndex());
   }, []);
 
   const deleteStory = useCallback(async (id: string) => {
     await StorageService.deleteStory(id);
     setStories((prev) => prev.filter((story) => story.id !== id));
+    setSearchIndex((prev) => prev.filter((entry) => entry.id !== id));
 
     setActiveManifest((prev) => (prev?.id === id ? null : prev));
     setActiveAssets((prev) => (prev?.id === id ? null : prev));
@@ -107,9 +113,27 @@ export const useLibrary = () => {
     );
   }, []);
 
+  const exportStory = useCallback(async (story: StoryManifest) => {
+    const bundle = await BundleService.exportStoryBundle(story.id);
+    BundleService.downloadStoryBundle(bundle, story.title);
+  }, []);
+
+  const exportPublisher = useCallback(async (publisher: Publisher) => {
+    const bundle = await BundleService.exportPublisherBundle(publisher.id);
+    BundleService.downloadStoryBundle(bundle, publisher.name);
+  }, []);
+
+  const importBundle = useCallback(async (file: File): Promise<number> => {
+    const bundle = BundleService.parseStoryBundle(await file.text());
+    const imported = await BundleService.importStoryBundle(bundle);
+    await refreshStories();
+    return imported.length;
+  }, [refreshStories]);
+
   return {
     stories,
     publishers,
+    searchIndex,
     activeManifest,
     activeAssets,
     refreshStories,
@@ -118,6 +142,9 @@ export const useLibrary = () => {
     deleteStory,
     createPublisher,
     updatePublisherImage,
-    updateStoryPublisher
+    updateStoryPublisher,
+    exportStory,
+    exportPublisher,
+    importBundle
   };
 };
@@ -0,0 +1,134 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ReaderPage, StoryAssets } from '../types';
+import { convertPdfToImages } from '../services/pdfService';
+import { stopAudioPlayback } from '../services/audioService';
+import { buildReaderPages, getDefaultPausePages, isPageAdvanceBlocked } from '../features/session/readAlong';
+
+interface UseReadAlongOptions {
+  activeAssets: StoryAssets | null;
+  enabled: boolean;
+  onNarrate: (text: string) => Promise<void>;
+}
+
+export const useReadAlong = ({ activeAssets, enabled, onNarrate }: UseReadAlongOptions) => {
+  const [pages, setPages] = useState<ReaderPage[]>([]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [pausePages, setPausePages] = useState<Set<number>>(new Set());
+  const [answeredPages, setAnsweredPages] = useState<Set<number>>(new Set());
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const loadedStoryIdRef = useRef<string | null>(null);
+  const onNarrateRef = useRef(onNarrate);
+
+  useEffect(() => {
+    onNarrateRef.current = onNarrate;
+  }, [onNarrate]);
+
+  // Rendering every PDF page is slow, so pages load once per story and only when the reader is opened.
+  useEffect(() => {
+    if (!enabled || !activeAssets || loadedStoryIdRef.current === activeAssets.id) {
+      return;
+    }
+
+    let cancelled = false;
+    const storyId = activeAssets.id;
+    const pagesText = activeAssets.metadata.qaReadyPackage?.pagesText || [];
+    setIsLoading(true);
+    setLoadError(null);
+    setPages([]);
+
+    const loadPages = async () => {
+      const pageImages = activeAssets.pdfData?.data
+        ? await convertPdfToImages(activeAssets.pdfData.data).catch((error) => {
+          console.warn('Failed to render book pages for read-along', error);
+          return [] as string[];
+        })
+        : [];
+      if (cancelled) return;
+
+      const readerPages = buildReaderPages(pagesText, pageImages);
+      loadedStoryIdRef.current = storyId;
+      setPages(readerPages);
+      setPageIndex(0);
+      setPausePages(new Set(getDefaultPausePages(readerPages.length)));
+      setAnsweredPages(new Set());
+      setLoadError(readerPages.length === 0 ? 'This book has no pages to read yet. Open setup and save it again.' : null);
+    };
+
+    loadPages().finally(() => {
+      if (!cancelled) setIsLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [activeAssets, enabled]);
+
+  const currentPage: ReaderPage | null = pages[pageIndex] || null;
+  const isPausePage = Boolean(currentPage && pausePages.has(currentPage.pageNum));
+  const isAdvanceBlocked = Boolean(currentPage && isPageAdvanceBlocked(currentPage.pageNum, pausePages, answeredPages));
+
+  const narrateCurrentPage = useCallback(async () => {
+    if (!currentPage?.text) return;
+    try {
+      await onNarrateRef.current(currentPage.text);
+    } catch (error) {
+      console.warn('Page narration failed', error);
+    }
+  }, [currentPage]);
+
+  useEffect(() => {
+    if (enabled) {
+      void narrateCurrentPage();
+    }
+  }, [enabled, narrateCurrentPage]);
+
+  useEffect(() => {
+    if (!enabled) {
+      stopAudioPlayback();
+    }
+  }, [enabled]);
+
+  const goToPage = useCallback((index: number) => {
+    setPageIndex(Math.max(0, Math.min(pages.length - 1, index)));
+  }, [pages.length]);
+
+  const goToNextPage = useCallback(() => {
+    if (!isAdvanceBlocked) goToPage(pageIndex + 1);
+  }, [goToPage, isAdvanceBlocked, pageIndex]);
+  const goToPreviousPage = useCallback(() => goToPage(pageIndex - 1), [goToPage, pageIndex]);
+
+  const togglePausePage = useCallback((pageNum: number) => {
+    setPausePages((prev) => {
+      const next = new Set(prev);
+      if (next.has(pageNum)) {
+        next.delete(pageNum);
+      } else {
+        next.add(pageNum);
+      }
+      return next;
+    });
+  }, []);
+
+  // Called when the child picks an answer; a pause page then lets the reader move on.
+  const markPageAnswered = useCallback((pageNum: number) => {
+    setAnsweredPages((prev) => (prev.has(pageNum) ? prev : new Set(prev).add(pageNum)));
+  }, []);
+
+  return {
+    pages,
+    pageIndex,
+    currentPage,
+    isPausePage,
+    isAdvanceBlocked,
+    isLoading,
+    loadError,
+    // Questions asked while reading only see the story up to this page.
+    readThroughPage: enabled && currentPage ? currentPage.pageNum : null,
+    goToNextPage,
+    goToPreviousPage,
+    togglePausePage,
+    markPageAnswered,
+    narrateCurrentPage
+  };
+};
@@ -1,9 +1,17 @@
 import { useCallback, useState } from 'react';
-import { SetupStoryResponse, FileData, ImageModelPreference } from '../types';
-import { setupStoryWithBackend, USE_BACKEND_PIPELINE } from '../services/apiClient';
+import { SetupStoryResponse, FileData, ImageModelPreference, PageTextRecord, QuestionBank, StoryLanguage, StoryPack } from '../types';
+import {
+  buildQuestionBankWithBackend,
+  recognizePageTextWithBackend,
+  setupStoryWithBackend,
+  USE_BACKEND_PIPELINE
+} from '../services/apiClient';
 import { logPayloadSize, logSetupTimings } from '../services/performanceService';
 import * as GeminiService from '../services/geminiService';
 
+// Keeps the bank request under the hosting body limit; the runtime ranks references per choice anyway.
+const MAX_BANK_STYLE_REFS = 14;
+
 export const useStorySetup = () => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -11,14 +19,15 @@ export const useStorySetup = () => {
   const prepareStory = useCallback(async (
     storyFile: FileData,
     styleImages: FileData[],
-    imageModelPreference: ImageModelPreference = 'nano-banana-pro'
+    imageModelPreference: ImageModelPreference = 'nano-banana-pro',
+    language: StoryLanguage = 'en'
   ): Promise<SetupStoryResponse> => {
     setIsProcessing(true);
     setError(null);
 
     try {
       if (USE_BACKEND_PIPELINE) {
-        const response = await setupStoryWithBackend({ storyFile, styleImages, imageModelPreference });
+        const response = await setupStoryWithBackend({ storyFile, styleImages, imageModelPreference, language });
         return response;
       }
 
@@ -45,6 +54,7 @@ export const useStorySetup = () => {
           artStyle: analysis.artStyle,
           storyBrief: analysis.summary,
           storyText: analysis.summary,
+          language,
           qaReadyPackage: undefined,
           storyFacts: {
             characters: [],
@@ -83,9 +93,38 @@ export const useStorySetup = () => {
     }
   }, []);
 
+  const buildQuestionBank = useCallback(async (storyPack: StoryPack): Promise<QuestionBank> => {
+    const qaReadyPackage = storyPack.qaReadyPackage;
+    if (!USE_BACKEND_PIPELINE || !qaReadyPackage) {
+      throw new Error('A question bank needs the cloud pipeline and a Q&A ready package.');
+    }
+
+    return buildQuestionBankWithBackend({
+      book_id: qaReadyPackage.manifest.bookId,
+      qa_ready_package: qaReadyPackage,
+      language: storyPack.language,
+      style_references: (storyPack.styleReferences || []).slice(0, MAX_BANK_STYLE_REFS)
+    });
+  }, []);
+
+  const recognizePageText = useCallback(async (
+    pageNum: number,
+    pageImage: FileData,
+    language: StoryLanguage = 'en'
+  ): Promise<PageTextRecord> => {
+    if (!USE_BACKEND_PIPELINE) {
+      throw new Error('Re-reading a page needs the cloud pipeline.');
+    }
+
+    const response = await recognizePageTextWithBackend({ pageNum, pageImage, language });
+    return response.page;
+  }, []);
+
   return {
     isProcessing,
     error,
-    prepareStory
+    prepareStory,
+    buildQuestionBank,
+    recognizePageText
   };
 };
@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Option, SwitchAccessSettings } from '../types';
+import { getSwitchAction, MAX_IDLE_SCAN_CYCLES, nextScanIndex } from '../features/session/switchScanning';
+
+interface UseSwitchScanningOptions {
+  options: Option[];
+  settings: SwitchAccessSettings;
+  enabled: boolean;
+  onHighlight: (option: Option) => void;
+  onSelect: (option: Option) => void;
+}
+
+const isTypingTarget = (target: EventTarget | null): boolean => {
+  const element = target as HTMLElement | null;
+  if (!element) return false;
+  return ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName) || element.isContentEditable;
+};
+
+export const useSwitchScanning = ({ options, settings, enabled, onHighlight, onSelect }: UseSwitchScanningOptions) => {
+  const [highlightedIndex, setHighlightedIndex] = useState(-1);
+  const [isScanning, setIsScanning] = useState(false);
+  const idleStepsRef = useRef(0);
+  const optionsRef = useRef(options);
+  const onHighlightRef = useRef(onHighlight);
+  const onSelectRef = useRef(onSelect);
+
+  useEffect(() => {
+    optionsRef.current = options;
+    onHighlightRef.current = onHighlight;
+    onSelectRef.current = onSelect;
+  }, [options, onHighlight, onSelect]);
+
+  const active = settings.mode !== 'off' && enabled && options.length > 0;
+  const optionCount = options.length;
+  // Streamed image updates replace option objects but keep ids, so only a new id set restarts the scan.
+  const optionIdsKey = options.map((option) => option.id).join('|');
+
+  useEffect(() => {
+    idleStepsRef.current = 0;
+    setHighlightedIndex(-1);
+    setIsScanning(active);
+  }, [optionIdsKey, active]);
+
+  const highlight = useCallback((index: number) => {
+    setHighlightedIndex(index);
+    const option = optionsRef.current[index];
+    if (option && settings.speakOnHighlight) {
+      onHighlightRef.current(option);
+    }
+  }, [settings.speakOnHighlight]);
+
+  useEffect(() => {
+    if (!active || !isScanning || settings.mode !== 'auto_scan') {
+      return;
+    }
+    if (highlightedIndex < 0) {
+      highlight(0);
+      return;
+    }
+
+    const timer = window.setTimeout(() => {
+      idleStepsRef.current += 1;
+      if (idleStepsRef.current >= MAX_IDLE_SCAN_CYCLES * optionCount) {
+        setIsScanning(false);
+        setHighlightedIndex(-1);
+        return;
+      }
+      highlight(nextScanIndex(highlightedIndex, optionCount));
+    }, settings.intervalMs);
+
+    return () => window.clearTimeout(timer);
+  }, [active, isScanning, highlightedIndex, highlight, optionCount, settings.mode, settings.intervalMs]);
+
+  useEffect(() => {
+    if (!active) {
+      return;
+    }
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.repeat || isTypingTarget(event.target)) return;
+      const action = getSwitchAction(settings, event.code);
+      if (!action) return;
+
+      event.preventDefault();
+      idleStepsRef.current = 0;
+
+      if (action === 'advance') {
+        highlight(nextScanIndex(highlightedIndex, optionCount));
+        return;
+      }
+
+      // A press while auto-scan is paused resumes it instead of selecting a card the child cannot see highlighted.
+      if (highlightedIndex < 0 || (settings.mode === 'auto_scan' && !isScanning)) {
+        setIsScanning(true);
+        if (highlightedIndex < 0) {
+          highlight(0);
+        }
+        return;
+      }
+
+      const option = optionsRef.current[highlightedIndex];
+      if (option) {
+        onSelectRef.current(option);
+      }
+      if (settings.mode === 'auto_scan') {
+        setIsScanning(false);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [active, highlight, highlightedIndex, isScanning, optionCount, settings]);
+
+  return {
+    highlightedOptionId: active && highlightedIndex >= 0 ? options[highlightedIndex]?.id || null : null,
+    isScanning: active && isScanning
+  };
+};
@@ -1,18 +1,65 @@
 import { useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
-import { ChatTurn, ImageModelPreference, Option, StoryAssets } from '../types';
+import {
+  ApiErrorCode,
+  CaregiverEdit,
+  ChatTurn,
+  Difficulty,
+  ImageModelPreference,
+  Option,
+  PipelineTimings,
+  QuestionBankEntry,
+  ReusableTurnCardDebug,
+  SessionLogEntry,
+  SessionLogOption,
+  SpeechSettings,
+  StoryAssets,
+  StoryFacts,
+  StoryLanguage,
+  TtsPurpose,
+  TurnCardDebug,
+  TurnCardMode,
+  TurnCardRequest,
+  TurnStreamEvent
+} from '../types';
 import { initialTurnSessionState, turnSessionReducer } from '../features/session/sessionReducer';
-import { requestTtsFromBackend, runTurnWithBackend, USE_BACKEND_PIPELINE } from '../services/apiClient';
-import { decodePcm16AudioBase64, playAudioBuffer, playPcm16AudioBase64 } from '../services/audioService';
+import {
+  ApiError,
+  renderTurnCardWithBackend,
+  requestTtsFromBackend,
+  runTurnStreamWithBackend,
+  toAssetRef,
+  uploadMissingAssets,
+  USE_BACKEND_PIPELINE
+} from '../services/apiClient';
+import { decodePcm16AudioBase64, playAudioBuffer, playPcm16AudioBase64, stopAudioPlayback } from '../services/audioService';
+import { getSessionLog, saveSessionLogEntry } from '../services/storageService';
 import * as GeminiService from '../services/geminiService';
+import { DEFAULT_CHOICE_COUNT, normalizeChoiceCount } from '../shared/choices.js';
+import { DEFAULT_DIFFICULTY, DEFAULT_RUNTIME_DIFFICULTY } from '../shared/difficulty.js';
+import { computeAdaptiveTurnSettings } from '../features/session/adaptiveDifficulty';
+import { buildReadThroughBrief, scopeStoryFactsToText, truncateStoryTextAtPage } from '../features/session/readAlong';
 
 const MAX_HISTORY_TURNS_FOR_BACKEND = 6;
 const MAX_HISTORY_TEXT_CHARS = 120;
 const MAX_TURN_STYLE_REFS = 14;
 const MAX_TURN_STYLE_PRIMER = 14;
+// Style images travel as asset ids, so only audio, story text and history count against this.
 const TURN_REQUEST_SOFT_LIMIT_BYTES = 4 * 1024 * 1024;
 
 type TtsResponse = { audioBase64: string; mimeType: string; audioBuffer?: AudioBuffer } | null;
 
+type TurnInput = { kind: 'audio'; audioBlob: Blob } | { kind: 'typed'; question: string };
+
+interface UseTurnPipelineOptions {
+  activeChildId?: string | null;
+  choiceCount?: number;
+  adaptiveDifficulty?: boolean;
+  readThroughPage?: number | null; // set while the read-along reader is open
+  speechSettings?: SpeechSettings;
+  language?: StoryLanguage;
+  caregiverReview?: boolean;
+}
+
 const readBlobAsBase64 = async (blob: Blob): Promise<string> => {
   const reader = new FileReader();
   return new Promise((resolve, reject) => {
@@ -39,51 +86,122 @@ const compactHistoryForBackend = (history: ChatTurn[]): ChatTurn[] =>
     text: truncateText(turn.text, MAX_HISTORY_TEXT_CHARS)
   }));
 
-const ttsCacheKey = (text: string): string =>
-  String(text || '').trim().toLowerCase().replace(/\s+/g, ' ');
+const toSessionLogOption = (option: Option): SessionLogOption => ({
+  id: option.id,
+  text: option.text,
+  isCorrect: option.isCorrect,
+  supportLevel: option.supportLevel
+});
+
+const toReusableDebug = (debug?: TurnCardDebug): ReusableTurnCardDebug | undefined =>
+  debug && {
+    illustratedText: debug.illustratedText,
+    illustrationAgentPrompt: debug.illustrationAgentPrompt,
+    illustrationPlanData: debug.illustrationPlanData,
+    selectedStyleRefIndexes: debug.selectedStyleRefIndexes,
+    selectedParticipants: debug.selectedParticipants
+  };
+
+// The server still ranks at most this many references per turn, so there is no point uploading the rest.
+const selectTurnStyleFiles = (assets: StoryAssets) => ({
+  primerFiles: assets.stylePrimer.slice(0, MAX_TURN_STYLE_PRIMER),
+  referenceFiles: (assets.styleReferences || []).slice(0, MAX_TURN_STYLE_REFS)
+});
+
+const ttsCacheKey = (text: string, purpose: TtsPurpose): string =>
+  `${purpose}:${String(text || '').trim().toLowerCase().replace(/\s+/g, ' ')}`;
+
+// In read-along mode the answer agent only gets the pages read so far, with a brief and facts scoped to them,
+// so answers cannot give away the ending.
+const resolveStoryContext = (
+  assets: StoryAssets,
+  readThroughPage: number | null
+): { readThrough: boolean; storyText: string; storyBrief: string; storyFacts?: StoryFacts } => {
+  const pagesText = assets.metadata.qaReadyPackage?.pagesText || [];
+  if (readThroughPage !== null && pagesText.length > 0) {
+    const storyText = truncateStoryTextAtPage(pagesText, readThroughPage);
+    const storyFacts = assets.metadata.storyFacts;
+    return {
+      readThrough: true,
+      storyText,
+      storyBrief: buildReadThroughBrief(readThroughPage, pagesText.length),
+      storyFacts: storyFacts && scopeStoryFactsToText(storyFacts, storyText)
+    };
+  }
+  return {
+    readThrough: false,
+    storyText: String(assets.metadata.storyText || assets.storyBrief || '').trim(),
+    storyBrief: assets.storyBrief,
+    storyFacts: assets.metadata.storyFacts
+  };
+};
 
 const estimatePayloadBytes = (payload: unknown): number => new Blob([JSON.stringify(payload || {})]).size;
 
-const toUserFacingTurnError = (error: unknown): string => {
-  const raw = String((error as any)?.message || error || '').trim();
-  const lowered = raw.toLowerCase();
-
-  if (
-    lowered.includes('function_payload_too_large') ||
-    lowered.includes('request entity too large') ||
-    lowered.includes('payload too large') ||
-    lowered.includes('body exceeded')
-  ) {
-    return 'This book is too large for cloud turn processing. Re-open setup with a smaller PDF or fewer style images.';
-  }
+const TURN_ERROR_MESSAGES: Partial<Record<ApiErrorCode, string>> = {
+  PAYLOAD_TOO_LARGE: 'This book is too large for cloud turn processing. Re-open setup with a smaller PDF or fewer style images.',
+  UPSTREAM_RATE_LIMITED: 'StoryBuddy is busy right now. Please try again in a moment.',
+  UPSTREAM_UNAVAILABLE: 'StoryBuddy is busy right now. Please try again in a moment.',
+  NETWORK_ERROR: 'Could not reach StoryBuddy. Check your connection and try again.',
+  CONFIG_ERROR: 'StoryBuddy is not configured on the server yet. Ask an adult to check the setup.'
+};
 
-  if (raw) {
-    return raw;
+const toUserFacingTurnError = (error: unknown): { message: string; retryable: boolean } => {
+  if (error instanceof ApiError) {
+    return {
+      message: TURN_ERROR_MESSAGES[error.code] || error.message || 'Something went wrong processing your request.',
+      retryable: error.retryable
+    };
   }
 
-  return 'Something went wrong processing your request.';
+  const raw = String((error as any)?.message || error || '').trim();
+  return {
+    message: raw || 'Something went wrong processing your request.',
+    retryable: true
+  };
 };
 
 export const useTurnPipeline = (
   activeAssets: StoryAssets | null,
-  imageModelPreference: ImageModelPreference = 'nano-banana-pro'
+  imageModelPreference: ImageModelPreference = 'nano-banana-pro',
+  {
+    activeChildId = null,
+    choiceCount = DEFAULT_CHOICE_COUNT,
+    adaptiveDifficulty = true,
+    readThroughPage = null,
+    speechSettings,
+    language = 'en',
+    caregiverReview = false
+  }: UseTurnPipelineOptions = {}
 ) => {
   const [state, dispatch] = useReducer(turnSessionReducer, initialTurnSessionState);
   const stateRef = useRef(state);
   const ttsCacheRef = useRef<Map<string, Promise<TtsResponse>>>(new Map());
+  const sessionIdRef = useRef<string>(crypto.randomUUID());
+  const logEntryRef = useRef<SessionLogEntry | null>(null);
+  const turnDifficultyRef = useRef<Difficulty>(DEFAULT_DIFFICULTY as Difficulty);
+  const reviewEditsRef = useRef<CaregiverEdit[]>([]);
 
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
 
-  const getTtsPromise = useCallback((text: string): Promise<TtsResponse> => {
-    const key = ttsCacheKey(text);
+  // Audio made with the previous child's voice must not be replayed for the next one.
+  const speechSettingsKey = speechSettings
+    ? `${speechSettings.voice}|${speechSettings.speakingRate}|${speechSettings.languageCode}`
+    : '';
+  useEffect(() => {
+    ttsCacheRef.current.clear();
+  }, [speechSettingsKey]);
+
+  const getTtsPromise = useCallback((text: string, purpose: TtsPurpose = 'option'): Promise<TtsResponse> => {
+    const key = ttsCacheKey(text, purpose);
     const cached = ttsCacheRef.current.get(key);
     if (cached) {
       return cached;
     }
 
-    const pending = requestTtsFromBackend(text)
+    const pending = requestTtsFromBackend(text, speechSettings, purpose)
       .then((audio) => {
         if (!audio?.audioBase64) {
           return audio;
@@ -91,7 +209,7 @@ export const useTurnPipeline = (
         try {
           return {
             ...audio,
-            audioBuffer: decodePcm16AudioBase64(audio.audioBase64)
+            audioBuffer: decodePcm16AudioBase64(audio.audioBase64, audio.mimeType)
           };
         } catch {
           return audio;
@@ -105,109 +223,187 @@ export const useTurnPipeline = (
 
     ttsCacheRef.current.set(key, pending);
     return pending;
+  }, [speechSettings]);
+
+  const persistLogEntry = useCallback((entry: SessionLogEntry) => {
+    logEntryRef.current = entry;
+    saveSessionLogEntry(entry).catch((error) => {
+      console.warn('Failed to save session log entry', error);
+    });
   }, []);
 
+  // One log entry per question; created as soon as options are visible so early picks are captured.
+  const logOptionsShown = useCallback((question: string, options: Option[]) => {
+    if (!activeChildId || !activeAssets) {
+      logEntryRef.current = null;
+      return;
+    }
+
+    persistLogEntry({
+      id: crypto.randomUUID(),
+      childId: activeChildId,
+      storyId: activeAssets.id,
+      sessionId: sessionIdRef.current,
+      createdAt: Date.now(),
+      question,
+      options: options.map(toSessionLogOption),
+      pickedOptionId: null,
+      isCorrect: null,
+      timings: null,
+      difficulty: turnDifficultyRef.current
+    });
+  }, [activeAssets, activeChildId, persistLogEntry]);
+
+  const logTurnTimings = useCallback((timings: PipelineTimings) => {
+    if (logEntryRef.current) {
+      persistLogEntry({ ...logEntryRef.current, timings });
+    }
+  }, [persistLogEntry]);
+
   const warmTtsCache = useCallback((options: Option[]) => {
     if (!USE_BACKEND_PIPELINE) {
       return;
     }
 
-    for (const option of options.slice(0, 3)) {
+    for (const option of options) {
       void getTtsPromise(option.text);
     }
   }, [getTtsPromise]);
 
-  const processRecording = useCallback(async (audioBlob: Blob) => {
+  // Reads the child's latest answers each turn so a pick made moments ago already counts.
+  const resolveTurnSettings = useCallback(async () => {
+    const fixed = { difficulty: DEFAULT_DIFFICULTY as Difficulty, choiceCount: normalizeChoiceCount(choiceCount) };
+    if (!activeChildId || !adaptiveDifficulty) {
+      return fixed;
+    }
+
+    try {
+      return computeAdaptiveTurnSettings(await getSessionLog(activeChildId), choiceCount);
+    } catch (error) {
+      console.warn('Failed to read session log for adaptive difficulty', error);
+      return fixed;
+    }
+  }, [activeChildId, adaptiveDifficulty, choiceCount]);
+
+  const runTurn = useCallback(async (input: TurnInput) => {
     if (!activeAssets) {
       dispatch({ type: 'SET_ERROR', error: 'Please select a story first!' });
       return;
     }
 
     ttsCacheRef.current.clear();
-    dispatch({ type: 'START', audioBlob });
+    logEntryRef.current = null;
+    reviewEditsRef.current = [];
+    turnDifficultyRef.current = DEFAULT_DIFFICULTY as Difficulty;
+    dispatch(input.kind === 'audio'
+      ? { type: 'START', audioBlob: input.audioBlob, requireReview: caregiverReview }
+      : { type: 'START_TYPED', question: input.question, requireReview: caregiverReview });
 
     try {
-      const audioBase64 = await readBlobAsBase64(audioBlob);
+      const audioBase64 = input.kind === 'audio' ? await readBlobAsBase64(input.audioBlob) : '';
+
+      const storyContext = resolveStoryContext(activeAssets, readThroughPage);
+      const { storyText, storyBrief, storyFacts } = storyContext;
+      // Without a backend the whole PDF can stand in for missing text, except while reading along.
+      if (!storyText && (USE_BACKEND_PIPELINE || storyContext.readThrough)) {
+        dispatch({
+          type: 'SET_ERROR',
+          error: storyContext.readThrough
+            ? 'There are no story words up to this page yet. Read a little further first.'
+            : 'This story is missing extracted book text. Open setup and save again.'
+        });
+        return;
+      }
 
       if (USE_BACKEND_PIPELINE) {
-        const storyText = String(activeAssets.metadata.storyText || activeAssets.storyBrief || '').trim();
-        if (!storyText) {
-          dispatch({
-            type: 'SET_ERROR',
-            error: 'This story is missing extracted book text. Open setup and save again.'
-          });
-          return;
-        }
+        const turnSettings = await resolveTurnSettings();
+        turnDifficultyRef.current = turnSettings.difficulty;
+
+        const { primerFiles, referenceFiles } = selectTurnStyleFiles(activeAssets);
+        const assetFiles = [...primerFiles, ...referenceFiles];
+        await uploadMissingAssets(assetFiles);
 
-        const baseTurnPayload = {
-          audioBase64,
-          mimeType: audioBlob.type,
+        const turnPayload = {
+          ...(input.kind === 'audio'
+            ? { audioBase64, mimeType: input.audioBlob.type }
+            : { questionText: input.question }),
           storyText,
           imageModelPreference,
-          storyBrief: activeAssets.storyBrief,
-          storyFacts: activeAssets.metadata.storyFacts,
+          storyBrief,
+          storyFacts,
           artStyle: activeAssets.metadata.artStyle || 'Children\'s book illustration',
-          stylePrimer: activeAssets.stylePrimer.slice(0, MAX_TURN_STYLE_PRIMER),
-          // Avoid sending the full style reference pool each turn; this commonly exceeds Vercel payload limits.
-          styleReferences: (activeAssets.styleReferences || []).slice(0, MAX_TURN_STYLE_REFS),
-          history: compactHistoryForBackend(stateRef.current.conversationHistory)
+          stylePrimer: primerFiles.map(toAssetRef),
+          styleReferences: referenceFiles.map(toAssetRef),
+          history: compactHistoryForBackend(stateRef.current.conversationHistory),
+          choiceCount: turnSettings.choiceCount,
+          difficulty: turnSettings.difficulty,
+          language
         };
 
-        let turnPayload = baseTurnPayload;
-        let payloadBytes = estimatePayloadBytes(turnPayload);
-
-        if (payloadBytes > TURN_REQUEST_SOFT_LIMIT_BYTES) {
-          turnPayload = {
-            ...baseTurnPayload,
-            styleReferences: [],
-            stylePrimer: activeAssets.stylePrimer.slice(0, 8)
-          };
-          payloadBytes = estimatePayloadBytes(turnPayload);
-        }
-
-        if (payloadBytes > TURN_REQUEST_SOFT_LIMIT_BYTES) {
-          turnPayload = {
-            ...turnPayload,
-            stylePrimer: activeAssets.stylePrimer.slice(0, 4)
-          };
-          payloadBytes = estimatePayloadBytes(turnPayload);
-        }
-
-        if (payloadBytes > TURN_REQUEST_SOFT_LIMIT_BYTES) {
+        if (estimatePayloadBytes(turnPayload) > TURN_REQUEST_SOFT_LIMIT_BYTES) {
           dispatch({
             type: 'SET_ERROR',
-            error: 'This story is too large for cloud turn processing. Open setup and save a smaller PDF.'
+            error: 'This story is too large for cloud turn processing. Open setup and save a smaller PDF.',
+            retryable: false
           });
           return;
         }
 
-        const turnResponse = await runTurnWithBackend(turnPayload);
+        let streamedQuestion = '';
+        const handleStreamEvent = (event: TurnStreamEvent) => {
+          if (event.type === 'question') {
+            streamedQuestion = event.question;
+            dispatch({ type: 'SET_QUESTION', question: event.question });
+            dispatch({ type: 'SET_STAGE', stage: 'generating_options' });
+          } else if (event.type === 'options') {
+            dispatch({ type: 'SET_OPTIONS', options: event.cards });
+            dispatch({ type: 'SET_STAGE', stage: 'generating_images' });
+            warmTtsCache(event.cards);
+            logOptionsShown(streamedQuestion, event.cards);
+          } else if (event.type === 'card') {
+            dispatch({ type: 'UPDATE_OPTION', option: { ...event.card, isLoadingImage: false } });
+          }
+        };
+
+        let turnResponse;
+        try {
+          turnResponse = await runTurnStreamWithBackend(turnPayload, handleStreamEvent);
+        } catch (error) {
+          // Another server instance may have answered the upload; re-sync once before giving up.
+          if (!(error instanceof ApiError) || error.code !== 'ASSET_MISSING') {
+            throw error;
+          }
+          await uploadMissingAssets(assetFiles, { force: true });
+          turnResponse = await runTurnStreamWithBackend(turnPayload, handleStreamEvent);
+        }
 
         if (!turnResponse.question) {
           dispatch({ type: 'SET_ERROR', error: "I couldn't hear the question. Please try again." });
           return;
         }
 
-        dispatch({ type: 'SET_QUESTION', question: turnResponse.question });
-        dispatch({ type: 'SET_STAGE', stage: 'generating_options' });
-        dispatch({ type: 'SET_STAGE', stage: 'generating_images' });
+        // The final payload is authoritative; it also covers cards whose stream event was missed.
         dispatch({
           type: 'SET_OPTIONS',
           options: turnResponse.cards.map((card) => ({ ...card, isLoadingImage: false }))
         });
-        warmTtsCache(turnResponse.cards);
+        if (!logEntryRef.current) {
+          logOptionsShown(turnResponse.question, turnResponse.cards);
+        }
+        logTurnTimings(turnResponse.timings);
         dispatch({ type: 'SET_TIMINGS', timings: turnResponse.timings });
         dispatch({ type: 'SET_STAGE', stage: 'completed' });
         return;
       }
 
+      const metadata = storyContext.readThrough
+        ? { ...activeAssets.metadata, summary: storyText, storyBrief, storyFacts }
+        : activeAssets.metadata;
       const questionStart = performance.now();
-      const questionText = await GeminiService.transcribeParentQuestion(
-        audioBase64,
-        audioBlob.type,
-        activeAssets.metadata
-      );
-      const transcribeMs = Math.round(performance.now() - questionStart);
+      const questionText = input.kind === 'audio'
+        ? await GeminiService.transcribeParentQuestion(audioBase64, input.audioBlob.type, metadata)
+        : input.question;
+      const transcribeMs = input.kind === 'audio' ? Math.round(performance.now() - questionStart) : 0;
 
       if (!questionText) {
         dispatch({ type: 'SET_ERROR', error: "I couldn't hear the question. Please try again." });
@@ -221,9 +417,9 @@ export const useTurnPipeline = (
       const tempHistory = [...stateRef.current.conversationHistory, { role: 'parent' as const, text: questionText }];
       const textOptions = await GeminiService.generateAnswerOptions(
         questionText,
-        activeAssets.pdfData || null,
+        storyContext.readThrough ? null : activeAssets.pdfData || null,
         tempHistory,
-        activeAssets.metadata
+        metadata
       );
       const optionsMs = Math.round(performance.now() - optionsStart);
 
@@ -234,6 +430,7 @@ export const useTurnPipeline = (
       }));
       dispatch({ type: 'SET_OPTIONS', options: cards });
       dispatch({ type: 'SET_STAGE', stage: 'generating_images' });
+      logOptionsShown(questionText, cards);
 
       const imageMsById: Record<string, number> = {};
       const imageBatchStart = performance.now();
@@ -245,7 +442,7 @@ export const useTurnPipeline = (
             card.text,
             activeAssets.pdfData || null,
             activeAssets.stylePrimer,
-            activeAssets.metadata,
+            metadata,
             cards.filter((c) => c.id !== card.id).map((c) => c.text),
             tempHistory
           );
@@ -255,52 +452,279 @@ export const useTurnPipeline = (
       );
 
       const fullCardsMs = Math.round(performance.now() - imageBatchStart);
+      const timings: PipelineTimings = {
+        transcribeMs,
+        optionsMs,
+        imageMsById,
+        fullCardsMs,
+        totalMs: transcribeMs + optionsMs + fullCardsMs
+      };
       dispatch({ type: 'SET_OPTIONS', options: generated });
-      dispatch({
-        type: 'SET_TIMINGS',
-        timings: {
-          transcribeMs,
-          optionsMs,
-          imageMsById,
-          fullCardsMs,
-          totalMs: transcribeMs + optionsMs + fullCardsMs
-        }
-      });
+      logTurnTimings(timings);
+      dispatch({ type: 'SET_TIMINGS', timings });
       dispatch({ type: 'SET_STAGE', stage: 'completed' });
     } catch (error) {
       console.error('Turn pipeline failed', error);
-      dispatch({ type: 'SET_ERROR', error: toUserFacingTurnError(error) });
+      const { message, retryable } = toUserFacingTurnError(error);
+      dispatch({ type: 'SET_ERROR', error: message, retryable });
     }
-  }, [activeAssets, imageModelPreference, warmTtsCache]);
+  }, [
+    activeAssets,
+    caregiverReview,
+    imageModelPreference,
+    language,
+    logOptionsShown,
+    logTurnTimings,
+    readThroughPage,
+    resolveTurnSettings,
+    warmTtsCache
+  ]);
+
+  const processRecording = useCallback((audioBlob: Blob) => runTurn({ kind: 'audio', audioBlob }), [runTurn]);
+
+  const submitTypedQuestion = useCallback((question: string) => {
+    const normalized = question.trim().replace(/\s+/g, ' ');
+    if (!normalized) {
+      return Promise.resolve();
+    }
+    return runTurn({ kind: 'typed', question: normalized });
+  }, [runTurn]);
+
+  // Bank questions were planned and rendered at setup, so their cards show without any live generation.
+  const askBankQuestion = useCallback((entry: QuestionBankEntry) => {
+    ttsCacheRef.current.clear();
+    logEntryRef.current = null;
+    reviewEditsRef.current = [];
+    turnDifficultyRef.current = activeAssets?.questionBank?.difficulty || (DEFAULT_RUNTIME_DIFFICULTY as Difficulty);
+    dispatch({ type: 'START_TYPED', question: entry.question, requireReview: caregiverReview });
+    dispatch({ type: 'SET_QUESTION', question: entry.question });
+
+    const cards: Option[] = entry.choices.map((choice) => {
+      const isCorrect = choice.choiceId === entry.correctChoiceId;
+      return {
+        id: `bank-${choice.choiceId}`,
+        text: choice.text,
+        imageUrl: choice.imageUrl,
+        isLoadingImage: false,
+        type: isCorrect ? 'correct' : 'wrong',
+        isCorrect
+      };
+    });
+    dispatch({ type: 'SET_OPTIONS', options: cards });
+    warmTtsCache(cards);
+    logOptionsShown(entry.question, cards);
+    dispatch({ type: 'SET_STAGE', stage: 'completed' });
+  }, [activeAssets, caregiverReview, logOptionsShown, warmTtsCache]);
 
   const retry = useCallback(() => {
-    if (stateRef.current.lastAudioBlob) {
-      processRecording(stateRef.current.lastAudioBlob);
+    const { lastAudioBlob, lastTypedQuestion } = stateRef.current;
+    if (lastAudioBlob) {
+      processRecording(lastAudioBlob);
+    } else if (lastTypedQuestion) {
+      submitTypedQuestion(lastTypedQuestion);
     }
-  }, [processRecording]);
+  }, [processRecording, submitTypedQuestion]);
+
+  const speak = useCallback(async (text: string, purpose: TtsPurpose) => {
+    stopAudioPlayback();
+    if (USE_BACKEND_PIPELINE) {
+      const audio = await getTtsPromise(text, purpose);
+      if (audio?.audioBuffer) {
+        await playAudioBuffer(audio.audioBuffer);
+      } else if (audio?.audioBase64) {
+        await playPcm16AudioBase64(audio.audioBase64, audio.mimeType);
+      }
+      return;
+    }
+
+    await GeminiService.speakText(text);
+  }, [getTtsPromise]);
+
+  const speakOptionText = useCallback((text: string) => speak(text, 'option'), [speak]);
+
+  // Read-along pages are far longer than card labels, so they are spoken as narration.
+  const narrateText = useCallback((text: string) => speak(text, 'narration'), [speak]);
 
   const selectOption = useCallback(async (option: Option) => {
     dispatch({ type: 'SELECT_OPTION', optionId: option.id, optionText: option.text });
 
+    // Only the first pick counts towards correctness in the session log.
+    const logEntry = logEntryRef.current;
+    if (logEntry && logEntry.pickedOptionId === null) {
+      persistLogEntry({
+        ...logEntry,
+        pickedOptionId: option.id,
+        pickedText: option.text,
+        isCorrect: typeof option.isCorrect === 'boolean' ? option.isCorrect : null,
+        answeredAt: Date.now()
+      });
+    }
+
+    try {
+      await speakOptionText(option.text);
+    } catch (error) {
+      console.error('TTS failed', error);
+    }
+  }, [persistLogEntry, speakOptionText]);
+
+  // Switch scanning reads each highlighted card aloud without counting it as a pick.
+  const previewOption = useCallback(async (option: Option) => {
+    try {
+      await speakOptionText(option.text);
+    } catch (error) {
+      console.warn('TTS preview failed', error);
+    }
+  }, [speakOptionText]);
+
+  const recordReviewEdit = useCallback((edit: Omit<CaregiverEdit, 'at'>) => {
+    reviewEditsRef.current = [...reviewEditsRef.current, { ...edit, at: Date.now() }];
+  }, []);
+
+  const editOptionText = useCallback((optionId: string, text: string) => {
+    const option = stateRef.current.options.find((item) => item.id === optionId);
+    const nextText = text.trim().replace(/\s+/g, ' ');
+    if (!option || !nextText || nextText === option.text) {
+      return;
+    }
+    dispatch({ type: 'UPDATE_OPTION', option: { ...option, text: nextText } });
+    recordReviewEdit({ kind: 'text', optionId, before: option.text, after: nextText });
+  }, [recordReviewEdit]);
+
+  const markOptionCorrect = useCallback((optionId: string) => {
+    const previous = stateRef.current.options.find((item) => item.isCorrect);
+    if (previous?.id === optionId) {
+      return;
+    }
+    dispatch({ type: 'SET_CORRECT_OPTION', optionId });
+    recordReviewEdit({ kind: 'correct', optionId, before: previous?.id, after: optionId });
+  }, [recordReviewEdit]);
+
+  /**
+   * Redraws one card without redoing the turn. `image` keeps the text and reuses the card's stored plan when the
+   * text is unchanged; `replace_distractor` swaps a wrong card for a new wrong answer. The other cards are left alone.
+   */
+  const redrawOption = useCallback(async (optionId: string, mode: TurnCardMode) => {
+    const option = stateRef.current.options.find((item) => item.id === optionId);
+    if (!option || !activeAssets || (mode === 'replace_distractor' && option.isCorrect)) {
+      return;
+    }
+    if (mode === 'replace_distractor' && !USE_BACKEND_PIPELINE) {
+      console.warn('Replacing an answer needs the backend pipeline');
+      return;
+    }
+    dispatch({ type: 'UPDATE_OPTION', option: { ...option, isLoadingImage: true } });
+
+    const finish = (update: Partial<Option>): Option => {
+      const latest = stateRef.current.options.find((item) => item.id === optionId) || option;
+      const next = { ...latest, ...update, isLoadingImage: false };
+      dispatch({ type: 'UPDATE_OPTION', option: next });
+      return next;
+    };
+
     try {
       if (USE_BACKEND_PIPELINE) {
-        const audio = await getTtsPromise(option.text);
-        if (audio?.audioBuffer) {
-          await playAudioBuffer(audio.audioBuffer);
-        } else if (audio?.audioBase64) {
-          await playPcm16AudioBase64(audio.audioBase64);
+        const { primerFiles, referenceFiles } = selectTurnStyleFiles(activeAssets);
+        const assetFiles = [...primerFiles, ...referenceFiles];
+        await uploadMissingAssets(assetFiles);
+        const { currentQuestion, options } = stateRef.current;
+        const storyContext = resolveStoryContext(activeAssets, readThroughPage);
+        const cardPayload: TurnCardRequest = {
+          mode,
+          question: currentQuestion,
+          card: {
+            id: option.id,
+            text: option.text,
+            isCorrect: option.isCorrect,
+            renderMode: option.renderMode,
+            debug: mode === 'image' ? toReusableDebug(option.debug) : undefined
+          },
+          otherAnswers: options.filter((item) => item.id !== optionId).map((item) => item.text),
+          storyText: mode === 'replace_distractor' ? storyContext.storyText : undefined,
+          difficulty: turnDifficultyRef.current,
+          language,
+          imageModelPreference,
+          storyBrief: storyContext.storyBrief,
+          storyFacts: storyContext.storyFacts,
+          artStyle: activeAssets.metadata.artStyle || 'Children\'s book illustration',
+          stylePrimer: primerFiles.map(toAssetRef),
+          styleReferences: referenceFiles.map(toAssetRef)
+        };
+        let response;
+        try {
+          response = await renderTurnCardWithBackend(cardPayload);
+        } catch (error) {
+          if (!(error instanceof ApiError) || error.code !== 'ASSET_MISSING') {
+            throw error;
+          }
+          await uploadMissingAssets(assetFiles, { force: true });
+          response = await renderTurnCardWithBackend(cardPayload);
         }
-        return;
-      }
 
-      await GeminiService.speakText(option.text);
+        if (mode === 'replace_distractor') {
+          const replaced = finish({ ...response.card, id: option.id });
+          recordReviewEdit({ kind: 'replace', optionId, before: option.text, after: replaced.text });
+          if (!stateRef.current.awaitingReview) {
+            warmTtsCache([replaced]);
+          }
+          const logEntry = logEntryRef.current;
+          if (logEntry) {
+            persistLogEntry({
+              ...logEntry,
+              options: stateRef.current.options.map((item) => toSessionLogOption(item.id === optionId ? replaced : item)),
+              caregiverEdits: reviewEditsRef.current
+            });
+          }
+          return;
+        }
+        finish({ imageUrl: response.card.imageUrl, debug: { ...option.debug, ...response.card.debug } });
+      } else {
+        const { options, conversationHistory } = stateRef.current;
+        const imageUrl = await GeminiService.generateIllustration(
+          option.text,
+          activeAssets.pdfData || null,
+          activeAssets.stylePrimer,
+          activeAssets.metadata,
+          options.filter((item) => item.id !== optionId).map((item) => item.text),
+          conversationHistory
+        );
+        finish({ imageUrl: imageUrl || undefined });
+      }
+      recordReviewEdit({ kind: 'image', optionId });
     } catch (error) {
-      console.error('TTS failed', error);
+      console.warn('Card redraw failed', error);
+      finish({});
     }
-  }, [getTtsPromise]);
+  }, [activeAssets, imageModelPreference, language, persistLogEntry, readThroughPage, recordReviewEdit, warmTtsCache]);
+
+  const regenerateOptionImage = useCallback((optionId: string) => redrawOption(optionId, 'image'), [redrawOption]);
+
+  const replaceOptionAnswer = useCallback(
+    (optionId: string) => redrawOption(optionId, 'replace_distractor'),
+    [redrawOption]
+  );
+
+  // The child only sees the cards after this; the log keeps the reviewed cards and every change made.
+  const approveReview = useCallback(() => {
+    const { options } = stateRef.current;
+    dispatch({ type: 'APPROVE_REVIEW' });
+    warmTtsCache(options);
+
+    const logEntry = logEntryRef.current;
+    if (logEntry) {
+      persistLogEntry({
+        ...logEntry,
+        options: options.map(toSessionLogOption),
+        caregiverEdits: reviewEditsRef.current,
+        reviewedAt: Date.now()
+      });
+    }
+  }, [persistLogEntry, warmTtsCache]);
 
   const resetConversation = useCallback(() => {
     ttsCacheRef.current.clear();
+    logEntryRef.current = null;
+    reviewEditsRef.current = [];
+    sessionIdRef.current = crypto.randomUUID();
     dispatch({ type: 'RESET' });
   }, []);
 
@@ -316,8 +740,17 @@ export const useTurnPipeline = (
     ...state,
     isBusy,
     processRecording,
+    submitTypedQuestion,
+    askBankQuestion,
     retry,
     selectOption,
+    previewOption,
+    narrateText,
+    editOptionText,
+    markOptionCorrect,
+    regenerateOptionImage,
+    replaceOptionAnswer,
+    approveReview,
     resetConversation
   };
 };
@@ -1,39 +1,128 @@
 import {
+  ApiErrorBody,
+  ApiErrorCode,
+  AssetCheckResponse,
+  AssetGetResponse,
+  AssetRef,
+  AssetUploadResponse,
+  Difficulty,
+  FileData,
+  PageTextRequest,
+  PageTextResponse,
+  QuestionBank,
+  QuestionBankEntry,
+  QuestionBankSkipped,
   RuntimeLoadBookRequest,
   RuntimeLoadBookResponse,
   RuntimePlanResponse,
+  RuntimeQuestionBankRequest,
+  RuntimeQuestionBankResponse,
   RuntimeQuizResponse,
   RuntimeRenderResponse,
   SetupStoryRequest,
   SetupStoryResponse,
+  SpeechSettings,
+  StoryLanguage,
+  TtsPurpose,
+  TurnCardRequest,
+  TurnCardResponse,
   TurnRequest,
-  TurnResponse
+  TurnResponse,
+  TurnStreamEvent
 } from '../types';
 import { getPayloadBytes, logPayloadSize, logSetupTimings, logTurnTimings } from './performanceService';
+import { toAssetId } from '../shared/assetIds.js';
 
 export const USE_BACKEND_PIPELINE = import.meta.env.VITE_USE_BACKEND_PIPELINE !== 'false';
 
-const postJson = async <TResponse>(path: string, payload: unknown): Promise<TResponse> => {
-  const payloadBytes = getPayloadBytes(payload);
-  logPayloadSize(path, payloadBytes);
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly details?: ApiErrorBody['details'];
 
-  const response = await fetch(path, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify(payload)
-  });
+  constructor(body: ApiErrorBody, status: number) {
+    super(body.message);
+    this.name = 'ApiError';
+    this.code = body.code;
+    this.status = status;
+    this.retryable = body.retryable;
+    this.details = body.details;
+  }
+}
 
-  const raw = await response.text();
-  let json: any = null;
+// Platform errors (e.g. the hosting layer's 413) arrive without the envelope, so the status decides the code.
+const CODE_BY_STATUS: Record<number, ApiErrorCode> = {
+  400: 'VALIDATION_FAILED',
+  404: 'NOT_FOUND',
+  405: 'METHOD_NOT_ALLOWED',
+  413: 'PAYLOAD_TOO_LARGE',
+  429: 'UPSTREAM_RATE_LIMITED',
+  502: 'UPSTREAM_UNAVAILABLE',
+  503: 'UPSTREAM_UNAVAILABLE',
+  504: 'UPSTREAM_UNAVAILABLE'
+};
+const RETRYABLE_CODES = new Set<ApiErrorCode>(['UPSTREAM_RATE_LIMITED', 'UPSTREAM_UNAVAILABLE', 'INTERNAL', 'NETWORK_ERROR']);
+
+const isApiErrorBody = (value: unknown): value is ApiErrorBody =>
+  Boolean(value) && typeof value === 'object' && typeof (value as ApiErrorBody).code === 'string';
+
+export const toApiError = (status: number, json: any, raw: string, path: string): ApiError => {
+  if (isApiErrorBody(json?.error)) {
+    return new ApiError(
+      {
+        ...json.error,
+        message: json.error.message || `Request failed: ${path}`,
+        retryable: Boolean(json.error.retryable)
+      },
+      status
+    );
+  }
+
+  const code = CODE_BY_STATUS[status] || 'INTERNAL';
+  return new ApiError(
+    {
+      code,
+      message: (typeof json?.error === 'string' && json.error) || raw?.trim() || `Request failed: ${path}`,
+      retryable: RETRYABLE_CODES.has(code)
+    },
+    status
+  );
+};
+
+const postRequest = async (path: string, payload: unknown): Promise<Response> => {
+  try {
+    return await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload)
+    });
+  } catch (error: any) {
+    throw new ApiError(
+      { code: 'NETWORK_ERROR', message: error?.message || `Network request failed: ${path}`, retryable: true },
+      0
+    );
+  }
+};
+
+const parseJsonText = (raw: string): any => {
   try {
-    json = raw ? JSON.parse(raw) : {};
+    return raw ? JSON.parse(raw) : {};
   } catch {
-    json = null;
+    return null;
   }
+};
+
+const postJson = async <TResponse>(path: string, payload: unknown): Promise<TResponse> => {
+  const payloadBytes = getPayloadBytes(payload);
+  logPayloadSize(path, payloadBytes);
+
+  const response = await postRequest(path, payload);
+  const raw = await response.text();
+  const json = parseJsonText(raw);
 
   if (!response.ok) {
-    const textError = raw?.trim();
-    throw new Error(json?.error || textError || `Request failed: ${path}`);
+    throw toApiError(response.status, json, raw, path);
   }
 
   if (!json) {
@@ -49,6 +138,78 @@ export const setupStoryWithBackend = async (payload: SetupStoryRequest): Promise
   return response;
 };
 
+export const recognizePageTextWithBackend = async (payload: PageTextRequest): Promise<PageTextResponse> =>
+  postJson<PageTextResponse>('/api/page-text', payload);
+
+// Keeps each upload request comfortably under the hosting body limit.
+const ASSET_UPLOAD_BATCH_BYTES = 3 * 1024 * 1024;
+const ASSET_CHECK_BATCH_SIZE = 200;
+
+const assetIdCache = new WeakMap<FileData, string>();
+const knownUploadedAssetIds = new Set<string>();
+
+export const getAssetId = (file: FileData): string => {
+  const cached = assetIdCache.get(file);
+  if (cached) {
+    return cached;
+  }
+  const assetId = toAssetId(file);
+  assetIdCache.set(file, assetId);
+  return assetId;
+};
+
+export const toAssetRef = <T extends FileData>(file: T): Omit<T, 'data'> & AssetRef => {
+  const { data: _data, ...rest } = file;
+  return { ...rest, assetId: getAssetId(file) };
+};
+
+// Server asset stores are per deployment, so `force` re-checks ids this tab has already uploaded.
+export const uploadMissingAssets = async (files: FileData[], options: { force?: boolean } = {}): Promise<number> => {
+  const byId = new Map<string, FileData>();
+  for (const file of files) {
+    if (!file?.data || !file?.mimeType) continue;
+    const assetId = getAssetId(file);
+    if (options.force || !knownUploadedAssetIds.has(assetId)) {
+      byId.set(assetId, file);
+    }
+  }
+
+  const candidateIds = Array.from(byId.keys());
+  const missingIds: string[] = [];
+  for (let start = 0; start < candidateIds.length; start += ASSET_CHECK_BATCH_SIZE) {
+    const response = await postJson<AssetCheckResponse>('/api/assets-check', {
+      assetIds: candidateIds.slice(start, start + ASSET_CHECK_BATCH_SIZE)
+    });
+    missingIds.push(...response.missingAssetIds);
+  }
+
+  const missing = new Set(missingIds);
+  candidateIds.filter((assetId) => !missing.has(assetId)).forEach((assetId) => knownUploadedAssetIds.add(assetId));
+
+  let batch: { assetId: string; mimeType: string; data: string }[] = [];
+  let batchBytes = 0;
+  const flush = async () => {
+    if (batch.length === 0) return;
+    const response = await postJson<AssetUploadResponse>('/api/assets-upload', { assets: batch });
+    response.storedAssetIds.forEach((assetId) => knownUploadedAssetIds.add(assetId));
+    batch = [];
+    batchBytes = 0;
+  };
+
+  for (const assetId of missingIds) {
+    const file = byId.get(assetId);
+    if (!file) continue;
+    if (batchBytes > 0 && batchBytes + file.data.length > ASSET_UPLOAD_BATCH_BYTES) {
+      await flush();
+    }
+    batch.push({ assetId, mimeType: file.mimeType, data: file.data });
+    batchBytes += file.data.length;
+  }
+  await flush();
+
+  return missingIds.length;
+};
+
 export const runTurnWithBackend = async (payload: TurnRequest): Promise<TurnResponse> => {
   const nonAudioPayload = { ...payload, audioBase64: '<omitted>' };
   logPayloadSize('/api/turn(non-audio)', getPayloadBytes(nonAudioPayload));
@@ -57,8 +218,85 @@ export const runTurnWithBackend = async (payload: TurnRequest): Promise<TurnResp
   return response;
 };
 
-export const requestTtsFromBackend = async (text: string): Promise<{ audioBase64: string; mimeType: string } | null> => {
-  const response = await postJson<{ audio: { audioBase64: string; mimeType: string } | null }>('/api/tts', { text });
+export const runTurnStreamWithBackend = async (
+  payload: TurnRequest,
+  onEvent: (event: TurnStreamEvent) => void
+): Promise<TurnResponse> => {
+  const path = '/api/turn-stream';
+  const nonAudioPayload = { ...payload, audioBase64: '<omitted>' };
+  logPayloadSize(`${path}(non-audio)`, getPayloadBytes(nonAudioPayload));
+  logPayloadSize(path, getPayloadBytes(payload));
+
+  const response = await postRequest(path, payload);
+
+  if (!response.ok || !response.body) {
+    const raw = await response.text().catch(() => '');
+    throw toApiError(response.ok ? 500 : response.status, parseJsonText(raw), raw, path);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let result: TurnResponse | null = null;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) {
+      return;
+    }
+    let event: TurnStreamEvent;
+    try {
+      event = JSON.parse(line) as TurnStreamEvent;
+    } catch {
+      throw new ApiError({ code: 'INTERNAL', message: 'Malformed turn stream event', retryable: true }, response.status);
+    }
+    if (event.type === 'error') {
+      throw toApiError(500, { error: event.error }, '', path);
+    }
+    if (event.type === 'done') {
+      const { type: _type, ...turnResponse } = event;
+      result = turnResponse;
+    }
+    onEvent(event);
+  };
+
+  // Releases the connection when an error event or a bad line stops the read early.
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      lines.forEach(handleLine);
+      if (done) {
+        handleLine(buffered);
+        break;
+      }
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+
+  if (!result) {
+    throw new ApiError({ code: 'INTERNAL', message: `Turn stream ended before completion: ${path}`, retryable: true }, response.status);
+  }
+
+  logTurnTimings('turn-stream', (result as TurnResponse).timings);
+  return result;
+};
+
+export const renderTurnCardWithBackend = async (payload: TurnCardRequest): Promise<TurnCardResponse> =>
+  postJson<TurnCardResponse>('/api/turn-card', payload);
+
+export const requestTtsFromBackend = async (
+  text: string,
+  settings?: Partial<SpeechSettings>,
+  purpose: TtsPurpose = 'option'
+): Promise<{ audioBase64: string; mimeType: string } | null> => {
+  const response = await postJson<{ audio: { audioBase64: string; mimeType: string } | null }>('/api/tts', {
+    text,
+    ...settings,
+    purpose
+  });
   return response.audio;
 };
 
@@ -68,7 +306,9 @@ export const loadRuntimeBook = async (payload: RuntimeLoadBookRequest): Promise<
 export const createRuntimePlan = async (payload: {
   book_id: string;
   question_text: string;
-  difficulty?: 'easy' | 'medium' | 'hard';
+  difficulty?: Difficulty;
+  language?: StoryLanguage;
+  choice_count?: number;
   qa_ready_package?: unknown;
   style_references?: unknown[];
   force_reload?: boolean;
@@ -81,12 +321,72 @@ export const renderRuntimePlanImages = async (qa_plan_id: string): Promise<Runti
 export const runRuntimeQuiz = async (payload: {
   book_id: string;
   question_text: string;
-  difficulty?: 'easy' | 'medium' | 'hard';
+  difficulty?: Difficulty;
+  language?: StoryLanguage;
+  choice_count?: number;
   qa_ready_package?: unknown;
   style_references?: unknown[];
   force_reload?: boolean;
 }): Promise<RuntimeQuizResponse> =>
   postJson<RuntimeQuizResponse>('/api/runtime-quiz', payload);
 
+export const fetchAssetDataUrl = async (assetId: string): Promise<string> => {
+  const asset = await postJson<AssetGetResponse>('/api/assets-get', { assetId });
+  return `data:${asset.mimeType};base64,${asset.data}`;
+};
+
+// Builds the bank a batch at a time and downloads each question's pictures by asset id, so no response carries many images.
+export const buildQuestionBankWithBackend = async (payload: RuntimeQuestionBankRequest): Promise<QuestionBank> => {
+  const questions: QuestionBankEntry[] = [];
+  const skipped: QuestionBankSkipped[] = [];
+  let createdAt = Date.now();
+  let difficulty = payload.difficulty;
+  let choiceCount = payload.choice_count || 0;
+  // Only the first batch carries the package and references; it loads the book, so later batches name it by id.
+  const { qa_ready_package: qaReadyPackage, style_references: styleReferences, ...bookRequest } = payload;
+  let offset: number | null = 0;
+  while (offset !== null) {
+    const response: RuntimeQuestionBankResponse = await postJson<RuntimeQuestionBankResponse>(
+      '/api/runtime-question-bank',
+      offset === 0
+        ? { ...bookRequest, qa_ready_package: qaReadyPackage, style_references: styleReferences, offset }
+        : { ...bookRequest, offset }
+    );
+    createdAt = response.created_at;
+    difficulty = response.difficulty;
+    choiceCount = response.choice_count;
+    skipped.push(
+      ...response.skipped.map((item) => ({ id: item.question_id, question: item.question_text, error: item.error }))
+    );
+
+    for (const question of response.questions) {
+      try {
+        const choices = await Promise.all(
+          question.choices.map(async (choice) => ({
+            choiceId: choice.choice_id,
+            text: choice.answer_text,
+            imageUrl: choice.image_asset_id ? await fetchAssetDataUrl(choice.image_asset_id) : undefined
+          }))
+        );
+        questions.push({
+          id: question.question_id,
+          kind: question.kind,
+          question: question.question_text,
+          correctChoiceId: question.correct_choice_id,
+          choices
+        });
+      } catch (error: any) {
+        skipped.push({
+          id: question.question_id,
+          question: question.question_text,
+          error: error?.message || 'Could not download the pictures.'
+        });
+      }
+    }
+    offset = response.next_offset;
+  }
+  return { createdAt, difficulty, choiceCount, questions, skipped };
+};
+
 export const getRuntimeEvents = async (params?: { book_id?: string; qa_plan_id?: string; limit?: number }) =>
   postJson<{ count: number; events: unknown[] }>('/api/runtime-events', params || {});
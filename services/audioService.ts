@@ -1,4 +1,7 @@
+import { parsePcmFormat } from '../shared/speech.js';
+
 let audioContext: AudioContext | null = null;
+let activeSource: AudioBufferSourceNode | null = null;
 
 const getAudioContext = (): AudioContext => {
   if (!audioContext) {
@@ -37,10 +40,12 @@ const pcmToAudioBuffer = (
   return buffer;
 };
 
-export const decodePcm16AudioBase64 = (audioBase64: string): AudioBuffer => {
+// The speech model reports its PCM format in the mime type (e.g. `audio/L16;rate=24000`).
+export const decodePcm16AudioBase64 = (audioBase64: string, mimeType?: string): AudioBuffer => {
   const ctx = getAudioContext();
   const audioBytes = base64ToBytes(audioBase64);
-  return pcmToAudioBuffer(audioBytes, ctx, 24000, 1);
+  const { sampleRate, channels } = parsePcmFormat(mimeType);
+  return pcmToAudioBuffer(audioBytes, ctx, sampleRate, channels);
 };
 
 export const playAudioBuffer = async (audioBuffer: AudioBuffer): Promise<void> => {
@@ -52,10 +57,28 @@ export const playAudioBuffer = async (audioBuffer: AudioBuffer): Promise<void> =
   const source = ctx.createBufferSource();
   source.buffer = audioBuffer;
   source.connect(ctx.destination);
+  source.onended = () => {
+    if (activeSource === source) {
+      activeSource = null;
+    }
+  };
+  activeSource = source;
   source.start();
 };
 
-export const playPcm16AudioBase64 = async (audioBase64: string): Promise<void> => {
-  const audioBuffer = decodePcm16AudioBase64(audioBase64);
+export const stopAudioPlayback = (): void => {
+  if (!activeSource) {
+    return;
+  }
+  try {
+    activeSource.stop();
+  } catch {
+    // Already stopped.
+  }
+  activeSource = null;
+};
+
+export const playPcm16AudioBase64 = async (audioBase64: string, mimeType?: string): Promise<void> => {
+  const audioBuffer = decodePcm16AudioBase64(audioBase64, mimeType);
   await playAudioBuffer(audioBuffer);
 };
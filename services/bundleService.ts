@@ -0,0 +1,204 @@
+import { FileData, Publisher, QaReadyBookPackage, StoryBundle, StoryBundleEntry } from '../types';
+import { getPublishers, getStoryAssets, getStoryManifests, savePublisher, saveStory } from './storageService';
+import { migrateQaReadyPackage, validateQaReadyPackage } from '../shared/qaPackageSchema.js';
+
+export const STORY_BUNDLE_FORMAT = 'storybuddy-story-bundle';
+export const STORY_BUNDLE_VERSION = 1;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isFileData = (value: unknown): value is FileData =>
+  isObject(value) && typeof value.data === 'string' && typeof value.mimeType === 'string';
+
+// Bundles may come from an older app, so the package is migrated before it is checked against the schema.
+const readEntryPackage = (assets: Record<string, any>, path: string): { qaReadyPackage?: QaReadyBookPackage; errors: string[] } => {
+  const raw = isObject(assets.metadata) ? assets.metadata.qaReadyPackage : undefined;
+  if (raw === undefined || raw === null) {
+    return { errors: [] };
+  }
+
+  let qaReadyPackage: QaReadyBookPackage;
+  try {
+    qaReadyPackage = migrateQaReadyPackage(raw) as QaReadyBookPackage;
+  } catch (error: any) {
+    return { errors: [`${path}: ${error?.message || 'cannot be migrated'}`] };
+  }
+  const validation = validateQaReadyPackage(qaReadyPackage);
+  return validation.valid
+    ? { qaReadyPackage, errors: [] }
+    : { errors: validation.errors.map((error) => `${path}.${error.path} ${error.message}`) };
+};
+
+const validateEntry = (entry: unknown, index: number): string[] => {
+  const path = `stories[${index}]`;
+  if (!isObject(entry)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+  const { manifest, assets } = entry;
+  if (!isObject(manifest)) {
+    errors.push(`${path}.manifest is missing`);
+  } else {
+    if (typeof manifest.id !== 'string' || !manifest.id) errors.push(`${path}.manifest.id must be a non-empty string`);
+    if (typeof manifest.title !== 'string') errors.push(`${path}.manifest.title must be a string`);
+    if (typeof manifest.summary !== 'string') errors.push(`${path}.manifest.summary must be a string`);
+    if (typeof manifest.createdAt !== 'number') errors.push(`${path}.manifest.createdAt must be a number`);
+  }
+
+  if (!isObject(assets)) {
+    errors.push(`${path}.assets is missing`);
+  } else {
+    if (isObject(manifest) && assets.id !== manifest.id) errors.push(`${path}.assets.id must match manifest.id`);
+    if (typeof assets.storyBrief !== 'string') errors.push(`${path}.assets.storyBrief must be a string`);
+    if (!Array.isArray(assets.stylePrimer) || !assets.stylePrimer.every(isFileData)) {
+      errors.push(`${path}.assets.stylePrimer must be a list of images`);
+    }
+    if (assets.styleReferences !== undefined && (!Array.isArray(assets.styleReferences) || !assets.styleReferences.every(isFileData))) {
+      errors.push(`${path}.assets.styleReferences must be a list of images`);
+    }
+    if (assets.pdfData !== undefined && !isFileData(assets.pdfData)) errors.push(`${path}.assets.pdfData is malformed`);
+    if (!isObject(assets.metadata) || typeof assets.metadata.summary !== 'string') {
+      errors.push(`${path}.assets.metadata.summary must be a string`);
+    }
+    errors.push(...readEntryPackage(assets, `${path}.assets.metadata.qaReadyPackage`).errors);
+  }
+
+  return errors;
+};
+
+export const parseStoryBundle = (raw: string): StoryBundle => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error('This file is not a valid StoryBuddy bundle (invalid JSON).');
+  }
+
+  if (!isObject(parsed) || parsed.format !== STORY_BUNDLE_FORMAT) {
+    throw new Error('This file is not a StoryBuddy bundle.');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version < 1) {
+    throw new Error('Bundle version is missing.');
+  }
+  if (parsed.version > STORY_BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${parsed.version} is newer than this app supports (${STORY_BUNDLE_VERSION}). Please update StoryBuddy.`);
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(parsed.stories) || parsed.stories.length === 0) {
+    errors.push('stories must be a non-empty list');
+  } else {
+    parsed.stories.forEach((entry, index) => errors.push(...validateEntry(entry, index)));
+  }
+  if (parsed.publisher !== null && parsed.publisher !== undefined) {
+    if (!isObject(parsed.publisher) || typeof parsed.publisher.id !== 'string' || typeof parsed.publisher.name !== 'string') {
+      errors.push('publisher must have an id and name');
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid story bundle: ${errors.slice(0, 5).join('; ')}${errors.length > 5 ? '; ...' : ''}`);
+  }
+
+  return {
+    format: STORY_BUNDLE_FORMAT,
+    version: parsed.version,
+    exportedAt: typeof parsed.exportedAt === 'number' ? parsed.exportedAt : Date.now(),
+    publisher: (parsed.publisher as Publisher | undefined) || null,
+    stories: (parsed.stories as StoryBundleEntry[]).map((entry, index) => {
+      const { qaReadyPackage } = readEntryPackage(entry.assets, `stories[${index}]`);
+      return qaReadyPackage
+        ? { ...entry, assets: { ...entry.assets, metadata: { ...entry.assets.metadata, qaReadyPackage } } }
+        : entry;
+    })
+  };
+};
+
+const loadEntries = async (storyIds: string[]): Promise<StoryBundleEntry[]> => {
+  const manifests = await getStoryManifests();
+  const entries: StoryBundleEntry[] = [];
+  for (const storyId of storyIds) {
+    const manifest = manifests.find((item) => item.id === storyId);
+    const assets = await getStoryAssets(storyId);
+    if (!manifest || !assets) {
+      throw new Error('Story not found.');
+    }
+    entries.push({ manifest, assets });
+  }
+  return entries;
+};
+
+export const exportStoryBundle = async (storyId: string): Promise<StoryBundle> => {
+  const [entry] = await loadEntries([storyId]);
+  const publishers = await getPublishers();
+  return {
+    format: STORY_BUNDLE_FORMAT,
+    version: STORY_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    publisher: publishers.find((publisher) => publisher.id === entry.manifest.publisherId) || null,
+    stories: [entry]
+  };
+};
+
+export const exportPublisherBundle = async (publisherId: string): Promise<StoryBundle> => {
+  const [publishers, manifests] = await Promise.all([getPublishers(), getStoryManifests()]);
+  const publisher = publishers.find((item) => item.id === publisherId);
+  if (!publisher) {
+    throw new Error('Publisher not found.');
+  }
+
+  const storyIds = manifests.filter((manifest) => manifest.publisherId === publisherId).map((manifest) => manifest.id);
+  if (storyIds.length === 0) {
+    throw new Error('This publisher has no books to export.');
+  }
+
+  return {
+    format: STORY_BUNDLE_FORMAT,
+    version: STORY_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    publisher,
+    stories: await loadEntries(storyIds)
+  };
+};
+
+// Publishers are matched by id, then by name, so re-importing never duplicates a folder.
+// A story whose id is already in the library is imported as a new copy rather than replacing the local one.
+export const importStoryBundle = async (bundle: StoryBundle): Promise<StoryBundleEntry[]> => {
+  let publisherId: string | null = null;
+  if (bundle.publisher) {
+    const publishers = await getPublishers();
+    const existing = publishers.find((publisher) => publisher.id === bundle.publisher?.id) ||
+      publishers.find((publisher) => publisher.name.toLowerCase() === bundle.publisher?.name.toLowerCase());
+    if (existing) {
+      publisherId = existing.id;
+    } else {
+      await savePublisher(bundle.publisher);
+      publisherId = bundle.publisher.id;
+    }
+  }
+
+  const takenIds = new Set((await getStoryManifests()).map((manifest) => manifest.id));
+  const imported: StoryBundleEntry[] = [];
+  for (const entry of bundle.stories) {
+    const id = takenIds.has(entry.manifest.id) ? crypto.randomUUID() : entry.manifest.id;
+    takenIds.add(id);
+    const manifest = { ...entry.manifest, id, publisherId };
+    const assets = { ...entry.assets, id, styleReferences: entry.assets.styleReferences || [] };
+    await saveStory(manifest, assets);
+    imported.push({ manifest, assets });
+  }
+  return imported;
+};
+
+export const downloadStoryBundle = (bundle: StoryBundle, fileBaseName: string) => {
+  const slug = fileBaseName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'story';
+  const blob = new Blob([JSON.stringify(bundle)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const anchor = document.createElement('a');
+  anchor.href = url;
+  anchor.download = `${slug}.storybuddy.json`;
+  anchor.click();
+  URL.revokeObjectURL(url);
+};
@@ -1,11 +1,24 @@
-import { Publisher, StoryAssets, StoryManifest, StoredStory } from '../types';
+import {
+  ChildProfile,
+  Publisher,
+  QaReadyBookPackage,
+  SessionLogEntry,
+  StoryAssets,
+  StoryManifest,
+  StorySearchIndexEntry,
+  StoredStory
+} from '../types';
+import { migrateQaReadyPackage } from '../shared/qaPackageSchema.js';
 
 const DB_NAME = 'StoryBuddyDB';
-const DB_VERSION = 4;
+const DB_VERSION = 6;
 const LEGACY_STORE = 'stories';
 const MANIFEST_STORE = 'story_manifests';
 const ASSETS_STORE = 'story_assets';
 const PUBLISHER_STORE = 'publishers';
+const CHILD_PROFILE_STORE = 'child_profiles';
+const SESSION_LOG_STORE = 'session_logs';
+const SEARCH_INDEX_STORE = 'story_search_index';
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
@@ -53,6 +66,53 @@ const legacyToAssets = (legacy: StoredStory): StoryAssets => ({
   styleReferences: []
 });
 
+// Older packages are upgraded in memory on read; the next save persists the new version.
+const upgradeStoryAssets = (assets: StoryAssets): StoryAssets => {
+  const qaReadyPackage = assets.metadata?.qaReadyPackage;
+  if (!qaReadyPackage) {
+    return assets;
+  }
+
+  try {
+    const migrated = migrateQaReadyPackage(qaReadyPackage) as QaReadyBookPackage;
+    return migrated === qaReadyPackage
+      ? assets
+      : { ...assets, metadata: { ...assets.metadata, qaReadyPackage: migrated } };
+  } catch (error) {
+    console.warn('Failed to migrate stored qaReadyPackage', error);
+    return assets;
+  }
+};
+
+const uniqueTerms = (values: unknown[]): string[] => {
+  const seen = new Set<string>();
+  const terms: string[] = [];
+  for (const value of values) {
+    const term = String(value || '').trim();
+    if (!term || seen.has(term.toLowerCase())) continue;
+    seen.add(term.toLowerCase());
+    terms.push(term);
+  }
+  return terms;
+};
+
+const toSearchIndexEntry = (assets: StoryAssets): StorySearchIndexEntry => {
+  const facts = assets.metadata?.storyFacts;
+  return {
+    id: assets.id,
+    characters: uniqueTerms([
+      ...(facts?.characters || []),
+      ...(assets.metadata?.characters || []).map((character) => character?.name)
+    ]),
+    objects: uniqueTerms([
+      ...(facts?.objects || []),
+      ...(assets.metadata?.objects || []).map((object) => object?.name)
+    ]),
+    places: uniqueTerms(facts?.places || []),
+    worldTags: uniqueTerms(facts?.worldTags || [])
+  };
+};
+
 const normalizeManifest = (manifest: StoryManifest): StoryManifest => ({
   ...manifest,
   publisherId: manifest.publisherId ?? null
@@ -85,12 +145,27 @@ const openDB = (): Promise<IDBDatabase> => {
         db.createObjectStore(PUBLISHER_STORE, { keyPath: 'id' });
       }
 
+      if (!db.objectStoreNames.contains(CHILD_PROFILE_STORE)) {
+        db.createObjectStore(CHILD_PROFILE_STORE, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(SESSION_LOG_STORE)) {
+        const sessionLogStore = db.createObjectStore(SESSION_LOG_STORE, { keyPath: 'id' });
+        sessionLogStore.createIndex('childId', 'childId', { unique: false });
+        sessionLogStore.createIndex('childStory', ['childId', 'storyId'], { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(SEARCH_INDEX_STORE)) {
+        db.createObjectStore(SEARCH_INDEX_STORE, { keyPath: 'id' });
+      }
+
       if (!tx) {
         return;
       }
 
       const manifestStore = tx.objectStore(MANIFEST_STORE);
       const assetsStore = tx.objectStore(ASSETS_STORE);
+      const searchIndexStore = tx.objectStore(SEARCH_INDEX_STORE);
 
       if (oldVersion < 2 && db.objectStoreNames.contains(LEGACY_STORE)) {
         const oldStore = tx.objectStore(LEGACY_STORE);
@@ -101,8 +176,10 @@ const openDB = (): Promise<IDBDatabase> => {
           }
 
           const legacy = cursor.value as StoredStory;
+          const assets = legacyToAssets(legacy);
           manifestStore.put(legacyToManifest(legacy));
-          assetsStore.put(legacyToAssets(legacy));
+          assetsStore.put(assets);
+          searchIndexStore.put(toSearchIndexEntry(assets));
           cursor.continue();
         };
       }
@@ -152,9 +229,29 @@ const openDB = (): Promise<IDBDatabase> => {
           cursor.continue();
         };
       }
+
+      if (oldVersion >= 2 && oldVersion < 6) {
+        assetsStore.openCursor().onsuccess = (cursorEvent) => {
+          const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) {
+            return;
+          }
+
+          searchIndexStore.put(toSearchIndexEntry(cursor.value as StoryAssets));
+          cursor.continue();
+        };
+      }
     };
 
-    request.onsuccess = (event) => resolve((event.target as IDBOpenDBRequest).result);
+    request.onsuccess = (event) => {
+      const db = (event.target as IDBOpenDBRequest).result;
+      // Release the connection when another tab upgrades or deletes the database.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
   });
 
   return dbPromise;
@@ -163,9 +260,10 @@ const openDB = (): Promise<IDBDatabase> => {
 export const saveStory = async (manifest: StoryManifest, assets: StoryAssets): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction([MANIFEST_STORE, ASSETS_STORE], 'readwrite');
+    const tx = db.transaction([MANIFEST_STORE, ASSETS_STORE, SEARCH_INDEX_STORE], 'readwrite');
     tx.objectStore(MANIFEST_STORE).put(normalizeManifest(manifest));
     tx.objectStore(ASSETS_STORE).put(assets);
+    tx.objectStore(SEARCH_INDEX_STORE).put(toSearchIndexEntry(assets));
 
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject('Error saving story');
@@ -206,13 +304,24 @@ export const getPublishers = async (): Promise<Publisher[]> => {
   });
 };
 
+export const getStorySearchIndex = async (): Promise<StorySearchIndexEntry[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SEARCH_INDEX_STORE], 'readonly');
+    const request = tx.objectStore(SEARCH_INDEX_STORE).getAll();
+
+    request.onsuccess = () => resolve(request.result || []);
+    request.onerror = () => reject('Error getting story search index');
+  });
+};
+
 export const getStoryAssets = async (id: string): Promise<StoryAssets | null> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
     const tx = db.transaction([ASSETS_STORE], 'readonly');
     const request = tx.objectStore(ASSETS_STORE).get(id);
 
-    request.onsuccess = () => resolve(request.result || null);
+    request.onsuccess = () => resolve(request.result ? upgradeStoryAssets(request.result) : null);
     request.onerror = () => reject('Error getting story assets');
   });
 };
@@ -247,11 +356,80 @@ export const updateStoryPublisher = async (id: string, publisherId: string | nul
 export const deleteStory = async (id: string): Promise<void> => {
   const db = await openDB();
   return new Promise((resolve, reject) => {
-    const tx = db.transaction([MANIFEST_STORE, ASSETS_STORE], 'readwrite');
+    const tx = db.transaction([MANIFEST_STORE, ASSETS_STORE, SEARCH_INDEX_STORE], 'readwrite');
     tx.objectStore(MANIFEST_STORE).delete(id);
     tx.objectStore(ASSETS_STORE).delete(id);
+    tx.objectStore(SEARCH_INDEX_STORE).delete(id);
 
     tx.oncomplete = () => resolve();
     tx.onerror = () => reject('Error deleting story');
   });
 };
+
+export const saveChildProfile = async (profile: ChildProfile): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([CHILD_PROFILE_STORE], 'readwrite');
+    tx.objectStore(CHILD_PROFILE_STORE).put(profile);
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject('Error saving child profile');
+  });
+};
+
+export const getChildProfiles = async (): Promise<ChildProfile[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([CHILD_PROFILE_STORE], 'readonly');
+    const request = tx.objectStore(CHILD_PROFILE_STORE).getAll();
+
+    request.onsuccess = () => resolve((request.result || []).sort((a, b) => a.name.localeCompare(b.name)));
+    request.onerror = () => reject('Error getting child profiles');
+  });
+};
+
+export const deleteChildProfile = async (id: string): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([CHILD_PROFILE_STORE, SESSION_LOG_STORE], 'readwrite');
+    tx.objectStore(CHILD_PROFILE_STORE).delete(id);
+
+    const request = tx.objectStore(SESSION_LOG_STORE).index('childId').openCursor(IDBKeyRange.only(id));
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        return;
+      }
+      cursor.delete();
+      cursor.continue();
+    };
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject('Error deleting child profile');
+  });
+};
+
+export const saveSessionLogEntry = async (entry: SessionLogEntry): Promise<void> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SESSION_LOG_STORE], 'readwrite');
+    tx.objectStore(SESSION_LOG_STORE).put(entry);
+
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject('Error saving session log entry');
+  });
+};
+
+export const getSessionLog = async (childId: string, storyId?: string): Promise<SessionLogEntry[]> => {
+  const db = await openDB();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction([SESSION_LOG_STORE], 'readonly');
+    const store = tx.objectStore(SESSION_LOG_STORE);
+    const request = storyId
+      ? store.index('childStory').getAll(IDBKeyRange.only([childId, storyId]))
+      : store.index('childId').getAll(IDBKeyRange.only(childId));
+
+    request.onsuccess = () => resolve((request.result || []).sort((a, b) => a.createdAt - b.createdAt));
+    request.onerror = () => reject('Error getting session log');
+  });
+};
@@ -0,0 +1,45 @@
+// Machine-readable error envelope shared by every api/ handler: { error: { code, message, retryable, details } }.
+export const API_ERROR_CODES = {
+  METHOD_NOT_ALLOWED: { status: 405, retryable: false },
+  INVALID_JSON: { status: 400, retryable: false },
+  VALIDATION_FAILED: { status: 400, retryable: false },
+  NOT_FOUND: { status: 404, retryable: false },
+  ASSET_MISSING: { status: 409, retryable: false },
+  STORY_NOT_READY: { status: 422, retryable: false },
+  PAYLOAD_TOO_LARGE: { status: 413, retryable: false },
+  UPSTREAM_RATE_LIMITED: { status: 429, retryable: true },
+  UPSTREAM_UNAVAILABLE: { status: 503, retryable: true },
+  CONFIG_ERROR: { status: 500, retryable: false },
+  INTERNAL: { status: 500, retryable: true }
+};
+
+export const createApiError = (code, message, details = undefined) => {
+  const error = new Error(message);
+  error.code = API_ERROR_CODES[code] ? code : 'INTERNAL';
+  if (details !== undefined) {
+    error.details = details;
+  }
+  return error;
+};
+
+// Model SDK errors only carry status text in the message, so they are classified here once.
+const classifyUnknownError = (error) => {
+  const message = String(error?.message || error || '');
+  if (message.includes('429') || message.includes('RESOURCE_EXHAUSTED')) return 'UPSTREAM_RATE_LIMITED';
+  if (message.includes('503') || message.includes('Overloaded') || message.includes('UNAVAILABLE')) return 'UPSTREAM_UNAVAILABLE';
+  return 'INTERNAL';
+};
+
+export const toApiErrorResponse = (error, fallbackMessage = 'Request failed') => {
+  const code = API_ERROR_CODES[error?.code] ? error.code : classifyUnknownError(error);
+  const { status, retryable } = API_ERROR_CODES[code];
+  const body = {
+    code,
+    message: String(error?.message || '') || fallbackMessage,
+    retryable
+  };
+  if (error?.details !== undefined) {
+    body.details = error.details;
+  }
+  return { status, body };
+};
@@ -0,0 +1,49 @@
+// Content-addressed ids for uploaded assets and cached generated images.
+const ASSET_ID_PATTERN = /^asset_[0-9a-f]{16}$/;
+
+export const hashStringFast = (value) => {
+  const input = String(value || '');
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i += 1) {
+    hash ^= input.charCodeAt(i);
+    hash +=
+      (hash << 1) +
+      (hash << 4) +
+      (hash << 7) +
+      (hash << 8) +
+      (hash << 24);
+  }
+  return `h${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
+
+export const styleRefFingerprint = (item) => {
+  if (!item?.data || !item?.mimeType) return '';
+  const middleStart = Math.max(0, Math.floor(item.data.length / 2) - 24);
+  return [
+    item.mimeType,
+    item.data.length,
+    item.data.slice(0, 40),
+    item.data.slice(middleStart, middleStart + 48),
+    item.data.slice(-40)
+  ].join(':');
+};
+
+// The fingerprint hash alone is only 32 bits, so the full payload hash is appended to keep ids collision-safe.
+export const toAssetId = (item) => {
+  const fingerprint = styleRefFingerprint(item);
+  if (!fingerprint) return '';
+  return `asset_${hashStringFast(fingerprint).slice(1)}${hashStringFast(item.data).slice(1)}`;
+};
+
+// Generated images are reused when the model, prompt and reference images all match.
+export const toImageCacheKey = ({ model, aspectRatio, prompt, refs }) => {
+  const refIds = (Array.isArray(refs) ? refs : []).map((ref) => toAssetId(ref) || 'missing').join('|');
+  return [
+    'img_',
+    hashStringFast(`${model}:${aspectRatio}`).slice(1),
+    hashStringFast(prompt).slice(1),
+    hashStringFast(refIds).slice(1)
+  ].join('');
+};
+
+export const isAssetId = (value) => typeof value === 'string' && ASSET_ID_PATTERN.test(value);
@@ -0,0 +1,15 @@
+// How many answer choices a question offers (two to six) and the letter id of each.
+export const MIN_CHOICE_COUNT = 2;
+export const MAX_CHOICE_COUNT = 6;
+export const DEFAULT_CHOICE_COUNT = 3;
+
+const CHOICE_IDS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export const normalizeChoiceCount = (value) => {
+  if (value === null || value === undefined || value === '') return DEFAULT_CHOICE_COUNT;
+  const count = Math.round(Number(value));
+  if (!Number.isFinite(count)) return DEFAULT_CHOICE_COUNT;
+  return Math.min(MAX_CHOICE_COUNT, Math.max(MIN_CHOICE_COUNT, count));
+};
+
+export const getChoiceIds = (choiceCount) => CHOICE_IDS.slice(0, normalizeChoiceCount(choiceCount));
@@ -0,0 +1,31 @@
+// Difficulty levels and how each one shapes the wrong answers offered with a question.
+export const DIFFICULTIES = ['easy', 'medium', 'hard'];
+// Turns without an adaptive level keep the original plausible-but-wrong distractors.
+export const DEFAULT_DIFFICULTY = 'medium';
+// The runtime endpoints have always defaulted to `easy` in their planning prompt.
+export const DEFAULT_RUNTIME_DIFFICULTY = 'easy';
+
+// distractorTargetSupport: story support (0-100) that wrong answers are ranked towards.
+// blendSupportFloor: wrong answers at or above this support are drawn into the story world.
+const DIFFICULTY_PROFILES = {
+  easy: {
+    distractorTargetSupport: 0,
+    blendSupportFloor: 70,
+    promptRule: 'Wrong options must be clearly wrong: things that are not in this story at all.'
+  },
+  medium: {
+    distractorTargetSupport: 35,
+    blendSupportFloor: 55,
+    promptRule: 'Wrong options should be plausible but still incorrect.'
+  },
+  hard: {
+    distractorTargetSupport: 70,
+    blendSupportFloor: 40,
+    promptRule: 'Wrong options should be close calls: other characters, places or things from this story that do not answer the question.'
+  }
+};
+
+export const normalizeDifficulty = (value) =>
+  DIFFICULTIES.includes(value) ? value : DEFAULT_DIFFICULTY;
+
+export const getDifficultyProfile = (difficulty) => DIFFICULTY_PROFILES[normalizeDifficulty(difficulty)];
@@ -0,0 +1,46 @@
+// Entity catalog rules: reference image ids, visual-asset roles and which main characters need gold refs.
+export const MAIN_CHARACTER_LIMIT = 4;
+export const MISSING_GOLD_REFS_WARNING = 'Main characters are missing gold refs.';
+
+const toNameKey = (value) => String(value || '').trim().toLowerCase();
+
+export const toImageIdFromStyleRefIndex = (index) => `img_${String(index + 1).padStart(4, '0')}`;
+
+// Characters list their gold face and body refs first, so the first two assets take those roles.
+// `toImageId` returns undefined for indexes that have no stored image; those are dropped.
+export const toEntityVisualAssets = (indexes, toImageId, goldRoles) =>
+  indexes
+    .map((index, position) => ({
+      imageId: toImageId(index),
+      role: goldRoles && position === 0 ? 'gold_face' : goldRoles && position === 1 ? 'gold_body' : 'reference',
+      styleRefIndex: index
+    }))
+    .filter((asset) => Boolean(asset.imageId));
+
+const hasGoldRefs = (record) => Boolean(record.goldRefs?.face || record.goldRefs?.bootstrap);
+
+// Main characters are the first few that the story illustrates (any that are only mentioned fall back in
+// when none are illustrated). Returns the manifest's gold-ref percent and entity checklist fields.
+export const summarizeEntityCatalog = (entityRecords, storyFacts) => {
+  const characterRecords = entityRecords.filter((record) => record.type === 'character');
+  const mainCharacters = characterRecords.filter((record) =>
+    (storyFacts?.characterCatalog || []).find((entry) => toNameKey(entry.name) === toNameKey(record.name))?.source !== 'mentioned'
+  );
+  const mainCharacterSet = (mainCharacters.length > 0 ? mainCharacters : characterRecords).slice(0, MAIN_CHARACTER_LIMIT);
+  const mainCharactersWithGold = mainCharacterSet.filter(hasGoldRefs);
+
+  return {
+    hasGoldRefsPercent: mainCharacterSet.length > 0
+      ? Math.round((mainCharactersWithGold.length / mainCharacterSet.length) * 100)
+      : 0,
+    missingMainGoldRefs: mainCharacterSet.length > 0 && mainCharactersWithGold.length === 0,
+    checklist: {
+      entityCatalog: entityRecords.length > 0,
+      mainCharactersGoldRefs: mainCharacterSet.length === 0 || mainCharactersWithGold.length > 0,
+      allRecurringCharactersGoldRefs: characterRecords.length > 0 && characterRecords.every(hasGoldRefs),
+      keyObjectsGoldRefs:
+        (storyFacts?.objects || []).length === 0 ||
+        (storyFacts?.objectImageMap || []).some((entry) => (entry.styleRefIndexes || []).length > 0)
+    }
+  };
+};
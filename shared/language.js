@@ -0,0 +1,122 @@
+import { TTS_AUTO_LANGUAGE } from './speech.js';
+
+// Story languages: labels, text direction, speech codes and how answers are phrased in each.
+export const DEFAULT_STORY_LANGUAGE = 'en';
+
+/**
+ * `wherePattern` spots place questions so answers read as places ("In the park").
+ * `placePrefix` is added to a bare place answer; `articlePattern` strips a leading article first.
+ * Hebrew attaches "in" to the noun itself, so it gets no prefix.
+ */
+const LANGUAGE_PROFILES = {
+  en: {
+    label: 'English',
+    englishName: 'English',
+    dir: 'ltr',
+    ttsLanguageCode: 'en-US',
+    wherePattern: /^\s*where(?![\p{L}])/iu,
+    placePrefixPattern: /^(in|on|at)\s+/iu,
+    placePrefix: 'In',
+    articlePattern: /^(a|an|the)\s+/iu,
+    notInBook: 'Not in this book',
+    stopWords: ['a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'the', 'to', 'with'],
+    fallbackPlaces: ['In space', 'In the desert', 'Under the sea', 'On the moon', 'On a snowy mountain'],
+    fallbackGeneric: ['Maybe', 'No idea', 'Something else', 'I am not sure', 'Nobody knows']
+  },
+  es: {
+    label: 'Español',
+    englishName: 'Spanish',
+    dir: 'ltr',
+    ttsLanguageCode: 'es-US',
+    wherePattern: /^\s*¿?\s*(a\s*)?d[oó]nde(?![\p{L}])/iu,
+    placePrefixPattern: /^(en|sobre|bajo|debajo de)\s+/iu,
+    placePrefix: 'En',
+    articlePattern: null,
+    notInBook: 'No está en este libro',
+    stopWords: ['a', 'al', 'de', 'del', 'el', 'en', 'es', 'la', 'las', 'lo', 'los', 'o', 'por', 'que', 'se', 'su', 'un', 'una', 'y', 'con', 'para'],
+    fallbackPlaces: ['En el espacio', 'En el desierto', 'Bajo el mar', 'En la luna', 'En una montaña nevada'],
+    fallbackGeneric: ['Tal vez', 'No sé', 'Otra cosa', 'No estoy seguro', 'Nadie sabe']
+  },
+  he: {
+    label: 'עברית',
+    englishName: 'Hebrew',
+    dir: 'rtl',
+    ttsLanguageCode: TTS_AUTO_LANGUAGE,
+    wherePattern: /^\s*(איפה|היכן|לאן|מאיפה)(?![\p{L}])/u,
+    placePrefixPattern: /^(על|ליד|מתחת)\s+/u,
+    placePrefix: null,
+    articlePattern: null,
+    notInBook: 'לא בספר הזה',
+    stopWords: ['של', 'את', 'על', 'עם', 'זה', 'זאת', 'הוא', 'היא', 'הם', 'הן', 'גם', 'כי', 'אבל', 'או', 'מה', 'מי', 'אל', 'לא', 'כן'],
+    fallbackPlaces: ['בחלל', 'במדבר', 'מתחת לים', 'על הירח', 'על הר מושלג'],
+    fallbackGeneric: ['אולי', 'אין לי מושג', 'משהו אחר', 'אני לא בטוח', 'אף אחד לא יודע']
+  },
+  ar: {
+    label: 'العربية',
+    englishName: 'Arabic',
+    dir: 'rtl',
+    ttsLanguageCode: 'ar-EG',
+    wherePattern: /^\s*(إلى\s+)?(أين|اين|وين)(?![\p{L}])/u,
+    placePrefixPattern: /^(في|على|تحت|عند)\s+/u,
+    placePrefix: 'في',
+    articlePattern: null,
+    notInBook: 'ليس في هذا الكتاب',
+    stopWords: ['في', 'من', 'على', 'إلى', 'الى', 'عن', 'مع', 'هذا', 'هذه', 'هو', 'هي', 'و', 'أو', 'ثم', 'لا', 'ما', 'أن', 'كان'],
+    fallbackPlaces: ['في الفضاء', 'في الصحراء', 'تحت البحر', 'على القمر', 'على جبل مثلج'],
+    fallbackGeneric: ['ربما', 'لا أعرف', 'شيء آخر', 'لست متأكدا', 'لا أحد يعرف']
+  }
+};
+
+export const STORY_LANGUAGES = Object.keys(LANGUAGE_PROFILES);
+
+export const STORY_LANGUAGE_LABELS = Object.fromEntries(
+  Object.entries(LANGUAGE_PROFILES).map(([code, profile]) => [code, profile.label])
+);
+
+export const normalizeStoryLanguage = (value) => {
+  const code = String(value || '').trim().toLowerCase().split(/[-_]/)[0];
+  return LANGUAGE_PROFILES[code] ? code : DEFAULT_STORY_LANGUAGE;
+};
+
+export const getLanguageProfile = (language) => LANGUAGE_PROFILES[normalizeStoryLanguage(language)];
+
+export const getTextDirection = (language) => getLanguageProfile(language).dir;
+
+export const getTtsLanguageCode = (language) => getLanguageProfile(language).ttsLanguageCode;
+
+// A child's preferred accent ("es-US") is kept while it matches the session language; otherwise the session wins.
+export const resolveSessionTtsLanguageCode = (preferredCode, language) => {
+  const sessionLanguage = normalizeStoryLanguage(language);
+  const preferredLanguage = String(preferredCode || '').toLowerCase().split('-')[0];
+  return preferredCode && preferredLanguage === sessionLanguage ? preferredCode : getTtsLanguageCode(sessionLanguage);
+};
+
+const STOP_WORDS_BY_LANGUAGE = Object.fromEntries(
+  Object.entries(LANGUAGE_PROFILES).map(([code, profile]) => [code, new Set(profile.stopWords)])
+);
+
+// Only the story language's words are dropped, so a name that is a stop word elsewhere ("Del Rio") survives.
+export const getStopWords = (language) => STOP_WORDS_BY_LANGUAGE[normalizeStoryLanguage(language)];
+
+export const stripPlacePrefix = (value, language) =>
+  String(value || '').replace(getLanguageProfile(language).placePrefixPattern, '');
+
+/**
+ * Lower-cases, drops accents, niqqud and harakat, and keeps letters and digits of any script.
+ * Used wherever text is compared, so Hebrew, Arabic and Spanish answers are not reduced to nothing.
+ */
+export const foldForMatch = (value) =>
+  String(value || '')
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// English prompts stay as they were; other languages get an explicit instruction.
+export const buildLanguagePromptRule = (language, subject) => {
+  const profile = getLanguageProfile(language);
+  if (normalizeStoryLanguage(language) === DEFAULT_STORY_LANGUAGE) return '';
+  return `- Language: write ${subject} in ${profile.englishName} (${profile.label}). Keep character names as the book writes them. Do not translate into English.`;
+};
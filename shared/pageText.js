@@ -0,0 +1,73 @@
+// Per-page book text: record shape, size limits and the text quality score.
+export const MAX_PAGES_TEXT_ITEMS = 160;
+export const MAX_PAGE_TEXT_CHARS = 4000;
+
+export const LOW_TEXT_QUALITY_WARNING = 'Low text quality detected. OCR may be required for strong Q&A accuracy.';
+
+// Pages with fewer characters than this count as near-empty when scoring text quality.
+export const NEAR_EMPTY_PAGE_CHARS = 24;
+
+const normalizePhrase = (value) => String(value || '').trim().replace(/\s+/g, ' ');
+
+export const toPageTextRecord = (pageNum, rawText, cleanText = rawText) => {
+  const clean = normalizePhrase(cleanText);
+  return {
+    pageNum,
+    rawText: String(rawText || '').trim(),
+    cleanText: clean,
+    charCount: clean.length
+  };
+};
+
+// Accepts model output (snake_case) or stored records; drops invalid and repeated page numbers.
+export const normalizePagesTextEntries = (pages) => {
+  const normalized = [];
+  const seen = new Set();
+
+  for (const entry of Array.isArray(pages) ? pages : []) {
+    const pageNum = Number(entry?.page_num ?? entry?.pageNum);
+    if (!Number.isInteger(pageNum) || pageNum <= 0) continue;
+    if (seen.has(pageNum)) continue;
+
+    const rawText = String(entry?.raw_text ?? entry?.rawText ?? '').trim();
+    seen.add(pageNum);
+    normalized.push(toPageTextRecord(pageNum, rawText, entry?.clean_text ?? entry?.cleanText ?? rawText));
+  }
+
+  return normalized.sort((a, b) => a.pageNum - b.pageNum).slice(0, MAX_PAGES_TEXT_ITEMS);
+};
+
+export const evaluateTextQuality = (pagesText) => {
+  const pages = Array.isArray(pagesText) ? pagesText : [];
+  if (pages.length === 0) {
+    return {
+      textQuality: 'poor',
+      nearEmptyPercent: 1,
+      avgCharsPerPage: 0
+    };
+  }
+
+  const totalChars = pages.reduce((sum, page) => sum + Number(page?.charCount || 0), 0);
+  const nearEmptyPages = pages.filter((page) => Number(page?.charCount || 0) < NEAR_EMPTY_PAGE_CHARS).length;
+  const nearEmptyPercent = nearEmptyPages / Math.max(1, pages.length);
+  const avgCharsPerPage = totalChars / Math.max(1, pages.length);
+
+  let textQuality = 'poor';
+  if (avgCharsPerPage >= 120 && nearEmptyPercent <= 0.25) {
+    textQuality = 'good';
+  } else if (avgCharsPerPage >= 40 && nearEmptyPercent <= 0.65) {
+    textQuality = 'mixed';
+  }
+
+  return {
+    textQuality,
+    nearEmptyPercent,
+    avgCharsPerPage
+  };
+};
+
+export const joinPagesText = (pagesText) =>
+  (Array.isArray(pagesText) ? pagesText : [])
+    .map((entry) => entry?.cleanText)
+    .filter(Boolean)
+    .join('\n\n');
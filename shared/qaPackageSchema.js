@@ -0,0 +1,241 @@
+import { createApiError } from './apiErrors.js';
+import { field, listOf, optional, validateSchema } from './schema.js';
+
+export const QA_PACKAGE_VERSION = '1.1.0';
+
+const LEGACY_SNAKE_CASE_VERSION = '0.0.0';
+const FIRST_TRACKED_VERSION = '1.0.0';
+const TEXT_QUALITIES = ['good', 'mixed', 'poor'];
+const ENTITY_TYPES = ['character', 'object', 'location', 'scene'];
+const VISUAL_ASSET_ROLES = ['gold_face', 'gold_body', 'gold_bootstrap', 'reference'];
+
+const STRING_LIST = listOf(field('string'));
+
+export const QA_PACKAGE_SCHEMA = field('object', {
+  fields: {
+    version: field('string', { minLength: 1 }),
+    createdAt: field('number'),
+    manifest: field('object', {
+      fields: {
+        bookId: field('string', { minLength: 1 }),
+        title: field('string'),
+        author: optional(field('string')),
+        fileHash: field('string'),
+        pageCount: field('integer', { min: 0 }),
+        originalFileSize: field('number', { min: 0 }),
+        mimeType: field('string'),
+        textQuality: field('string', { enum: TEXT_QUALITIES }),
+        validationWarnings: STRING_LIST,
+        normalizedAt: field('number')
+      }
+    }),
+    pagesText: listOf(field('object', {
+      fields: {
+        pageNum: field('integer', { min: 1 }),
+        rawText: field('string'),
+        cleanText: field('string'),
+        charCount: field('integer', { min: 0 })
+      }
+    })),
+    pagesImages: listOf(field('object', {
+      fields: {
+        pageNum: field('integer', { min: 1 }),
+        imageId: field('string', { minLength: 1 }),
+        path: field('string'),
+        styleRefIndex: field('integer', { min: 0 }),
+        width: optional(field('number', { min: 0 })),
+        height: optional(field('number', { min: 0 }))
+      }
+    })),
+    illustrationPages: listOf(field('integer', { min: 1 })),
+    styleBible: field('object', {
+      fields: {
+        id: field('string', { minLength: 1 }),
+        globalStyleDescription: field('string'),
+        palette: STRING_LIST,
+        lineQuality: field('string'),
+        lighting: field('string'),
+        compositionHabits: STRING_LIST,
+        styleReferenceImageIds: STRING_LIST
+      }
+    }),
+    entityRecords: listOf(field('object', {
+      fields: {
+        entityId: field('string', { minLength: 1 }),
+        name: field('string', { minLength: 1 }),
+        aliases: STRING_LIST,
+        type: field('string', { enum: ENTITY_TYPES }),
+        canonicalDescription: field('string'),
+        mustHaveTraits: STRING_LIST,
+        negativeTraits: STRING_LIST,
+        styleTags: STRING_LIST,
+        visualAssets: listOf(field('object', {
+          fields: {
+            imageId: field('string', { minLength: 1 }),
+            role: field('string', { enum: VISUAL_ASSET_ROLES }),
+            styleRefIndex: optional(field('integer', { min: 0 }))
+          }
+        })),
+        goldRefs: optional(field('object', {
+          fields: {
+            face: optional(field('string')),
+            body: optional(field('string')),
+            bootstrap: optional(field('string'))
+          }
+        }))
+      }
+    })),
+    interactionPairs: listOf(field('object', {
+      fields: {
+        triggerTerms: STRING_LIST,
+        primary: field('string', { minLength: 1 }),
+        counterpart: field('string', { minLength: 1 })
+      }
+    })),
+    qaReadyManifest: field('object', {
+      fields: {
+        styleBibleId: field('string'),
+        entityRecordsId: field('string'),
+        pageTextCount: field('integer', { min: 0 }),
+        pageImageCount: field('integer', { min: 0 }),
+        illustrationPageCount: field('integer', { min: 0 }),
+        textQuality: field('string', { enum: TEXT_QUALITIES }),
+        hasGoldRefsPercent: field('number', { min: 0, max: 100 }),
+        checklist: field('object', {
+          fields: {
+            normalizedPdf: field('boolean'),
+            pageImages: field('boolean'),
+            styleBible: field('boolean'),
+            entityCatalog: field('boolean'),
+            mainCharactersGoldRefs: field('boolean'),
+            cleanTextPerPage: field('boolean'),
+            allRecurringCharactersGoldRefs: field('boolean'),
+            keyObjectsGoldRefs: field('boolean')
+          }
+        }),
+        notes: STRING_LIST
+      }
+    })
+  }
+});
+
+// Extra fields are allowed so newer builders can add data without breaking older readers.
+export const validateQaReadyPackage = (qaReadyPackage) => validateSchema(QA_PACKAGE_SCHEMA, qaReadyPackage);
+
+const compareVersions = (a, b) => {
+  const left = String(a).split('.').map((part) => Number(part) || 0);
+  const right = String(b).split('.').map((part) => Number(part) || 0);
+  for (let index = 0; index < Math.max(left.length, right.length); index += 1) {
+    const diff = (left[index] || 0) - (right[index] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+const isSnakeCasePackage = (payload) =>
+  !payload?.entityRecords && Boolean(payload?.entity_records || payload?.style_bible || payload?.qa_ready_manifest);
+
+export const getQaPackageVersion = (qaReadyPackage) => {
+  if (isSnakeCasePackage(qaReadyPackage)) {
+    return LEGACY_SNAKE_CASE_VERSION;
+  }
+  return typeof qaReadyPackage?.version === 'string' && qaReadyPackage.version
+    ? qaReadyPackage.version
+    : FIRST_TRACKED_VERSION;
+};
+
+const toCamelCase = (key) => key.replace(/_([a-z0-9])/g, (_, char) => char.toUpperCase());
+
+const camelizeKeys = (value) => {
+  if (Array.isArray(value)) {
+    return value.map(camelizeKeys);
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [toCamelCase(key), camelizeKeys(item)]));
+};
+
+const asList = (value) => (Array.isArray(value) ? value : []);
+
+// 0.0.0 -> 1.0.0: snake_case exports from the model pipeline become the camelCase package shape.
+const migrateSnakeCasePackage = (payload) => {
+  const camelized = camelizeKeys(payload);
+  const pagesText = asList(camelized.pagesText);
+  return {
+    ...camelized,
+    createdAt: camelized.createdAt || Date.now(),
+    manifest: camelized.manifest || {
+      bookId: camelized.bookId || '',
+      title: camelized.title || '',
+      fileHash: camelized.bookPackageHash || '',
+      pageCount: pagesText.length,
+      originalFileSize: 0,
+      mimeType: 'application/pdf',
+      textQuality: camelized.qaReadyManifest?.textQuality || 'mixed',
+      validationWarnings: [],
+      normalizedAt: Date.now()
+    },
+    pagesText,
+    pagesImages: asList(camelized.pagesImages),
+    illustrationPages: asList(camelized.illustrationPages),
+    styleBible: camelized.styleBible || {},
+    entityRecords: asList(camelized.entityRecords),
+    qaReadyManifest: camelized.qaReadyManifest || {}
+  };
+};
+
+// 1.0.0 -> 1.1.0: interactionPairs and every list field became required.
+const fillRequiredLists = (qaReadyPackage) => ({
+  ...qaReadyPackage,
+  manifest: qaReadyPackage.manifest && {
+    ...qaReadyPackage.manifest,
+    validationWarnings: asList(qaReadyPackage.manifest.validationWarnings)
+  },
+  pagesText: asList(qaReadyPackage.pagesText).map((page) => ({
+    ...page,
+    charCount: Number.isInteger(page?.charCount) ? page.charCount : String(page?.cleanText || '').length
+  })),
+  pagesImages: asList(qaReadyPackage.pagesImages),
+  illustrationPages: asList(qaReadyPackage.illustrationPages),
+  entityRecords: asList(qaReadyPackage.entityRecords).map((record) => ({
+    ...record,
+    aliases: asList(record?.aliases),
+    mustHaveTraits: asList(record?.mustHaveTraits),
+    negativeTraits: asList(record?.negativeTraits),
+    styleTags: asList(record?.styleTags),
+    visualAssets: asList(record?.visualAssets)
+  })),
+  interactionPairs: asList(qaReadyPackage.interactionPairs),
+  qaReadyManifest: qaReadyPackage.qaReadyManifest && {
+    ...qaReadyPackage.qaReadyManifest,
+    notes: asList(qaReadyPackage.qaReadyManifest.notes)
+  }
+});
+
+const QA_PACKAGE_MIGRATIONS = [
+  { from: LEGACY_SNAKE_CASE_VERSION, to: FIRST_TRACKED_VERSION, migrate: migrateSnakeCasePackage },
+  { from: FIRST_TRACKED_VERSION, to: QA_PACKAGE_VERSION, migrate: fillRequiredLists }
+];
+
+// Returns the same object when the package is already current, so callers can skip rewrites.
+export const migrateQaReadyPackage = (qaReadyPackage) => {
+  let version = getQaPackageVersion(qaReadyPackage);
+  if (compareVersions(version, QA_PACKAGE_VERSION) > 0) {
+    throw createApiError('VALIDATION_FAILED', `qaReadyPackage version ${version} is newer than supported version ${QA_PACKAGE_VERSION}.`);
+  }
+
+  let current = qaReadyPackage;
+  while (compareVersions(version, QA_PACKAGE_VERSION) < 0) {
+    const step = QA_PACKAGE_MIGRATIONS.find(
+      (migration) => compareVersions(migration.from, version) <= 0 && compareVersions(version, migration.to) < 0
+    );
+    if (!step) {
+      throw createApiError('VALIDATION_FAILED', `No migration path for qaReadyPackage version ${version}.`);
+    }
+    current = { ...step.migrate(current), version: step.to };
+    version = step.to;
+  }
+
+  return current;
+};
@@ -0,0 +1,84 @@
+// Minimal declarative schemas shared by the package validator and the api request parsers.
+const MAX_VALIDATION_ERRORS = 50;
+
+export const field = (type, options = {}) => ({ type, required: true, ...options });
+export const optional = (spec) => ({ ...spec, required: false });
+export const listOf = (items, options = {}) => field('array', { items, ...options });
+
+const describeType = (value) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const matchesType = (type, value) => {
+  if (type === 'array') return Array.isArray(value);
+  if (type === 'object') return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+  if (type === 'integer') return Number.isInteger(value);
+  if (type === 'number') return typeof value === 'number' && Number.isFinite(value);
+  return typeof value === type;
+};
+
+const validateValue = (spec, value, path, errors) => {
+  if (errors.length >= MAX_VALIDATION_ERRORS) return;
+
+  if (value === undefined || value === null) {
+    if (spec.required) {
+      errors.push({ path, message: 'is required' });
+    }
+    return;
+  }
+
+  if (!matchesType(spec.type, value)) {
+    errors.push({ path, message: `must be ${spec.type === 'integer' ? 'an' : 'a'} ${spec.type} (got ${describeType(value)})` });
+    return;
+  }
+
+  if (spec.enum && !spec.enum.includes(value)) {
+    errors.push({ path, message: `must be one of: ${spec.enum.join(', ')}` });
+  }
+  if (typeof spec.minLength === 'number' && String(value).trim().length < spec.minLength) {
+    errors.push({ path, message: 'must not be empty' });
+  }
+  if (typeof spec.maxLength === 'number' && String(value).length > spec.maxLength) {
+    errors.push({ path, message: `must be at most ${spec.maxLength} characters` });
+  }
+  if (typeof spec.maxItems === 'number' && Array.isArray(value) && value.length > spec.maxItems) {
+    errors.push({ path, message: `must have at most ${spec.maxItems} items` });
+  }
+  if (typeof spec.min === 'number' && value < spec.min) {
+    errors.push({ path, message: `must be >= ${spec.min}` });
+  }
+  if (typeof spec.max === 'number' && value > spec.max) {
+    errors.push({ path, message: `must be <= ${spec.max}` });
+  }
+
+  if (spec.type === 'array' && spec.items) {
+    value.forEach((item, index) => validateValue(spec.items, item, `${path}[${index}]`, errors));
+  }
+  if (spec.type === 'object' && spec.fields) {
+    for (const [key, fieldSpec] of Object.entries(spec.fields)) {
+      validateValue(fieldSpec, value[key], path ? `${path}.${key}` : key, errors);
+    }
+  }
+  // `dependencies: { a: ['b'] }` makes `b` required whenever `a` is present.
+  if (spec.type === 'object' && spec.dependencies) {
+    for (const [key, requiredKeys] of Object.entries(spec.dependencies)) {
+      if (value[key] === undefined || value[key] === null) continue;
+      for (const requiredKey of requiredKeys) {
+        if (value[requiredKey] === undefined || value[requiredKey] === null) {
+          errors.push({ path: path ? `${path}.${requiredKey}` : requiredKey, message: `is required with ${key}` });
+        }
+      }
+    }
+  }
+};
+
+export const validateSchema = (spec, value) => {
+  const errors = [];
+  validateValue(spec, value, '', errors);
+  return {
+    valid: errors.length === 0,
+    errors: errors.map((error) => ({ ...error, path: error.path || '(root)' }))
+  };
+};
@@ -0,0 +1,78 @@
+// Text-to-speech voices, speaking rates and languages, plus the PCM format read from a TTS mime type.
+export const DEFAULT_TTS_MODEL = 'gemini-2.5-flash-preview-tts';
+
+export const TTS_VOICES = ['Kore', 'Puck', 'Aoede', 'Leda', 'Charon', 'Fenrir', 'Orus', 'Zephyr'];
+export const DEFAULT_TTS_VOICE = 'Kore';
+
+export const TTS_SPEAKING_RATES = ['slow', 'normal', 'fast'];
+export const DEFAULT_TTS_SPEAKING_RATE = 'normal';
+
+// Languages the speech model accepts as `languageCode`; labels are for the settings picker.
+export const TTS_LANGUAGES = {
+  'en-US': 'English (US)',
+  'es-US': 'Spanish',
+  'fr-FR': 'French',
+  'de-DE': 'German',
+  'it-IT': 'Italian',
+  'pt-BR': 'Portuguese',
+  'nl-NL': 'Dutch',
+  'pl-PL': 'Polish',
+  'ar-EG': 'Arabic',
+  'hi-IN': 'Hindi',
+  'ja-JP': 'Japanese',
+  'ko-KR': 'Korean'
+};
+export const DEFAULT_TTS_LANGUAGE = 'en-US';
+// Sends no `languageCode`, so the model reads the language from the text (used for Hebrew, which has no locale).
+export const TTS_AUTO_LANGUAGE = 'auto';
+export const TTS_LANGUAGE_CODES = [...Object.keys(TTS_LANGUAGES), TTS_AUTO_LANGUAGE];
+
+// Option labels are short, so speech stays snappy; page narration needs a whole page.
+export const TTS_PURPOSES = ['option', 'narration'];
+export const MAX_TTS_WORDS_BY_PURPOSE = {
+  option: 10,
+  narration: 320
+};
+
+// The speech model takes pace as a spoken style instruction rather than a numeric parameter.
+export const SPEAKING_RATE_INSTRUCTIONS = {
+  slow: 'Say slowly and clearly, with small pauses',
+  normal: '',
+  fast: 'Say at a brisk, lively pace'
+};
+
+const DEFAULT_PCM_SAMPLE_RATE = 24000;
+
+const pickSetting = (value, allowed, fallback) => (allowed.includes(value) ? value : fallback);
+
+export const normalizeSpeechSettings = (settings = {}) => ({
+  voice: pickSetting(settings?.voice, TTS_VOICES, DEFAULT_TTS_VOICE),
+  speakingRate: pickSetting(settings?.speakingRate, TTS_SPEAKING_RATES, DEFAULT_TTS_SPEAKING_RATE),
+  languageCode: pickSetting(settings?.languageCode, TTS_LANGUAGE_CODES, DEFAULT_TTS_LANGUAGE)
+});
+
+// `speechConfig` for the speech model request; `settings` are already normalized.
+export const toSpeechConfig = (settings) => ({
+  ...(settings.languageCode === TTS_AUTO_LANGUAGE ? {} : { languageCode: settings.languageCode }),
+  voiceConfig: { prebuiltVoiceConfig: { voiceName: settings.voice } }
+});
+
+/**
+ * Reads the sample rate and channel count from a raw PCM mime type such as `audio/L16;rate=24000`
+ * or `audio/pcm; rate=16000; channels=2`. Missing values fall back to 24 kHz mono.
+ */
+export const parsePcmFormat = (mimeType) => {
+  const params = new Map(
+    String(mimeType || '')
+      .split(';')
+      .slice(1)
+      .map((part) => part.split('=').map((value) => value.trim().toLowerCase()))
+      .filter(([key, value]) => key && value)
+  );
+  const sampleRate = Math.round(Number(params.get('rate')));
+  const channels = Math.round(Number(params.get('channels')));
+  return {
+    sampleRate: Number.isFinite(sampleRate) && sampleRate > 0 ? sampleRate : DEFAULT_PCM_SAMPLE_RATE,
+    channels: Number.isFinite(channels) && channels > 0 ? channels : 1
+  };
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { SessionLogEntry } from '../types';
+import { computeAdaptiveTurnSettings, getRecentAnswers } from '../features/session/adaptiveDifficulty';
+
+const entry = (index: number, isCorrect: boolean | null): SessionLogEntry => ({
+  id: `entry-${index}`,
+  childId: 'child-1',
+  storyId: 'story-1',
+  sessionId: 'session-1',
+  createdAt: index * 1000,
+  answeredAt: isCorrect === null ? undefined : index * 1000 + 500,
+  question: 'Where did Pip go?',
+  options: [],
+  pickedOptionId: isCorrect === null ? null : 'opt-0',
+  isCorrect
+});
+
+const answers = (results: boolean[]) => results.map((isCorrect, index) => entry(index, isCorrect));
+
+describe('adaptiveDifficulty', () => {
+  it('keeps the default level and choice count until there are enough answers', () => {
+    expect(computeAdaptiveTurnSettings(answers([true, true, true]), 4)).toEqual({
+      difficulty: 'medium',
+      choiceCount: 4,
+      recentAccuracy: null,
+      sampleSize: 3
+    });
+    expect(getRecentAnswers([entry(1, null), ...answers([true, false])])).toHaveLength(2);
+  });
+
+  it('steps difficulty and card count with recent accuracy', () => {
+    expect(computeAdaptiveTurnSettings(answers([true, true, true, true, false]), 3)).toMatchObject({
+      difficulty: 'hard',
+      choiceCount: 4
+    });
+    expect(computeAdaptiveTurnSettings(answers([true, false, true, false]), 3)).toMatchObject({
+      difficulty: 'medium',
+      choiceCount: 3
+    });
+    expect(computeAdaptiveTurnSettings(answers([false, false, true, false]), 2)).toMatchObject({
+      difficulty: 'easy',
+      choiceCount: 2
+    });
+    expect(computeAdaptiveTurnSettings(answers(Array(6).fill(true)), 6).choiceCount).toBe(6);
+  });
+
+  it('only looks at the most recent window of answers', () => {
+    const history = answers([...Array(10).fill(false), ...Array(8).fill(true)]);
+    expect(computeAdaptiveTurnSettings(history, 3)).toMatchObject({ difficulty: 'hard', recentAccuracy: 1, sampleSize: 8 });
+  });
+});
@@ -1,5 +1,13 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { runTurnWithBackend, setupStoryWithBackend } from '../services/apiClient';
+import {
+  ApiError,
+  buildQuestionBankWithBackend,
+  requestTtsFromBackend,
+  runTurnStreamWithBackend,
+  runTurnWithBackend,
+  setupStoryWithBackend
+} from '../services/apiClient';
+import { QaReadyBookPackage } from '../types';
 
 describe('apiClient', () => {
   beforeEach(() => {
@@ -105,4 +113,179 @@ describe('apiClient', () => {
     expect(response.cards).toHaveLength(3);
     expect(response.timings.fullCardsMs).toBe(320);
   });
+
+  it('emits streamed turn events in order', async () => {
+    const lines = [
+      { type: 'question', question: 'Who found the ball?' },
+      { type: 'options', optionsMs: 50, cards: [{ id: 'opt-0', text: 'Pip', isLoadingImage: true }] },
+      { type: 'card', card: { id: 'opt-0', text: 'Pip', isLoadingImage: false, imageUrl: 'data:image/png;base64,x' } },
+      {
+        type: 'done',
+        question: 'Who found the ball?',
+        cards: [{ id: 'opt-0', text: 'Pip', isLoadingImage: false, imageUrl: 'data:image/png;base64,x' }],
+        timings: { transcribeMs: 10, optionsMs: 50, imageMsById: { 'opt-0': 90 }, fullCardsMs: 90, totalMs: 150 },
+        payloadBytes: 64
+      }
+    ].map((event) => `${JSON.stringify(event)}\n`).join('');
+    // Split mid-line to make sure partial chunks are buffered.
+    const chunks = [lines.slice(0, 30), lines.slice(30)].map((chunk) => new TextEncoder().encode(chunk));
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        body: new ReadableStream({
+          start(controller) {
+            chunks.forEach((chunk) => controller.enqueue(chunk));
+            controller.close();
+          }
+        })
+      })
+    );
+
+    const events: string[] = [];
+    const response = await runTurnStreamWithBackend(
+      {
+        audioBase64: 'abc',
+        mimeType: 'audio/webm',
+        storyText: 'Pip finds a ball.',
+        storyBrief: 'brief',
+        artStyle: 'style',
+        stylePrimer: [],
+        history: []
+      },
+      (event) => events.push(event.type)
+    );
+
+    expect(events).toEqual(['question', 'options', 'card', 'done']);
+    expect(response.cards[0].imageUrl).toBe('data:image/png;base64,x');
+    expect(response.timings.totalMs).toBe(150);
+  });
+
+  it('releases the stream and raises a typed error for a malformed event', async () => {
+    const cancel = vi.fn();
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        body: new ReadableStream({
+          start(controller) {
+            // The stream stays open, so only a cancel releases it.
+            controller.enqueue(new TextEncoder().encode('{"type":"question","question":"Who?"}\n{not json\n'));
+          },
+          cancel
+        })
+      })
+    );
+
+    const error = await runTurnStreamWithBackend(
+      {
+        audioBase64: 'abc',
+        mimeType: 'audio/webm',
+        storyText: 'Pip finds a ball.',
+        storyBrief: 'brief',
+        artStyle: 'style',
+        stylePrimer: [],
+        history: []
+      },
+      () => {}
+    ).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ code: 'INTERNAL', message: 'Malformed turn stream event', retryable: true, status: 200 });
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('turns error envelopes and bare platform errors into typed ApiErrors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn()
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 429,
+          text: async () => JSON.stringify({
+            error: { code: 'UPSTREAM_RATE_LIMITED', message: 'RESOURCE_EXHAUSTED', retryable: true }
+          })
+        })
+        .mockResolvedValueOnce({
+          ok: false,
+          status: 413,
+          text: async () => 'FUNCTION_PAYLOAD_TOO_LARGE'
+        })
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+    );
+
+    const rateLimited = await requestTtsFromBackend('hi').catch((error) => error);
+    expect(rateLimited).toBeInstanceOf(ApiError);
+    expect(rateLimited).toMatchObject({ code: 'UPSTREAM_RATE_LIMITED', status: 429, retryable: true });
+
+    const tooLarge = await requestTtsFromBackend('hi').catch((error) => error);
+    expect(tooLarge).toMatchObject({ code: 'PAYLOAD_TOO_LARGE', status: 413, retryable: false });
+
+    const offline = await requestTtsFromBackend('hi').catch((error) => error);
+    expect(offline).toMatchObject({ code: 'NETWORK_ERROR', retryable: true });
+  });
+
+  it('builds the question bank batch by batch and reports skipped questions', async () => {
+    const question = (id: string, imageAssetIds: Array<string | null>) => ({
+      question_id: id,
+      kind: 'who',
+      question_text: `Question ${id}?`,
+      qa_plan_id: `plan_${id}`,
+      correct_choice_id: 'A',
+      choices: imageAssetIds.map((imageAssetId, index) => ({
+        choice_id: ['A', 'B'][index],
+        answer_text: `Answer ${index}`,
+        image_asset_id: imageAssetId
+      }))
+    });
+    const batches = [
+      {
+        questions: [question('q1', ['asset_a', null])],
+        skipped: [{ question_id: 'q2', question_text: 'Question q2?', error: 'plan failed' }],
+        next_offset: 2
+      },
+      { questions: [question('q3', ['asset_gone', 'asset_a'])], skipped: [], next_offset: null }
+    ];
+    const fetchMock = vi.fn(async (url: string, init: { body: string }) => {
+      const body = JSON.parse(init.body);
+      if (url === '/api/runtime-question-bank') {
+        const batch = batches[body.offset === 0 ? 0 : 1];
+        return {
+          ok: true,
+          text: async () => JSON.stringify({ book_id: 'b', difficulty: 'easy', choice_count: 2, created_at: 5, total_questions: 3, ...batch })
+        };
+      }
+      if (body.assetId === 'asset_gone') {
+        return {
+          ok: false,
+          status: 404,
+          text: async () => JSON.stringify({ error: { code: 'NOT_FOUND', message: 'Asset asset_gone is not stored.', retryable: false } })
+        };
+      }
+      return { ok: true, text: async () => JSON.stringify({ assetId: body.assetId, mimeType: 'image/png', data: 'AAAA' }) };
+    });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const bank = await buildQuestionBankWithBackend({
+      book_id: 'b',
+      choice_count: 2,
+      qa_ready_package: { version: '1.1.0' } as unknown as QaReadyBookPackage,
+      style_references: [{ mimeType: 'image/png', data: 'AAAA', kind: 'scene', source: 'pdf_page' }]
+    });
+
+    const bankBodies = fetchMock.mock.calls
+      .filter(([url]) => url === '/api/runtime-question-bank')
+      .map(([, init]) => JSON.parse(init.body));
+    expect(bankBodies.map((body) => body.offset)).toEqual([0, 2]);
+    expect(bankBodies[0]).toMatchObject({ qa_ready_package: { version: '1.1.0' }, style_references: [{ data: 'AAAA' }] });
+    expect(bankBodies[1]).toEqual({ book_id: 'b', choice_count: 2, offset: 2 });
+    expect(bank.difficulty).toBe('easy');
+    expect(bank.questions.map((entry) => entry.id)).toEqual(['q1']);
+    expect(bank.questions[0].choices.map((choice) => choice.imageUrl)).toEqual(['data:image/png;base64,AAAA', undefined]);
+    expect(bank.skipped).toEqual([
+      { id: 'q2', question: 'Question q2?', error: 'plan failed' },
+      { id: 'q3', question: 'Question q3?', error: 'Asset asset_gone is not stored.' }
+    ]);
+  });
 });
@@ -0,0 +1,194 @@
+// @vitest-environment node
+import { mkdtemp, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { describe, expect, it, vi } from 'vitest';
+import ttsHandler from '../api/tts.js';
+import runtimeRenderHandler from '../api/runtime-render.js';
+import runtimeLoadBookHandler from '../api/runtime-load-book.js';
+import assetsCheckHandler from '../api/assets-check.js';
+import assetsUploadHandler from '../api/assets-upload.js';
+import turnHandler from '../api/turn.js';
+import turnCardHandler from '../api/turn-card.js';
+import pageTextHandler from '../api/page-text.js';
+import { toAssetId } from '../shared/assetIds.js';
+
+const invoke = async (handler: (req: any, res: any) => Promise<unknown>, req: { method: string; body?: unknown }) => {
+  const res = {
+    statusCode: 0,
+    headers: {} as Record<string, string>,
+    body: '',
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+    },
+    end(chunk = '') {
+      this.body += chunk;
+    }
+  };
+  await handler(req, res);
+  return { status: res.statusCode, json: JSON.parse(res.body) };
+};
+
+describe('api handlers', () => {
+  it('rejects unsupported methods with the error envelope', async () => {
+    const { status, json } = await invoke(ttsHandler, { method: 'GET' });
+    expect(status).toBe(405);
+    expect(json.error).toEqual({
+      code: 'METHOD_NOT_ALLOWED',
+      message: 'Method not allowed',
+      retryable: false,
+      details: { allowed: ['POST'] }
+    });
+  });
+
+  it('reports invalid JSON and schema violations with field errors', async () => {
+    const invalid = await invoke(ttsHandler, { method: 'POST', body: '{nope' });
+    expect(invalid.status).toBe(400);
+    expect(invalid.json.error.code).toBe('INVALID_JSON');
+
+    const missing = await invoke(ttsHandler, { method: 'POST', body: { text: '   ' } });
+    expect(missing.status).toBe(400);
+    expect(missing.json.error.code).toBe('VALIDATION_FAILED');
+    expect(missing.json.error.details.fieldErrors).toEqual([{ path: 'text', message: 'must not be empty' }]);
+
+    const badVoice = await invoke(ttsHandler, { method: 'POST', body: { text: 'Pip', voice: 'Robot', speakingRate: 'warp' } });
+    expect(badVoice.status).toBe(400);
+    expect(badVoice.json.error.details.fieldErrors.map((error: { path: string }) => error.path)).toEqual(['voice', 'speakingRate']);
+
+    const badCard = await invoke(turnCardHandler, {
+      method: 'POST',
+      body: { question: 'Where did Pip go?', storyBrief: 'A pup finds a ball.', card: { id: 'opt-0', text: '', renderMode: 'collage' } }
+    });
+    expect(badCard.status).toBe(400);
+    expect(badCard.json.error.details.fieldErrors.map((error: { path: string }) => error.path)).toEqual(['card.text', 'card.renderMode']);
+
+    const audioWithoutType = await invoke(turnHandler, {
+      method: 'POST',
+      body: { audioBase64: 'AAAA', storyBrief: 'A pup finds a ball.', storyText: 'Pip finds a ball.' }
+    });
+    expect(audioWithoutType.status).toBe(400);
+    expect(audioWithoutType.json.error.details.fieldErrors).toEqual([{ path: 'mimeType', message: 'is required with audioBase64' }]);
+
+    const badPage = await invoke(pageTextHandler, { method: 'POST', body: { pageNum: 0, pageImage: { mimeType: 'image/png' } } });
+    expect(badPage.status).toBe(400);
+    expect(badPage.json.error.details.fieldErrors.map((error: { path: string }) => error.path)).toEqual(['pageNum', 'pageImage.data']);
+  });
+
+  it('accepts camelCase aliases and maps domain errors to codes', async () => {
+    const notFound = await invoke(runtimeRenderHandler, { method: 'POST', body: { qaPlanId: 'plan_missing' } });
+    expect(notFound.status).toBe(404);
+    expect(notFound.json.error).toMatchObject({ code: 'NOT_FOUND', retryable: false });
+
+    const badPackage = await invoke(runtimeLoadBookHandler, {
+      method: 'POST',
+      body: { bookId: 'book_x', qaReadyPackage: { version: '1.1.0' } }
+    });
+    expect(badPackage.status).toBe(400);
+    expect(badPackage.json.error.code).toBe('VALIDATION_FAILED');
+    expect(badPackage.json.error.details.fieldErrors[0]).toEqual({ path: 'createdAt', message: 'is required' });
+  });
+
+  it('stores content-addressed assets and reports the ones a turn is missing', async () => {
+    const file = { mimeType: 'image/png', data: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8BQDwAEhQGAhKmMIQAAAABJRU5ErkJggg==' };
+    const assetId = toAssetId(file);
+
+    const mismatch = await invoke(assetsUploadHandler, {
+      method: 'POST',
+      body: { assets: [{ ...file, assetId: 'asset_0000000000000000' }] }
+    });
+    expect(mismatch.status).toBe(400);
+    expect(mismatch.json.error.details.expectedAssetId).toBe(assetId);
+
+    const uploaded = await invoke(assetsUploadHandler, { method: 'POST', body: { assets: [{ ...file, assetId }] } });
+    expect(uploaded.json).toEqual({ storedAssetIds: [assetId] });
+
+    const checked = await invoke(assetsCheckHandler, {
+      method: 'POST',
+      body: { assetIds: [assetId, 'asset_ffffffffffffffff'] }
+    });
+    expect(checked.json).toEqual({ missingAssetIds: ['asset_ffffffffffffffff'] });
+
+    const turn = await invoke(turnHandler, {
+      method: 'POST',
+      body: {
+        audioBase64: 'AAAA',
+        mimeType: 'audio/webm',
+        storyBrief: 'A pup finds a ball.',
+        storyText: 'Pip found a red ball.',
+        stylePrimer: [{ assetId, mimeType: 'image/png' }],
+        styleReferences: [{ assetId: 'asset_ffffffffffffffff', mimeType: 'image/png', kind: 'scene', source: 'upload' }]
+      }
+    });
+    expect(turn.status).toBe(409);
+    expect(turn.json.error).toMatchObject({
+      code: 'ASSET_MISSING',
+      details: { missingAssetIds: ['asset_ffffffffffffffff'] }
+    });
+
+    const empty = await invoke(turnHandler, {
+      method: 'POST',
+      body: {
+        audioBase64: 'AAAA',
+        mimeType: 'audio/webm',
+        storyBrief: 'A pup finds a ball.',
+        storyText: 'Pip found a red ball.',
+        styleReferences: [{ mimeType: 'image/png', kind: 'scene', source: 'upload' }]
+      }
+    });
+    expect(empty.status).toBe(400);
+    expect(empty.json.error).toMatchObject({
+      code: 'VALIDATION_FAILED',
+      details: { fieldErrors: [{ path: 'styleReferences[0]', message: 'must carry data or an assetId' }] }
+    });
+  });
+});
+
+describe('api handlers on a shared file store', () => {
+  // Each call loads a fresh module graph, standing in for a separate serverless instance with its own store.
+  const loadInstance = async () => {
+    vi.resetModules();
+    return {
+      turn: (await import('../api/turn.js')).default,
+      assetsUpload: (await import('../api/assets-upload.js')).default
+    };
+  };
+
+  it('finds an asset uploaded through another instance when the turn is retried', async () => {
+    const dir = await mkdtemp(path.join(os.tmpdir(), 'storybuddy-handlers-test-'));
+    vi.stubEnv('STORYBUDDY_PROVIDER', 'fake');
+    vi.stubEnv('STORYBUDDY_RUNTIME_STORE', 'file');
+    vi.stubEnv('STORYBUDDY_RUNTIME_STORE_DIR', dir);
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+
+    try {
+      const file = { mimeType: 'image/png', data: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=' };
+      const assetId = toAssetId(file);
+      const turnRequest = {
+        method: 'POST',
+        body: {
+          questionText: 'What did Pip find?',
+          storyBrief: 'A pup finds a ball.',
+          storyText: 'Pip found a red ball.',
+          stylePrimer: [{ assetId, mimeType: 'image/png' }]
+        }
+      };
+      const first = await loadInstance();
+      const second = await loadInstance();
+
+      const missed = await invoke(first.turn, turnRequest);
+      expect(missed.status).toBe(409);
+      expect(missed.json.error.details.missingAssetIds).toEqual([assetId]);
+
+      const uploaded = await invoke(second.assetsUpload, { method: 'POST', body: { assets: [{ ...file, assetId }] } });
+      expect(uploaded.json).toEqual({ storedAssetIds: [assetId] });
+
+      const retried = await invoke(first.turn, turnRequest);
+      expect(retried.status).toBe(200);
+      expect(retried.json.question).toBeTruthy();
+    } finally {
+      vi.unstubAllEnvs();
+      vi.restoreAllMocks();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,199 @@
+import 'fake-indexeddb/auto';
+import { beforeEach, describe, expect, it } from 'vitest';
+import {
+  exportPublisherBundle,
+  importStoryBundle,
+  parseStoryBundle,
+  STORY_BUNDLE_VERSION
+} from '../services/bundleService';
+import { deleteStory, getPublishers, getStoryAssets, getStoryManifests, savePublisher, saveStory } from '../services/storageService';
+
+const DB_NAME = 'StoryBuddyDB';
+
+const saveBook = (id: string, publisherId: string | null) =>
+  saveStory(
+    {
+      id,
+      title: `Book ${id}`,
+      createdAt: 1,
+      summary: `Summary ${id}`,
+      artStyle: 'Watercolor',
+      publisherId
+    },
+    {
+      id,
+      storyBrief: `Brief ${id}`,
+      stylePrimer: [{ data: 'abc', mimeType: 'image/png' }],
+      pdfData: { data: 'pdf', mimeType: 'application/pdf' },
+      metadata: {
+        summary: `Summary ${id}`,
+        artStyle: 'Watercolor',
+        characters: [],
+        objects: []
+      }
+    }
+  );
+
+const toRawBundle = (assetsOverrides: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    format: 'storybuddy-story-bundle',
+    version: 1,
+    exportedAt: 1,
+    publisher: null,
+    stories: [
+      {
+        manifest: { id: 'a', title: 'Imported A', createdAt: 2, summary: 'S', artStyle: 'A', publisherId: null },
+        assets: {
+          id: 'a',
+          storyBrief: 'B',
+          stylePrimer: [],
+          metadata: { summary: 'S', artStyle: 'A', characters: [], objects: [] },
+          ...assetsOverrides
+        }
+      }
+    ]
+  });
+
+// A 1.0.0 package: no interactionPairs or charCount yet, so importing it must migrate.
+const legacyPackage = {
+  version: '1.0.0',
+  createdAt: 1,
+  manifest: {
+    bookId: 'book_a',
+    title: 'Imported A',
+    fileHash: 'h1',
+    pageCount: 1,
+    originalFileSize: 10,
+    mimeType: 'application/pdf',
+    textQuality: 'good',
+    validationWarnings: [],
+    normalizedAt: 1
+  },
+  pagesText: [{ pageNum: 1, rawText: 'Pip found a ball.', cleanText: 'Pip found a ball.' }],
+  pagesImages: [],
+  illustrationPages: [],
+  styleBible: {
+    id: 'style_bible_main',
+    globalStyleDescription: 'Watercolor',
+    palette: [],
+    lineQuality: 'soft',
+    lighting: 'warm',
+    compositionHabits: [],
+    styleReferenceImageIds: []
+  },
+  entityRecords: [],
+  qaReadyManifest: {
+    styleBibleId: 'style_bible_main',
+    entityRecordsId: 'entity_records_main',
+    pageTextCount: 1,
+    pageImageCount: 0,
+    illustrationPageCount: 0,
+    textQuality: 'good',
+    hasGoldRefsPercent: 0,
+    checklist: {
+      normalizedPdf: true,
+      pageImages: false,
+      styleBible: false,
+      entityCatalog: true,
+      mainCharactersGoldRefs: true,
+      cleanTextPerPage: true,
+      allRecurringCharactersGoldRefs: false,
+      keyObjectsGoldRefs: true
+    },
+    notes: []
+  }
+};
+
+describe('bundleService', () => {
+  beforeEach(async () => {
+    await new Promise<void>((resolve) => {
+      const req = indexedDB.deleteDatabase(DB_NAME);
+      req.onsuccess = () => resolve();
+      req.onerror = () => resolve();
+      req.onblocked = () => resolve();
+    });
+  });
+
+  it('round-trips a publisher bundle through JSON and back into storage', async () => {
+    await savePublisher({ id: 'pub-1', name: 'Acorn Press', createdAt: 1 });
+    await saveBook('a', 'pub-1');
+    await saveBook('b', 'pub-1');
+    await saveBook('c', null);
+
+    const bundle = await exportPublisherBundle('pub-1');
+    expect(bundle.version).toBe(STORY_BUNDLE_VERSION);
+    expect(bundle.stories.map((entry) => entry.manifest.id).sort()).toEqual(['a', 'b']);
+
+    await deleteStory('a');
+    await deleteStory('b');
+
+    const imported = await importStoryBundle(parseStoryBundle(JSON.stringify(bundle)));
+    expect(imported).toHaveLength(2);
+    expect((await getStoryManifests()).map((story) => story.id).sort()).toEqual(['a', 'b', 'c']);
+    expect((await getStoryAssets('a'))?.pdfData?.data).toBe('pdf');
+    expect(await getPublishers()).toHaveLength(1);
+  });
+
+  it('reuses a publisher with the same name on import', async () => {
+    await savePublisher({ id: 'local-pub', name: 'Acorn Press', createdAt: 1 });
+
+    const raw = JSON.stringify({
+      format: 'storybuddy-story-bundle',
+      version: 1,
+      exportedAt: 1,
+      publisher: { id: 'remote-pub', name: 'acorn press', createdAt: 2 },
+      stories: [
+        {
+          manifest: { id: 'x', title: 'X', createdAt: 1, summary: 'S', artStyle: 'A', publisherId: 'remote-pub' },
+          assets: { id: 'x', storyBrief: 'B', stylePrimer: [], metadata: { summary: 'S', artStyle: 'A', characters: [], objects: [] } }
+        }
+      ]
+    });
+
+    const [entry] = await importStoryBundle(parseStoryBundle(raw));
+    expect(entry.manifest.publisherId).toBe('local-pub');
+    expect((await getPublishers()).map((publisher) => publisher.id)).toEqual(['local-pub']);
+  });
+
+  it('imports a story whose id is taken as a new copy', async () => {
+    await saveBook('a', null);
+
+    const [entry] = await importStoryBundle(parseStoryBundle(toRawBundle()));
+    expect(entry.manifest.id).not.toBe('a');
+    expect(entry.assets.id).toBe(entry.manifest.id);
+    expect((await getStoryManifests()).map((story) => story.title).sort()).toEqual(['Book a', 'Imported A']);
+    expect((await getStoryAssets('a'))?.storyBrief).toBe('Brief a');
+  });
+
+  it('migrates and validates a bundled Q&A package', async () => {
+    const bundle = parseStoryBundle(
+      toRawBundle({ metadata: { summary: 'S', artStyle: 'A', characters: [], objects: [], qaReadyPackage: legacyPackage } })
+    );
+    const qaReadyPackage = bundle.stories[0].assets.metadata.qaReadyPackage;
+    expect(qaReadyPackage?.version).toBe('1.1.0');
+    expect(qaReadyPackage?.interactionPairs).toEqual([]);
+    expect(qaReadyPackage?.pagesText[0].charCount).toBe('Pip found a ball.'.length);
+
+    const broken = { ...legacyPackage, manifest: { ...legacyPackage.manifest, textQuality: 'great' } };
+    expect(() =>
+      parseStoryBundle(toRawBundle({ metadata: { summary: 'S', artStyle: 'A', characters: [], objects: [], qaReadyPackage: broken } }))
+    ).toThrow(/stories\[0\]\.assets\.metadata\.qaReadyPackage\.manifest\.textQuality must be one of/);
+  });
+
+  it('rejects files that are not valid bundles', () => {
+    expect(() => parseStoryBundle('not json')).toThrow(/invalid JSON/);
+    expect(() => parseStoryBundle(JSON.stringify({ format: 'other' }))).toThrow(/not a StoryBuddy bundle/);
+    expect(() =>
+      parseStoryBundle(JSON.stringify({ format: 'storybuddy-story-bundle', version: STORY_BUNDLE_VERSION + 1, stories: [] }))
+    ).toThrow(/newer than this app supports/);
+    expect(() =>
+      parseStoryBundle(
+        JSON.stringify({
+          format: 'storybuddy-story-bundle',
+          version: 1,
+          stories: [{ manifest: { id: 'x', title: 'X', createdAt: 1, summary: 'S' }, assets: { id: 'y' } }]
+        })
+      )
+    ).toThrow(/stories\[0\]\.assets\.id must match manifest\.id/);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, expect, it } from 'vitest';
+import { EntityRecord, QaReadyBookPackage, StoryFacts, StoryPack, StyleReferenceAsset } from '../types';
+import { applyEntityCatalogEdit, rebuildEntityCatalog } from '../features/setup/entityCatalog';
+
+const ref = (kind: StyleReferenceAsset['kind'], characterName?: string): StyleReferenceAsset => ({
+  mimeType: 'image/png',
+  data: `${kind}-${characterName || 'none'}`,
+  kind,
+  source: 'crop',
+  characterName
+});
+
+const record = (type: EntityRecord['type'], name: string, overrides: Partial<EntityRecord> = {}): EntityRecord => ({
+  entityId: `ent_${type}_${name.toLowerCase()}`,
+  name,
+  aliases: [],
+  type,
+  canonicalDescription: `${name} from the story`,
+  mustHaveTraits: [],
+  negativeTraits: [],
+  styleTags: [],
+  visualAssets: [],
+  ...overrides
+});
+
+const buildPack = (): StoryPack => {
+  const storyFacts: StoryFacts = {
+    characters: ['Pip', 'Pipp', 'Ghost'],
+    characterCatalog: [
+      { name: 'Pip', source: 'illustrated' },
+      { name: 'Pipp', source: 'mentioned' },
+      { name: 'Ghost', source: 'mentioned' }
+    ],
+    characterImageMap: [
+      { characterName: 'Pip', styleRefIndexes: [1] },
+      { characterName: 'Pipp', styleRefIndexes: [2] }
+    ],
+    characterGoldRefMap: [{ characterName: 'Pipp', faceRefIndex: 2 }],
+    characterTraitLocks: [
+      { characterName: 'Pip', mustHaveTraits: ['orange fur'], negativeTraits: [] },
+      { characterName: 'Pipp', mustHaveTraits: ['orange fur', 'blue scarf'], negativeTraits: ['no hat'] }
+    ],
+    interactionPairs: [
+      { triggerTerms: ['play'], primary: 'Pipp', counterpart: 'Ghost' },
+      { triggerTerms: ['hug'], primary: 'Pip', counterpart: 'Pipp' }
+    ],
+    places: ['Forest'],
+    objects: ['Red Ball'],
+    objectImageMap: [{ objectName: 'Red Ball', styleRefIndexes: [0] }],
+    events: [],
+    setting: 'A forest',
+    worldTags: []
+  };
+  const qaReadyPackage = {
+    manifest: { bookId: 'book_pip', validationWarnings: [] },
+    entityRecords: [
+      record('character', 'Pip'),
+      record('character', 'Pipp'),
+      record('character', 'Ghost'),
+      record('object', 'Red Ball'),
+      record('location', 'Forest')
+    ],
+    interactionPairs: storyFacts.interactionPairs,
+    qaReadyManifest: { hasGoldRefsPercent: 0, checklist: {}, notes: [] }
+  } as unknown as QaReadyBookPackage;
+
+  return {
+    summary: 'Pip finds a ball.',
+    artStyle: 'Watercolor',
+    storyBrief: '',
+    storyFacts,
+    stylePrimer: [],
+    styleReferences: [ref('object'), ref('character', 'Pip'), ref('character', 'Pipp')],
+    qaReadyPackage
+  };
+};
+
+const findRecord = (pack: StoryPack, name: string) =>
+  pack.qaReadyPackage?.entityRecords.find((entry) => entry.name === name);
+
+describe('entity catalog editing', () => {
+  it('rebuilds visual assets and gold-ref readiness from the story facts', () => {
+    const pack = rebuildEntityCatalog(buildPack());
+    expect(findRecord(pack, 'Pip')?.visualAssets).toEqual([{ imageId: 'img_0002', role: 'gold_face', styleRefIndex: 1 }]);
+    expect(findRecord(pack, 'Pipp')?.goldRefs).toEqual({ face: 'img_0003', body: undefined });
+    expect(findRecord(pack, 'Red Ball')?.visualAssets).toEqual([{ imageId: 'img_0001', role: 'reference', styleRefIndex: 0 }]);
+    expect(pack.qaReadyPackage?.qaReadyManifest.hasGoldRefsPercent).toBe(100);
+    expect(pack.qaReadyPackage?.qaReadyManifest.checklist.allRecurringCharactersGoldRefs).toBe(false);
+  });
+
+  it('merges a duplicate character into the one it duplicates', () => {
+    const before = buildPack();
+    const pack = applyEntityCatalogEdit(before, { kind: 'merge', entityId: 'ent_character_pipp', intoEntityId: 'ent_character_pip' });
+    const facts = pack.storyFacts;
+
+    expect(findRecord(pack, 'Pipp')).toBeUndefined();
+    expect(findRecord(pack, 'Pip')).toMatchObject({
+      aliases: ['Pipp'],
+      mustHaveTraits: ['orange fur', 'blue scarf'],
+      negativeTraits: ['no hat'],
+      goldRefs: { face: 'img_0003', body: 'img_0002' }
+    });
+    expect(facts.characters).toEqual(['Pip', 'Ghost']);
+    expect(facts.characterCatalog[0]).toEqual({ name: 'Pip', source: 'both' });
+    expect(facts.characterImageMap).toEqual([{ characterName: 'Pip', styleRefIndexes: [1, 2] }]);
+    expect(facts.characterGoldRefMap).toEqual([{ characterName: 'Pip', faceRefIndex: 2, bodyRefIndex: undefined }]);
+    expect(facts.interactionPairs).toEqual([{ triggerTerms: ['play'], primary: 'Pip', counterpart: 'Ghost' }]);
+    expect(pack.styleReferences?.map((entry) => entry.characterName)).toEqual([undefined, 'Pip', 'Pip']);
+    // The input pack is left untouched.
+    expect(before.storyFacts.characterImageMap?.[0].styleRefIndexes).toEqual([1]);
+  });
+
+  it('deletes a hallucinated character everywhere it was mentioned', () => {
+    const pack = applyEntityCatalogEdit(buildPack(), { kind: 'delete', entityId: 'ent_character_ghost' });
+    expect(findRecord(pack, 'Ghost')).toBeUndefined();
+    expect(pack.storyFacts.characterCatalog.map((entry) => entry.name)).toEqual(['Pip', 'Pipp']);
+    expect(pack.storyFacts.interactionPairs).toEqual([{ triggerTerms: ['hug'], primary: 'Pip', counterpart: 'Pipp' }]);
+    expect(pack.qaReadyPackage?.interactionPairs).toEqual(pack.storyFacts.interactionPairs);
+  });
+
+  it('edits aliases, descriptions, traits and gold refs', () => {
+    let pack = applyEntityCatalogEdit(buildPack(), { kind: 'aliases', entityId: 'ent_character_pip', aliases: [' the fox ', 'Pip', 'The Fox'] });
+    pack = applyEntityCatalogEdit(pack, { kind: 'description', entityId: 'ent_character_pip', canonicalDescription: ' A small orange fox ' });
+    pack = applyEntityCatalogEdit(pack, {
+      kind: 'traits',
+      entityId: 'ent_character_pip',
+      mustHaveTraits: ['orange fur', ''],
+      negativeTraits: ['no shoes']
+    });
+    pack = applyEntityCatalogEdit(pack, { kind: 'gold_refs', entityId: 'ent_character_pip', faceRefIndex: 2, bodyRefIndex: 1 });
+
+    expect(findRecord(pack, 'Pip')).toMatchObject({
+      aliases: ['the fox'],
+      canonicalDescription: 'A small orange fox',
+      mustHaveTraits: ['orange fur'],
+      negativeTraits: ['no shoes'],
+      goldRefs: { face: 'img_0003', body: 'img_0002' }
+    });
+    expect(pack.storyFacts.characterTraitLocks).toContainEqual({
+      characterName: 'Pip',
+      mustHaveTraits: ['orange fur'],
+      negativeTraits: ['no shoes']
+    });
+    expect(pack.storyFacts.characterGoldRefMap).toContainEqual({ characterName: 'Pip', faceRefIndex: 2, bodyRefIndex: 1 });
+  });
+
+  it('rejects edits that cannot apply', () => {
+    const pack = buildPack();
+    expect(() => applyEntityCatalogEdit(pack, { kind: 'merge', entityId: 'ent_character_pip', intoEntityId: 'ent_object_red ball' }))
+      .toThrow('same type');
+    expect(() => applyEntityCatalogEdit(pack, { kind: 'gold_refs', entityId: 'ent_character_pip', faceRefIndex: 9 }))
+      .toThrow('not in this story');
+    expect(() => applyEntityCatalogEdit(pack, { kind: 'delete', entityId: 'ent_character_nobody' })).toThrow('no longer');
+  });
+});
@@ -0,0 +1,34 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import { phoneticKey, resolveEntityMentions, stemToken } from '../api/_lib/entityResolver.js';
+import fixture from './fixtures/entityQuestions.json';
+
+describe('entityResolver', () => {
+  it.each(fixture.cases)('resolves "$question"', ({ question, expected, absent = [] }) => {
+    const { resolvedEntities } = resolveEntityMentions(question, fixture.entityRecords);
+    expect(resolvedEntities.map(({ entityId, matchMethod }) => ({ entityId, matchMethod }))).toEqual(
+      expect.arrayContaining(expected)
+    );
+    const resolvedIds = resolvedEntities.map((entity) => entity.entityId);
+    for (const entityId of absent) {
+      expect(resolvedIds).not.toContain(entityId);
+    }
+  });
+
+  it('ranks exact matches above approximate ones', () => {
+    const { resolvedEntities } = resolveEntityMentions('Did the Grufalo see the mouse?', fixture.entityRecords);
+    expect(resolvedEntities.map((entity) => entity.entityId)).toEqual(['ent_character_mouse', 'ent_character_gruffalo']);
+    expect(resolvedEntities[0].confidence).toBeGreaterThan(resolvedEntities[1].confidence);
+  });
+
+  it('reports content words that match no entity', () => {
+    const { unmatchedMentions } = resolveEntityMentions('Where did the owl find the acorn?', fixture.entityRecords);
+    expect(unmatchedMentions).toEqual(['owl', 'find']);
+  });
+
+  it('builds stems and phonetic keys', () => {
+    expect(['berries', 'foxes', 'cats', 'grass'].map(stemToken)).toEqual(['berry', 'fox', 'cat', 'grass']);
+    expect(phoneticKey('Gruffalo')).toBe(phoneticKey('Grufalo'));
+    expect(phoneticKey('Philip')).toBe(phoneticKey('Fillip'));
+  });
+});
@@ -0,0 +1,335 @@
+// @vitest-environment node
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import {
+  buildRuntimeQuestionBank,
+  getStoredAsset,
+  recognizePageText,
+  renderTurnCard,
+  runRuntimeQuiz,
+  runTurnPipeline,
+  setupStoryPack,
+  synthesizeSpeech
+} from '../api/_lib/geminiServer.js';
+
+const PLACEHOLDER_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const storyFile = { mimeType: 'application/pdf', data: 'JVBERi0xLjQK' };
+const styleImages = [{ mimeType: 'image/png', data: PLACEHOLDER_PNG }];
+
+describe('fake provider', () => {
+  beforeAll(() => {
+    vi.stubEnv('STORYBUDDY_PROVIDER', 'fake');
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('runs setup, turn and runtime quiz offline', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages);
+    expect(storyPack.coverImage).toBe(`data:image/png;base64,${PLACEHOLDER_PNG}`);
+
+    const turn = await runTurnPipeline(
+      'AAAA',
+      'audio/webm',
+      storyPack.storyText,
+      null,
+      'nano-banana-pro',
+      storyPack.storyBrief,
+      storyPack.storyFacts,
+      storyPack.artStyle,
+      storyPack.stylePrimer,
+      storyPack.styleReferences,
+      []
+    );
+
+    const quiz = await runRuntimeQuiz({
+      bookId: 'fake-book',
+      questionText: turn.question,
+      qaReadyPackage: storyPack.qaReadyPackage,
+      styleReferences: storyPack.styleReferences
+    });
+
+    expect({
+      summary: storyPack.summary,
+      artStyle: storyPack.artStyle,
+      storyText: storyPack.storyText,
+      characters: storyPack.storyFacts.characters,
+      pageCount: storyPack.qaReadyPackage?.pagesText.length,
+      question: turn.question,
+      cards: turn.cards
+        .map((card) => ({
+          text: card.text,
+          isCorrect: card.isCorrect,
+          hasImage: Boolean((card as { imageUrl?: string | null }).imageUrl)
+        }))
+        .sort((a, b) => String(a.text).localeCompare(String(b.text))),
+      quiz: quiz.choices.map((choice) => ({
+        choiceId: choice.choiceId,
+        answerText: choice.answerText,
+        hasImage: Boolean(choice.image?.imageDataUrl)
+      })),
+      correctChoiceId: quiz.internal.correctChoiceId
+    }).toMatchSnapshot();
+  });
+
+  it('answers a typed question without transcribing audio', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages);
+    const turn = await runTurnPipeline(
+      undefined,
+      undefined,
+      storyPack.storyText,
+      null,
+      'nano-banana-pro',
+      storyPack.storyBrief,
+      storyPack.storyFacts,
+      storyPack.artStyle,
+      storyPack.stylePrimer,
+      storyPack.styleReferences,
+      [],
+      { questionText: '  Where did Pip   go? ' }
+    );
+
+    expect(turn.question).toBe('Where did Pip go?');
+    expect(turn.timings.transcribeMs).toBe(0);
+    expect(turn.timings.stepMs.questionTranscriptionMs).toBe(0);
+    expect(turn.cards.length).toBeGreaterThan(0);
+  });
+
+  it('honours a configured number of answer choices', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages);
+    const turn = await runTurnPipeline(
+      'AAAA',
+      'audio/webm',
+      storyPack.storyText,
+      null,
+      'nano-banana-pro',
+      storyPack.storyBrief,
+      storyPack.storyFacts,
+      storyPack.artStyle,
+      storyPack.stylePrimer,
+      storyPack.styleReferences,
+      [],
+      { choiceCount: 5 }
+    );
+    expect(turn.cards).toHaveLength(5);
+    expect(turn.cards.filter((card) => card.isCorrect)).toHaveLength(1);
+
+    const quiz = await runRuntimeQuiz({
+      bookId: 'fake-book',
+      questionText: turn.question,
+      qaReadyPackage: storyPack.qaReadyPackage,
+      styleReferences: storyPack.styleReferences,
+      choiceCount: 4
+    });
+    expect(quiz.choices.map((choice) => choice.choiceId)).toEqual(['A', 'B', 'C', 'D']);
+  });
+
+  it('reuses cached card images when the same turn is asked again', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages);
+    const askAgain = () =>
+      runTurnPipeline(
+        undefined,
+        undefined,
+        storyPack.storyText,
+        null,
+        'nano-banana-pro',
+        storyPack.storyBrief,
+        storyPack.storyFacts,
+        storyPack.artStyle,
+        storyPack.stylePrimer,
+        storyPack.styleReferences,
+        [],
+        { questionText: 'Who is in the story?' }
+      );
+
+    await askAgain();
+    const repeat = await askAgain();
+    const cardSteps = Object.values(repeat.timings.cardStepMsById);
+    expect(cardSteps.length).toBe(repeat.cards.length);
+    expect(cardSteps.every((step) => step.imageCacheHit)).toBe(true);
+  });
+
+  it('carries the story language into setup and the answer prompt', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages, 'nano-banana-pro', 'he');
+    expect(storyPack.language).toBe('he');
+
+    const turn = await runTurnPipeline(
+      undefined,
+      undefined,
+      storyPack.storyText,
+      null,
+      'nano-banana-pro',
+      storyPack.storyBrief,
+      storyPack.storyFacts,
+      storyPack.artStyle,
+      storyPack.stylePrimer,
+      storyPack.styleReferences,
+      [],
+      { questionText: 'איפה פיפ מצא את הכדור?', language: 'he' }
+    );
+
+    expect(turn.question).toBe('איפה פיפ מצא את הכדור?');
+    expect(turn.cards).toHaveLength(3);
+    expect((turn.cards[0] as { debug?: { answerAgentPrompt?: string } }).debug?.answerAgentPrompt).toContain('Hebrew');
+    // Hebrew attaches "in" to the noun, so where-answers get no English "In" prefix.
+    expect(turn.cards.every((card) => !card.text.startsWith('In '))).toBe(true);
+  });
+
+  it('re-renders one edited card without touching its id or correctness', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages);
+    const { card, cardStepMs } = await renderTurnCard({
+      question: 'Where did Pip go?',
+      card: { id: 'opt-1', text: '  In the   garden ', isCorrect: true },
+      storyBrief: storyPack.storyBrief,
+      storyFacts: storyPack.storyFacts,
+      artStyle: storyPack.artStyle,
+      stylePrimer: storyPack.stylePrimer,
+      styleReferences: storyPack.styleReferences,
+      imageModelPreference: 'nano-banana-pro'
+    });
+
+    expect(card).toMatchObject({ id: 'opt-1', text: 'In the garden', isCorrect: true, isLoadingImage: false });
+    expect(card.imageUrl).toBeTruthy();
+    expect(card.debug.imagePrompt).toContain('In the garden');
+    expect(cardStepMs.imageCacheHit).toBe(false);
+  });
+
+  it('redraws a card from its stored plan and replaces a wrong answer with a new one', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages);
+    const turn = await runTurnPipeline(
+      undefined,
+      undefined,
+      storyPack.storyText,
+      null,
+      'nano-banana-pro',
+      storyPack.storyBrief,
+      storyPack.storyFacts,
+      storyPack.artStyle,
+      storyPack.stylePrimer,
+      storyPack.styleReferences,
+      [],
+      { questionText: 'Who found the red ball?' }
+    );
+    const turnCards = turn.cards as Array<{ id: string; text: string; isCorrect: boolean; debug?: Record<string, unknown> }>;
+    const shared = {
+      question: turn.question,
+      storyBrief: storyPack.storyBrief,
+      storyFacts: storyPack.storyFacts,
+      artStyle: storyPack.artStyle,
+      stylePrimer: storyPack.stylePrimer,
+      styleReferences: storyPack.styleReferences,
+      imageModelPreference: 'nano-banana-pro'
+    };
+
+    const [first] = turnCards;
+    const redrawn = await renderTurnCard({ ...shared, card: first, storedDebug: first.debug });
+    expect(redrawn.cardStepMs.reusedStoredPlan).toBe(true);
+    expect(redrawn.card.debug.illustrationPlanData).toEqual(first.debug?.illustrationPlanData);
+    expect(redrawn.card.debug.illustrationPlan).toBe(first.debug?.illustrationPlan);
+    expect(redrawn.card.debug.selectedStyleRefIndexes).toEqual(first.debug?.selectedStyleRefIndexes);
+
+    const edited = await renderTurnCard({ ...shared, card: { ...first, text: 'A tiny snail' }, storedDebug: first.debug });
+    expect(edited.cardStepMs.reusedStoredPlan).toBe(false);
+
+    const wrong = turnCards.find((card) => !card.isCorrect)!;
+    const replaced = await renderTurnCard({
+      ...shared,
+      mode: 'replace_distractor',
+      card: wrong,
+      storyText: storyPack.storyText,
+      otherAnswers: turnCards.filter((card) => card.id !== wrong.id).map((card) => card.text)
+    });
+    expect(replaced.card).toMatchObject({ id: wrong.id, isCorrect: false, type: 'wrong' });
+    expect(turnCards.map((card) => card.text)).not.toContain(replaced.card.text);
+    expect(replaced.card.imageUrl).toBeTruthy();
+
+    const correct = turnCards.find((card) => card.isCorrect)!;
+    await expect(
+      renderTurnCard({ ...shared, mode: 'replace_distractor', card: correct, storyText: storyPack.storyText })
+    ).rejects.toMatchObject({ code: 'VALIDATION_FAILED' });
+  });
+
+  it('scores characters against their gold refs and redraws cards that drift', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages);
+    const storyFacts = {
+      ...storyPack.storyFacts,
+      characterCatalog: [...(storyPack.storyFacts.characterCatalog || []), { name: 'Mystery Cat', source: 'both' }],
+      characterGoldRefMap: [
+        { characterName: 'Pip', faceRefIndex: 0 },
+        { characterName: 'Mystery Cat', faceRefIndex: 0 }
+      ]
+    };
+    const render = (text: string) =>
+      renderTurnCard({
+        question: 'Who found the red ball?',
+        card: { id: 'opt-0', text, isCorrect: true },
+        storyBrief: storyPack.storyBrief,
+        storyFacts,
+        artStyle: storyPack.artStyle,
+        stylePrimer: storyPack.stylePrimer,
+        styleReferences: storyPack.styleReferences,
+        imageModelPreference: 'nano-banana-pro'
+      });
+
+    const onModel = await render('Pip the fox');
+    expect(onModel.card.debug.characterConsistency).toMatchObject({ score: 90, passed: true, attempts: 1 });
+
+    // The fake checker never scores an unknown character, so the card is redrawn once and still reported as failing.
+    const offModel = await render('Mystery Cat');
+    expect(offModel.card.debug.characterConsistency).toMatchObject({ score: 0, passed: false, attempts: 2 });
+    expect(offModel.card.imageUrl).toBeTruthy();
+  });
+
+  it('pre-builds a question bank in batches with stored choice images', async () => {
+    const { storyPack } = await setupStoryPack(storyFile, styleImages);
+    const buildBatch = (offset: number) =>
+      buildRuntimeQuestionBank({
+        bookId: 'fake-book',
+        qaReadyPackage: storyPack.qaReadyPackage,
+        styleReferences: storyPack.styleReferences,
+        choiceCount: 3,
+        maxQuestions: 4,
+        offset
+      });
+
+    const first = await buildBatch(0);
+    expect(first.difficulty).toBe('easy');
+    expect(first.questions.length + first.skipped.length).toBe(Math.min(2, first.totalQuestions));
+    expect(first.nextOffset).toBe(first.totalQuestions > 2 ? 2 : null);
+    const second = first.nextOffset === null ? null : await buildBatch(first.nextOffset);
+    expect(second?.nextOffset ?? null).toBeNull();
+
+    const questions = [...first.questions, ...(second?.questions || [])];
+    expect(questions.length).toBeGreaterThan(0);
+    for (const question of questions) {
+      expect(question.choices).toHaveLength(3);
+      expect(question.choices.map((choice) => choice.choiceId)).toContain(question.correctChoiceId);
+      for (const choice of question.choices) {
+        expect(choice.imageAssetId).toMatch(/^asset_/);
+        expect((await getStoredAsset(choice.imageAssetId as string)).mimeType).toMatch(/^image\//);
+      }
+    }
+  });
+
+  it('re-reads a single page image into a page text record', async () => {
+    const { page, timings } = await recognizePageText({
+      pageNum: 3,
+      pageImage: { mimeType: 'image/png', data: PLACEHOLDER_PNG },
+      language: 'en'
+    });
+    expect(page.pageNum).toBe(3);
+    expect(page.cleanText.length).toBeGreaterThan(0);
+    expect(page.charCount).toBe(page.cleanText.length);
+    expect(timings.ocrMs).toBeGreaterThanOrEqual(0);
+  });
+
+  it('returns silent PCM for speech', async () => {
+    const speech = await synthesizeSpeech('Pip the fox');
+    expect(speech?.mimeType).toBe('audio/L16;rate=24000');
+    expect(Buffer.from(speech?.audioBase64 || '', 'base64').every((byte) => byte === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildLanguagePromptRule,
+  foldForMatch,
+  getLanguageProfile,
+  getStopWords,
+  getTextDirection,
+  normalizeStoryLanguage,
+  resolveSessionTtsLanguageCode,
+  stripPlacePrefix
+} from '../shared/language.js';
+
+describe('story languages', () => {
+  it('falls back to English for unknown or regional codes', () => {
+    expect(normalizeStoryLanguage('he')).toBe('he');
+    expect(normalizeStoryLanguage('es-MX')).toBe('es');
+    expect(normalizeStoryLanguage('fr')).toBe('en');
+    expect(normalizeStoryLanguage(undefined)).toBe('en');
+  });
+
+  it('spots where-questions in each language', () => {
+    expect(getLanguageProfile('en').wherePattern.test('Where did Pip go?')).toBe(true);
+    expect(getLanguageProfile('en').wherePattern.test('Whereas the fox slept')).toBe(false);
+    expect(getLanguageProfile('es').wherePattern.test('¿Dónde vive el zorro?')).toBe(true);
+    expect(getLanguageProfile('es').wherePattern.test('¿Adónde fue Pip?')).toBe(true);
+    expect(getLanguageProfile('he').wherePattern.test('איפה פיפ מצא את הכדור?')).toBe(true);
+    expect(getLanguageProfile('he').wherePattern.test('מי מצא את הכדור?')).toBe(false);
+    expect(getLanguageProfile('ar').wherePattern.test('أين وجد بيب الكرة؟')).toBe(true);
+  });
+
+  it('keeps Hebrew, Arabic and accented letters when folding text for matching', () => {
+    expect(foldForMatch('הַכַּדּוּר הָאָדֹם!')).toBe('הכדור האדם');
+    expect(foldForMatch('الكُرَةُ الحمراء')).toBe('الكرة الحمراء');
+    expect(foldForMatch('¡En la montaña!')).toBe('en la montana');
+    expect(foldForMatch('The Red Ball.')).toBe('the red ball');
+  });
+
+  it('strips a leading place preposition in the story language only', () => {
+    expect(stripPlacePrefix('In the park', 'en')).toBe('the park');
+    expect(stripPlacePrefix('En el parque', 'es')).toBe('el parque');
+    expect(stripPlacePrefix('על הירח', 'he')).toBe('הירח');
+    expect(stripPlacePrefix('עלה על העץ', 'he')).toBe('עלה על העץ');
+    expect(stripPlacePrefix('في الحديقة', 'ar')).toBe('الحديقة');
+    // "Bajo" is a Spanish preposition but part of the name in an English story.
+    expect(stripPlacePrefix('Bajo Canyon', 'en')).toBe('Bajo Canyon');
+    expect(stripPlacePrefix('Bajo el puente', 'es')).toBe('el puente');
+  });
+
+  it('uses only the story language stop words', () => {
+    expect(getStopWords('en').has('the')).toBe(true);
+    expect(getStopWords('en').has('del')).toBe(false);
+    expect(getStopWords('es').has('del')).toBe(true);
+    expect(getStopWords('fr')).toBe(getStopWords('en'));
+  });
+
+  it('adds a prompt rule only for non-English stories', () => {
+    expect(buildLanguagePromptRule('en', 'every option')).toBe('');
+    expect(buildLanguagePromptRule('he', 'every option')).toContain('Hebrew (עברית)');
+    expect(buildLanguagePromptRule('ar', 'every option')).toContain('Do not translate into English');
+  });
+
+  it('renders Hebrew and Arabic right to left', () => {
+    expect(getTextDirection('he')).toBe('rtl');
+    expect(getTextDirection('ar')).toBe('rtl');
+    expect(getTextDirection('es')).toBe('ltr');
+  });
+
+  it('keeps a preferred speech accent only while it matches the session language', () => {
+    expect(resolveSessionTtsLanguageCode('en-US', 'en')).toBe('en-US');
+    expect(resolveSessionTtsLanguageCode('en-US', 'he')).toBe('auto');
+    expect(resolveSessionTtsLanguageCode(undefined, 'es')).toBe('es-US');
+  });
+});
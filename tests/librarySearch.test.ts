@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildLibraryFacets,
+  EMPTY_LIBRARY_QUERY,
+  searchLibrary,
+  sortLibraryStories,
+  toggleFacetValue
+} from '../features/library/librarySearch';
+import { StoryManifest, StorySearchIndexEntry } from '../types';
+
+const story = (id: string, title: string, createdAt: number, overrides: Partial<StoryManifest> = {}): StoryManifest => ({
+  id,
+  title,
+  createdAt,
+  summary: '',
+  artStyle: 'Watercolor',
+  publisherId: null,
+  ...overrides
+});
+
+const stories = [
+  story('fox', 'Pip the Fox', 1, { summary: 'Pip finds a red ball in the forest.' }),
+  story('owl', 'Night Flight', 2, { summary: 'An owl learns to fly.', artStyle: 'Crayon' }),
+  story('sea', 'Under the Sea', 3, { summary: 'A fish meets a fox-shaped rock.' })
+];
+
+const index: StorySearchIndexEntry[] = [
+  { id: 'fox', characters: ['Pip', 'Grandma Owl'], objects: ['Red Ball'], places: ['Forest'], worldTags: ['woodland'] },
+  { id: 'owl', characters: ['Olly'], objects: [], places: ['Forest'], worldTags: ['night'] },
+  { id: 'sea', characters: ['Finn'], objects: ['Rock'], places: ['Ocean'], worldTags: ['underwater'] }
+];
+
+describe('librarySearch', () => {
+  it('ranks title and facet hits above summary hits', () => {
+    const results = searchLibrary(stories, index, { ...EMPTY_LIBRARY_QUERY, text: 'fox' });
+    expect(results.map((item) => item.id)).toEqual(['fox', 'sea']);
+
+    const owls = searchLibrary(stories, index, { ...EMPTY_LIBRARY_QUERY, text: 'owl' });
+    expect(owls.map((item) => item.id)).toEqual(['fox', 'owl']);
+  });
+
+  it('requires every token and every selected facet', () => {
+    expect(searchLibrary(stories, index, { ...EMPTY_LIBRARY_QUERY, text: 'red forest' }).map((item) => item.id)).toEqual(['fox']);
+
+    const forest = toggleFacetValue({ ...EMPTY_LIBRARY_QUERY, sort: 'title' }, 'places', 'forest');
+    expect(searchLibrary(stories, index, forest).map((item) => item.id)).toEqual(['owl', 'fox']);
+    expect(searchLibrary(stories, index, toggleFacetValue(forest, 'worldTags', 'night')).map((item) => item.id)).toEqual(['owl']);
+    expect(toggleFacetValue(forest, 'places', 'Forest').facets.places).toEqual([]);
+  });
+
+  it('sorts the unfiltered list too', () => {
+    expect(sortLibraryStories(stories, 'title').map((item) => item.id)).toEqual(['owl', 'fox', 'sea']);
+    expect(sortLibraryStories(stories, 'newest').map((item) => item.id)).toEqual(['sea', 'owl', 'fox']);
+    expect(sortLibraryStories([...stories].reverse(), 'oldest').map((item) => item.id)).toEqual(['fox', 'owl', 'sea']);
+    expect(sortLibraryStories(stories, 'relevance')).toBe(stories);
+  });
+
+  it('counts facet values case-insensitively within the given stories', () => {
+    const facets = buildLibraryFacets(stories.slice(0, 2), index);
+    expect(facets.places).toEqual([{ value: 'Forest', count: 2 }]);
+    expect(facets.characters.map((facet) => facet.value)).toEqual(['Grandma Owl', 'Olly', 'Pip']);
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { PageTextRecord, QaReadyBookPackage, StoryFacts, StoryPack } from '../types';
+import { applyPageTextCorrection } from '../features/setup/pageTextReview';
+import { LOW_TEXT_QUALITY_WARNING } from '../shared/pageText.js';
+
+const LONG_PAGE = 'Pip the fox ran through the tall grass looking for the red ball that rolled away from the picnic blanket near the old oak tree.';
+
+const page = (pageNum: number, text: string): PageTextRecord => ({
+  pageNum,
+  rawText: text,
+  cleanText: text,
+  charCount: text.length
+});
+
+const buildPack = (pagesText: PageTextRecord[]): StoryPack => {
+  const storyFacts: StoryFacts = {
+    characters: ['Pip'],
+    characterCatalog: [{ name: 'Pip', source: 'both' }],
+    places: ['Forest'],
+    objects: ['Red Ball'],
+    events: [],
+    setting: 'A forest',
+    worldTags: []
+  };
+  const qaReadyPackage: QaReadyBookPackage = {
+    version: '1.1.0',
+    createdAt: 1700000000000,
+    manifest: {
+      bookId: 'book_pip',
+      title: 'Pip and the Ball',
+      fileHash: 'hash_pip',
+      pageCount: 3,
+      originalFileSize: 2048,
+      mimeType: 'application/pdf',
+      textQuality: 'poor',
+      validationWarnings: [LOW_TEXT_QUALITY_WARNING],
+      normalizedAt: 1700000000000
+    },
+    pagesText,
+    pagesImages: [{ pageNum: 1, imageId: 'img_0001', path: 'pages/1.jpg', styleRefIndex: 0 }],
+    illustrationPages: [1],
+    styleBible: {
+      id: 'style_pip',
+      globalStyleDescription: 'Soft watercolor',
+      palette: ['orange'],
+      lineQuality: 'loose',
+      lighting: 'warm',
+      compositionHabits: [],
+      styleReferenceImageIds: ['img_0001']
+    },
+    entityRecords: [],
+    interactionPairs: [],
+    qaReadyManifest: {
+      styleBibleId: 'style_pip',
+      entityRecordsId: 'entities_pip',
+      pageTextCount: pagesText.length,
+      pageImageCount: 1,
+      illustrationPageCount: 1,
+      textQuality: 'poor',
+      hasGoldRefsPercent: 0,
+      checklist: {
+        normalizedPdf: true,
+        pageImages: true,
+        styleBible: true,
+        entityCatalog: true,
+        mainCharactersGoldRefs: false,
+        cleanTextPerPage: false,
+        allRecurringCharactersGoldRefs: false,
+        keyObjectsGoldRefs: false
+      },
+      notes: ['Rendered 1 page image.', `Warning: ${LOW_TEXT_QUALITY_WARNING}`]
+    }
+  };
+
+  return {
+    summary: 'Pip finds a ball.',
+    artStyle: 'Watercolor',
+    storyBrief: '',
+    storyText: 'Pip ~~ fx',
+    storyFacts,
+    stylePrimer: [],
+    qaReadyPackage
+  };
+};
+
+describe('page text review', () => {
+  it('re-scores text quality and rebuilds story text from corrected pages', () => {
+    const before = buildPack([page(1, LONG_PAGE), page(2, 'Pip ~~'), page(3, 'fx')]);
+    let pack = applyPageTextCorrection(before, { pageNum: 2, cleanText: `  ${LONG_PAGE}  ` });
+    pack = applyPageTextCorrection(pack, { pageNum: 3, cleanText: LONG_PAGE });
+    const qaReadyPackage = pack.qaReadyPackage!;
+
+    expect(qaReadyPackage.pagesText[1]).toEqual({ pageNum: 2, rawText: 'Pip ~~', cleanText: LONG_PAGE, charCount: LONG_PAGE.length });
+    expect(qaReadyPackage.manifest.textQuality).toBe('good');
+    expect(qaReadyPackage.qaReadyManifest.textQuality).toBe('good');
+    expect(qaReadyPackage.qaReadyManifest.checklist.cleanTextPerPage).toBe(true);
+    expect(qaReadyPackage.manifest.validationWarnings).toEqual([]);
+    expect(qaReadyPackage.qaReadyManifest.notes).toEqual(['Rendered 1 page image.']);
+    expect(pack.storyText).toBe([LONG_PAGE, LONG_PAGE, LONG_PAGE].join('\n\n'));
+    // Everything outside the page text is carried over, and the input pack is left untouched.
+    const { pagesText: _pages, manifest: _manifest, qaReadyManifest: _qaManifest, ...rest } = qaReadyPackage;
+    const { pagesText: _beforePages, manifest: _beforeManifest, qaReadyManifest: _beforeQaManifest, ...beforeRest } = before.qaReadyPackage!;
+    expect(rest).toEqual(beforeRest);
+    expect(qaReadyPackage.manifest).toEqual({ ...before.qaReadyPackage!.manifest, textQuality: 'good', validationWarnings: [] });
+    expect(qaReadyPackage.qaReadyManifest.checklist).toEqual({ ...before.qaReadyPackage!.qaReadyManifest.checklist, cleanTextPerPage: true });
+    expect(before.qaReadyPackage?.pagesText[1].cleanText).toBe('Pip ~~');
+  });
+
+  it('adds a page the text pass skipped and keeps fresh OCR text as the raw text', () => {
+    const pack = applyPageTextCorrection(buildPack([page(1, LONG_PAGE), page(3, LONG_PAGE)]), {
+      pageNum: 2,
+      cleanText: 'Pip finds the ball.',
+      rawText: 'Pip finds the\nball.'
+    });
+    const qaReadyPackage = pack.qaReadyPackage!;
+
+    expect(qaReadyPackage.pagesText.map((entry) => entry.pageNum)).toEqual([1, 2, 3]);
+    expect(qaReadyPackage.pagesText[1].rawText).toBe('Pip finds the\nball.');
+    expect(qaReadyPackage.qaReadyManifest.pageTextCount).toBe(3);
+    expect(qaReadyPackage.qaReadyManifest.textQuality).toBe('mixed');
+  });
+
+  it('raises the low text quality warning when pages are cleared', () => {
+    const pack = applyPageTextCorrection(buildPack([page(1, 'fx')]), { pageNum: 1, cleanText: '' });
+    expect(pack.qaReadyPackage?.manifest.validationWarnings).toEqual([LOW_TEXT_QUALITY_WARNING]);
+    expect(pack.storyText).toBe('Pip ~~ fx');
+    expect(() => applyPageTextCorrection(pack, { pageNum: 0, cleanText: 'Pip' })).toThrow('not in this story');
+    expect(() => applyPageTextCorrection({ ...pack, qaReadyPackage: undefined }, { pageNum: 1, cleanText: 'Pip' })).toThrow('no page text');
+  });
+});
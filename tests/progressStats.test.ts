@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { buildProgressReport, classifyQuestionType } from '../features/progress/progressStats';
+import { SessionLogEntry } from '../types';
+
+const entry = (overrides: Partial<SessionLogEntry>): SessionLogEntry => ({
+  id: 'log',
+  childId: 'child-1',
+  storyId: 'story-a',
+  sessionId: 'session-1',
+  createdAt: new Date(2026, 0, 5, 10).getTime(),
+  question: 'Who found the ball?',
+  options: [
+    { id: 'opt-0', text: 'Pip', isCorrect: true, supportLevel: 80 },
+    { id: 'opt-1', text: 'Owl', isCorrect: false, supportLevel: 10 }
+  ],
+  pickedOptionId: 'opt-0',
+  isCorrect: true,
+  ...overrides
+});
+
+describe('progressStats', () => {
+  it('classifies questions by their leading word', () => {
+    expect(classifyQuestionType('  Where is Pip?')).toBe('where');
+    expect(classifyQuestionType('WHY did Pip run?')).toBe('why');
+    expect(classifyQuestionType('Whose ball is it?')).toBe('other');
+    expect(classifyQuestionType('Can you find Pip?')).toBe('other');
+  });
+
+  it('breaks accuracy down by type, story, support level and day', () => {
+    const report = buildProgressReport(
+      [
+        entry({ id: '1' }),
+        entry({ id: '2', question: 'Where did Pip go?', isCorrect: false, pickedOptionId: 'opt-1' }),
+        entry({ id: '3', storyId: 'story-b', createdAt: new Date(2026, 0, 6, 10).getTime() }),
+        entry({
+          id: '4',
+          options: [{ id: 'opt-0', text: 'Pip', isCorrect: true, supportLevel: 20 }],
+          isCorrect: false,
+          pickedOptionId: 'opt-2'
+        }),
+        entry({ id: '5', pickedOptionId: null, isCorrect: null })
+      ],
+      { 'story-a': 'Pip and the Ball' }
+    );
+
+    expect(report.overall).toEqual({ answered: 4, correct: 2, accuracy: 0.5 });
+    expect(report.byQuestionType.map((bucket) => [bucket.key, bucket.correct, bucket.answered])).toEqual([
+      ['who', 2, 3],
+      ['where', 0, 1]
+    ]);
+    expect(report.byStory.map((bucket) => [bucket.label, bucket.answered])).toEqual([
+      ['Pip and the Ball', 3],
+      ['Deleted story', 1]
+    ]);
+    expect(report.bySupportLevel.map((bucket) => [bucket.key, bucket.answered])).toEqual([
+      ['high', 3],
+      ['low', 1]
+    ]);
+    expect(report.overTime.map((bucket) => [bucket.key, bucket.accuracy])).toEqual([
+      ['2026-01-05', 1 / 3],
+      ['2026-01-06', 1]
+    ]);
+  });
+});
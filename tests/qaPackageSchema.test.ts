@@ -0,0 +1,140 @@
+// @vitest-environment node
+import { describe, expect, it } from 'vitest';
+import {
+  getQaPackageVersion,
+  migrateQaReadyPackage,
+  QA_PACKAGE_VERSION,
+  validateQaReadyPackage
+} from '../shared/qaPackageSchema.js';
+import { loadBookPackageRuntime } from '../api/_lib/geminiServer.js';
+
+const buildV1Package = () => ({
+  version: '1.0.0',
+  createdAt: 1,
+  manifest: {
+    bookId: 'book_pip',
+    title: 'Pip and the Ball',
+    fileHash: 'h1',
+    pageCount: 1,
+    originalFileSize: 10,
+    mimeType: 'application/pdf',
+    textQuality: 'good',
+    validationWarnings: [],
+    normalizedAt: 1
+  },
+  pagesText: [{ pageNum: 1, rawText: 'Pip found a red ball.', cleanText: 'Pip found a red ball.' }],
+  pagesImages: [],
+  illustrationPages: [],
+  styleBible: {
+    id: 'style_bible_main',
+    globalStyleDescription: 'Watercolor',
+    palette: [],
+    lineQuality: 'soft',
+    lighting: 'warm',
+    compositionHabits: [],
+    styleReferenceImageIds: []
+  },
+  entityRecords: [
+    {
+      entityId: 'character_pip',
+      name: 'Pip',
+      type: 'character',
+      canonicalDescription: 'Pip from the story',
+      visualAssets: []
+    }
+  ],
+  qaReadyManifest: {
+    styleBibleId: 'style_bible_main',
+    entityRecordsId: 'entity_records_main',
+    pageTextCount: 1,
+    pageImageCount: 0,
+    illustrationPageCount: 0,
+    textQuality: 'good',
+    hasGoldRefsPercent: 0,
+    checklist: {
+      normalizedPdf: true,
+      pageImages: false,
+      styleBible: false,
+      entityCatalog: true,
+      mainCharactersGoldRefs: true,
+      cleanTextPerPage: true,
+      allRecurringCharactersGoldRefs: false,
+      keyObjectsGoldRefs: true
+    },
+    notes: []
+  }
+});
+
+describe('qaPackageSchema', () => {
+  it('upgrades 1.0.0 packages to the current version', () => {
+    const legacy = buildV1Package();
+    expect(validateQaReadyPackage(legacy).valid).toBe(false);
+
+    const migrated = migrateQaReadyPackage(legacy);
+    expect(migrated.version).toBe(QA_PACKAGE_VERSION);
+    expect(migrated.interactionPairs).toEqual([]);
+    expect(migrated.pagesText[0].charCount).toBe(21);
+    expect(migrated.entityRecords[0].aliases).toEqual([]);
+    expect(validateQaReadyPackage(migrated)).toEqual({ valid: true, errors: [] });
+    expect(migrateQaReadyPackage(migrated)).toBe(migrated);
+  });
+
+  it('upgrades snake_case exports through the whole chain', () => {
+    const snake = {
+      book_id: 'book_snake',
+      title: 'Snake Book',
+      pages_text: [{ page_num: 1, raw_text: 'Hello', clean_text: 'Hello', char_count: 5 }],
+      style_bible: {
+        id: 'style_bible_main',
+        global_style_description: 'Crayon',
+        palette: ['red'],
+        line_quality: 'bold',
+        lighting: 'flat',
+        composition_habits: [],
+        style_reference_image_ids: []
+      },
+      entity_records: [],
+      qa_ready_manifest: {
+        style_bible_id: 'style_bible_main',
+        entity_records_id: 'entity_records_main',
+        page_text_count: 1,
+        page_image_count: 0,
+        illustration_page_count: 0,
+        text_quality: 'mixed',
+        has_gold_refs_percent: 0,
+        checklist: buildV1Package().qaReadyManifest.checklist,
+        notes: []
+      }
+    };
+
+    expect(getQaPackageVersion(snake)).toBe('0.0.0');
+    const migrated = migrateQaReadyPackage(snake);
+    expect(migrated.manifest.bookId).toBe('book_snake');
+    expect(migrated.styleBible.globalStyleDescription).toBe('Crayon');
+    expect(validateQaReadyPackage(migrated).errors).toEqual([]);
+  });
+
+  it('reports field-level errors and rejects newer versions', () => {
+    const broken = migrateQaReadyPackage(buildV1Package());
+    broken.manifest.textQuality = 'great';
+    broken.entityRecords[0].type = 'hero';
+    delete broken.styleBible.lighting;
+
+    expect(validateQaReadyPackage(broken).errors).toEqual([
+      { path: 'manifest.textQuality', message: 'must be one of: good, mixed, poor' },
+      { path: 'styleBible.lighting', message: 'is required' },
+      { path: 'entityRecords[0].type', message: 'must be one of: character, object, location, scene' }
+    ]);
+    expect(() => migrateQaReadyPackage({ ...broken, version: '9.0.0' })).toThrow(/newer than supported/);
+  });
+
+  it('surfaces validation errors from loadBookPackageRuntime', async () => {
+    const broken = buildV1Package();
+    broken.manifest.pageCount = -1;
+
+    await expect(loadBookPackageRuntime({ bookId: 'book_pip', qaReadyPackage: broken })).rejects.toMatchObject({
+      code: 'VALIDATION_FAILED',
+      details: { fieldErrors: [{ path: 'manifest.pageCount', message: 'must be >= 0' }] }
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { buildQuestionBankTemplates } from '../api/_lib/questionBank.js';
+
+const entityRecords = [
+  { type: 'character', name: 'Pip' },
+  { type: 'character', name: 'Owl' },
+  { type: 'location', name: 'forest' },
+  { type: 'scene', name: 'river bank' },
+  { type: 'object', name: 'red kite' }
+];
+const pagesText = [{ cleanText: 'Pip finds a red kite.' }];
+
+describe('buildQuestionBankTemplates', () => {
+  it('covers each kind before repeating one and keeps session order', () => {
+    const questions = buildQuestionBankTemplates({ entityRecords, pagesText }, 5);
+    expect(questions.map((question) => question.kind)).toEqual(['who', 'where', 'what', 'sequence', 'feeling']);
+    expect(questions[2].questionText).toBe('What does Pip want?');
+    expect(new Set(questions.map((question) => question.questionId)).size).toBe(5);
+  });
+
+  it('skips questions the package cannot support', () => {
+    const questions = buildQuestionBankTemplates({ entityRecords: [], pagesText: [] });
+    expect(questions.map((question) => question.questionText)).toEqual([
+      'Who is the story about?',
+      'Where does the story happen?'
+    ]);
+  });
+
+  it('clamps the bank size', () => {
+    expect(buildQuestionBankTemplates({ entityRecords, pagesText }, 50)).toHaveLength(11);
+    expect(buildQuestionBankTemplates({ entityRecords, pagesText }, 0)).toHaveLength(8);
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { PageTextRecord, StoryFacts } from '../types';
+import {
+  buildReaderPages,
+  getDefaultPausePages,
+  isPageAdvanceBlocked,
+  scopeStoryFactsToText,
+  truncateStoryTextAtPage
+} from '../features/session/readAlong';
+
+const page = (pageNum: number, cleanText: string): PageTextRecord => ({
+  pageNum,
+  rawText: cleanText,
+  cleanText,
+  charCount: cleanText.length
+});
+
+const pagesText = [page(3, 'Pip finds the kite.'), page(1, 'Pip wakes up.'), page(2, '')];
+
+describe('readAlong', () => {
+  it('pairs rendered pages with their text by page number', () => {
+    expect(buildReaderPages(pagesText, ['img1', 'img2', 'img3', 'img4'])).toEqual([
+      { pageNum: 1, text: 'Pip wakes up.', imageUrl: 'img1' },
+      { pageNum: 2, text: '', imageUrl: 'img2' },
+      { pageNum: 3, text: 'Pip finds the kite.', imageUrl: 'img3' },
+      { pageNum: 4, text: '', imageUrl: 'img4' }
+    ]);
+    expect(buildReaderPages(pagesText, [])).toHaveLength(3);
+  });
+
+  it('truncates the story text at the current page', () => {
+    expect(truncateStoryTextAtPage(pagesText, 2)).toBe('Pip wakes up.');
+    expect(truncateStoryTextAtPage(pagesText, 3)).toBe('Pip wakes up.\n\nPip finds the kite.');
+    expect(truncateStoryTextAtPage([], 3)).toBe('');
+  });
+
+  it('pauses every few pages and on the last page', () => {
+    expect(getDefaultPausePages(10)).toEqual([4, 8, 10]);
+    expect(getDefaultPausePages(8)).toEqual([4, 8]);
+    expect(getDefaultPausePages(0)).toEqual([]);
+  });
+
+  it('keeps only the story facts named in the text read so far', () => {
+    const facts: StoryFacts = {
+      characters: ['Pip', 'Grandma Owl'],
+      characterCatalog: [{ name: 'Pip', source: 'both' }, { name: 'Grandma Owl', source: 'mentioned' }],
+      characterImageMap: [{ characterName: 'Grandma Owl', styleRefIndexes: [2] }],
+      sceneCatalog: [
+        { id: 'scene_1', title: 'Bedroom', aliases: [], describedEvidence: [], illustratedEvidence: [] },
+        { id: 'scene_2', title: 'Hill', aliases: ['hilltop'], describedEvidence: [], illustratedEvidence: [] }
+      ],
+      sceneImageMap: [{ sceneId: 'scene_2', styleRefIndexes: [3], confidence: 0.9 }],
+      places: ['hilltop'],
+      objects: ['kite', 'cake'],
+      events: ['Grandma Owl brings a cake'],
+      setting: 'A windy village.',
+      worldTags: ['village']
+    };
+
+    const scoped = scopeStoryFactsToText(facts, truncateStoryTextAtPage(pagesText, 3));
+    expect(scoped.characters).toEqual(['Pip']);
+    expect(scoped.characterCatalog.map((entry) => entry.name)).toEqual(['Pip']);
+    expect(scoped.characterImageMap).toEqual([]);
+    expect(scoped.objects).toEqual(['kite']);
+    expect(scoped.places).toEqual([]);
+    expect(scoped.sceneCatalog).toEqual([]);
+    expect(scoped.sceneImageMap).toEqual([]);
+    expect(scoped.events).toEqual([]);
+    expect(scoped.setting).toBe('A windy village.');
+  });
+
+  it('holds a pause page until it has been answered', () => {
+    const pausePages = new Set([4]);
+    expect(isPageAdvanceBlocked(4, pausePages, new Set())).toBe(true);
+    expect(isPageAdvanceBlocked(4, pausePages, new Set([4]))).toBe(false);
+    expect(isPageAdvanceBlocked(3, pausePages, new Set())).toBe(false);
+  });
+});
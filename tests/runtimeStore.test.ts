@@ -0,0 +1,106 @@
+// @vitest-environment node
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileRuntimeStore, createMemoryRuntimeStore } from '../api/_lib/runtimeStore.js';
+
+// Each `{ imageDataUrl: 'data:x' }` record serializes to 25 bytes, so two fit under the image cap.
+const limits = { bookLimit: 2, planLimit: 2, assetByteLimit: 1024, imageByteLimit: 60, eventLimit: 3 };
+
+describe('runtimeStore', () => {
+  let dir = '';
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), 'storybuddy-runtime-test-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('keeps books, plans and events across file store instances', async () => {
+    const first = createFileRuntimeStore({ ...limits, dir });
+    await first.setBook('book/one', { bookId: 'book/one', bookPackageHash: 'h1' });
+    await first.setPlan('plan_1', { qaPlanId: 'plan_1', bookId: 'book/one' });
+    await first.setAsset('asset_1', { mimeType: 'image/png', data: 'AAAA' });
+    for (const eventType of ['a', 'b', 'c', 'd']) {
+      await first.appendEvent({ eventType });
+    }
+
+    const second = createFileRuntimeStore({ ...limits, dir });
+    expect(await second.getBook('book/one')).toEqual({ bookId: 'book/one', bookPackageHash: 'h1' });
+    expect(await second.getPlan('plan_1')).toEqual({ qaPlanId: 'plan_1', bookId: 'book/one' });
+    expect(await second.getPlan('missing')).toBeNull();
+    expect(await second.getAsset('asset_1')).toEqual({ mimeType: 'image/png', data: 'AAAA' });
+    expect(await second.hasAsset('asset_1')).toBe(true);
+    expect(await second.hasAsset('asset_2')).toBe(false);
+    expect((await second.listEvents()).map((event) => event.eventType)).toEqual(['b', 'c', 'd']);
+  });
+
+  it('keeps every event appended by concurrent writers while compacting', async () => {
+    const eventLimits = { ...limits, eventLimit: 8 };
+    const writers = [createFileRuntimeStore({ ...eventLimits, dir }), createFileRuntimeStore({ ...eventLimits, dir })];
+    await Promise.all(
+      writers.map((writer, writerIndex) =>
+        Promise.all([0, 1, 2].map((index) => writer.appendEvent({ eventType: `w${writerIndex}-${index}` })))
+      )
+    );
+    const events = await writers[0].listEvents();
+    expect(events.map((event) => event.eventType).sort()).toEqual(['w0-0', 'w0-1', 'w0-2', 'w1-0', 'w1-1', 'w1-2']);
+
+    for (let index = 0; index < 20; index += 1) {
+      await writers[index % 2].appendEvent({ eventType: `late-${index}`, timestamp: index });
+    }
+    expect((await writers[1].listEvents()).map((event) => event.eventType)).toEqual(
+      Array.from({ length: 8 }, (_, index) => `late-${index + 12}`)
+    );
+    expect((await readdir(path.join(dir, 'events'))).length).toBeLessThan(12);
+  });
+
+  it('trims file store plans every few writes rather than on each one', async () => {
+    const store = createFileRuntimeStore({ ...limits, planLimit: 8, dir });
+    for (let index = 0; index < 9; index += 1) {
+      await store.setPlan(`plan_${index}`, { qaPlanId: `plan_${index}` });
+    }
+    expect(await readdir(path.join(dir, 'plans'))).toHaveLength(9);
+
+    await store.setPlan('plan_9', { qaPlanId: 'plan_9' });
+    expect(await readdir(path.join(dir, 'plans'))).toHaveLength(8);
+  });
+
+  it('evicts the oldest entries past the limits', async () => {
+    const store = createMemoryRuntimeStore(limits);
+    await store.setBook('a', { id: 'a' });
+    await store.setBook('b', { id: 'b' });
+    await store.setBook('c', { id: 'c' });
+
+    expect(await store.getBook('a')).toBeNull();
+    expect(await store.getBook('c')).toEqual({ id: 'c' });
+  });
+
+  it('evicts the least recently used generated image', async () => {
+    const store = createMemoryRuntimeStore(limits);
+    await store.setImage('img_a', { imageDataUrl: 'data:a' });
+    await store.setImage('img_b', { imageDataUrl: 'data:b' });
+    await store.getImage('img_a');
+    await store.setImage('img_c', { imageDataUrl: 'data:c' });
+
+    expect(await store.getImage('img_b')).toBeNull();
+    expect(await store.getImage('img_a')).toEqual({ imageDataUrl: 'data:a' });
+  });
+
+  it('evicts generated images by size rather than count', async () => {
+    const large = { imageDataUrl: `data:${'x'.repeat(40)}` };
+    for (const store of [createMemoryRuntimeStore(limits), createFileRuntimeStore({ ...limits, dir })]) {
+      await store.setImage('img_a', { imageDataUrl: 'data:a' });
+      await store.setImage('img_b', { imageDataUrl: 'data:b' });
+      expect(await store.getImage('img_a')).toEqual({ imageDataUrl: 'data:a' });
+
+      await store.setImage('img_large', large);
+      expect(await store.getImage('img_a')).toBeNull();
+      expect(await store.getImage('img_b')).toBeNull();
+      expect(await store.getImage('img_large')).toEqual(large);
+    }
+  });
+});
@@ -27,4 +27,58 @@ describe('turnSessionReducer', () => {
     state = turnSessionReducer(state, { type: 'RESET' });
     expect(state).toEqual(initialTurnSessionState);
   });
+
+  it('merges a streamed card into the current options', () => {
+    let state = turnSessionReducer(initialTurnSessionState, {
+      type: 'SET_OPTIONS',
+      options: [
+        { id: 'opt-0', text: 'Pip', isLoadingImage: true },
+        { id: 'opt-1', text: 'Owl', isLoadingImage: true }
+      ]
+    });
+
+    state = turnSessionReducer(state, {
+      type: 'UPDATE_OPTION',
+      option: { id: 'opt-1', text: 'Owl', isLoadingImage: false, imageUrl: 'data:image/png;base64,x' }
+    });
+
+    expect(state.options[0].isLoadingImage).toBe(true);
+    expect(state.options[1]).toMatchObject({ isLoadingImage: false, imageUrl: 'data:image/png;base64,x' });
+  });
+
+  it('starts a typed turn without transcription and remembers it for retry', () => {
+    const recorded = turnSessionReducer(initialTurnSessionState, {
+      type: 'START',
+      audioBlob: new Blob(['a'], { type: 'audio/webm' })
+    });
+    const state = turnSessionReducer(recorded, { type: 'START_TYPED', question: 'Who found the ball?' });
+
+    expect(state.processingStage).toBe('generating_options');
+    expect(state.lastTypedQuestion).toBe('Who found the ball?');
+    expect(state.lastAudioBlob).toBeNull();
+  });
+
+  it('holds cards for caregiver review and lets the adult swap the correct answer', () => {
+    let state = turnSessionReducer(initialTurnSessionState, {
+      type: 'START_TYPED',
+      question: 'Who found the ball?',
+      requireReview: true
+    });
+    state = turnSessionReducer(state, {
+      type: 'SET_OPTIONS',
+      options: [
+        { id: 'opt-0', text: 'Pip', isLoadingImage: false, isCorrect: false, type: 'wrong' },
+        { id: 'opt-1', text: 'Owl', isLoadingImage: false, isCorrect: true, type: 'correct' }
+      ]
+    });
+    expect(state.awaitingReview).toBe(true);
+
+    state = turnSessionReducer(state, { type: 'SET_CORRECT_OPTION', optionId: 'opt-0' });
+    expect(state.options.map((option) => option.isCorrect)).toEqual([true, false]);
+    expect(state.options.map((option) => option.type)).toEqual(['correct', 'wrong']);
+    expect(turnSessionReducer(state, { type: 'SET_CORRECT_OPTION', optionId: 'missing' })).toBe(state);
+
+    state = turnSessionReducer(state, { type: 'APPROVE_REVIEW' });
+    expect(state.awaitingReview).toBe(false);
+  });
 });
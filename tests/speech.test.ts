@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeSpeechSettings, parsePcmFormat, toSpeechConfig } from '../shared/speech.js';
+
+describe('speech settings', () => {
+  it('reads the sample rate and channels from the returned mime type', () => {
+    expect(parsePcmFormat('audio/L16;rate=24000')).toEqual({ sampleRate: 24000, channels: 1 });
+    expect(parsePcmFormat('audio/pcm; rate=16000; channels=2')).toEqual({ sampleRate: 16000, channels: 2 });
+    expect(parsePcmFormat('audio/L16')).toEqual({ sampleRate: 24000, channels: 1 });
+    expect(parsePcmFormat(undefined)).toEqual({ sampleRate: 24000, channels: 1 });
+  });
+
+  it('falls back to defaults for unknown settings', () => {
+    expect(normalizeSpeechSettings({ voice: 'Puck', speakingRate: 'slow', languageCode: 'fr-FR' })).toEqual({
+      voice: 'Puck',
+      speakingRate: 'slow',
+      languageCode: 'fr-FR'
+    });
+    expect(normalizeSpeechSettings({ voice: 'Robot', speakingRate: 'warp' })).toEqual({
+      voice: 'Kore',
+      speakingRate: 'normal',
+      languageCode: 'en-US'
+    });
+  });
+
+  it('maps settings onto the speech model request', () => {
+    expect(toSpeechConfig(normalizeSpeechSettings({ voice: 'Puck', languageCode: 'ar-EG' }))).toEqual({
+      languageCode: 'ar-EG',
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } }
+    });
+    // Locales the model does not list fall back to the default; `auto` leaves the language to the model.
+    expect(toSpeechConfig(normalizeSpeechSettings({ languageCode: 'en-GB' })).languageCode).toBe('en-US');
+    expect(toSpeechConfig(normalizeSpeechSettings({ languageCode: 'auto' }))).toEqual({
+      voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
+    });
+  });
+});
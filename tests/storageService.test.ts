@@ -1,6 +1,18 @@
 import 'fake-indexeddb/auto';
 import { beforeEach, describe, expect, it } from 'vitest';
-import { getStoryAssets, getStoryManifests, saveStory, updateStoryPublisher } from '../services/storageService';
+import {
+  deleteChildProfile,
+  getChildProfiles,
+  getSessionLog,
+  getStoryAssets,
+  getStoryManifests,
+  getStorySearchIndex,
+  deleteStory,
+  saveChildProfile,
+  saveSessionLogEntry,
+  saveStory,
+  updateStoryPublisher
+} from '../services/storageService';
 import { StoredStory } from '../types';
 
 const DB_NAME = 'StoryBuddyDB';
@@ -103,4 +115,70 @@ describe('storageService migration', () => {
     const regularAgain = await getStoryManifests();
     expect(regularAgain.find((story) => story.id === storyId)?.publisherId).toBeNull();
   });
+
+  it('stores child profiles with per-story session logs', async () => {
+    await saveChildProfile({ id: 'child-1', name: 'Ava', createdAt: 1 });
+    await saveChildProfile({ id: 'child-2', name: 'Ben', createdAt: 2 });
+
+    const baseEntry = {
+      sessionId: 'session-1',
+      question: 'Who found the ball?',
+      options: [{ id: 'opt-0', text: 'Pip', isCorrect: true }],
+      pickedOptionId: 'opt-0',
+      isCorrect: true
+    };
+    await saveSessionLogEntry({ ...baseEntry, id: 'log-2', childId: 'child-1', storyId: 'story-a', createdAt: 20 });
+    await saveSessionLogEntry({ ...baseEntry, id: 'log-1', childId: 'child-1', storyId: 'story-a', createdAt: 10 });
+    await saveSessionLogEntry({ ...baseEntry, id: 'log-3', childId: 'child-1', storyId: 'story-b', createdAt: 30 });
+    await saveSessionLogEntry({ ...baseEntry, id: 'log-4', childId: 'child-2', storyId: 'story-a', createdAt: 40 });
+
+    expect((await getChildProfiles()).map((profile) => profile.name)).toEqual(['Ava', 'Ben']);
+    expect((await getSessionLog('child-1', 'story-a')).map((entry) => entry.id)).toEqual(['log-1', 'log-2']);
+    expect((await getSessionLog('child-1')).map((entry) => entry.id)).toEqual(['log-1', 'log-2', 'log-3']);
+
+    await deleteChildProfile('child-1');
+    expect((await getChildProfiles()).map((profile) => profile.id)).toEqual(['child-2']);
+    expect(await getSessionLog('child-1')).toEqual([]);
+    expect(await getSessionLog('child-2')).toHaveLength(1);
+  });
+
+  it('keeps the search index in step with saved and deleted stories', async () => {
+    await createLegacyRecord();
+    expect(await getStorySearchIndex()).toEqual([
+      { id: 'legacy-1', characters: [], objects: [], places: [], worldTags: [] }
+    ]);
+
+    await saveStory(
+      { id: 'story-2', title: 'Pip', createdAt: 1, summary: 'S', artStyle: 'A', publisherId: null },
+      {
+        id: 'story-2',
+        storyBrief: 'Brief',
+        stylePrimer: [],
+        metadata: {
+          summary: 'S',
+          characters: [],
+          objects: [],
+          storyFacts: {
+            characters: ['Pip', 'pip'],
+            characterCatalog: [],
+            places: ['Forest'],
+            objects: ['Red Ball'],
+            events: [],
+            setting: 'Forest',
+            worldTags: ['woodland']
+          }
+        }
+      }
+    );
+    expect((await getStorySearchIndex()).find((entry) => entry.id === 'story-2')).toEqual({
+      id: 'story-2',
+      characters: ['Pip'],
+      objects: ['Red Ball'],
+      places: ['Forest'],
+      worldTags: ['woodland']
+    });
+
+    await deleteStory('story-2');
+    expect((await getStorySearchIndex()).map((entry) => entry.id)).toEqual(['legacy-1']);
+  });
 });
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_SWITCH_ACCESS,
+  describeSwitchKey,
+  getSwitchAction,
+  nextScanIndex,
+  normalizeSwitchAccess
+} from '../features/session/switchScanning';
+
+describe('switchScanning', () => {
+  it('normalizes stored settings and clamps the scan interval', () => {
+    expect(normalizeSwitchAccess(undefined)).toEqual(DEFAULT_SWITCH_ACCESS);
+    expect(normalizeSwitchAccess({ mode: 'auto_scan', intervalMs: 50 })).toMatchObject({ mode: 'auto_scan', intervalMs: 1000 });
+    expect(normalizeSwitchAccess({ mode: 'bogus' as never, intervalMs: 60000 })).toMatchObject({ mode: 'off', intervalMs: 10000 });
+  });
+
+  it('cycles through cards and maps switches to actions per mode', () => {
+    expect([nextScanIndex(-1, 3), nextScanIndex(0, 3), nextScanIndex(2, 3), nextScanIndex(0, 0)]).toEqual([0, 1, 0, -1]);
+
+    const auto = normalizeSwitchAccess({ mode: 'auto_scan' });
+    expect(getSwitchAction(auto, 'Space')).toBe('select');
+    expect(getSwitchAction(auto, 'Enter')).toBeNull();
+
+    const step = normalizeSwitchAccess({ mode: 'step_scan', selectKey: 'KeyJ', advanceKey: 'KeyF' });
+    expect(getSwitchAction(step, 'KeyF')).toBe('advance');
+    expect(getSwitchAction(step, 'KeyJ')).toBe('select');
+    expect(getSwitchAction(normalizeSwitchAccess({}), 'Space')).toBeNull();
+    expect(describeSwitchKey('KeyJ')).toBe('J');
+  });
+});
@@ -5,6 +5,9 @@ export interface FileData {
 
 export type ImageModelPreference = 'nano-banana-pro' | 'nano-banana';
 
+// The language a book is written in; sessions default to it but a parent can switch.
+export type StoryLanguage = 'en' | 'es' | 'he' | 'ar';
+
 export type StyleReferenceKind = 'scene' | 'character' | 'object';
 export type StyleReferenceSource = 'pdf_page' | 'upload' | 'crop' | 'generated';
 
@@ -78,6 +81,7 @@ export interface StoryMetadata {
   artStyle?: string;
   storyBrief?: string;
   storyText?: string;
+  language?: StoryLanguage; // defaults to 'en'
   qaReadyPackage?: QaReadyBookPackage;
   storyFacts?: StoryFacts;
 }
@@ -106,11 +110,13 @@ export interface StoryPack {
   artStyle: string;
   storyBrief: string;
   storyText?: string;
+  language?: StoryLanguage;
   qaReadyPackage?: QaReadyBookPackage;
   storyFacts: StoryFacts;
   coverImage?: string | null;
   stylePrimer: FileData[];
   styleReferences?: StyleReferenceAsset[];
+  questionBank?: QuestionBank;
 }
 
 export interface StoryFacts {
@@ -207,17 +213,45 @@ export interface SelectedStyleRefDebug {
   confidence?: number;
 }
 
+export interface CharacterConsistencyScore {
+  characterName: string;
+  score: number; // 0-100 against the character's gold refs and trait locks
+  missingTraits: string[];
+  violatedTraits: string[];
+}
+
+// Post-generation check of a card image; `score` is the weakest character's score.
+export interface CharacterConsistencyCheck {
+  score: number;
+  passed: boolean;
+  minScore: number;
+  attempts: number;
+  characters: CharacterConsistencyScore[];
+}
+
+// The illustration agent's JSON output; kept on the card so a redraw can reuse it.
+export interface IllustrationPlan {
+  scene_description: string;
+  must_include: { scenes: string[]; characters: string[]; objects: string[] };
+  must_avoid: { entities: string[] };
+  composition_notes: string;
+}
+
 export interface TurnCardDebug {
+  illustratedText?: string; // the card text the plan and picture were made for
   selectedStyleRefIndexes?: number[];
   selectedStyleRefs?: SelectedStyleRefDebug[];
   selectedParticipants?: TurnContextParticipants;
   answerAgentPrompt?: string;
   answerAgentRaw?: string;
   illustrationAgentPrompt?: string;
-  illustrationPlan?: string;
+  illustrationPlan?: string; // readable summary of illustrationPlanData
+  illustrationPlanData?: IllustrationPlan;
   imagePrompt?: string;
   imageModel?: string;
   imageGenerationError?: string;
+  characterConsistency?: CharacterConsistencyCheck;
+  characterConsistencyError?: string;
 }
 
 export interface StoryCharacterFact {
@@ -235,6 +269,15 @@ export interface StoryManifest {
   publisherId?: string | null;
 }
 
+// Lightweight per-story facet terms so library search never loads StoryAssets blobs.
+export interface StorySearchIndexEntry {
+  id: string;
+  characters: string[];
+  objects: string[];
+  places: string[];
+  worldTags: string[];
+}
+
 export interface Publisher {
   id: string;
   name: string;
@@ -242,6 +285,77 @@ export interface Publisher {
   coverImage?: string;
 }
 
+// auto_scan: one switch, cards advance on a timer. step_scan: two switches, one advances and one selects.
+export type SwitchScanMode = 'off' | 'auto_scan' | 'step_scan';
+
+export interface SwitchAccessSettings {
+  mode: SwitchScanMode;
+  intervalMs: number;
+  selectKey: string; // KeyboardEvent.code, e.g. 'Space'
+  advanceKey: string;
+  speakOnHighlight: boolean;
+}
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type TtsVoice = 'Kore' | 'Puck' | 'Aoede' | 'Leda' | 'Charon' | 'Fenrir' | 'Orus' | 'Zephyr';
+export type TtsSpeakingRate = 'slow' | 'normal' | 'fast';
+// `option` keeps card labels short; `narration` allows a whole read-along page.
+export type TtsPurpose = 'option' | 'narration';
+
+export interface SpeechSettings {
+  voice: TtsVoice;
+  speakingRate: TtsSpeakingRate;
+  languageCode: string;
+}
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  createdAt: number;
+  switchAccess?: SwitchAccessSettings;
+  choiceCount?: number;
+  adaptiveDifficulty?: boolean; // defaults to on
+  speech?: SpeechSettings;
+  caregiverReview?: boolean; // an adult checks each set of cards before the child sees them
+}
+
+export interface SessionLogOption {
+  id: string;
+  text: string;
+  isCorrect?: boolean;
+  supportLevel?: number;
+}
+
+// One change an adult made to a turn's cards; `before`/`after` are card text or the correct option id.
+export type CaregiverEditKind = 'text' | 'correct' | 'image' | 'replace';
+
+export interface CaregiverEdit {
+  kind: CaregiverEditKind;
+  optionId: string;
+  before?: string;
+  after?: string;
+  at: number;
+}
+
+export interface SessionLogEntry {
+  id: string;
+  childId: string;
+  storyId: string;
+  sessionId: string;
+  createdAt: number;
+  question: string;
+  options: SessionLogOption[];
+  pickedOptionId: string | null;
+  pickedText?: string;
+  isCorrect: boolean | null;
+  answeredAt?: number;
+  timings?: PipelineTimings | null;
+  difficulty?: Difficulty;
+  caregiverEdits?: CaregiverEdit[];
+  reviewedAt?: number;
+}
+
 export interface StoryAssets {
   id: string;
   storyBrief: string;
@@ -249,6 +363,27 @@ export interface StoryAssets {
   styleReferences?: StyleReferenceAsset[];
   pdfData?: FileData;
   metadata: StoryMetadata;
+  questionBank?: QuestionBank;
+}
+
+// One page of the read-along reader: the rendered PDF page plus its extracted text.
+export interface ReaderPage {
+  pageNum: number;
+  text: string;
+  imageUrl?: string;
+}
+
+export interface StoryBundleEntry {
+  manifest: StoryManifest;
+  assets: StoryAssets;
+}
+
+export interface StoryBundle {
+  format: 'storybuddy-story-bundle';
+  version: number;
+  exportedAt: number;
+  publisher: Publisher | null;
+  stories: StoryBundleEntry[];
 }
 
 export interface SetupTimings {
@@ -277,6 +412,9 @@ export interface PipelineTimings {
       selectRefsMs: number;
       illustrationPlanMs: number;
       imageGenerationMs: number;
+      imageCacheHit?: boolean;
+      reusedStoredPlan?: boolean;
+      consistencyCheckMs?: number;
       totalMs: number;
     }
   >;
@@ -286,6 +424,19 @@ export interface SetupStoryRequest {
   storyFile: FileData;
   styleImages: FileData[];
   imageModelPreference?: ImageModelPreference;
+  language?: StoryLanguage;
+}
+
+// One page re-read from its rendered image during setup's page-text review.
+export interface PageTextRequest {
+  pageNum: number;
+  pageImage: FileData;
+  language?: StoryLanguage;
+}
+
+export interface PageTextResponse {
+  page: PageTextRecord;
+  timings: { ocrMs: number };
 }
 
 export interface SetupStoryResponse {
@@ -294,20 +445,124 @@ export interface SetupStoryResponse {
   payloadBytes: number;
 }
 
-export interface TurnRequest {
-  audioBase64: string;
+export type ApiErrorCode =
+  | 'METHOD_NOT_ALLOWED'
+  | 'INVALID_JSON'
+  | 'VALIDATION_FAILED'
+  | 'NOT_FOUND'
+  | 'ASSET_MISSING'
+  | 'STORY_NOT_READY'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'UPSTREAM_RATE_LIMITED'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'CONFIG_ERROR'
+  | 'INTERNAL'
+  | 'NETWORK_ERROR';
+
+export interface FieldValidationError {
+  path: string;
+  message: string;
+}
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  message: string;
+  retryable: boolean;
+  details?: {
+    fieldErrors?: FieldValidationError[];
+    missingAssetIds?: string[];
+    [key: string]: unknown;
+  };
+}
+
+export interface ApiErrorResponse {
+  error: ApiErrorBody;
+}
+
+// Stands in for inline base64 once the bytes have been uploaded to /api/assets-upload.
+export interface AssetRef {
+  assetId: string;
   mimeType: string;
+}
+
+export type StyleReferenceAssetRef = Omit<StyleReferenceAsset, 'data'> & AssetRef;
+
+export interface UploadedAsset extends FileData {
+  assetId: string;
+}
+
+export interface AssetCheckRequest {
+  assetIds: string[];
+}
+
+export interface AssetCheckResponse {
+  missingAssetIds: string[];
+}
+
+export interface AssetGetRequest {
+  assetId: string;
+}
+
+export interface AssetGetResponse extends FileData {
+  assetId: string;
+}
+
+export interface AssetUploadRequest {
+  assets: UploadedAsset[];
+}
+
+export interface AssetUploadResponse {
+  storedAssetIds: string[];
+}
+
+// Send either the recorded audio or a typed questionText; typed questions skip transcription.
+export interface TurnRequest {
+  audioBase64?: string;
+  mimeType?: string;
+  questionText?: string;
+  choiceCount?: number; // 2-6, defaults to 3
+  difficulty?: Difficulty;
+  language?: StoryLanguage;
   storyText: string;
-  storyPdf?: FileData;
+  storyPdf?: FileData | AssetRef;
   imageModelPreference?: ImageModelPreference;
   storyBrief: string;
   storyFacts?: StoryFacts;
   artStyle: string;
-  stylePrimer: FileData[];
-  styleReferences?: StyleReferenceAsset[];
+  stylePrimer: (FileData | AssetRef)[];
+  styleReferences?: (StyleReferenceAsset | StyleReferenceAssetRef)[];
   history: ChatTurn[];
 }
 
+export type TurnCardMode = 'image' | 'replace_distractor';
+
+// The debug parts a redraw can reuse instead of planning the card again.
+export type ReusableTurnCardDebug = Pick<
+  TurnCardDebug,
+  'illustratedText' | 'illustrationAgentPrompt' | 'illustrationPlanData' | 'selectedStyleRefIndexes' | 'selectedParticipants'
+>;
+
+export interface TurnCardRequest {
+  mode?: TurnCardMode;
+  question: string;
+  card: Pick<Option, 'id' | 'text' | 'isCorrect' | 'renderMode'> & { debug?: ReusableTurnCardDebug };
+  otherAnswers?: string[];
+  storyText?: string;
+  difficulty?: Difficulty;
+  language?: StoryLanguage;
+  imageModelPreference?: ImageModelPreference;
+  storyBrief: string;
+  storyFacts?: StoryFacts;
+  artStyle: string;
+  stylePrimer: (FileData | AssetRef)[];
+  styleReferences?: (StyleReferenceAsset | StyleReferenceAssetRef)[];
+}
+
+export interface TurnCardResponse {
+  card: Option;
+  cardStepMs: NonNullable<PipelineTimings['cardStepMsById']>[string];
+}
+
 export interface TurnResponse {
   question: string;
   cards: Option[];
@@ -315,10 +570,18 @@ export interface TurnResponse {
   payloadBytes: number;
 }
 
+export type TurnStreamEvent =
+  | { type: 'question'; question: string }
+  | { type: 'options'; cards: Option[]; optionsMs: number }
+  | { type: 'card'; card: Option; cardStepMs?: NonNullable<PipelineTimings['cardStepMsById']>[string] }
+  | ({ type: 'done' } & TurnResponse)
+  | { type: 'error'; error: ApiErrorBody };
+
 export enum AppMode {
   LIBRARY = 'LIBRARY',
   SETUP = 'SETUP',
   STORY = 'STORY',
+  DASHBOARD = 'DASHBOARD',
 }
 
 export type ProcessingStage = 'idle' | 'transcribing' | 'generating_options' | 'generating_images' | 'completed' | 'error';
@@ -430,7 +693,7 @@ export interface QaReadyBookPackage {
   illustrationPages: number[];
   styleBible: StyleBibleRecord;
   entityRecords: EntityRecord[];
-  interactionPairs?: StoryInteractionPair[];
+  interactionPairs: StoryInteractionPair[];
   qaReadyManifest: QaReadyManifest;
 }
 
@@ -451,11 +714,17 @@ export interface RuntimeLoadBookResponse {
   style_ref_image_id_count: number;
 }
 
+// Runtime plans use the first N letters for N choices (2-6, default 3).
+export type RuntimeChoiceId = 'A' | 'B' | 'C' | 'D' | 'E' | 'F';
+
 export interface RuntimePlanChoice {
-  choice_id: 'A' | 'B' | 'C';
+  choice_id: RuntimeChoiceId;
   answer_text: string;
 }
 
+// How a question mention was tied to a book entity, strongest first (see api/_lib/entityResolver.js).
+export type EntityMatchMethod = 'alias_exact' | 'alias_stem' | 'alias_phonetic' | 'alias_fuzzy';
+
 export interface RuntimePlanResponse {
   qa_plan_id: string;
   session_id: string;
@@ -463,13 +732,13 @@ export interface RuntimePlanResponse {
   question_text: string;
   choices: RuntimePlanChoice[];
   internal: {
-    correct_choice_id: 'A' | 'B' | 'C';
+    correct_choice_id: RuntimeChoiceId;
   };
   debug?: {
     resolvedQuestionEntities?: Array<{
       entityId: string;
       confidence: number;
-      matchMethod: string;
+      matchMethod: EntityMatchMethod;
       matchedValue: string;
     }>;
     unmatchedMentions?: string[];
@@ -477,10 +746,11 @@ export interface RuntimePlanResponse {
 }
 
 export interface RuntimeRenderImage {
-  choice_id: 'A' | 'B' | 'C';
+  choice_id: RuntimeChoiceId;
   image_id: string;
   storage_uri: string;
   image_data_url: string | null;
+  consistency_score: number | null;
   error: string | null;
 }
 
@@ -503,6 +773,78 @@ export interface RuntimeQuizResponse {
     }
   >;
   internal: {
-    correct_choice_id: 'A' | 'B' | 'C';
+    correct_choice_id: RuntimeChoiceId;
   };
 }
+
+export type QuestionBankKind = 'who' | 'where' | 'what' | 'sequence' | 'feeling';
+
+export interface RuntimeQuestionBankRequest {
+  book_id: string;
+  qa_ready_package?: QaReadyBookPackage;
+  style_references?: StyleReferenceAsset[];
+  difficulty?: Difficulty;
+  language?: StoryLanguage;
+  choice_count?: number;
+  max_questions?: number;
+  offset?: number;
+  batch_size?: number;
+}
+
+// One batch of the bank; request again from `next_offset` until it is null.
+export interface RuntimeQuestionBankResponse {
+  book_id: string;
+  difficulty: Difficulty;
+  choice_count: number;
+  created_at: number;
+  total_questions: number;
+  next_offset: number | null;
+  questions: Array<{
+    question_id: string;
+    kind: QuestionBankKind;
+    question_text: string;
+    qa_plan_id: string;
+    correct_choice_id: RuntimeChoiceId;
+    choices: Array<{
+      choice_id: RuntimeChoiceId;
+      answer_text: string;
+      image_asset_id: string | null;
+    }>;
+  }>;
+  skipped: Array<{
+    question_id: string;
+    question_text: string;
+    error: string;
+  }>;
+}
+
+export interface QuestionBankChoice {
+  choiceId: RuntimeChoiceId;
+  text: string;
+  imageUrl?: string;
+}
+
+export interface QuestionBankEntry {
+  id: string;
+  kind: QuestionBankKind;
+  question: string;
+  correctChoiceId: RuntimeChoiceId;
+  choices: QuestionBankChoice[];
+}
+
+// Pre-planned questions with rendered cards, saved with the story so a session needs no live generation.
+export interface QuestionBank {
+  createdAt: number;
+  // The level the choices were built at; banks saved before it was recorded were built at the runtime default, `easy`.
+  difficulty?: Difficulty;
+  choiceCount: number;
+  questions: QuestionBankEntry[];
+  skipped?: QuestionBankSkipped[];
+}
+
+// A bank question that could not be planned or rendered, kept so setup can say which ones are missing.
+export interface QuestionBankSkipped {
+  id: string;
+  question: string;
+  error: string;
+}